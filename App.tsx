@@ -1,32 +1,100 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { AppMode } from './types';
 import HomeScreen from './components/HomeScreen';
 import FastMode from './components/FastMode';
+import ObstacleMode from './components/ObstacleMode';
 import SceneDescriptorMode from './components/SceneDescriptorMode';
 import MapsMode from './components/MapsMode';
+import SettingsScreen from './components/SettingsScreen';
+import VoiceCommandIndicator from './components/VoiceCommandIndicator';
+import FrameReplayPanel from './components/FrameReplayPanel';
+import { getSettingsStore } from './utils/settings';
+import { haptics } from './utils/haptics';
+import { useTranslation } from './hooks/useTranslation';
+import { useVoiceCommandProvider, VoiceCommandContext } from './hooks/useVoiceCommands';
+import { GestureContext, useGestureProvider } from './hooks/useGestures';
+import { useSettings } from './hooks/useSettings';
+import { currentTranslator } from './utils/i18n';
+import { repeatLast, speak } from './utils/speech';
 
 function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.HOME);
 
+  // Haptics are used by every mode, so their settings are applied app-wide
+  useEffect(() => {
+    const store = getSettingsStore();
+    haptics.configure(store.get().haptics);
+    return store.subscribe(settings => haptics.configure(settings.haptics));
+  }, []);
+
+  // Lets screen readers pick the right pronunciation for the UI language
+  const { info } = useTranslation();
+  useEffect(() => {
+    document.documentElement.lang = info.speechLang;
+  }, [info]);
+
+  const voice = useVoiceCommandProvider(setMode);
+
+  // Gestures not taken by the mode on screen
+  const gestures = useGestureProvider((gesture) => {
+    switch (gesture) {
+      case 'longPress':
+        voice.listen();
+        break;
+      case 'swipeDown':
+        setMode(AppMode.HOME);
+        break;
+      case 'twoFingerTap':
+        if (!repeatLast()) speak(currentTranslator().t('voice.nothingToRepeat'), { prompt: true });
+        break;
+    }
+  });
+
+  const { settings } = useSettings();
+  useEffect(() => {
+    document.documentElement.classList.toggle('high-contrast', settings.accessibility.highContrast);
+  }, [settings.accessibility.highContrast]);
+
+  // Each screen opens with focus on its heading, so screen readers announce
+  // where the user is instead of staying on a button that no longer exists
+  const mainRef = useRef<HTMLElement>(null);
+  useEffect(() => {
+    const main = mainRef.current;
+    if (!main) return;
+    const target = main.querySelector<HTMLElement>('h1') ?? main;
+    if (target.tabIndex < 0 && !target.hasAttribute('tabindex')) target.tabIndex = -1;
+    target.focus();
+  }, [mode]);
+
   const renderMode = () => {
     switch (mode) {
       case AppMode.HOME:
         return <HomeScreen setMode={setMode} />;
       case AppMode.FAST:
         return <FastMode setMode={setMode} />;
+      case AppMode.OBSTACLE:
+        return <ObstacleMode setMode={setMode} />;
       case AppMode.SCENE_DESCRIPTOR:
         return <SceneDescriptorMode setMode={setMode} />;
       case AppMode.MAPS:
         return <MapsMode setMode={setMode} />;
+      case AppMode.SETTINGS:
+        return <SettingsScreen setMode={setMode} />;
       default:
         return <HomeScreen setMode={setMode} />;
     }
   };
 
   return (
-    <main>
-      {renderMode()}
-    </main>
+    <VoiceCommandContext.Provider value={voice}>
+      <GestureContext.Provider value={gestures.context}>
+        <main ref={mainRef} {...gestures.bindings}>
+          {renderMode()}
+        </main>
+        <VoiceCommandIndicator state={voice.state} />
+        {import.meta.env.DEV && <FrameReplayPanel />}
+      </GestureContext.Provider>
+    </VoiceCommandContext.Provider>
   );
 }
 
@@ -0,0 +1,42 @@
+import React from 'react';
+import { UseCameraResult } from '../hooks/useCamera';
+import { BoltIcon, CameraSwitchIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CameraControlsProps {
+  camera: UseCameraResult;
+  className?: string;
+}
+
+// Camera switch and torch buttons, shown only when they would do something.
+const CameraControls: React.FC<CameraControlsProps> = ({ camera, className = '' }) => {
+  const { t } = useTranslation();
+  const canSwitch = camera.devices.length > 1;
+  if (!canSwitch && !camera.torchSupported) return null;
+
+  return (
+    <div className={`flex gap-2 ${className}`}>
+      {canSwitch && (
+        <button
+          onClick={camera.nextCamera}
+          className="p-2 bg-gray-800 bg-opacity-50 rounded-full"
+          aria-label={t('camera.switch')}
+        >
+          <CameraSwitchIcon className="w-6 h-6 text-white" />
+        </button>
+      )}
+      {camera.torchSupported && (
+        <button
+          onClick={() => camera.setTorch(!camera.torchOn)}
+          className={`p-2 rounded-full ${camera.torchOn ? 'bg-yellow-400' : 'bg-gray-800 bg-opacity-50'}`}
+          aria-label={camera.torchOn ? t('camera.torchOff') : t('camera.torchOn')}
+          aria-pressed={camera.torchOn}
+        >
+          <BoltIcon className={`w-6 h-6 ${camera.torchOn ? 'text-black' : 'text-white'}`} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CameraControls;
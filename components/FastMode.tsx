@@ -1,238 +1,368 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { BoundingBox, AppMode } from '../types';
-import { CameraIcon, ArrowLeftIcon } from './icons';
-
-// Declare cocoSsd and its types from the global scope, as it's loaded via <script>
-declare const cocoSsd: {
-  load: () => Promise<cocoSsd.ObjectDetection>;
-};
-
-namespace cocoSsd {
-  export interface ObjectDetection {
-    detect(img: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement): Promise<DetectedObject[]>;
-  }
-  export interface DetectedObject {
-    bbox: [number, number, number, number]; // [x, y, width, height] in pixels
-    class: string;
-    score: number;
-  }
-}
+import { BoundingBox, AppMode, DetectedObject } from '../types';
+import { ArrowLeftIcon, PauseIcon, PlayIcon, SpeakerWaveIcon, SpeakerXMarkIcon } from './icons';
+import { haptics, cuesForBoxes } from '../utils/haptics';
+import { DetectionLoop } from '../utils/detectionLoop';
+import { ObjectTracker, Track } from '../utils/tracker';
+import { describeObject, rankByRelevance, phraseObject, FrameSize } from '../utils/spatial';
+import { getDetector, detectionProfileFor, Detector } from '../utils/detectors';
+import { checkModelAvailability, ModelAvailability } from '../utils/offline';
+import { useCamera } from '../hooks/useCamera';
+import CameraControls from './CameraControls';
+import { Sonifier, nearnessFromDistance, panFromCenterX } from '../utils/sonification';
+import { useSettings } from '../hooks/useSettings';
+import { speak, stopSpeaking } from '../utils/speech';
+import { useTranslation } from '../hooks/useTranslation';
+import { currentTranslator, Translator } from '../utils/i18n';
+import { useVoiceCommandHandler } from '../hooks/useVoiceCommands';
+import { gestureSurface, useGestureHandler } from '../hooks/useGestures';
 
 interface FastModeProps {
   setMode: (mode: AppMode) => void;
 }
 
+interface DetectionResult {
+  predictions: DetectedObject[];
+  frameWidth: number;
+  frameHeight: number;
+}
+
+// Announce at most this many objects at once so the user isn't flooded
+const MAX_ANNOUNCED = 3;
+
+const describeTracks = (tracks: Track[], frame: FrameSize, translator: Translator): string[] =>
+  rankByRelevance(tracks.map(t => describeObject({ class: t.label, bbox: t.bbox }, frame)))
+    .slice(0, MAX_ANNOUNCED)
+    .map(d => phraseObject(d, translator));
+
+// Generate an announcement for text-to-speech from this frame's track changes,
+// nearest and most central objects first
+const summarize = (appeared: Track[], approaching: Track[], frame: FrameSize, translator: Translator): string | null => {
+  const sentences: string[] = [];
+  const approachingPhrases = describeTracks(approaching, frame, translator);
+  if (approachingPhrases.length > 0) {
+    sentences.push(translator.t('fast.approaching', { objects: translator.list(approachingPhrases) }));
+  }
+  const newPhrases = describeTracks(appeared, frame, translator);
+  if (newPhrases.length > 0) {
+    sentences.push(translator.t('fast.new', { objects: translator.list(newPhrases) }));
+  }
+  return sentences.length > 0 ? sentences.join(' ') : null;
+};
+
 const FastMode: React.FC<FastModeProps> = ({ setMode }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [boxes, setBoxes] = useState<BoundingBox[]>([]);
 
-  const [model, setModel] = useState<cocoSsd.ObjectDetection | null>(null);
+  const [detector, setDetector] = useState<Detector | null>(null);
   const [isLoadingModel, setIsLoadingModel] = useState(true);
-  const [isDetecting, setIsDetecting] = useState(false);
+  const [modelAvailability, setModelAvailability] = useState<ModelAvailability | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+
+  const { settings, update } = useSettings();
+  const { t } = useTranslation();
+  const { targetFps, earcons: earconsEnabled, earconVolume } = settings.fastMode;
+
+  const loopRef = useRef<DetectionLoop<DetectionResult> | null>(null);
+  const trackerRef = useRef(new ObjectTracker());
+  // What is on screen right now, for describing it on request
+  const inViewRef = useRef<{ tracks: Track[]; frame: FrameSize }>({ tracks: [], frame: { width: 0, height: 0 } });
+
+  // Positional tones for the most relevant object, alongside speech
+  const earconsEnabledRef = useRef(earconsEnabled);
+  const sonifierRef = useRef<Sonifier | null>(null);
 
-  // Load the COCO-SSD model on component mount
   useEffect(() => {
+    earconsEnabledRef.current = earconsEnabled;
+  }, [earconsEnabled]);
+
+  useEffect(() => {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    sonifierRef.current = new Sonifier(ctx);
+    return () => {
+      sonifierRef.current = null;
+      if (ctx.state !== 'closed') ctx.close();
+    };
+  }, []);
+
+  // Runs after the effect above on mount, so the first tone already uses it
+  useEffect(() => {
+    sonifierRef.current?.setVolume(earconVolume);
+  }, [earconVolume]);
+
+  // Load the detector configured for this mode on component mount
+  useEffect(() => {
+    let cancelled = false;
     const loadModel = async () => {
       setIsLoadingModel(true);
       try {
-        // Ensure cocoSsd is available on the window object
-        if ((window as any).cocoSsd) {
-          const loadedModel = await (window as any).cocoSsd.load();
-          setModel(loadedModel);
-        } else {
-          throw new Error("coco-ssd model not loaded");
+        const candidate = getDetector(detectionProfileFor(AppMode.FAST).detectorId);
+        // Work out up front whether this load will come from the cache, the network, or nowhere
+        const availability = candidate.isLoaded ? 'cached' : await checkModelAvailability(candidate.modelUrls);
+        if (cancelled) return;
+        setModelAvailability(availability);
+        if (availability === 'unavailable') {
+          setError(currentTranslator().t('fast.error.offlineModel'));
+          return;
         }
+        await candidate.load();
+        if (!cancelled) setDetector(candidate);
       } catch (err) {
         console.error("Failed to load model:", err);
-        setError("Could not load the object detection model. Please try again later.");
+        if (cancelled) return;
+        if (!navigator.onLine) {
+          setModelAvailability('unavailable');
+          setError(currentTranslator().t('fast.error.offlineModel'));
+        } else {
+          setError(currentTranslator().t('fast.error.loadFailed'));
+        }
       } finally {
-        setIsLoadingModel(false);
+        if (!cancelled) setIsLoadingModel(false);
       }
     };
     loadModel();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const camera = useCamera(videoRef, { mode: AppMode.FAST });
+  const { readFrame } = camera;
+
+  // Tracks from the old source would colour the first frames of a new one,
+  // and a replay must start from nothing to give the same announcements
+  useEffect(() => {
+    trackerRef.current.reset();
+  }, [camera.frameSource]);
+
+  useEffect(() => {
+    if (camera.errorMessage) {
+      setError(currentTranslator().t('common.checkPermissions', { error: camera.errorMessage }));
+    }
+  }, [camera.errorMessage]);
+
+  useEffect(() => {
+    return () => {
+      // Cleanup on unmount
+      stopSpeaking(); // Stop any speech on exit
+      haptics.stop();
+    };
   }, []);
 
-  const startCamera = useCallback(async () => {
-    // Stop any existing stream before starting a new one to prevent resource leaks
-    if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
+  const handleDetections = useCallback(({ predictions, frameWidth, frameHeight }: DetectionResult) => {
+    const { visible, appeared, startedApproaching } = trackerRef.current.update(predictions);
+
+    // Convert tracks to our BoundingBox format with normalized coordinates
+    const newBoxes: BoundingBox[] = visible.map(t => ({
+      id: t.id,
+      label: `${t.label} (${Math.round(t.score * 100)}%)`,
+      x: t.bbox[0] / frameWidth,
+      y: t.bbox[1] / frameHeight,
+      width: t.bbox[2] / frameWidth,
+      height: t.bbox[3] / frameHeight,
+    }));
+    setBoxes(newBoxes);
+
+    const frame = { width: frameWidth, height: frameHeight };
+    inViewRef.current = { tracks: visible, frame };
+    const sonifier = sonifierRef.current;
+    if (earconsEnabledRef.current && sonifier && visible.length > 0) {
+      const [nearest] = rankByRelevance(visible.map(t => describeObject({ class: t.label, bbox: t.bbox }, frame)));
+      sonifier.playIfIdle({
+        className: nearest.label,
+        pan: panFromCenterX(nearest.centerX),
+        nearness: nearnessFromDistance(nearest.distanceMeters),
+      });
     }
 
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play(); // Ensure video plays
-      }
-    } catch (err) {
-      console.error("Error accessing camera:", err);
-      setError("Could not access camera. Please check permissions.");
+    // Each object is announced once when it appears, and again only if it starts approaching
+    const summary = summarize(appeared, startedApproaching, frame, currentTranslator());
+    if (summary) {
+      speak(summary, { interrupt: false });
+      haptics.playSequence(cuesForBoxes(newBoxes));
     }
   }, []);
 
+  // Run the detector continuously on the live video once the model is ready
   useEffect(() => {
-    startCamera();
+    if (!detector) return;
+    const { minScore, maxDetections } = detectionProfileFor(AppMode.FAST);
+
+    const loop = new DetectionLoop<DetectionResult>({
+      targetFps,
+      detect: async () => {
+        const frame = await readFrame();
+        // Skip ticks until the camera is delivering frames
+        if (!frame) return null;
+        const predictions = await detector.detect(frame.image, { minScore, maxDetections });
+        return { predictions, frameWidth: frame.width, frameHeight: frame.height };
+      },
+      onResult: handleDetections,
+      onError: (err) => {
+        console.error("Detection failed:", err);
+        setError(currentTranslator().t('fast.error.detectionFailed'));
+      },
+    });
+    loopRef.current = loop;
+    trackerRef.current.reset();
+    loop.start();
+    setIsPaused(false);
 
     return () => {
-      // Cleanup on unmount
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-      }
-      window.speechSynthesis.cancel(); // Stop any speech on exit
+      loop.stop();
+      loopRef.current = null;
     };
-  }, [startCamera]);
+  }, [detector, handleDetections, readFrame]);
 
-  const handleCapture = async () => {
-    if (videoRef.current && canvasRef.current && model && !isDetecting) {
-      setIsDetecting(true);
+  // Rate changes are applied to the running loop rather than restarting it
+  useEffect(() => {
+    loopRef.current?.setTargetFps(targetFps);
+  }, [targetFps]);
+
+  const handleTogglePause = () => {
+    const loop = loopRef.current;
+    if (!loop) return;
+    if (loop.isPaused) {
+      trackerRef.current.reset();
+      setError(null);
+      loop.resume();
+      setIsPaused(false);
+    } else {
+      loop.pause();
+      stopSpeaking(); // Stop any ongoing speech
+      haptics.stop();
       setBoxes([]);
-      window.speechSynthesis.cancel();
-
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const context = canvas.getContext('2d');
-      if (context) {
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/png');
-        setCapturedImage(dataUrl);
-
-        try {
-          // Perform detection on the canvas
-          const predictions = await model.detect(canvas);
-
-          // Generate a summary for text-to-speech
-          const uniqueLabels = [...new Set(predictions.map(p => p.class))];
-          let summary: string;
-          if (predictions.length === 0) {
-            summary = "I could not detect any objects.";
-          } else if (uniqueLabels.length === 1) {
-            summary = `I see a ${uniqueLabels[0]}.`;
-          } else {
-            const lastLabel = uniqueLabels.pop()!;
-            summary = `I see ${uniqueLabels.join(', ')}, and a ${lastLabel}.`;
-          }
-          const utterance = new SpeechSynthesisUtterance(summary);
-          window.speechSynthesis.speak(utterance);
-
-
-          // Convert predictions to our BoundingBox format with normalized coordinates
-          const newBoxes: BoundingBox[] = predictions.map((p, index) => ({
-            id: index,
-            label: `${p.class} (${Math.round(p.score * 100)}%)`,
-            x: p.bbox[0] / canvas.width,
-            y: p.bbox[1] / canvas.height,
-            width: p.bbox[2] / canvas.width,
-            height: p.bbox[3] / canvas.height,
-          }));
-          
-          setBoxes(newBoxes);
-
-        } catch (err) {
-            console.error("Detection failed:", err);
-            setError("Object detection failed.");
-        }
-      }
-      setIsDetecting(false);
+      inViewRef.current = { tracks: [], frame: inViewRef.current.frame };
+      setIsPaused(true);
     }
   };
 
-  const handleReset = () => {
-    window.speechSynthesis.cancel(); // Stop any ongoing speech
-    setCapturedImage(null);
-    setBoxes([]);
-    startCamera(); // Restart camera to ensure a fresh stream
+  // "Stop" pauses detection; "fast mode" while paused picks it back up.
+  useVoiceCommandHandler((intent) => {
+    const loop = loopRef.current;
+    if (intent.type === 'stop' && loop && !loop.isPaused) {
+      handleTogglePause();
+      return true;
+    }
+    if (intent.type === 'openMode' && intent.mode === AppMode.FAST) {
+      if (loop?.isPaused) handleTogglePause();
+      return true;
+    }
+    return false;
+  });
+
+  // Double-tap anywhere describes everything in view, not just what changed
+  useGestureHandler((gesture) => {
+    if (gesture !== 'doubleTap') return false;
+    const translator = currentTranslator();
+    const { tracks, frame } = inViewRef.current;
+    const phrases = rankByRelevance(tracks.map(t => describeObject({ class: t.label, bbox: t.bbox }, frame)))
+      .map(d => phraseObject(d, translator));
+    speak(phrases.length > 0
+      ? translator.t('fast.inView', { objects: translator.list(phrases) })
+      : translator.t('fast.nothingInView'));
+    return true;
+  });
+
+  const handleToggleEarcons = () => {
+    const ctx = sonifierRef.current?.context;
+    // Browsers start audio contexts suspended until a user gesture
+    if (ctx instanceof AudioContext && ctx.state === 'suspended') {
+      ctx.resume();
+    }
+    update({ fastMode: { earcons: !earconsEnabled } });
   };
 
   const getButtonContent = () => {
     if (isLoadingModel) {
       return (
         <div className="flex items-center justify-center">
-            <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-gray-800" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-gray-800" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            <span className="text-gray-800">Loading Model...</span>
+            <span className="text-gray-800">
+              {modelAvailability === 'network' ? t('fast.downloadingModel') : t('fast.loadingModel')}
+            </span>
         </div>
       );
     }
-    if (isDetecting) {
-        return (
-            <div className="flex items-center justify-center">
-                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-gray-800" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                <span className="text-gray-800">Detecting...</span>
-            </div>
-        );
+    if (modelAvailability === 'unavailable') {
+      return <span className="text-gray-800 font-semibold">{t('fast.modelUnavailable')}</span>;
+    }
+    if (isPaused) {
+      return <PlayIcon className="w-8 h-8 text-gray-800" />;
     }
-    return <CameraIcon className="w-8 h-8 text-gray-800" />;
+    return <PauseIcon className="w-8 h-8 text-gray-800" />;
   };
 
   return (
-    <div className="relative flex flex-col items-center justify-center min-h-screen bg-black p-4">
-      <button onClick={() => setMode(AppMode.HOME)} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full">
+    <div {...gestureSurface('relative flex flex-col items-center justify-center min-h-screen bg-black p-4')}>
+      <h1 className="sr-only">{t('home.fast.title')}</h1>
+      <p role="status" className="sr-only">
+        {isLoadingModel
+          ? (modelAvailability === 'network' ? t('fast.downloadingModel') : t('fast.loadingModel'))
+          : modelAvailability === 'unavailable' ? t('fast.modelUnavailable') : ''}
+      </p>
+      <button onClick={() => setMode(AppMode.HOME)} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full" aria-label={t('common.back')}>
         <ArrowLeftIcon className="w-6 h-6 text-white" />
       </button>
+      <div className="absolute top-4 right-4 z-20 flex gap-2">
+        <CameraControls camera={camera} />
+        <button
+          onClick={handleToggleEarcons}
+          className="p-2 bg-gray-800 bg-opacity-50 rounded-full"
+          aria-label={earconsEnabled ? t('fast.tonesOff') : t('fast.tonesOn')}
+          aria-pressed={earconsEnabled}
+        >
+          {earconsEnabled ? <SpeakerWaveIcon className="w-6 h-6 text-white" /> : <SpeakerXMarkIcon className="w-6 h-6 text-white" />}
+        </button>
+      </div>
 
       <div className="w-full max-w-lg aspect-[9/16] rounded-xl overflow-hidden relative shadow-lg bg-gray-800 flex items-center justify-center">
-        {error && !isLoadingModel && <p className="text-red-400 text-center px-4">{error}</p>}
-        
-        <canvas ref={canvasRef} className="hidden" />
-
-        {!capturedImage ? (
-          <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
-        ) : (
-          <div className="relative w-full h-full">
-            <img src={capturedImage} alt="Captured" className="w-full h-full object-cover" />
-            {boxes.map(box => (
-              <div
-                key={box.id}
-                className="absolute border-2 border-yellow-400"
-                style={{
-                  left: `${box.x * 100}%`,
-                  top: `${box.y * 100}%`,
-                  width: `${box.width * 100}%`,
-                  height: `${box.height * 100}%`,
-                }}
-              >
-                <span className="absolute -top-6 left-0 bg-yellow-400 text-black text-xs font-semibold px-1 rounded">
-                  {box.label}
-                </span>
-              </div>
-            ))}
-          </div>
+        {error && !isLoadingModel && <p role="alert" className="absolute top-4 inset-x-0 z-10 text-red-400 text-center px-4">{error}</p>}
+
+        {detector && modelAvailability && (
+          <span className="absolute bottom-4 left-4 z-10 bg-black bg-opacity-60 text-white text-xs font-semibold px-2 py-1 rounded">
+            {modelAvailability === 'cached' ? t('fast.offlineModel') : t('fast.onlineModel')}
+          </span>
         )}
+
+        <div className="relative w-full h-full">
+          <video ref={videoRef} autoPlay playsInline muted aria-hidden="true" className="w-full h-full object-cover" />
+          {boxes.map(box => (
+            <div
+              key={box.id}
+              aria-hidden="true"
+              className="absolute border-2 border-yellow-400"
+              style={{
+                left: `${box.x * 100}%`,
+                top: `${box.y * 100}%`,
+                width: `${box.width * 100}%`,
+                height: `${box.height * 100}%`,
+              }}
+            >
+              <span className="absolute -top-6 left-0 bg-yellow-400 text-black text-xs font-semibold px-1 rounded">
+                {box.label}
+              </span>
+            </div>
+          ))}
+        </div>
       </div>
 
       <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-10">
-        {!capturedImage ? (
-          <button
-            onClick={handleCapture}
-            disabled={isLoadingModel || isDetecting}
-            className="w-auto h-20 px-8 bg-white rounded-full flex items-center justify-center border-4 border-gray-500 focus:outline-none focus:ring-4 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            aria-label="Capture"
-          >
-            {getButtonContent()}
-          </button>
-        ) : (
-          <button
-            onClick={handleReset}
-            className="px-6 py-3 bg-indigo-600 text-white rounded-full font-semibold shadow-lg focus:outline-none focus:ring-4 focus:ring-indigo-500"
-          >
-            Capture Again
-          </button>
-        )}
+        <button
+          onClick={handleTogglePause}
+          disabled={isLoadingModel || !detector}
+          className="w-auto h-20 px-8 bg-white rounded-full flex items-center justify-center border-4 border-gray-500 focus:outline-none focus:ring-4 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label={isPaused ? t('fast.resume') : t('fast.pause')}
+        >
+          {getButtonContent()}
+        </button>
       </div>
     </div>
   );
 };
 
-export default FastMode;
\ No newline at end of file
+export default FastMode;
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useCameraManager } from '../hooks/useCamera';
+import { FrameRecorderStatus, getFrameRecorder, serializeRecording } from '../utils/frameRecorder';
+import { FrameReplay, FrameReplayStatus, loadReplayClip } from '../utils/frameReplay';
+
+// Keeps drags on the panel away from the app-wide gesture recognizer.
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+const download = (name: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Developer tool for reproducing what a mode saw: records the frames each
+// mode processes to a JSON file, and replays a recording, a video or a
+// folder of images in place of the camera. Only rendered in development
+// builds, so it is not translated.
+const FrameReplayPanel: React.FC = () => {
+  const manager = useCameraManager();
+  const recorder = getFrameRecorder();
+  const [open, setOpen] = useState(false);
+  const [recorderStatus, setRecorderStatus] = useState<FrameRecorderStatus>(recorder.getStatus());
+  const [replay, setReplay] = useState<FrameReplay | null>(null);
+  const [replayStatus, setReplayStatus] = useState<FrameReplayStatus | null>(null);
+  const [loop, setLoop] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => recorder.subscribe(setRecorderStatus), [recorder]);
+
+  // Not in React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [open]);
+
+  useEffect(() => {
+    if (!replay) return;
+    setReplayStatus(replay.getStatus());
+    return replay.subscribe(setReplayStatus);
+  }, [replay]);
+
+  const switchSource = (next: FrameReplay | null) => {
+    replay?.dispose();
+    setReplay(next);
+    setReplayStatus(null);
+    manager.replaceMediaDevices(next).catch(err => console.error("Error switching frame source:", err));
+  };
+
+  const loadFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setLoadError(null);
+    try {
+      const clip = await loadReplayClip(Array.from(files));
+      switchSource(new FrameReplay(clip, { loop }));
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const toggleRecording = async () => {
+    if (!recorderStatus.recording) {
+      recorder.start();
+      return;
+    }
+    setSaving(true);
+    try {
+      const recording = await recorder.stop();
+      if (recording.frames.length > 0) {
+        download(`frames-${recording.createdAt.replace(/[:.]/g, '-')}.json`, await serializeRecording(recording));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed bottom-2 right-2 z-50 text-sm text-white"
+      onPointerDown={stop}
+      onPointerMove={stop}
+      onPointerUp={stop}
+      onPointerCancel={stop}
+    >
+      {!open ? (
+        <button onClick={() => setOpen(true)} className="bg-purple-700 rounded px-2 py-1 font-mono">
+          {recorderStatus.recording ? `REC ${recorderStatus.frameCount}` : replay ? 'Frames: replay' : 'Frames: live'}
+        </button>
+      ) : (
+        <div role="region" aria-label="Frame recorder" className="bg-gray-900 border border-purple-600 rounded-lg p-3 w-64 space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="font-semibold">Frames</span>
+            <button onClick={() => setOpen(false)} className="px-2" aria-label="Close frame recorder">×</button>
+          </div>
+
+          <button
+            onClick={toggleRecording}
+            disabled={saving}
+            className={`w-full rounded py-1 ${recorderStatus.recording ? 'bg-red-600' : 'bg-gray-700'}`}
+          >
+            {saving ? 'Saving…' : recorderStatus.recording ? `Stop and save (${recorderStatus.frameCount})` : 'Record frames'}
+          </button>
+
+          <div className="border-t border-gray-700 pt-2 space-y-2">
+            <label className="block">
+              Replay a recording, video or images
+              <input
+                type="file"
+                multiple
+                accept=".json,video/*,image/*"
+                onChange={(e) => loadFiles(e.target.files)}
+                className="block w-full text-xs mt-1"
+              />
+            </label>
+            <label className="block">
+              Replay a folder of images
+              <input
+                ref={folderInputRef}
+                type="file"
+                onChange={(e) => loadFiles(e.target.files)}
+                className="block w-full text-xs mt-1"
+              />
+            </label>
+            {loadError && <p role="alert" className="text-red-400">{loadError}</p>}
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={loop}
+                onChange={(e) => {
+                  setLoop(e.target.checked);
+                  replay?.setLoop(e.target.checked);
+                }}
+              />
+              Loop
+            </label>
+            {replay && replayStatus && (
+              <div className="space-y-1">
+                <p className="truncate text-gray-400">
+                  {replay.clip.name}: {replayStatus.position} / {replayStatus.frameCount}{replayStatus.finished ? ', finished' : ''}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => replay.rewind()} className="flex-1 bg-purple-700 rounded py-1">Rewind</button>
+                  <button onClick={() => switchSource(null)} className="flex-1 bg-gray-700 rounded py-1">Live camera</button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrameReplayPanel;
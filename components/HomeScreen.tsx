@@ -1,36 +1,53 @@
 import React from 'react';
 import { AppMode } from '../types';
+import { CogIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface HomeScreenProps {
   setMode: (mode: AppMode) => void;
 }
 
 const HomeScreen: React.FC<HomeScreenProps> = ({ setMode }) => {
+  const { t } = useTranslation();
   return (
-    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white p-4">
-      <h1 className="text-5xl font-bold mb-4">AI Vision Assistant</h1>
-      <p className="text-xl text-gray-400 mb-12">Choose a mode to get started</p>
+    <div className="relative flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white p-4">
+      <button
+        onClick={() => setMode(AppMode.SETTINGS)}
+        className="absolute top-4 right-4 p-2 bg-gray-800 rounded-full"
+        aria-label={t('home.settings')}
+      >
+        <CogIcon className="w-6 h-6 text-white" />
+      </button>
+      <h1 className="text-5xl font-bold mb-4">{t('home.title')}</h1>
+      <p className="text-xl text-gray-400 mb-12">{t('home.subtitle')}</p>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full max-w-2xl">
         <button
           onClick={() => setMode(AppMode.FAST)}
           className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-6 px-4 rounded-lg shadow-lg transition duration-300"
         >
-          <h2 className="text-2xl mb-2">Fast Mode</h2>
-          <p>Quickly identify objects in your view.</p>
+          <h2 className="text-2xl mb-2">{t('home.fast.title')}</h2>
+          <p>{t('home.fast.description')}</p>
+        </button>
+        <button
+          onClick={() => setMode(AppMode.OBSTACLE)}
+          className="bg-rose-600 hover:bg-rose-700 text-white font-bold py-6 px-4 rounded-lg shadow-lg transition duration-300"
+        >
+          <h2 className="text-2xl mb-2">{t('home.obstacle.title')}</h2>
+          <p>{t('home.obstacle.description')}</p>
         </button>
         <button
           onClick={() => setMode(AppMode.SCENE_DESCRIPTOR)}
           className="bg-teal-600 hover:bg-teal-700 text-white font-bold py-6 px-4 rounded-lg shadow-lg transition duration-300"
         >
-          <h2 className="text-2xl mb-2">Scene Descriptor</h2>
-          <p>Get a real-time audio description of your surroundings.</p>
+          <h2 className="text-2xl mb-2">{t('home.scene.title')}</h2>
+          <p>{t('home.scene.description')}</p>
         </button>
         <button
           onClick={() => setMode(AppMode.MAPS)}
-          className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-6 px-4 rounded-lg shadow-lg transition duration-300 col-span-1 md:col-span-2"
+          className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-6 px-4 rounded-lg shadow-lg transition duration-300"
         >
-          <h2 className="text-2xl mb-2">Maps Mode</h2>
-          <p>Explore nearby places and get information.</p>
+          <h2 className="text-2xl mb-2">{t('home.maps.title')}</h2>
+          <p>{t('home.maps.description')}</p>
         </button>
       </div>
     </div>
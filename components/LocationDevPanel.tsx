@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LatLng, metersFrom, offsetMeters } from '../utils/geo';
+import { getSimulatedLocation, LocationPermission, setLocationProvider, SimulatedLocationState } from '../utils/location';
+import { parseTrack, ReplayStatus, TrackReplayer } from '../utils/trackReplay';
+import { useLocationProvider } from '../hooks/useLocationProvider';
+
+interface LocationDevPanelProps {
+  // Where the simulated position starts when none has been set yet.
+  seed: LatLng | null;
+}
+
+// Metres from the centre of the drag pad to its edge.
+const PAD_RADIUS_METERS = 100;
+const KEY_STEP_METERS = 5;
+const PERMISSIONS: LocationPermission[] = ['checking', 'prompt', 'granted', 'denied'];
+const SPEEDS = [1, 2, 5, 10, 20];
+// Somewhere walkable when there is no real fix to start from.
+const FALLBACK_POSITION: LatLng = { lat: 51.5007, lng: -0.1246 };
+
+// Keeps drags on the panel away from the app-wide gesture recognizer.
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+// Developer tool for exercising MapsMode without walking: switches to a
+// simulated position that can be dragged or replayed from a GPX/GeoJSON
+// track, and sets the permission state. Only rendered in development
+// builds, so it is not translated.
+const LocationDevPanel: React.FC<LocationDevPanelProps> = ({ seed }) => {
+  const simulator = getSimulatedLocation();
+  const provider = useLocationProvider();
+  const enabled = provider === simulator;
+  const [open, setOpen] = useState(false);
+  const [state, setState] = useState<SimulatedLocationState>(simulator.getState());
+  const [anchor, setAnchor] = useState<LatLng | null>(simulator.getState().fix?.location ?? null);
+  const [replay, setReplay] = useState<{ replayer: TrackReplayer; name: string } | null>(null);
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [noise, setNoise] = useState(0);
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const padRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  useEffect(() => simulator.subscribe(setState), [simulator]);
+
+  useEffect(() => {
+    if (!replay) return;
+    setReplayStatus(replay.replayer.getStatus());
+    const unsubscribe = replay.replayer.subscribe(setReplayStatus);
+    return () => {
+      unsubscribe();
+      replay.replayer.stop();
+    };
+  }, [replay]);
+
+  const setEnabled = (on: boolean) => {
+    if (on && !simulator.getState().fix) {
+      const start = seed ?? FALLBACK_POSITION;
+      simulator.setPosition(start);
+      setAnchor(start);
+    }
+    setLocationProvider(on ? simulator : null);
+  };
+
+  const center = anchor ?? state.fix?.location ?? seed ?? FALLBACK_POSITION;
+
+  const moveTo = (e: React.PointerEvent) => {
+    const pad = padRef.current;
+    if (!pad) return;
+    const rect = pad.getBoundingClientRect();
+    const x = Math.max(-1, Math.min(1, ((e.clientX - rect.left) / rect.width) * 2 - 1));
+    const y = Math.max(-1, Math.min(1, ((e.clientY - rect.top) / rect.height) * 2 - 1));
+    replay?.replayer.pause();
+    simulator.setPosition(offsetMeters(center, x * PAD_RADIUS_METERS, -y * PAD_RADIUS_METERS));
+  };
+
+  const onPadKey = (e: React.KeyboardEvent) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowUp: [0, 1], ArrowDown: [0, -1], ArrowLeft: [-1, 0], ArrowRight: [1, 0],
+    };
+    const step = steps[e.key];
+    if (!step) return;
+    e.preventDefault();
+    simulator.setPosition(offsetMeters(state.fix?.location ?? center, step[0] * KEY_STEP_METERS, step[1] * KEY_STEP_METERS));
+  };
+
+  const loadTrack = async (file: File) => {
+    setTrackError(null);
+    try {
+      const track = parseTrack(await file.text());
+      setReplay({ replayer: new TrackReplayer(track, simulator, { speed, noiseMeters: noise }), name: file.name });
+      setAnchor(track[0].location);
+      setEnabled(true);
+    } catch (err) {
+      setTrackError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Where the current position sits on the pad, as percentages.
+  const marker = (() => {
+    const fix = state.fix?.location;
+    if (!fix) return null;
+    const { east, north } = metersFrom(center, fix);
+    const clamp = (v: number) => Math.max(0, Math.min(100, v));
+    return { left: clamp(50 + east / PAD_RADIUS_METERS * 50), top: clamp(50 - north / PAD_RADIUS_METERS * 50) };
+  })();
+
+  return (
+    <div
+      className="fixed bottom-2 left-2 z-50 text-sm text-white"
+      onPointerDown={stop}
+      onPointerMove={stop}
+      onPointerUp={stop}
+      onPointerCancel={stop}
+    >
+      {!open ? (
+        <button onClick={() => setOpen(true)} className="bg-purple-700 rounded px-2 py-1 font-mono">
+          {enabled ? 'GPS: sim' : 'GPS: real'}
+        </button>
+      ) : (
+        <div role="region" aria-label="Location simulator" className="bg-gray-900 border border-purple-600 rounded-lg p-3 w-64 space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+              Simulate location
+            </label>
+            <button onClick={() => setOpen(false)} className="px-2" aria-label="Close location simulator">×</button>
+          </div>
+
+          <label className="flex justify-between items-center">
+            Permission
+            <select
+              value={state.permission}
+              onChange={(e) => simulator.setPermission(e.target.value as LocationPermission)}
+              className="bg-gray-800 rounded p-1"
+            >
+              {PERMISSIONS.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </label>
+          <label className="flex justify-between items-center">
+            Prompt answer
+            <select
+              value={state.promptResult}
+              onChange={(e) => simulator.setPromptResult(e.target.value as 'granted' | 'denied')}
+              className="bg-gray-800 rounded p-1"
+            >
+              <option value="granted">granted</option>
+              <option value="denied">denied</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={state.supported} onChange={(e) => simulator.setSupported(e.target.checked)} />
+            Geolocation supported
+          </label>
+
+          <div
+            ref={padRef}
+            role="application"
+            aria-label="Drag or use the arrow keys to move the simulated position"
+            tabIndex={0}
+            onKeyDown={onPadKey}
+            onPointerDown={(e) => {
+              draggingRef.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              moveTo(e);
+            }}
+            onPointerMove={(e) => draggingRef.current && moveTo(e)}
+            onPointerUp={() => {
+              draggingRef.current = false;
+            }}
+            className="relative w-full aspect-square bg-gray-800 rounded border border-gray-600 touch-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <div className="absolute inset-x-0 top-1/2 border-t border-gray-700" />
+            <div className="absolute inset-y-0 left-1/2 border-l border-gray-700" />
+            {marker && (
+              <div
+                className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-purple-400"
+                style={{ left: `${marker.left}%`, top: `${marker.top}%` }}
+              />
+            )}
+          </div>
+          <div className="flex justify-between items-center font-mono text-xs text-gray-400">
+            <span>
+              {state.fix ? `${state.fix.location.lat.toFixed(5)}, ${state.fix.location.lng.toFixed(5)}` : 'no fix'}
+            </span>
+            <button onClick={() => setAnchor(state.fix?.location ?? null)} className="underline">recenter</button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => simulator.fail('unavailable')} className="flex-1 bg-gray-700 rounded py-1">Lose signal</button>
+            <button onClick={() => simulator.fail('timeout')} className="flex-1 bg-gray-700 rounded py-1">Time out</button>
+          </div>
+
+          <div className="border-t border-gray-700 pt-2 space-y-2">
+            <label className="block">
+              Replay track (GPX or GeoJSON)
+              <input
+                type="file"
+                accept=".gpx,.geojson,.json"
+                onChange={(e) => e.target.files?.[0] && loadTrack(e.target.files[0])}
+                className="block w-full text-xs mt-1"
+              />
+            </label>
+            {trackError && <p role="alert" className="text-red-400">{trackError}</p>}
+            <label className="flex justify-between items-center">
+              Speed
+              <select
+                value={speed}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  setSpeed(value);
+                  replay?.replayer.setSpeed(value);
+                }}
+                className="bg-gray-800 rounded p-1"
+              >
+                {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+              </select>
+            </label>
+            <label className="block">
+              Noise: {noise} m
+              <input
+                type="range"
+                min={0}
+                max={20}
+                value={noise}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  setNoise(value);
+                  replay?.replayer.setNoise(value);
+                }}
+                className="w-full"
+              />
+            </label>
+            {replay && replayStatus && (
+              <div className="space-y-1">
+                <p className="truncate text-gray-400">{replay.name}: {replayStatus.state}, {Math.round(replayStatus.progress * 100)}%</p>
+                <div className="flex gap-2">
+                  {replayStatus.state === 'playing' ? (
+                    <button onClick={() => replay.replayer.pause()} className="flex-1 bg-purple-700 rounded py-1">Pause</button>
+                  ) : (
+                    <button onClick={() => replay.replayer.play()} className="flex-1 bg-purple-700 rounded py-1">Play</button>
+                  )}
+                  <button onClick={() => replay.replayer.stop()} className="flex-1 bg-gray-700 rounded py-1">Stop</button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationDevPanel;
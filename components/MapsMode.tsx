@@ -1,7 +1,29 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { AppMode } from '../types';
 import { ArrowLeftIcon, MapPinIcon, NavigationIcon } from './icons';
-import { GoogleGenAI } from '@google/genai';
+import { haptics } from '../utils/haptics';
+import { useCamera } from '../hooks/useCamera';
+import CameraControls from './CameraControls';
+import { getSettingsStore } from '../utils/settings';
+import { speak, stopSpeaking } from '../utils/speech';
+import { useTranslation } from '../hooks/useTranslation';
+import { currentTranslator, MessageKey, responseLanguageInstruction } from '../utils/i18n';
+import { useVoiceCommandHandler, useVoiceCommands } from '../hooks/useVoiceCommands';
+import { distanceMeters, LatLng, pointAlongPath } from '../utils/geo';
+import { cueForManeuver, getRoutingProvider, Route } from '../utils/routing';
+import { RouteEvent, RouteTracker } from '../utils/routeTracker';
+import { describeRelativeBearing, getHeadingService, relativeBearing } from '../utils/heading';
+import { useHeadingStatus } from '../hooks/useHeading';
+import { gestureSurface, useGestureHandler } from '../hooks/useGestures';
+import { getGeocoder, Place } from '../utils/geocoder';
+import { getAiProvider } from '../utils/aiProvider';
+import { describeCandidates, describePlace, getPlacesStore, Resolution, resolveDestination } from '../utils/places';
+import SavedPlaces from './SavedPlaces';
+import LocationDevPanel from './LocationDevPanel';
+import { useLocationProvider } from '../hooks/useLocationProvider';
+import {
+    HazardSeverity, isLowConfidence, lowerFirst, NAVIGATION_STEP_SCHEMA, NavigationStep, parseNavigationStep, PlannedStep, renderNavigationStep, roundDistance,
+} from '../utils/navigationStep';
 
 interface MapsModeProps {
   setMode: (mode: AppMode) => void;
@@ -20,237 +42,446 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
     });
 };
 
+// How far along the route to aim when telling the user which way it starts.
+const ROUTE_START_LOOKAHEAD_METERS = 20;
+
+const HAZARD_STYLES: Record<HazardSeverity, string> = {
+    high: 'bg-red-700 text-white',
+    medium: 'bg-yellow-600 text-black',
+    low: 'bg-gray-700 text-gray-100',
+};
+
+const SEVERITY_LABELS: Record<HazardSeverity, MessageKey> = {
+    high: 'nav.severity.high',
+    medium: 'nav.severity.medium',
+    low: 'nav.severity.low',
+};
+
 
 const MapsMode: React.FC<MapsModeProps> = ({ setMode }) => {
+    const translator = useTranslation();
+    const { t } = translator;
     const [destination, setDestination] = useState('');
     const [isNavigating, setIsNavigating] = useState(false);
-    const [instruction, setInstruction] = useState('Enter a destination to begin.');
-    const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
+    const [instruction, setInstruction] = useState(() => currentTranslator().t('maps.enterDestination'));
+    // The camera-checked step behind the instruction, when there is one.
+    const [step, setStep] = useState<NavigationStep | null>(null);
+    const [currentLocation, setCurrentLocation] = useState<LatLng | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [locationPermission, setLocationPermission] = useState<'checking' | 'prompt' | 'granted' | 'denied'>('checking');
+    // Set by a spoken destination; navigation starts once the location is known.
+    const [autoStart, setAutoStart] = useState(false);
+    // A place chosen before the first fix; navigation starts once it arrives.
+    const [pendingPlace, setPendingPlace] = useState<Place | null>(null);
+    // Several places matched the destination; the user picks one.
+    const [candidates, setCandidates] = useState<Place[] | null>(null);
 
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const intervalRef = useRef<number | null>(null);
-    const aiRef = useRef<GoogleGenAI | null>(null);
-    const locationWatcherId = useRef<number | null>(null);
     const isNavigatingRef = useRef(isNavigating);
+    // Accuracy of the latest fix, in metres; poor fixes get more off-route slack.
+    const accuracyRef = useRef(0);
+    const trackerRef = useRef<RouteTracker | null>(null);
+    // Bumped whenever navigation stops or a new plan starts, so late plans are dropped.
+    const planIdRef = useRef(0);
+    const isPlanningRef = useRef(false);
+    // Bumped by every announcement, so a camera-enriched one that comes back
+    // after something newer was said is dropped.
+    const announcementIdRef = useRef(0);
+    const calibrationPromptedRef = useRef(false);
+    const candidatesRef = useRef(candidates);
+    candidatesRef.current = candidates;
+    const heading = useHeadingStatus();
 
     useEffect(() => {
         isNavigatingRef.current = isNavigating;
     }, [isNavigating]);
 
-    // Initialize AI instance
-    useEffect(() => {
-        aiRef.current = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    }, []);
-
-    const speak = (text: string) => {
-        window.speechSynthesis.cancel();
-        const utterance = new SpeechSynthesisUtterance(text);
-        window.speechSynthesis.speak(utterance);
-    };
-
     const cleanup = useCallback(() => {
-        if (intervalRef.current) {
-            clearInterval(intervalRef.current);
-            intervalRef.current = null;
-        }
-        if (videoRef.current && videoRef.current.srcObject) {
-            (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
-        }
-        window.speechSynthesis.cancel();
+        trackerRef.current = null;
+        planIdRef.current++;
+        isPlanningRef.current = false;
+        setCandidates(null);
+        setPendingPlace(null);
+        getHeadingService().stop();
+        stopSpeaking();
+        haptics.stop();
     }, []);
     
     // Check and handle location permissions
+    const locationProvider = useLocationProvider();
     useEffect(() => {
-        const checkLocationPermission = async () => {
-            if (!navigator.geolocation) {
-                setError("Geolocation is not supported by your browser.");
-                setLocationPermission('denied');
-                return;
-            }
-
-            try {
-                const permissionStatus = await navigator.permissions.query({ name: 'geolocation' });
-                setLocationPermission(permissionStatus.state);
-                permissionStatus.onchange = () => {
-                    setLocationPermission(permissionStatus.state);
-                };
-            } catch (error) {
-                console.error("Permissions API not supported, falling back to prompt.", error);
-                setLocationPermission('prompt');
-            }
-        };
-
-        checkLocationPermission();
-    }, []);
+        if (!locationProvider.isSupported()) setError(t('maps.error.unsupported'));
+        return locationProvider.watchPermission(setLocationPermission);
+    }, [locationProvider]);
 
     // Fetch location when permission is granted
     useEffect(() => {
-        if (locationPermission === 'granted') {
-            setIsLoading(true);
-            const successCallback = (position: GeolocationPosition) => {
-                setCurrentLocation({
-                    lat: position.coords.latitude,
-                    lng: position.coords.longitude,
-                });
+        if (locationPermission !== 'granted') {
+            setIsLoading(false);
+            return;
+        }
+        setIsLoading(true);
+        return locationProvider.watch(
+            ({ location, accuracy, heading: course, speed }) => {
+                accuracyRef.current = accuracy;
+                getHeadingService().addPosition(location, accuracy, course, speed);
+                setCurrentLocation(location);
                 setIsLoading(false);
                 setError(null);
-            };
-            const errorCallback = (err: GeolocationPositionError) => {
-                setError("Unable to retrieve your location. Please check device settings.");
+            },
+            () => {
+                setError(currentTranslator().t('maps.error.location'));
                 setIsLoading(false);
-            };
-
-            navigator.geolocation.getCurrentPosition(successCallback, errorCallback, { enableHighAccuracy: true });
-            
-            locationWatcherId.current = navigator.geolocation.watchPosition(successCallback, errorCallback, { enableHighAccuracy: true });
-        } else {
-            setIsLoading(false);
-        }
-        
-        return () => {
-            if (locationWatcherId.current) {
-                navigator.geolocation.clearWatch(locationWatcherId.current);
-                locationWatcherId.current = null;
-            }
-        };
-    }, [locationPermission]);
-
+            },
+        );
+    }, [locationPermission, locationProvider]);
 
     const requestLocationPermission = () => {
-        navigator.geolocation.getCurrentPosition(
-            () => {
-                // Success is handled by the permission status change listener
+        locationProvider.requestPermission().then(
+            (permission) => {
+                if (permission === 'denied') setError(t('maps.error.denied'));
             },
-            (err) => {
-                if(err.code === err.PERMISSION_DENIED) {
-                     setError("Location permission denied. Please enable it in your browser settings.");
-                } else {
-                     setError("Unable to retrieve your location.");
-                }
-            }
+            () => setError(t('maps.error.unavailable')),
         );
     };
 
-    // Manage camera stream
-    const startCamera = async () => {
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
-            if (videoRef.current) {
-                videoRef.current.srcObject = stream;
-                videoRef.current.play();
-            }
-        } catch (err) {
-            console.error("Error accessing camera:", err);
-            setError("Could not access camera. Please check permissions.");
-        }
-    };
-    
-    const getNavigationInstruction = async () => {
-        if (!aiRef.current || !currentLocation || !videoRef.current || !canvasRef.current || videoRef.current.readyState < 2) {
-            return;
+    // The camera only runs while navigating
+    const camera = useCamera(videoRef, { enabled: isNavigating, mode: AppMode.MAPS });
+
+    useEffect(() => {
+        if (camera.errorMessage && isNavigatingRef.current) {
+            setError(currentTranslator().t('common.checkPermissions', { error: camera.errorMessage }));
         }
+    }, [camera.errorMessage]);
+
+    // Checks a planned step against what the camera sees: landmarks to confirm
+    // the turn, hazards to avoid. Null when there is no frame, the call fails
+    // or the reply can't be read.
+    const describeWithView = async (planned: PlannedStep, stepText: string): Promise<NavigationStep | null> => {
+        if (!canvasRef.current) return null;
+        const frame = await camera.readFrame();
+        if (!frame) return null;
 
-        const video = videoRef.current;
         const canvas = canvasRef.current;
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
+        canvas.width = frame.width;
+        canvas.height = frame.height;
         const context = canvas.getContext('2d');
-        if (!context) return;
+        if (!context) return null;
         
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        context.drawImage(frame.image, 0, 0, canvas.width, canvas.height);
         
-        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
-        if (!blob) return;
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', getSettingsStore().get().maps.jpegQuality));
+        if (!blob) return null;
         
         const base64Image = await blobToBase64(blob);
-
-        setInstruction("Thinking...");
+        const translator = currentTranslator();
 
         try {
-            const response = await aiRef.current.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: {
-                    parts: [
-                        {
-                            inlineData: {
-                                mimeType: 'image/jpeg',
-                                data: base64Image,
-                            }
-                        },
-                        {
-                            text: `You are a walking navigation assistant. My current location is latitude ${currentLocation.lat}, longitude ${currentLocation.lng}, and my destination is "${destination}". Using this real-time location and Google Maps data, provide the next clear, concise walking instruction to guide me. Also, use the attached image of my current view to identify and mention any relevant landmarks, street signs, or potential obstacles in the instruction. The instruction should be a single step.`
-                        }
-                    ]
-                },
-                config: {
-                    tools: [{ googleMaps: {} }],
-                    toolConfig: {
-                        retrievalConfig: {
-                            latLng: {
-                                latitude: currentLocation.lat,
-                                longitude: currentLocation.lng
-                            }
+            const text = await getAiProvider().generate({
+                responseSchema: NAVIGATION_STEP_SCHEMA,
+                parts: [
+                    {
+                        inlineData: {
+                            mimeType: 'image/jpeg',
+                            data: base64Image,
                         }
+                    },
+                    {
+                        text: `You are a walking navigation assistant for a blind or low-vision user. The next step of my planned route is: "${stepText}" (maneuver "${planned.maneuver}", ${Math.round(planned.distanceMeters)} meters away). Using the attached image of my current view, reply with JSON only, no other text: the step's maneuver and distance unchanged, the street it leads onto, where the way on lies relative to the view, up to three visible landmarks or street signs that confirm it, any obstacles or dangers in my path with their severity, and your confidence from 0 to 1 that the view matches the step. Keep landmark and hazard descriptions to a few words. ${responseLanguageInstruction(translator.language)}`
                     }
-                }
+                ]
             });
-
-            if (isNavigatingRef.current) {
-                const newInstruction = response.text;
-                setInstruction(newInstruction);
-                speak(newInstruction);
-            }
+            const step = parseNavigationStep(text, planned);
+            if (!step) console.warn("Unreadable navigation step:", text);
+            return step;
         } catch (err) {
             console.error("AI navigation error:", err);
-            if (isNavigatingRef.current) {
-                const errorMsg = "Sorry, I couldn't get the next instruction.";
-                setInstruction(errorMsg);
-                speak(errorMsg);
+            return null;
+        }
+    };
+
+    const announce = (text: string, checked: NavigationStep | null = null) => {
+        announcementIdRef.current++;
+        setInstruction(text);
+        setStep(checked);
+        speak(text);
+    };
+
+    // Hazards lead the spoken step; a serious one also buzzes.
+    const announceStep = (checked: NavigationStep, destination: string) => {
+        announce(renderNavigationStep(checked, destination, currentTranslator()), checked);
+        if (checked.hazards[0]?.severity === 'high') haptics.play('stop', { force: true });
+    };
+
+    // "Then continue for 120 meters." when the following maneuver is far
+    // enough away that the user would otherwise wonder how long to walk.
+    const continueFor = (route: Route, index: number) => {
+        const next = route.maneuvers[index + 1];
+        if (!next) return '';
+        const meters = next.distanceAlong - route.maneuvers[index].distanceAlong;
+        const { announceDistanceMeters } = getSettingsStore().get().maps;
+        return meters > announceDistanceMeters * 2
+            ? ` ${currentTranslator().t('route.continueFor', { count: roundDistance(meters) })}`
+            : '';
+    };
+
+    // "The route starts 40° to your right." Empty until the heading is known.
+    const routeStartHint = (route: Route) => {
+        const reading = getHeadingService().getHeading();
+        if (!reading) return '';
+        const angle = relativeBearing(reading.heading, route.path[0], pointAlongPath(route.path, ROUTE_START_LOOKAHEAD_METERS));
+        const translator = currentTranslator();
+        return ` ${translator.t('heading.routeStarts', { direction: describeRelativeBearing(angle, translator) })}`;
+    };
+
+    const handleRouteEvents = (events: RouteEvent[], route: Route, lead = '') => {
+        const translator = currentTranslator();
+        for (const event of events) {
+            switch (event.type) {
+                case 'upcoming': {
+                    const text = translator.t('route.inDistance', {
+                        count: roundDistance(event.distanceMeters),
+                        instruction: lowerFirst(event.maneuver.instruction),
+                    });
+                    announce(text);
+                    const id = announcementIdRef.current;
+                    const planned = { maneuver: event.maneuver.type, distanceMeters: event.distanceMeters, street: event.maneuver.street };
+                    describeWithView(planned, text).then((checked) => {
+                        if (checked && id === announcementIdRef.current && isNavigatingRef.current) {
+                            announceStep(checked, route.destination.name);
+                        }
+                    });
+                    break;
+                }
+                case 'maneuver': {
+                    const hint = event.maneuver.type === 'depart' ? routeStartHint(route) : '';
+                    announce(`${lead}${event.maneuver.instruction}${hint}${continueFor(route, event.index)}`);
+                    haptics.play(cueForManeuver(event.maneuver.type), { force: true });
+                    break;
+                }
+                case 'arrived':
+                    trackerRef.current = null;
+                    setIsNavigating(false);
+                    announce(event.maneuver.instruction);
+                    haptics.play('arrived', { force: true });
+                    break;
+                case 'offRoute':
+                    if (isPlanningRef.current || !currentLocation) break;
+                    announce(translator.t('route.offRoute'));
+                    planRoute(route.destination, currentLocation, true);
+                    break;
             }
+            lead = '';
         }
     };
 
-    const handleStartNavigation = async () => {
-        if (!destination.trim() || !currentLocation) {
-            setError("Please enter a destination and enable location.");
+    // Plans from `origin` and starts following the route. A failed re-plan
+    // keeps the old route, so guidance resumes if the user finds their way back.
+    const planRoute = async (target: Place, origin: LatLng, replanning: boolean) => {
+        const translator = currentTranslator();
+        const planId = ++planIdRef.current;
+        isPlanningRef.current = true;
+        try {
+            const route = await getRoutingProvider().plan({ origin, destination: target, language: translator.language });
+            if (planId !== planIdRef.current) return;
+            const { announceDistanceMeters, offRouteMeters } = getSettingsStore().get().maps;
+            const tracker = new RouteTracker(route, { announceDistanceMeters, offRouteMeters });
+            trackerRef.current = tracker;
+            // The first fix announces the departure
+            handleRouteEvents(tracker.update(origin, accuracyRef.current), route, replanning ? `${translator.t('route.replanned')} ` : '');
+        } catch (err) {
+            console.error("Route planning error:", err);
+            if (planId !== planIdRef.current) return;
+            announce(translator.t('route.planFailed', { destination: target.name }));
+            if (!replanning) setIsNavigating(false);
+        } finally {
+            if (planId === planIdRef.current) isPlanningRef.current = false;
+        }
+    };
+
+    // Instructions fire as the user reaches each point of the route
+    useEffect(() => {
+        const tracker = trackerRef.current;
+        if (!isNavigating || !tracker || !currentLocation) return;
+        handleRouteEvents(tracker.update(currentLocation, accuracyRef.current), tracker.route);
+    }, [currentLocation]);
+
+    const startNavigation = (place: Place) => {
+        if (!currentLocation) {
+            setPendingPlace(place);
+            setDestination(place.name);
+            announce(t('maps.gettingLocation'));
             return;
         }
+        setPendingPlace(null);
         setError(null);
+        setCandidates(null);
+        setDestination(place.name);
+        getPlacesStore().addRecent(place);
         setIsNavigating(true);
-        await startCamera();
-        setInstruction("Starting navigation...");
-        speak("Starting navigation...");
-
-        // Give camera time to initialize before first call
-        setTimeout(() => {
-            getNavigationInstruction();
-            intervalRef.current = window.setInterval(getNavigationInstruction, 8000); // Update every 8 seconds
-        }, 2000);
+        calibrationPromptedRef.current = false;
+        getHeadingService().start();
+        announce(t('route.planning'));
+        planRoute(place, currentLocation, false);
+    };
+
+    // Reads the matches out and then listens for the user's pick, so choosing
+    // works without looking at the screen.
+    const offerCandidates = (places: Place[]) => {
+        setCandidates(places);
+        const text = describeCandidates(places, currentLocation, currentTranslator());
+        speak(text, {
+            onEnd: () => {
+                if (candidatesRef.current === places) voice?.listen();
+            },
+        });
+    };
+
+    // Turns the typed or spoken destination into a place, asking which one
+    // when several match.
+    const handleStartNavigation = async () => {
+        const query = destination.trim();
+        if (!query || !currentLocation) {
+            setError(t('maps.error.needDestination'));
+            return;
+        }
+        setError(null);
+        setCandidates(null);
+        // Called from the button press so iOS can ask for the compass
+        getHeadingService().start();
+        const translator = currentTranslator();
+        const lookupId = ++planIdRef.current;
+        announce(translator.t('places.searching', { query }));
+        let resolution: Resolution;
+        try {
+            resolution = await resolveDestination(query, {
+                geocoder: getGeocoder(getSettingsStore().get().maps.geocoder),
+                places: getPlacesStore(),
+                near: currentLocation,
+                language: translator.language,
+            });
+        } catch (err) {
+            console.error("Geocoding error:", err);
+            if (lookupId === planIdRef.current) announce(translator.t('places.searchFailed', { query }));
+            return;
+        }
+        if (lookupId !== planIdRef.current) return;
+        switch (resolution.type) {
+            case 'resolved':
+                startNavigation(resolution.place);
+                break;
+            case 'ambiguous':
+                offerCandidates(resolution.candidates);
+                break;
+            case 'notFound':
+                announce(translator.t('places.notFound', { query }));
+                break;
+        }
     };
 
     const handleStopNavigation = () => {
         setIsNavigating(false);
-        setInstruction('Navigation stopped. Enter a destination to begin again.');
+        setInstruction(t('maps.stopped'));
         cleanup();
     };
     
+    // Leaving by gesture or voice unmounts without handleBack
+    useEffect(() => cleanup, [cleanup]);
+
     const handleBack = () => {
         cleanup();
         setMode(AppMode.HOME);
     };
 
+    const navigateByVoice = (spokenDestination: string) => {
+        // Leave the current trip first, so a lookup that needs the user to
+        // pick, or finds nothing, is shown rather than hidden behind it
+        if (isNavigatingRef.current) handleStopNavigation();
+        setDestination(spokenDestination);
+        setAutoStart(true);
+    };
+
+    // A destination spoken on another screen is what opened this one.
+    const voice = useVoiceCommands();
+    useEffect(() => {
+        const spokenDestination = voice?.takeDestination();
+        if (spokenDestination) navigateByVoice(spokenDestination);
+    }, []);
+
+    useEffect(() => {
+        if (pendingPlace && currentLocation) startNavigation(pendingPlace);
+    }, [pendingPlace, currentLocation]);
+
+    useEffect(() => {
+        if (autoStart && currentLocation && destination.trim()) {
+            setAutoStart(false);
+            handleStartNavigation();
+        }
+    }, [autoStart, currentLocation, destination]);
+
+    // Asked once per trip; the prompt stays on screen while it applies
+    useEffect(() => {
+        if (isNavigating && heading.needsCalibration && !calibrationPromptedRef.current) {
+            calibrationPromptedRef.current = true;
+            speak(currentTranslator().t('heading.calibrate'), { interrupt: false });
+        }
+    }, [isNavigating, heading.needsCalibration]);
+
+    // Double-tap: where the destination is from here
+    useGestureHandler((gesture) => {
+        const route = trackerRef.current?.route;
+        if (gesture !== 'doubleTap' || !route || !currentLocation) return false;
+        const translator = currentTranslator();
+        const target = route.maneuvers[route.maneuvers.length - 1].location;
+        const reading = getHeadingService().getHeading();
+        speak(translator.t('heading.destination', {
+            destination: route.destination.name,
+            distance: translator.t('distance.meters', { count: roundDistance(distanceMeters(currentLocation, target)) }),
+            direction: reading
+                ? describeRelativeBearing(relativeBearing(reading.heading, currentLocation, target), translator)
+                : translator.t('heading.unknownDirection'),
+        }));
+        return true;
+    });
+
+    useVoiceCommandHandler((intent) => {
+        if (intent.type === 'navigate') {
+            navigateByVoice(intent.destination);
+            return true;
+        }
+        if (intent.type === 'choose' && candidates) {
+            const place = candidates[intent.index];
+            if (place) startNavigation(place);
+            else speak(t('places.choose'), { prompt: true });
+            return true;
+        }
+        if (intent.type === 'stop' && candidates) {
+            setCandidates(null);
+            stopSpeaking();
+            return true;
+        }
+        if (intent.type === 'stop' && isNavigating) {
+            handleStopNavigation();
+            return true;
+        }
+        return false;
+    });
+
+    // Lets every branch below be reached without walking around
+    const devPanel = import.meta.env.DEV && <LocationDevPanel seed={currentLocation} />;
+
     if (isLoading || locationPermission === 'checking') {
         return (
              <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white">
-                <svg className="animate-spin h-10 w-10 text-white mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <h1 className="sr-only">{t('maps.title')}</h1>
+                <svg className="animate-spin h-10 w-10 text-white mb-4" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                <p>{locationPermission === 'checking' ? 'Checking permissions...' : 'Getting your location...'}</p>
+                <p role="status">{locationPermission === 'checking' ? t('maps.checkingPermissions') : t('maps.gettingLocation')}</p>
+                {devPanel}
              </div>
         );
     }
@@ -258,19 +489,21 @@ const MapsMode: React.FC<MapsModeProps> = ({ setMode }) => {
     if (locationPermission === 'prompt') {
         return (
             <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white p-4 text-center">
-                <button onClick={handleBack} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full">
+                <button onClick={handleBack} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full" aria-label={t('common.back')}>
                     <ArrowLeftIcon className="w-6 h-6 text-white" />
                 </button>
                 <MapPinIcon className="w-16 h-16 text-sky-400 mb-4" />
-                <h1 className="text-2xl font-bold mb-2">Location Required</h1>
-                <p className="text-gray-400 mb-6 max-w-sm">This feature needs your location to provide navigation instructions. Please grant permission to continue.</p>
+                <h1 className="text-2xl font-bold mb-2">{t('maps.locationRequired.title')}</h1>
+                <p className="text-gray-400 mb-6 max-w-sm">{t('maps.locationRequired.body')}</p>
                 <button
                     onClick={requestLocationPermission}
                     className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-3 px-6 rounded-lg shadow-lg"
                 >
-                    Enable Location
+                    {t('maps.enableLocation')}
                 </button>
-                {error && <p className="text-red-400 mt-4">{error}</p>}
+                {/* Always rendered, so an error that comes later is announced */}
+                <p role="alert" className={error ? 'text-red-400 mt-4' : 'sr-only'}>{error}</p>
+                {devPanel}
             </div>
         );
     }
@@ -278,39 +511,44 @@ const MapsMode: React.FC<MapsModeProps> = ({ setMode }) => {
     if (locationPermission === 'denied') {
         return (
              <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white p-4 text-center">
-                 <button onClick={handleBack} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full">
+                 <button onClick={handleBack} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full" aria-label={t('common.back')}>
                     <ArrowLeftIcon className="w-6 h-6 text-white" />
                 </button>
                 <MapPinIcon className="w-16 h-16 text-red-500 mb-4" />
-                <h1 className="text-2xl font-bold mb-2">Location Access Denied</h1>
-                <p className="text-gray-400 mb-6 max-w-sm">You've denied location access. To use navigation, please enable it in your browser's site settings.</p>
-                {error && <p className="text-red-400 mt-4">{error}</p>}
+                <h1 className="text-2xl font-bold mb-2">{t('maps.locationDenied.title')}</h1>
+                <p className="text-gray-400 mb-6 max-w-sm">{t('maps.locationDenied.body')}</p>
+                <p role="alert" className={error ? 'text-red-400 mt-4' : 'sr-only'}>{error}</p>
+                {devPanel}
              </div>
         );
     }
 
-    // Granted
+    // Granted. While navigating the whole screen is the camera view and takes
+    // the gestures; the search form and its lists scroll as usual.
+    const layout = 'relative flex flex-col items-center justify-between min-h-screen bg-black p-4';
     return (
-        <div className="relative flex flex-col items-center justify-between min-h-screen bg-black p-4">
-             <button onClick={handleBack} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full">
+        <div {...(isNavigating ? gestureSurface(layout) : { className: layout })}>
+             <button onClick={handleBack} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full" aria-label={t('common.back')}>
                 <ArrowLeftIcon className="w-6 h-6 text-white" />
             </button>
             {isNavigating && (
                 <div className="absolute inset-0 z-0">
-                    <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                    <video ref={videoRef} autoPlay playsInline muted aria-hidden="true" className="w-full h-full object-cover" />
                     <canvas ref={canvasRef} className="hidden" />
                 </div>
             )}
+            {isNavigating && <CameraControls camera={camera} className="absolute top-4 right-4 z-20" />}
             
-            <div className={`relative z-10 w-full max-w-lg mt-16 text-center transition-opacity duration-500 ${isNavigating ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
-                <h1 className="text-4xl font-bold mb-4">Maps Navigation</h1>
+            <div inert={isNavigating} className={`relative z-10 w-full max-w-lg mt-16 text-center transition-opacity duration-500 ${isNavigating ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
+                <h1 className="text-4xl font-bold mb-4">{t('maps.title')}</h1>
                 <div className="relative">
                     <MapPinIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
                     <input
                         type="text"
+                        aria-label={t('maps.destination')}
                         value={destination}
                         onChange={(e) => setDestination(e.target.value)}
-                        placeholder="Enter destination..."
+                        placeholder={t('maps.destinationPlaceholder')}
                         className="w-full bg-gray-800 border border-gray-600 rounded-lg py-3 pl-10 pr-4 text-white text-lg focus:ring-2 focus:ring-sky-500 focus:outline-none"
                     />
                 </div>
@@ -320,19 +558,55 @@ const MapsMode: React.FC<MapsModeProps> = ({ setMode }) => {
                     className="mt-4 w-full bg-sky-600 hover:bg-sky-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg shadow-lg transition duration-300 flex items-center justify-center text-lg"
                 >
                     <NavigationIcon className="w-5 h-5 mr-2" />
-                    Start Navigation
+                    {t('maps.start')}
                 </button>
-                {error && <p className="text-red-400 mt-4">{error}</p>}
+                {error && <p role="alert" className="text-red-400 mt-4">{error}</p>}
+                {candidates ? (
+                    <section aria-labelledby="candidates-heading" className="mt-6 text-left">
+                        <h2 id="candidates-heading" className="text-lg font-semibold text-gray-300 mb-2">{t('places.chooseTitle')}</h2>
+                        <ol className="space-y-2">
+                            {candidates.map((place, i) => (
+                                <li key={i}>
+                                    <button onClick={() => startNavigation(place)} className="w-full text-left bg-gray-800 hover:bg-gray-700 rounded-lg py-2 px-3 text-white">
+                                        {i + 1}. {describePlace(place, currentLocation, translator)}
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+                    </section>
+                ) : (
+                    <SavedPlaces onSelect={startNavigation} />
+                )}
             </div>
 
-            <div className={`absolute bottom-0 left-0 w-full p-4 z-10 transition-transform duration-500 ${isNavigating ? 'translate-y-0' : 'translate-y-full'}`}>
+            <div inert={!isNavigating} className={`absolute bottom-0 left-0 w-full p-4 z-10 transition-transform duration-500 ${isNavigating ? 'translate-y-0' : 'translate-y-full'}`}>
                  <div className="w-full max-w-lg mx-auto bg-black bg-opacity-60 rounded-xl p-4 text-center backdrop-blur-sm">
-                    <p className="text-xl text-gray-100 min-h-[3em]">{instruction}</p>
+                    <p aria-live="polite" className="text-xl text-gray-100 min-h-[3em]">{instruction}</p>
+                    {step && isLowConfidence(step) && (
+                        <p className="mt-2 inline-block rounded-full bg-yellow-500 text-black text-sm font-bold px-3 py-0.5">{t('nav.uncertain')}</p>
+                    )}
+                    {step && step.hazards.length > 0 && (
+                        <ul aria-label={t('nav.hazards')} className="mt-3 space-y-1 text-left">
+                            {step.hazards.map((hazard, i) => (
+                                <li key={i} className={`rounded px-2 py-1 ${HAZARD_STYLES[hazard.severity]}`}>
+                                    <span className="font-bold mr-2">{t(SEVERITY_LABELS[hazard.severity])}</span>
+                                    {hazard.description}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {heading.needsCalibration && <p className="mt-2 text-yellow-300">{t('heading.calibrate')}</p>}
+                    {heading.compass === 'needsPermission' && (
+                        <button onClick={() => getHeadingService().start()} className="mt-4 mr-2 bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-6 rounded-full">
+                            {t('heading.enableCompass')}
+                        </button>
+                    )}
                     <button onClick={handleStopNavigation} className="mt-4 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-6 rounded-full">
-                        Stop
+                        {t('maps.stop')}
                     </button>
                 </div>
             </div>
+            {devPanel}
         </div>
     );
 };
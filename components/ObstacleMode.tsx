@@ -0,0 +1,380 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { BoundingBox, AppMode, DetectedObject } from '../types';
+import { ArrowLeftIcon, PauseIcon, PlayIcon } from './icons';
+import { haptics, HapticCue } from '../utils/haptics';
+import { DetectionLoop } from '../utils/detectionLoop';
+import { ObjectTracker } from '../utils/tracker';
+import { phrasePosition } from '../utils/spatial';
+import { getDetector, detectionProfileFor, Detector } from '../utils/detectors';
+import { checkModelAvailability, ModelAvailability } from '../utils/offline';
+import { AlertLevel, DEFAULT_OBSTACLE_ALERT_OPTIONS, ObstacleAlert, ObstacleMonitor } from '../utils/obstacleAlert';
+import { useCamera } from '../hooks/useCamera';
+import CameraControls from './CameraControls';
+import { Sonifier, panFromCenterX } from '../utils/sonification';
+import { useSettings } from '../hooks/useSettings';
+import { speak, stopSpeaking } from '../utils/speech';
+import { useTranslation } from '../hooks/useTranslation';
+import { currentTranslator, MessageKey, Translator } from '../utils/i18n';
+import { useVoiceCommandHandler } from '../hooks/useVoiceCommands';
+import { gestureSurface } from '../hooks/useGestures';
+
+interface ObstacleModeProps {
+  setMode: (mode: AppMode) => void;
+}
+
+interface DetectionResult {
+  predictions: DetectedObject[];
+  frameWidth: number;
+  frameHeight: number;
+  timestamp: number;
+}
+
+type Alarm = Exclude<AlertLevel, 'none'>;
+
+const ALERT_MESSAGES: Record<Alarm, MessageKey> = {
+  caution: 'obstacle.caution',
+  warning: 'obstacle.warning',
+  danger: 'obstacle.danger',
+};
+
+const ALERT_CUES: Record<Alarm, HapticCue> = {
+  caution: 'obstacleFar',
+  warning: 'obstacleNear',
+  danger: 'stop',
+};
+
+// Tone nearness for each level, so the beeps speed up as the alarm rises
+const ALERT_NEARNESS: Record<Alarm, number> = {
+  caution: 0.4,
+  warning: 0.7,
+  danger: 1,
+};
+
+const BOX_STYLES: Record<Alarm, string> = {
+  caution: 'border-yellow-400',
+  warning: 'border-orange-500',
+  danger: 'border-red-600',
+};
+
+const { corridor } = DEFAULT_OBSTACLE_ALERT_OPTIONS;
+
+const upperFirst = (text: string) => text.charAt(0).toLocaleUpperCase() + text.slice(1);
+
+// "Careful, person slightly left, getting closer."
+const phraseAlert = (alert: ObstacleAlert & { level: Alarm }, translator: Translator): string =>
+  upperFirst(translator.t(ALERT_MESSAGES[alert.level], {
+    object: translator.className(alert.label),
+    position: phrasePosition(alert.position, translator),
+  }));
+
+const ObstacleMode: React.FC<ObstacleModeProps> = ({ setMode }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Only objects that raised an alert are outlined; the rest of the scene is
+  // none of this mode's business
+  const [flagged, setFlagged] = useState<(BoundingBox & { level: Alarm })[]>([]);
+
+  const [detector, setDetector] = useState<Detector | null>(null);
+  const [isLoadingModel, setIsLoadingModel] = useState(true);
+  const [modelAvailability, setModelAvailability] = useState<ModelAvailability | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+
+  const { settings } = useSettings();
+  const { t } = useTranslation();
+  const { targetFps, alertSeconds, alertVolume } = settings.obstacle;
+
+  const loopRef = useRef<DetectionLoop<DetectionResult> | null>(null);
+  const trackerRef = useRef(new ObjectTracker());
+  const monitorRef = useRef(new ObstacleMonitor({ cautionSeconds: alertSeconds }));
+  const sonifierRef = useRef<Sonifier | null>(null);
+
+  // A new lead time starts the monitor afresh rather than mixing thresholds
+  useEffect(() => {
+    monitorRef.current = new ObstacleMonitor({ cautionSeconds: alertSeconds });
+  }, [alertSeconds]);
+
+  useEffect(() => {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    sonifierRef.current = new Sonifier(ctx);
+    return () => {
+      sonifierRef.current = null;
+      if (ctx.state !== 'closed') ctx.close();
+    };
+  }, []);
+
+  // Runs after the effect above on mount, so the first alert already uses it
+  useEffect(() => {
+    sonifierRef.current?.setVolume(alertVolume);
+  }, [alertVolume]);
+
+  // Load the detector configured for this mode on component mount
+  useEffect(() => {
+    let cancelled = false;
+    const loadModel = async () => {
+      setIsLoadingModel(true);
+      try {
+        const candidate = getDetector(detectionProfileFor(AppMode.OBSTACLE).detectorId);
+        // Everything runs on the device, so without a cached model there is nothing to fall back on
+        const availability = candidate.isLoaded ? 'cached' : await checkModelAvailability(candidate.modelUrls);
+        if (cancelled) return;
+        setModelAvailability(availability);
+        if (availability === 'unavailable') {
+          setError(currentTranslator().t('obstacle.error.offlineModel'));
+          return;
+        }
+        await candidate.load();
+        if (!cancelled) setDetector(candidate);
+      } catch (err) {
+        console.error("Failed to load model:", err);
+        if (cancelled) return;
+        if (!navigator.onLine) {
+          setModelAvailability('unavailable');
+          setError(currentTranslator().t('obstacle.error.offlineModel'));
+        } else {
+          setError(currentTranslator().t('fast.error.loadFailed'));
+        }
+      } finally {
+        if (!cancelled) setIsLoadingModel(false);
+      }
+    };
+    loadModel();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const camera = useCamera(videoRef, { mode: AppMode.OBSTACLE });
+  const { readFrame } = camera;
+
+  // Growth measured across two sources would be nonsense
+  useEffect(() => {
+    trackerRef.current.reset();
+    monitorRef.current.reset();
+  }, [camera.frameSource]);
+
+  useEffect(() => {
+    if (camera.errorMessage) {
+      setError(currentTranslator().t('common.checkPermissions', { error: camera.errorMessage }));
+    }
+  }, [camera.errorMessage]);
+
+  useEffect(() => {
+    return () => {
+      stopSpeaking();
+      haptics.stop();
+    };
+  }, []);
+
+  const raiseAlert = useCallback((alert: ObstacleAlert & { level: Alarm }) => {
+    // Danger cuts off whatever is being said; anything milder queues behind it
+    speak(phraseAlert(alert, currentTranslator()), { interrupt: alert.level === 'danger' });
+    haptics.play(ALERT_CUES[alert.level], { force: true });
+    const sonifier = sonifierRef.current;
+    if (sonifier) {
+      const ctx = sonifier.context;
+      if (ctx instanceof AudioContext && ctx.state === 'suspended') ctx.resume();
+      sonifier.schedule({
+        className: alert.label,
+        pan: panFromCenterX(alert.centerX),
+        nearness: ALERT_NEARNESS[alert.level],
+      });
+    }
+  }, []);
+
+  const handleDetections = useCallback(({ predictions, frameWidth, frameHeight, timestamp }: DetectionResult) => {
+    const { visible } = trackerRef.current.update(predictions);
+    const frame = { width: frameWidth, height: frameHeight };
+    const alert = monitorRef.current.update(visible, frame, timestamp);
+
+    if (alert && alert.level !== 'none') {
+      const level = alert.level;
+      setFlagged(boxes => [
+        ...boxes.filter(b => b.id !== alert.trackId && visible.some(t => t.id === b.id)),
+        {
+          id: alert.trackId,
+          label: currentTranslator().className(alert.label),
+          x: alert.bbox[0] / frameWidth,
+          y: alert.bbox[1] / frameHeight,
+          width: alert.bbox[2] / frameWidth,
+          height: alert.bbox[3] / frameHeight,
+          level,
+        },
+      ]);
+      raiseAlert({ ...alert, level });
+      return;
+    }
+
+    // Flagged objects follow their tracks until they leave the view
+    setFlagged(boxes => boxes.flatMap(box => {
+      const track = visible.find(t => t.id === box.id);
+      if (!track) return [];
+      return [{
+        ...box,
+        x: track.bbox[0] / frameWidth,
+        y: track.bbox[1] / frameHeight,
+        width: track.bbox[2] / frameWidth,
+        height: track.bbox[3] / frameHeight,
+      }];
+    }));
+  }, [raiseAlert]);
+
+  // Run the detector continuously on the live video once the model is ready
+  useEffect(() => {
+    if (!detector) return;
+    const { minScore, maxDetections } = detectionProfileFor(AppMode.OBSTACLE);
+
+    const loop = new DetectionLoop<DetectionResult>({
+      targetFps,
+      detect: async () => {
+        const frame = await readFrame();
+        if (!frame) return null;
+        const predictions = await detector.detect(frame.image, { minScore, maxDetections });
+        return { predictions, frameWidth: frame.width, frameHeight: frame.height, timestamp: frame.timestamp };
+      },
+      onResult: handleDetections,
+      onError: (err) => {
+        console.error("Detection failed:", err);
+        setError(currentTranslator().t('fast.error.detectionFailed'));
+      },
+    });
+    loopRef.current = loop;
+    trackerRef.current.reset();
+    monitorRef.current.reset();
+    loop.start();
+    setIsPaused(false);
+
+    return () => {
+      loop.stop();
+      loopRef.current = null;
+    };
+  }, [detector, handleDetections, readFrame]);
+
+  useEffect(() => {
+    loopRef.current?.setTargetFps(targetFps);
+  }, [targetFps]);
+
+  const handleTogglePause = () => {
+    const loop = loopRef.current;
+    if (!loop) return;
+    if (loop.isPaused) {
+      trackerRef.current.reset();
+      monitorRef.current.reset();
+      setError(null);
+      loop.resume();
+      setIsPaused(false);
+    } else {
+      loop.pause();
+      stopSpeaking();
+      haptics.stop();
+      setFlagged([]);
+      setIsPaused(true);
+    }
+  };
+
+  // "Stop" pauses the alerts; "obstacle mode" while paused picks them back up.
+  useVoiceCommandHandler((intent) => {
+    const loop = loopRef.current;
+    if (intent.type === 'stop' && loop && !loop.isPaused) {
+      handleTogglePause();
+      return true;
+    }
+    if (intent.type === 'openMode' && intent.mode === AppMode.OBSTACLE) {
+      if (loop?.isPaused) handleTogglePause();
+      return true;
+    }
+    return false;
+  });
+
+  const getButtonContent = () => {
+    if (isLoadingModel) {
+      return (
+        <div className="flex items-center justify-center">
+          <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-gray-800" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+          <span className="text-gray-800">
+            {modelAvailability === 'network' ? t('fast.downloadingModel') : t('fast.loadingModel')}
+          </span>
+        </div>
+      );
+    }
+    if (modelAvailability === 'unavailable') {
+      return <span className="text-gray-800 font-semibold">{t('fast.modelUnavailable')}</span>;
+    }
+    if (isPaused) {
+      return <PlayIcon className="w-8 h-8 text-gray-800" />;
+    }
+    return <PauseIcon className="w-8 h-8 text-gray-800" />;
+  };
+
+  const statusText = () => {
+    if (isLoadingModel) return modelAvailability === 'network' ? t('fast.downloadingModel') : t('fast.loadingModel');
+    if (modelAvailability === 'unavailable') return t('fast.modelUnavailable');
+    if (!detector) return '';
+    return isPaused ? t('obstacle.paused') : t('obstacle.watching');
+  };
+
+  return (
+    <div {...gestureSurface('relative flex flex-col items-center justify-center min-h-screen bg-black p-4')}>
+      <h1 className="sr-only">{t('home.obstacle.title')}</h1>
+      <p role="status" className="sr-only">{statusText()}</p>
+      <button onClick={() => setMode(AppMode.HOME)} className="absolute top-4 left-4 z-20 p-2 bg-gray-800 bg-opacity-50 rounded-full" aria-label={t('common.back')}>
+        <ArrowLeftIcon className="w-6 h-6 text-white" />
+      </button>
+      <div className="absolute top-4 right-4 z-20 flex gap-2">
+        <CameraControls camera={camera} />
+      </div>
+
+      <div className="w-full max-w-lg aspect-[9/16] rounded-xl overflow-hidden relative shadow-lg bg-gray-800 flex items-center justify-center">
+        {error && !isLoadingModel && <p role="alert" className="absolute top-4 inset-x-0 z-10 text-red-400 text-center px-4">{error}</p>}
+
+        <div className="relative w-full h-full">
+          <video ref={videoRef} autoPlay playsInline muted aria-hidden="true" className="w-full h-full object-cover" />
+          {detector && !isPaused && (
+            <div
+              aria-hidden="true"
+              className="absolute border-2 border-dashed border-white border-opacity-50"
+              style={{
+                left: `${corridor.left * 100}%`,
+                top: `${corridor.top * 100}%`,
+                width: `${(corridor.right - corridor.left) * 100}%`,
+                height: `${(corridor.bottom - corridor.top) * 100}%`,
+              }}
+            />
+          )}
+          {flagged.map(box => (
+            <div
+              key={box.id}
+              aria-hidden="true"
+              className={`absolute border-4 ${BOX_STYLES[box.level]}`}
+              style={{
+                left: `${box.x * 100}%`,
+                top: `${box.y * 100}%`,
+                width: `${box.width * 100}%`,
+                height: `${box.height * 100}%`,
+              }}
+            >
+              <span className="absolute -top-6 left-0 bg-white text-black text-xs font-semibold px-1 rounded">
+                {box.label}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-10">
+        <button
+          onClick={handleTogglePause}
+          disabled={isLoadingModel || !detector}
+          className="w-auto h-20 px-8 bg-white rounded-full flex items-center justify-center border-4 border-gray-500 focus:outline-none focus:ring-4 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label={isPaused ? t('obstacle.resume') : t('obstacle.pause')}
+        >
+          {getButtonContent()}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ObstacleMode;
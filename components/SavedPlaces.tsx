@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Place } from '../utils/geocoder';
+import { getPlacesStore } from '../utils/places';
+import { usePlaces } from '../hooks/usePlaces';
+import { useTranslation } from '../hooks/useTranslation';
+import { announce } from '../utils/announcer';
+import { StarIcon, TrashIcon } from './icons';
+
+interface SavedPlacesProps {
+  onSelect: (place: Place) => void;
+}
+
+// Favorites and recent destinations under the destination field, so a
+// regular trip is one tap instead of retyping it. Recent places can be
+// saved as favorites under a name of the user's choice.
+const SavedPlaces: React.FC<SavedPlacesProps> = ({ onSelect }) => {
+  const { t } = useTranslation();
+  const { favorites, recents } = usePlaces();
+  const [draft, setDraft] = useState<{ place: Place; label: string } | null>(null);
+  const store = getPlacesStore();
+
+  const saveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.label.trim()) return;
+    store.saveFavorite(draft.label, draft.place);
+    announce(t('places.saved', { label: draft.label.trim() }));
+    setDraft(null);
+  };
+
+  if (favorites.length === 0 && recents.length === 0) return null;
+
+  return (
+    <div className="mt-6 text-left">
+      {favorites.length > 0 && (
+        <section aria-labelledby="favorites-heading" className="mb-4">
+          <h2 id="favorites-heading" className="text-lg font-semibold text-gray-300 mb-2">{t('places.favorites')}</h2>
+          <ul className="flex flex-wrap gap-2">
+            {favorites.map(favorite => (
+              <li key={favorite.label} className="flex items-center bg-gray-800 rounded-full">
+                <button
+                  onClick={() => onSelect({ name: favorite.label, location: favorite.location, address: favorite.address })}
+                  className="py-2 pl-4 pr-2 text-white"
+                >
+                  {favorite.label}
+                </button>
+                <button
+                  onClick={() => store.removeFavorite(favorite.label)}
+                  className="p-2 text-gray-400 hover:text-white"
+                  aria-label={t('places.removeFavorite', { label: favorite.label })}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {recents.length > 0 && (
+        <section aria-labelledby="recents-heading">
+          <div className="flex items-center justify-between mb-2">
+            <h2 id="recents-heading" className="text-lg font-semibold text-gray-300">{t('places.recents')}</h2>
+            <button
+              onClick={() => store.clearRecents()}
+              className="p-2 text-gray-400 hover:text-white"
+              aria-label={t('places.clearRecents')}
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {recents.map(recent => (
+              <li key={`${recent.name}-${recent.usedAt}`} className="bg-gray-800 rounded-lg">
+                <div className="flex items-center">
+                  <button onClick={() => onSelect(recent)} className="flex-1 text-left py-2 px-3">
+                    <span className="block text-white">{recent.name}</span>
+                    {recent.address && <span className="block text-sm text-gray-400">{recent.address}</span>}
+                  </button>
+                  <button
+                    onClick={() => setDraft({ place: recent, label: '' })}
+                    className="p-3 text-gray-400 hover:text-yellow-300"
+                    aria-label={t('places.saveFavorite', { name: recent.name })}
+                  >
+                    <StarIcon className="w-5 h-5" />
+                  </button>
+                </div>
+                {draft?.place === recent && (
+                  <form onSubmit={saveDraft} className="flex gap-2 p-3 pt-0">
+                    <input
+                      type="text"
+                      autoFocus
+                      aria-label={t('places.favoriteLabel')}
+                      placeholder={t('places.favoriteLabel')}
+                      value={draft.label}
+                      onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                      className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+                    />
+                    <button type="submit" className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg">
+                      {t('places.save')}
+                    </button>
+                    <button type="button" onClick={() => setDraft(null)} className="bg-gray-700 hover:bg-gray-600 py-2 px-4 rounded-lg">
+                      {t('common.cancel')}
+                    </button>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SavedPlaces;
@@ -2,44 +2,71 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { AppMode } from '../types';
 import { ArrowLeftIcon, MicIcon, StopCircleIcon } from './icons';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality } from '@google/genai';
-import { decode, decodeAudioData, createBlob } from '../utils/audio';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { decode, decodeAudioData } from '../utils/audio';
+import { MicCapture } from '../utils/micCapture';
+import { AdaptiveFrameScheduler, DEFAULT_FRAME_SCHEDULER_OPTIONS, FrameStats } from '../utils/frameScheduler';
+import { useCamera } from '../hooks/useCamera';
+import CameraControls from './CameraControls';
+import TranscriptLog from './TranscriptLog';
+import { useTranscript } from '../hooks/useTranscript';
+import { getDefaultTranscript } from '../utils/transcript';
+import { getSettingsStore } from '../utils/settings';
+import { speak } from '../utils/speech';
+import { useTranslation } from '../hooks/useTranslation';
+import { currentLanguage, currentTranslator, MessageKey, responseLanguageInstruction } from '../utils/i18n';
+import { LiveSessionController, LiveSessionState, ConnectionNotice } from '../utils/liveSession';
+import { getAiProvider } from '../utils/aiProvider';
+import { useVoiceCommandHandler } from '../hooks/useVoiceCommands';
+import { gestureSurface } from '../hooks/useGestures';
 
 interface SceneDescriptorModeProps {
   setMode: (mode: AppMode) => void;
 }
 
-type SessionState = 'idle' | 'connecting' | 'active' | 'error' | 'stopped';
+const CONNECTION_NOTICES: Record<ConnectionNotice, MessageKey> = {
+  degraded: 'scene.notice.degraded',
+  restored: 'scene.notice.restored',
+  lost: 'scene.notice.lost',
+};
+
+const speakNotice = (notice: ConnectionNotice) => speak(currentTranslator().t(CONNECTION_NOTICES[notice]));
 
 const SceneDescriptorMode: React.FC<SceneDescriptorModeProps> = ({ setMode }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [error, setError] = useState<string | null>(null);
-  const [sessionState, setSessionState] = useState<SessionState>('idle');
-  const [transcription, setTranscription] = useState<string>('');
+  const [sessionState, setSessionState] = useState<LiveSessionState>('idle');
+  const transcript = getDefaultTranscript();
+  const turns = useTranscript(transcript);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const { t } = useTranslation();
   
-  const sessionRef = useRef<Promise<LiveSession> | null>(null);
+  const controllerRef = useRef<LiveSessionController | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const frameIntervalRef = useRef<number | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const frameSchedulerRef = useRef<AdaptiveFrameScheduler | null>(null);
+  // Bumped by every start and by cleanup, so a start still waiting on the
+  // microphone prompt can tell it has been cancelled or superseded.
+  const startIdRef = useRef(0);
   
   const nextAudioStartTimeRef = useRef<number>(0);
   const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
-  const cleanup = useCallback(() => {
-    if (frameIntervalRef.current) {
-      clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = null;
+  // Releases the mic, audio graph and frame scheduler, leaving the session itself alone
+  const releaseMedia = useCallback(() => {
+    if (frameSchedulerRef.current) {
+      frameSchedulerRef.current.stop();
+      frameSchedulerRef.current = null;
     }
-    if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => track.stop());
-        mediaStreamRef.current = null;
+    if (micStreamRef.current) {
+        micStreamRef.current.getTracks().forEach(track => track.stop());
+        micStreamRef.current = null;
     }
-    if(scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
+    if(micCaptureRef.current) {
+      micCaptureRef.current.stop();
+      micCaptureRef.current = null;
     }
     if(inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
       inputAudioContextRef.current.close();
@@ -49,193 +76,249 @@ const SceneDescriptorMode: React.FC<SceneDescriptorModeProps> = ({ setMode }) =>
       outputAudioContextRef.current.close();
       outputAudioContextRef.current = null;
     }
-    if (sessionRef.current) {
-      sessionRef.current.then(session => session.close());
-      sessionRef.current = null;
-    }
   }, []);
 
-  const startCameraAndMic = useCallback(async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment' },
-        audio: true,
-      });
-      mediaStreamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
-      }
-    } catch (err) {
-      console.error("Error accessing media devices:", err);
-      setError("Could not access camera or microphone. Please check permissions.");
+  const cleanup = useCallback(() => {
+    startIdRef.current++;
+    if (controllerRef.current) {
+      controllerRef.current.stop();
+      controllerRef.current = null;
+    }
+    releaseMedia();
+    // Keep whatever was said last even if the page is closed next
+    transcript.flush();
+  }, [releaseMedia, transcript]);
+
+  const camera = useCamera(videoRef, { mode: AppMode.SCENE_DESCRIPTOR });
+
+  useEffect(() => {
+    if (camera.errorMessage) {
+      setError(currentTranslator().t('common.checkPermissions', { error: camera.errorMessage }));
       setSessionState('error');
     }
-  }, []);
+  }, [camera.errorMessage]);
 
   useEffect(() => {
-    startCameraAndMic();
     return () => {
       cleanup();
     };
-  }, [startCameraAndMic, cleanup]);
+  }, [cleanup]);
 
   const startSession = async () => {
-    if (!mediaStreamRef.current) {
-      setError("Media stream not available.");
+    if (!camera.stream) {
+      setError(t('scene.error.noCamera'));
+      setSessionState('error');
+      return;
+    }
+    const { live } = getAiProvider();
+    if (!live) {
+      setError(t('scene.error.noLive'));
       setSessionState('error');
       return;
     }
-    
+
+    // Connecting already, so the start button is disabled during the prompt
+    const startId = ++startIdRef.current;
     setSessionState('connecting');
-    setTranscription('');
 
+    // The microphone is only held while a session runs
+    let micStream: MediaStream;
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+      micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      if (startId !== startIdRef.current) return;
+      console.error("Error accessing microphone:", err);
+      setError(t('scene.error.microphone'));
+      setSessionState('error');
+      return;
+    }
+    if (startId !== startIdRef.current) {
+      // Unmounted, stopped or started again while the prompt was up
+      micStream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    micStreamRef.current = micStream;
 
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    transcript.beginSession();
+    // Settings are read once per session; changes apply from the next one
+    const { scene } = getSettingsStore().get();
+    setFrameStats(null);
+
+    // Streams mic audio and camera frames into whichever connection is current.
+    // Set up once; while reconnecting the controller simply drops the input.
+    const startStreaming = async () => {
+      if (!inputAudioContextRef.current || !micStreamRef.current) return;
+      try {
+        micCaptureRef.current = await MicCapture.start(inputAudioContextRef.current, micStreamRef.current, {
+          targetSampleRate: live.inputSampleRate,
+          onChunk: (pcmBlob) => controllerRef.current?.send({ media: pcmBlob }),
+        });
+      } catch (err) {
+        console.error("Failed to start microphone capture:", err);
+        setError(t('scene.error.micCapture'));
+      }
+
+      // Frames are downscaled and only sent when the scene changes, faster while it moves
+      frameSchedulerRef.current = new AdaptiveFrameScheduler(
+        camera.readFrame,
+        (data) => controllerRef.current?.send({ media: { data, mimeType: 'image/jpeg' } }) ?? false,
+        {
+          baseIntervalMs: 1000 / scene.frameRate,
+          // Never sample slower than the calm rate, even when it is set very high
+          motionIntervalMs: Math.min(DEFAULT_FRAME_SCHEDULER_OPTIONS.motionIntervalMs, 1000 / scene.frameRate),
+          jpegQuality: scene.jpegQuality,
+          maxDimension: scene.maxFrameDimension,
+        },
+        setFrameStats,
+      );
+      frameSchedulerRef.current.start();
+    };
+
+    const handleMessage = async (message: LiveServerMessage) => {
+      transcript.ingest(message);
+
+      const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+      if (base64Audio && outputAudioContextRef.current) {
+          const ctx = outputAudioContextRef.current;
+          nextAudioStartTimeRef.current = Math.max(nextAudioStartTimeRef.current, ctx.currentTime);
+          const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, live.outputSampleRate, 1);
+          const source = ctx.createBufferSource();
+          source.buffer = audioBuffer;
+          source.connect(ctx.destination);
+          source.addEventListener('ended', () => audioSourcesRef.current.delete(source));
+          source.start(nextAudioStartTimeRef.current);
+          nextAudioStartTimeRef.current += audioBuffer.duration;
+          audioSourcesRef.current.add(source);
+      }
+
+      if (message.serverContent?.interrupted) {
+          for(const source of audioSourcesRef.current.values()) {
+              source.stop();
+          }
+          audioSourcesRef.current.clear();
+          nextAudioStartTimeRef.current = 0;
+      }
+    };
+
+    try {
+      // Let the input context run at the device's native rate; MicCapture resamples to 16 kHz.
+      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: live.outputSampleRate });
       nextAudioStartTimeRef.current = 0;
 
-      sessionRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      const controller = new LiveSessionController({
+        transport: live.transport,
+        model: live.model,
         config: {
           responseModalities: [Modality.AUDIO],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
-          systemInstruction: 'You are a visual assistant. Describe what you see from the video frames and answer any user questions concisely. Be helpful and descriptive.',
+          // Native-audio models pick their spoken language from the conversation, so it is set here
+          systemInstruction: `${scene.systemInstruction}\n\n${responseLanguageInstruction(currentLanguage())}`,
+        },
+        onStateChange: (state) => {
+          setSessionState(state);
+          if (state === 'error') releaseMedia();
+        },
+        onOpen: ({ reconnect, resumed }) => {
+          // A fresh session has not seen the scene, however little it has changed
+          if (reconnect && !resumed) frameSchedulerRef.current?.resend();
+          if (reconnect) return;
+          startStreaming();
+          // Initial user prompt
+          if (scene.initialPrompt.trim()) controller.send({ text: scene.initialPrompt });
         },
-        callbacks: {
-          onopen: () => {
-            if (!inputAudioContextRef.current || !mediaStreamRef.current) return;
-            const source = inputAudioContextRef.current.createMediaStreamSource(mediaStreamRef.current);
-            scriptProcessorRef.current = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              // FIX: Per guideline, solely rely on sessionPromise to resolve to avoid race conditions.
-              sessionRef.current?.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(scriptProcessorRef.current);
-            scriptProcessorRef.current.connect(inputAudioContextRef.current.destination);
-            
-            frameIntervalRef.current = window.setInterval(() => {
-                if(videoRef.current && canvasRef.current) {
-                    const video = videoRef.current;
-                    const canvas = canvasRef.current;
-                    const context = canvas.getContext('2d');
-                    if (context) {
-                        canvas.width = video.videoWidth;
-                        canvas.height = video.videoHeight;
-                        context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-                        canvas.toBlob(async (blob) => {
-                            // FIX: Per guideline, solely rely on sessionPromise to resolve to avoid race conditions.
-                            if(blob) {
-                                const reader = new FileReader();
-                                reader.onloadend = () => {
-                                    const base64data = (reader.result as string).split(',')[1];
-                                    sessionRef.current?.then((session) => {
-                                        session.sendRealtimeInput({ media: { data: base64data, mimeType: 'image/jpeg' } });
-                                    });
-                                };
-                                reader.readAsDataURL(blob);
-                            }
-                        }, 'image/jpeg', 0.8);
-                    }
-                }
-            }, 1000); // 1 frame per second
-            setSessionState('active');
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             if (message.serverContent?.outputTranscription) {
-                const text = message.serverContent.outputTranscription.text;
-                setTranscription(prev => prev + text);
-            }
-
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current) {
-                const ctx = outputAudioContextRef.current;
-                nextAudioStartTimeRef.current = Math.max(nextAudioStartTimeRef.current, ctx.currentTime);
-                const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-                const source = ctx.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(ctx.destination);
-                source.addEventListener('ended', () => audioSourcesRef.current.delete(source));
-                source.start(nextAudioStartTimeRef.current);
-                nextAudioStartTimeRef.current += audioBuffer.duration;
-                audioSourcesRef.current.add(source);
-            }
-            
-            if (message.serverContent?.interrupted) {
-                for(const source of audioSourcesRef.current.values()) {
-                    source.stop();
-                }
-                audioSourcesRef.current.clear();
-                nextAudioStartTimeRef.current = 0;
-            }
-          },
-          onerror: (e: ErrorEvent) => {
-            console.error('Session error:', e);
-            setError('An error occurred with the connection.');
-            setSessionState('error');
-            cleanup();
-          },
-          onclose: () => {
-             setSessionState('stopped');
-             cleanup();
-          },
+        onMessage: handleMessage,
+        onNotice: speakNotice,
+        onError: (e) => {
+          console.error('Session error:', e);
+          setError(t('scene.error.connection'));
         },
       });
-      // Initial user prompt
-      sessionRef.current.then((session) => session.sendRealtimeInput({text: "What is happening in front of me?"}));
+      controllerRef.current = controller;
+      controller.start();
     } catch (e) {
       console.error('Failed to start session', e);
-      setError('Failed to initialize AI session.');
+      cleanup();
+      setError(t('scene.error.init'));
       setSessionState('error');
     }
   };
-  
+
   const stopSession = () => {
     cleanup();
     setSessionState('stopped');
   };
 
+  // While a session runs, commands go to it: "stop" ends it, "repeat that"
+  // and "describe the scene" are passed on to the model.
+  useVoiceCommandHandler((intent) => {
+    const running = sessionState === 'active' || sessionState === 'reconnecting';
+    if (intent.type === 'stop' && running) {
+      stopSession();
+      return true;
+    }
+    if (intent.type === 'repeat' && sessionState === 'active') {
+      // Asked in the user's language, so the reply stays in it
+      controllerRef.current?.send({ text: t('scene.repeatRequest') });
+      return true;
+    }
+    if (intent.type === 'openMode' && intent.mode === AppMode.SCENE_DESCRIPTOR) {
+      if (sessionState === 'active') {
+        controllerRef.current?.send({ text: getSettingsStore().get().scene.initialPrompt });
+      } else if (!running && sessionState !== 'connecting') {
+        startSession();
+      }
+      return true;
+    }
+    return false;
+  });
+
   const getStatusMessage = () => {
     switch(sessionState) {
-        case 'idle': return 'Press mic to start';
-        case 'connecting': return 'Connecting...';
-        case 'active': return 'Listening...';
-        case 'stopped': return 'Session ended. Press mic to restart.';
-        case 'error': return error || 'An error occurred';
+        case 'idle': return t('scene.status.idle');
+        case 'connecting': return t('scene.status.connecting');
+        case 'active': return t('scene.status.active');
+        case 'reconnecting': return t('scene.status.reconnecting');
+        case 'stopped': return t('scene.status.stopped');
+        case 'error': return error || t('scene.error.generic');
     }
   };
 
   return (
     <div className="relative flex flex-col items-center justify-between min-h-screen bg-black p-4">
+      <h1 className="sr-only">{t('home.scene.title')}</h1>
       <div className="absolute top-4 left-4 z-20">
-        <button onClick={() => { stopSession(); setMode(AppMode.HOME); }} className="p-2 bg-gray-800 bg-opacity-50 rounded-full">
+        <button onClick={() => { stopSession(); setMode(AppMode.HOME); }} className="p-2 bg-gray-800 bg-opacity-50 rounded-full" aria-label={t('common.back')}>
             <ArrowLeftIcon className="w-6 h-6 text-white" />
         </button>
       </div>
-       <div className="w-full max-w-lg aspect-[9/16] rounded-xl overflow-hidden relative shadow-lg bg-gray-800 flex items-center justify-center mt-16">
-        {error && sessionState !== 'active' && <p className="text-red-400 text-center px-4">{error}</p>}
-        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
-        <canvas ref={canvasRef} className="hidden"></canvas>
+      <CameraControls camera={camera} className="absolute top-4 right-4 z-20" />
+      {/* The camera view takes the gestures; the transcript below it still scrolls */}
+      <div {...gestureSurface('w-full max-w-lg aspect-[9/16] rounded-xl overflow-hidden relative shadow-lg bg-gray-800 flex items-center justify-center mt-16')}>
+        {error && sessionState !== 'active' && <p role="alert" className="text-red-400 text-center px-4">{error}</p>}
+        <video ref={videoRef} autoPlay playsInline muted aria-hidden="true" className="w-full h-full object-cover" />
       </div>
       <div className="w-full max-w-lg text-center mt-4 flex-grow flex flex-col justify-end pb-24">
-        <div className="min-h-[6em] bg-black bg-opacity-30 rounded-lg p-3 mb-4">
-            <p className="text-lg text-gray-300">{transcription || getStatusMessage()}</p>
-        </div>
+        {/* Always rendered so every state change is announced; shown once the log has turns */}
+        <p role="status" className={turns.length > 0 ? 'text-sm text-gray-400 mb-2' : 'sr-only'}>{getStatusMessage()}</p>
+        <TranscriptLog turns={turns} placeholder={getStatusMessage()} onClear={() => transcript.clear()} />
+        {frameStats && (sessionState === 'active' || sessionState === 'reconnecting') && (
+            <p className="text-xs text-gray-500 mb-2">
+                {t('scene.frameStats', {
+                  count: frameStats.framesSent,
+                  skipped: frameStats.framesSkipped,
+                  kb: (frameStats.bytesSent / 1024).toFixed(0),
+                })}
+            </p>
+        )}
         <div className="flex items-center justify-center">
-            {sessionState !== 'active' ? (
-                 <button onClick={startSession} disabled={sessionState === 'connecting'} className="w-20 h-20 bg-teal-600 rounded-full flex items-center justify-center border-4 border-teal-400 disabled:opacity-50 focus:outline-none focus:ring-4 focus:ring-teal-500">
+            {sessionState !== 'active' && sessionState !== 'reconnecting' ? (
+                 <button onClick={startSession} disabled={sessionState === 'connecting'} aria-label={t('scene.start')} className="w-20 h-20 bg-teal-600 rounded-full flex items-center justify-center border-4 border-teal-400 disabled:opacity-50 focus:outline-none focus:ring-4 focus:ring-teal-500">
                     <MicIcon className="w-8 h-8 text-white"/>
                 </button>
             ): (
-                <button onClick={stopSession} className="w-20 h-20 bg-red-600 rounded-full flex items-center justify-center border-4 border-red-400 focus:outline-none focus:ring-4 focus:ring-red-500">
+                <button onClick={stopSession} aria-label={t('scene.stop')} className="w-20 h-20 bg-red-600 rounded-full flex items-center justify-center border-4 border-red-400 focus:outline-none focus:ring-4 focus:ring-red-500">
                     <StopCircleIcon className="w-8 h-8 text-white"/>
                 </button>
             )}
@@ -0,0 +1,478 @@
+import React, { useEffect, useState } from 'react';
+import { AppMode } from '../types';
+import { ArrowLeftIcon } from './icons';
+import { useSettings } from '../hooks/useSettings';
+import { NumericRange, SETTING_RANGES } from '../utils/settings';
+import { loadVoices, speak, voicesFor } from '../utils/speech';
+import { useTranslation } from '../hooks/useTranslation';
+import { Language, LANGUAGES, MessageKey } from '../utils/i18n';
+import { haptics } from '../utils/haptics';
+import { listGeocoders } from '../utils/geocoder';
+import { listRecognizers } from '../utils/speechRecognizer';
+import { AiModels, DEFAULT_GEMINI_MODELS, DEFAULT_OPENAI_MODELS, listAiProviders } from '../utils/aiProvider';
+
+interface SettingsScreenProps {
+  setMode: (mode: AppMode) => void;
+}
+
+interface RangeFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  range: NumericRange;
+  // How the value is shown next to the label and read out by screen readers.
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const RangeField: React.FC<RangeFieldProps> = ({ id, label, value, range, format, onChange }) => (
+  <div className="mb-4">
+    <label htmlFor={id} className="flex justify-between text-gray-300 mb-1">
+      <span>{label}</span>
+      <span className="text-gray-400">{format(value)}</span>
+    </label>
+    <input
+      id={id}
+      type="range"
+      min={range.min}
+      max={range.max}
+      step={range.step}
+      value={value}
+      aria-valuetext={format(value)}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-indigo-500"
+    />
+  </div>
+);
+
+interface ToggleFieldProps {
+  id: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const ToggleField: React.FC<ToggleFieldProps> = ({ id, label, checked, onChange }) => (
+  <div className="mb-4 flex items-center justify-between">
+    <label htmlFor={id} className="text-gray-300">{label}</label>
+    <input
+      id={id}
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-6 h-6 accent-indigo-500"
+    />
+  </div>
+);
+
+interface TextFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  type?: 'text' | 'url' | 'password';
+  placeholder?: string;
+  hint?: string;
+}
+
+const TextField: React.FC<TextFieldProps> = ({ id, label, value, onChange, type = 'text', placeholder, hint }) => (
+  <div className="mb-4">
+    <label htmlFor={id} className="block text-gray-300 mb-1">{label}</label>
+    <input
+      id={id}
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      autoComplete="off"
+      aria-describedby={hint ? `${id}-hint` : undefined}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+    />
+    {hint && <p id={`${id}-hint`} className="text-sm text-gray-400 mt-1">{hint}</p>}
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <fieldset className="bg-gray-800 rounded-lg p-4 mb-6">
+    <legend className="text-xl font-bold px-2">{title}</legend>
+    {children}
+  </fieldset>
+);
+
+const RECOGNIZER_LABELS: Record<string, MessageKey> = {
+  webspeech: 'settings.recognizer.webspeech',
+  ai: 'settings.recognizer.ai',
+};
+
+const GEOCODER_LABELS: Record<string, MessageKey> = {
+  nominatim: 'settings.geocoder.nominatim',
+  gazetteer: 'settings.geocoder.gazetteer',
+};
+
+const AI_PROVIDER_LABELS: Record<string, MessageKey> = {
+  gemini: 'settings.aiProvider.gemini',
+  openai: 'settings.aiProvider.openai',
+  mock: 'settings.aiProvider.mock',
+};
+
+// Shown as placeholders, since a blank model field means the provider's default.
+const DEFAULT_AI_MODELS: Record<string, AiModels> = {
+  gemini: DEFAULT_GEMINI_MODELS,
+  openai: DEFAULT_OPENAI_MODELS,
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const times = (value: number) => `${value.toFixed(1)}×`;
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ setMode }) => {
+  const { settings, update, reset } = useSettings();
+  const { t, info, commandPhrases } = useTranslation();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVoices().then(list => {
+      if (!cancelled) setVoices(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const { speech, fastMode, obstacle, scene, maps, ai } = settings;
+  const defaultModels = DEFAULT_AI_MODELS[ai.provider];
+  // Only voices that can speak the chosen language are offered
+  const languageVoices = voicesFor(voices, info.speechLang);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-4">
+      <div className="max-w-2xl mx-auto">
+        <div className="flex items-center gap-4 mb-8">
+          <button onClick={() => setMode(AppMode.HOME)} className="p-2 bg-gray-800 bg-opacity-50 rounded-full" aria-label={t('common.back')}>
+            <ArrowLeftIcon className="w-6 h-6 text-white" />
+          </button>
+          <h1 className="text-4xl font-bold">{t('settings.title')}</h1>
+        </div>
+
+        <Section title={t('settings.language')}>
+          <label htmlFor="general-language" className="sr-only">{t('settings.language')}</label>
+          <select
+            id="general-language"
+            value={settings.general.language ?? ''}
+            onChange={(e) => update({ general: { language: e.target.value || null } })}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+          >
+            <option value="">{t('settings.languageAuto')}</option>
+            {(Object.keys(LANGUAGES) as Language[]).map(code => (
+              <option key={code} value={code} lang={code}>{LANGUAGES[code].nativeName}</option>
+            ))}
+          </select>
+        </Section>
+
+        <Section title={t('settings.accessibility')}>
+          <ToggleField
+            id="accessibility-high-contrast"
+            label={t('settings.highContrast')}
+            checked={settings.accessibility.highContrast}
+            onChange={(highContrast) => update({ accessibility: { highContrast } })}
+          />
+          <ToggleField
+            id="accessibility-announce-transcript"
+            label={t('settings.announceTranscript')}
+            checked={settings.accessibility.announceTranscript}
+            onChange={(announceTranscript) => update({ accessibility: { announceTranscript } })}
+          />
+          <p className="text-gray-400">{t('settings.gestures')}</p>
+        </Section>
+
+        <Section title={t('settings.speech')}>
+          <div className="mb-4">
+            <label htmlFor="speech-voice" className="block text-gray-300 mb-1">{t('settings.voice')}</label>
+            <select
+              id="speech-voice"
+              value={speech.voiceURI ?? ''}
+              onChange={(e) => update({ speech: { voiceURI: e.target.value || null } })}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+            >
+              <option value="">{t('settings.voiceDefault')}</option>
+              {languageVoices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+              ))}
+            </select>
+          </div>
+          <RangeField
+            id="speech-rate"
+            label={t('settings.rate')}
+            value={speech.rate}
+            range={SETTING_RANGES.speech.rate}
+            format={times}
+            onChange={(rate) => update({ speech: { rate } })}
+          />
+          <button
+            onClick={() => speak(t('settings.testVoicePhrase'))}
+            className="bg-indigo-600 hover:bg-indigo-700 font-bold py-2 px-4 rounded-lg"
+          >
+            {t('settings.testVoice')}
+          </button>
+        </Section>
+
+        <Section title={t('settings.fast')}>
+          <RangeField
+            id="fast-fps"
+            label={t('settings.fastFps')}
+            value={fastMode.targetFps}
+            range={SETTING_RANGES.fastMode.targetFps}
+            format={(v) => `${v}`}
+            onChange={(targetFps) => update({ fastMode: { targetFps } })}
+          />
+          <ToggleField
+            id="fast-earcons"
+            label={t('settings.tones')}
+            checked={fastMode.earcons}
+            onChange={(earcons) => update({ fastMode: { earcons } })}
+          />
+          <RangeField
+            id="fast-earcon-volume"
+            label={t('settings.toneVolume')}
+            value={fastMode.earconVolume}
+            range={SETTING_RANGES.fastMode.earconVolume}
+            format={percent}
+            onChange={(earconVolume) => update({ fastMode: { earconVolume } })}
+          />
+        </Section>
+
+        <Section title={t('settings.obstacle')}>
+          <RangeField
+            id="obstacle-fps"
+            label={t('settings.obstacleFps')}
+            value={obstacle.targetFps}
+            range={SETTING_RANGES.obstacle.targetFps}
+            format={(v) => `${v}`}
+            onChange={(targetFps) => update({ obstacle: { targetFps } })}
+          />
+          <RangeField
+            id="obstacle-alert-seconds"
+            label={t('settings.alertSeconds')}
+            value={obstacle.alertSeconds}
+            range={SETTING_RANGES.obstacle.alertSeconds}
+            format={(v) => t('settings.seconds', { count: v })}
+            onChange={(alertSeconds) => update({ obstacle: { alertSeconds } })}
+          />
+          <RangeField
+            id="obstacle-alert-volume"
+            label={t('settings.alertVolume')}
+            value={obstacle.alertVolume}
+            range={SETTING_RANGES.obstacle.alertVolume}
+            format={percent}
+            onChange={(alertVolume) => update({ obstacle: { alertVolume } })}
+          />
+        </Section>
+
+        <Section title={t('settings.scene')}>
+          <RangeField
+            id="scene-frame-rate"
+            label={t('settings.frameRate')}
+            value={scene.frameRate}
+            range={SETTING_RANGES.scene.frameRate}
+            format={(v) => v.toFixed(1)}
+            onChange={(frameRate) => update({ scene: { frameRate } })}
+          />
+          <RangeField
+            id="scene-jpeg-quality"
+            label={t('settings.imageQuality')}
+            value={scene.jpegQuality}
+            range={SETTING_RANGES.scene.jpegQuality}
+            format={percent}
+            onChange={(jpegQuality) => update({ scene: { jpegQuality } })}
+          />
+          <RangeField
+            id="scene-max-dimension"
+            label={t('settings.imageSize')}
+            value={scene.maxFrameDimension}
+            range={SETTING_RANGES.scene.maxFrameDimension}
+            format={(v) => `${v} px`}
+            onChange={(maxFrameDimension) => update({ scene: { maxFrameDimension } })}
+          />
+          <div className="mb-4">
+            <label htmlFor="scene-system-instruction" className="block text-gray-300 mb-1">{t('settings.systemInstruction')}</label>
+            <textarea
+              id="scene-system-instruction"
+              value={scene.systemInstruction}
+              onChange={(e) => update({ scene: { systemInstruction: e.target.value } })}
+              rows={4}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="scene-initial-prompt" className="block text-gray-300 mb-1">{t('settings.initialPrompt')}</label>
+            <input
+              id="scene-initial-prompt"
+              type="text"
+              value={scene.initialPrompt}
+              onChange={(e) => update({ scene: { initialPrompt: e.target.value } })}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+            />
+          </div>
+        </Section>
+
+        <Section title={t('settings.maps')}>
+          <RangeField
+            id="maps-announce-distance"
+            label={t('settings.announceDistance')}
+            value={maps.announceDistanceMeters}
+            range={SETTING_RANGES.maps.announceDistanceMeters}
+            format={(v) => t('settings.meters', { count: v })}
+            onChange={(announceDistanceMeters) => update({ maps: { announceDistanceMeters } })}
+          />
+          <RangeField
+            id="maps-off-route"
+            label={t('settings.offRouteDistance')}
+            value={maps.offRouteMeters}
+            range={SETTING_RANGES.maps.offRouteMeters}
+            format={(v) => t('settings.meters', { count: v })}
+            onChange={(offRouteMeters) => update({ maps: { offRouteMeters } })}
+          />
+          <RangeField
+            id="maps-jpeg-quality"
+            label={t('settings.imageQuality')}
+            value={maps.jpegQuality}
+            range={SETTING_RANGES.maps.jpegQuality}
+            format={percent}
+            onChange={(jpegQuality) => update({ maps: { jpegQuality } })}
+          />
+          <label htmlFor="maps-geocoder" className="block text-gray-300 mb-1">{t('settings.geocoder')}</label>
+          <select
+            id="maps-geocoder"
+            value={maps.geocoder}
+            onChange={(e) => update({ maps: { geocoder: e.target.value } })}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+          >
+            {listGeocoders().map(id => (
+              <option key={id} value={id}>{GEOCODER_LABELS[id] ? t(GEOCODER_LABELS[id]) : id}</option>
+            ))}
+          </select>
+        </Section>
+
+        <Section title={t('settings.vibration')}>
+          <ToggleField
+            id="haptics-enabled"
+            label={t('settings.vibrationEnabled')}
+            checked={settings.haptics.enabled}
+            onChange={(enabled) => update({ haptics: { enabled } })}
+          />
+          <RangeField
+            id="haptics-intensity"
+            label={t('settings.strength')}
+            value={settings.haptics.intensity}
+            range={SETTING_RANGES.haptics.intensity}
+            format={percent}
+            onChange={(intensity) => update({ haptics: { intensity } })}
+          />
+          <RangeField
+            id="haptics-tempo"
+            label={t('settings.speed')}
+            value={settings.haptics.tempo}
+            range={SETTING_RANGES.haptics.tempo}
+            format={times}
+            onChange={(tempo) => update({ haptics: { tempo } })}
+          />
+          <button
+            onClick={() => haptics.playSequence(['left', 'right'], { force: true })}
+            className="bg-indigo-600 hover:bg-indigo-700 font-bold py-2 px-4 rounded-lg"
+          >
+            {t('settings.testVibration')}
+          </button>
+        </Section>
+
+        <Section title={t('settings.voiceCommands')}>
+          <p className="text-gray-400 mb-4">{t('voice.hint')}</p>
+          <ToggleField
+            id="voice-wake-word"
+            label={t('settings.wakeWord', { phrase: commandPhrases.wake[0] })}
+            checked={settings.voice.wakeWord}
+            onChange={(wakeWord) => update({ voice: { wakeWord } })}
+          />
+          <label htmlFor="voice-recognizer" className="block text-gray-300 mb-1">{t('settings.recognizer')}</label>
+          <select
+            id="voice-recognizer"
+            value={settings.voice.recognizer}
+            onChange={(e) => update({ voice: { recognizer: e.target.value } })}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+          >
+            {listRecognizers().map(id => (
+              <option key={id} value={id}>{RECOGNIZER_LABELS[id] ? t(RECOGNIZER_LABELS[id]) : id}</option>
+            ))}
+          </select>
+        </Section>
+
+        <Section title={t('settings.ai')}>
+          <label htmlFor="ai-provider" className="block text-gray-300 mb-1">{t('settings.aiProvider')}</label>
+          <select
+            id="ai-provider"
+            value={ai.provider}
+            onChange={(e) => update({ ai: { provider: e.target.value } })}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white mb-4"
+          >
+            {listAiProviders().map(id => (
+              <option key={id} value={id}>{AI_PROVIDER_LABELS[id] ? t(AI_PROVIDER_LABELS[id]) : id}</option>
+            ))}
+          </select>
+          {ai.provider === 'openai' && (
+            <>
+              <TextField
+                id="ai-base-url"
+                type="url"
+                label={t('settings.baseUrl')}
+                value={ai.baseUrl}
+                onChange={(baseUrl) => update({ ai: { baseUrl } })}
+              />
+              <TextField
+                id="ai-realtime-url"
+                type="url"
+                label={t('settings.realtimeUrl')}
+                value={ai.realtimeUrl}
+                placeholder="wss://"
+                onChange={(realtimeUrl) => update({ ai: { realtimeUrl } })}
+              />
+              <TextField
+                id="ai-api-key"
+                type="password"
+                label={t('settings.apiKey')}
+                value={ai.apiKey}
+                hint={t('settings.apiKeyHint')}
+                onChange={(apiKey) => update({ ai: { apiKey } })}
+              />
+            </>
+          )}
+          {defaultModels && (
+            <>
+              <TextField
+                id="ai-generate-model"
+                label={t('settings.generateModel')}
+                value={ai.generateModel}
+                placeholder={t('settings.modelDefault', { model: defaultModels.generate })}
+                onChange={(generateModel) => update({ ai: { generateModel } })}
+              />
+              <TextField
+                id="ai-live-model"
+                label={t('settings.liveModel')}
+                value={ai.liveModel}
+                placeholder={t('settings.modelDefault', { model: defaultModels.live })}
+                onChange={(liveModel) => update({ ai: { liveModel } })}
+              />
+            </>
+          )}
+        </Section>
+
+        <button
+          onClick={reset}
+          className="w-full bg-gray-700 hover:bg-gray-600 font-bold py-3 px-4 rounded-lg mb-8"
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsScreen;
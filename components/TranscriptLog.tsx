@@ -0,0 +1,112 @@
+import React, { useEffect, useRef } from 'react';
+import { downloadTranscript, TranscriptTurn } from '../utils/transcript';
+import { ArrowDownTrayIcon, TrashIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { useSettings } from '../hooks/useSettings';
+import { announce } from '../utils/announcer';
+
+interface TranscriptLogProps {
+  turns: TranscriptTurn[];
+  // Shown when there is nothing to list yet.
+  placeholder: string;
+  onClear: () => void;
+}
+
+// The conversation as a list of turns. Each turn is a list item with its
+// speaker and time, so screen readers can step through it turn by turn;
+// turns from earlier sessions stay above the current one.
+const TranscriptLog: React.FC<TranscriptLogProps> = ({ turns, placeholder, onClear }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
+  const { settings } = useSettings();
+  const announceTurns = settings.accessibility.announceTranscript;
+
+  // Finished turns are read out when enabled; the log itself stays silent so
+  // streaming text isn't announced word by word. Turns already finished when
+  // the log appears, or when announcing is switched on, are not read.
+  const announcedRef = useRef<Set<number> | null>(null);
+  useEffect(() => {
+    if (!announceTurns) {
+      announcedRef.current = null;
+      return;
+    }
+    if (!announcedRef.current) {
+      announcedRef.current = new Set(turns.filter(turn => turn.endedAt !== null).map(turn => turn.id));
+      return;
+    }
+    for (const turn of turns) {
+      if (turn.endedAt === null || announcedRef.current.has(turn.id)) continue;
+      announcedRef.current.add(turn.id);
+      if (turn.text) announce(`${turn.role === 'user' ? t('transcript.you') : t('transcript.assistant')}: ${turn.text}`);
+    }
+  }, [turns, announceTurns]);
+
+  // Keep the newest turn in view as text streams in.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [turns]);
+
+  return (
+    <div className="bg-black bg-opacity-30 rounded-lg mb-4 text-left">
+      <div
+        ref={scrollRef}
+        role="log"
+        aria-label={t('transcript.label')}
+        // Announced turn by turn above, when enabled in settings
+        aria-live="off"
+        tabIndex={0}
+        className="max-h-48 min-h-[6em] overflow-y-auto p-3 focus:outline-none focus:ring-2 focus:ring-teal-500 rounded-lg"
+      >
+        {turns.length === 0 ? (
+          <p className="text-lg text-gray-300 text-center">{placeholder}</p>
+        ) : (
+          <ol className="space-y-2">
+            {turns.map((turn, i) => (
+              <li key={turn.id}>
+                {i > 0 && turns[i - 1].sessionId !== turn.sessionId && (
+                  <hr className="border-gray-700 my-2" aria-label={t('transcript.newSession')} />
+                )}
+                <p className={turn.role === 'user' ? 'text-teal-300' : 'text-gray-200'}>
+                  <span className="font-semibold">{turn.role === 'user' ? t('transcript.you') : t('transcript.assistant')}: </span>
+                  {turn.text}
+                  {turn.interrupted && <span className="text-gray-500"> {t('transcript.interrupted')}</span>}
+                </p>
+                <time dateTime={new Date(turn.startedAt).toISOString()} className="text-xs text-gray-500">
+                  {new Date(turn.startedAt).toLocaleTimeString()}
+                </time>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+      {turns.length > 0 && (
+        <div className="flex justify-end gap-2 px-3 pb-2">
+          <button
+            onClick={() => downloadTranscript(turns, 'text')}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+            aria-label={t('transcript.exportText')}
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" /> {t('transcript.textButton')}
+          </button>
+          <button
+            onClick={() => downloadTranscript(turns, 'json')}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+            aria-label={t('transcript.exportJson')}
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" /> {t('transcript.jsonButton')}
+          </button>
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+            aria-label={t('transcript.clear')}
+          >
+            <TrashIcon className="w-4 h-4" /> {t('transcript.clearButton')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptLog;
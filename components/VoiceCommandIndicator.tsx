@@ -0,0 +1,36 @@
+import React from 'react';
+import { MicIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { VoiceCommandState } from '../utils/voiceCommands';
+
+interface VoiceCommandIndicatorProps {
+  state: VoiceCommandState;
+}
+
+// A pill at the bottom of the screen while voice commands are listening. The
+// live region is always rendered so screen readers announce each change.
+const VoiceCommandIndicator: React.FC<VoiceCommandIndicatorProps> = ({ state }) => {
+  const { t, commandPhrases } = useTranslation();
+
+  let message = '';
+  if (state === 'awaitingCommand') message = t('voice.listening');
+  else if (state === 'listening') message = t('voice.wakeListening', { phrase: commandPhrases.wake[0] });
+  else if (state === 'error') message = t('voice.error');
+
+  return (
+    <div role="status" aria-live="polite" className="fixed bottom-4 inset-x-0 flex justify-center pointer-events-none z-50">
+      {message && (
+        <div
+          className={`flex items-center gap-2 px-4 py-2 rounded-full shadow-lg text-white ${
+            state === 'awaitingCommand' ? 'bg-red-600 animate-pulse' : state === 'error' ? 'bg-gray-700' : 'bg-gray-800 bg-opacity-80'
+          }`}
+        >
+          <MicIcon className="w-5 h-5" />
+          <span>{message}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceCommandIndicator;
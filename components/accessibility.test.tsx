@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AppMode } from '../types';
+import { auditAccessibility } from '../utils/a11yAudit';
+import { LocationPermission, setLocationProvider, SimulatedLocationProvider } from '../utils/location';
+import HomeScreen from './HomeScreen';
+import FastMode from './FastMode';
+import ObstacleMode from './ObstacleMode';
+import SceneDescriptorMode from './SceneDescriptorMode';
+import MapsMode from './MapsMode';
+import SettingsScreen from './SettingsScreen';
+
+// Renders every screen and fails on anything the accessibility audit finds:
+// unlabelled controls, a missing h1, no live region where one is needed.
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+type Screen = React.FC<{ setMode: (mode: AppMode) => void }>;
+
+// The flag marks screens whose state changes while open; they must have a
+// live region.
+const SCREENS: [AppMode, Screen, boolean][] = [
+  [AppMode.HOME, HomeScreen, false],
+  [AppMode.FAST, FastMode, true],
+  [AppMode.OBSTACLE, ObstacleMode, true],
+  [AppMode.SCENE_DESCRIPTOR, SceneDescriptorMode, true],
+  [AppMode.MAPS, MapsMode, true],
+  [AppMode.SETTINGS, SettingsScreen, false],
+];
+
+// Just enough of the browser APIs the screens reach for on mount. The device
+// is offline and the camera never delivers, so each screen is checked as it
+// first appears without anything leaving the test.
+class SilentAudioContext {
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+  createGain() {
+    return { gain: { value: 1, setValueAtTime() {} }, connect() {} };
+  }
+  resume() {
+    return Promise.resolve();
+  }
+  close() {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+}
+
+beforeAll(() => {
+  vi.stubGlobal('AudioContext', SilentAudioContext);
+  vi.stubGlobal('speechSynthesis', {
+    speak() {},
+    cancel() {},
+    getVoices: () => [],
+    addEventListener() {},
+    removeEventListener() {},
+  });
+  vi.stubGlobal('fetch', () => new Promise(() => {}));
+  vi.stubGlobal('CSS', { escape: (value: string) => value.replace(/["\\]/g, '\\$&') });
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: { getUserMedia: () => new Promise(() => {}), enumerateDevices: async () => [] },
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  setLocationProvider(null);
+});
+
+let container: HTMLElement;
+let root: Root;
+
+const render = async (Screen: Screen) => {
+  container = document.body.appendChild(document.createElement('main'));
+  root = createRoot(container);
+  await act(async () => {
+    root.render(<Screen setMode={() => {}} />);
+  });
+};
+
+const violationsIn = (requireLiveRegion: boolean) =>
+  auditAccessibility(container, { requireLiveRegion }).map(v => `[${v.rule}] ${v.message}`);
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+describe('accessibility audit', () => {
+  it.each(SCREENS)('%s has no violations', async (_mode, Screen, requireLiveRegion) => {
+    await render(Screen);
+    expect(violationsIn(requireLiveRegion)).toEqual([]);
+  });
+
+  it.each<LocationPermission>(['prompt', 'denied', 'granted'])('MAPS has no violations with location %s', async (permission) => {
+    const location = new SimulatedLocationProvider({ permission });
+    location.setPosition({ lat: 40.4168, lng: -3.7038 });
+    setLocationProvider(location);
+    await render(MapsMode);
+    expect(violationsIn(true)).toEqual([]);
+  });
+});
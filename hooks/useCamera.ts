@@ -0,0 +1,106 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { AppMode } from '../types';
+import { CameraConstraints, CameraError, CameraFrame, CameraManager, CameraState, frameFromVideo, getDefaultCameraManager } from '../utils/camera';
+import { getFrameRecorder } from '../utils/frameRecorder';
+import { MessageKey } from '../utils/i18n';
+import { useTranslation } from './useTranslation';
+
+// Lets tests and previews swap in a manager backed by a synthetic stream.
+export const CameraContext = createContext<CameraManager | null>(null);
+
+export const useCameraManager = (): CameraManager => useContext(CameraContext) ?? getDefaultCameraManager();
+
+interface UseCameraOptions {
+  // The camera runs only while enabled, e.g. only during navigation.
+  enabled?: boolean;
+  constraints?: CameraConstraints;
+  // The mode reading the frames, stored with them when recording.
+  mode?: AppMode;
+}
+
+const ERROR_MESSAGES: Record<CameraError, MessageKey> = {
+  denied: 'camera.error.denied',
+  'in-use': 'camera.error.inUse',
+  unavailable: 'camera.error.unavailable',
+  stopped: 'camera.error.stopped',
+};
+
+export interface UseCameraResult extends CameraState {
+  // `error` in the UI language.
+  errorMessage: string | null;
+  restart: () => void;
+  nextCamera: () => void;
+  switchCamera: (deviceId: string | null) => void;
+  setTorch: (on: boolean) => void;
+  // The next frame to process: the video's current one, or the next frame of
+  // a replay. Null while there is none yet.
+  readFrame: () => Promise<CameraFrame | null>;
+}
+
+// Runs the shared camera while the calling mode is mounted (and enabled) and
+// keeps `videoRef` attached to its current stream, including after recovery
+// or a camera switch.
+export const useCamera = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  { enabled = true, constraints = {}, mode }: UseCameraOptions = {},
+): UseCameraResult => {
+  const manager = useCameraManager();
+  const { t } = useTranslation();
+  const [state, setState] = useState<CameraState>(manager.getState());
+  const constraintsKey = JSON.stringify(constraints);
+
+  useEffect(() => {
+    setState(manager.getState());
+    return manager.subscribe(setState);
+  }, [manager]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    manager.start(JSON.parse(constraintsKey)).catch(err => {
+      console.error("Error accessing camera:", err);
+    });
+    return () => {
+      manager.stop();
+    };
+  }, [manager, enabled, constraintsKey]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !enabled) return;
+    if (video.srcObject !== state.stream) {
+      video.srcObject = state.stream;
+    }
+    if (state.stream) {
+      video.play().catch(() => {
+        // Autoplay can be interrupted by a newer srcObject; the next stream plays.
+      });
+    }
+  }, [videoRef, state.stream, enabled]);
+
+  const restart = useCallback(() => {
+    manager.start().catch(err => console.error("Error restarting camera:", err));
+  }, [manager]);
+
+  const nextCamera = useCallback(() => {
+    manager.nextCamera().catch(err => console.error("Error switching camera:", err));
+  }, [manager]);
+
+  const switchCamera = useCallback((deviceId: string | null) => {
+    manager.switchCamera(deviceId).catch(err => console.error("Error switching camera:", err));
+  }, [manager]);
+
+  const setTorch = useCallback((on: boolean) => {
+    manager.setTorch(on);
+  }, [manager]);
+
+  const readFrame = useCallback(async () => {
+    const source = manager.getState().frameSource;
+    const frame = source ? await source.readFrame() : frameFromVideo(videoRef.current);
+    if (frame && mode) getFrameRecorder().capture(frame, mode);
+    return frame;
+  }, [manager, videoRef, mode]);
+
+  const errorMessage = state.error ? t(ERROR_MESSAGES[state.error]) : null;
+
+  return { ...state, errorMessage, restart, nextCamera, switchCamera, setTorch, readFrame };
+};
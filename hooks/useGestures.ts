@@ -0,0 +1,91 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef } from 'react';
+import { Gesture, GesturePointer, GestureRecognizer } from '../utils/gestures';
+
+// Returns true if it acted on the gesture; otherwise the app-wide fallback runs.
+export type GestureHandler = (gesture: Gesture) => boolean;
+
+export interface GestureContextValue {
+  register: (handler: GestureHandler) => () => void;
+}
+
+export interface GestureBindings {
+  onPointerDown: (e: React.PointerEvent) => void;
+  onPointerMove: (e: React.PointerEvent) => void;
+  onPointerUp: (e: React.PointerEvent) => void;
+  onPointerCancel: (e: React.PointerEvent) => void;
+  onClickCapture: (e: React.MouseEvent) => void;
+}
+
+export const GestureContext = createContext<GestureContextValue | null>(null);
+
+const INTERACTIVE_SELECTOR = 'button, a[href], input, select, textarea, label, [role="button"], [tabindex]:not([tabindex="-1"])';
+
+// Spread on the parts of a screen that take over touch handling, so the
+// browser doesn't claim swipes and two-finger taps for scrolling or zooming,
+// or long-presses for its context menu. Never on anything that scrolls or
+// holds a text field, which need those.
+export const gestureSurface = (className = ''): { className: string; onContextMenu: (e: React.MouseEvent) => void } => ({
+  className: `touch-none ${className}`.trim(),
+  onContextMenu: e => {
+    if (!(e.target instanceof Element && e.target.closest('input, textarea, [contenteditable]'))) e.preventDefault();
+  },
+});
+
+const toPointer = (e: React.PointerEvent): GesturePointer => ({
+  id: e.pointerId,
+  x: e.clientX,
+  y: e.clientY,
+  time: e.timeStamp,
+  interactive: e.target instanceof Element && e.target.closest(INTERACTIVE_SELECTOR) !== null,
+});
+
+// Recognizes gestures on whatever element the bindings are spread on. They go
+// to the handlers of the mode on screen first, then to `fallback`.
+export const useGestureProvider = (fallback: (gesture: Gesture) => void): { context: GestureContextValue; bindings: GestureBindings } => {
+  const handlersRef = useRef<GestureHandler[]>([]);
+  const fallbackRef = useRef(fallback);
+  fallbackRef.current = fallback;
+
+  const recognizer = useMemo(() => new GestureRecognizer((gesture) => {
+    for (const handler of [...handlersRef.current].reverse()) {
+      if (handler(gesture)) return;
+    }
+    fallbackRef.current(gesture);
+  }), []);
+
+  useEffect(() => () => recognizer.dispose(), [recognizer]);
+
+  const register = useCallback((handler: GestureHandler) => {
+    handlersRef.current.push(handler);
+    return () => {
+      handlersRef.current = handlersRef.current.filter(h => h !== handler);
+    };
+  }, []);
+
+  const bindings = useMemo<GestureBindings>(() => ({
+    onPointerDown: e => recognizer.down(toPointer(e)),
+    onPointerMove: e => recognizer.move(toPointer(e)),
+    onPointerUp: e => recognizer.up(toPointer(e)),
+    onPointerCancel: e => recognizer.cancel(toPointer(e)),
+    // The click that ends a long-press would otherwise press whatever was under the finger
+    onClickCapture: e => {
+      if (recognizer.consumeLongPress()) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    },
+  }), [recognizer]);
+
+  const context = useMemo(() => ({ register }), [register]);
+  return { context, bindings };
+};
+
+// Lets a mode act on gestures while it is mounted. The latest `handler` is
+// always used, so it may close over current state.
+export const useGestureHandler = (handler: GestureHandler): void => {
+  const context = useContext(GestureContext);
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => context?.register(gesture => handlerRef.current(gesture)), [context]);
+};
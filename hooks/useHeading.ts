@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { getHeadingService, HeadingService, HeadingStatus } from '../utils/heading';
+
+// The heading service's status, re-rendering when the compass state, the
+// calibration prompt or the heading source changes.
+export const useHeadingStatus = (service: HeadingService = getHeadingService()): HeadingStatus => {
+  const [status, setStatus] = useState<HeadingStatus>(service.getStatus());
+
+  useEffect(() => {
+    setStatus(service.getStatus());
+    return service.subscribe(setStatus);
+  }, [service]);
+
+  return status;
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { getLocationProvider, LocationProvider, subscribeLocationProvider } from '../utils/location';
+
+// The current location provider, re-rendering when it is swapped, e.g. when
+// the developer panel switches to a simulated position.
+export const useLocationProvider = (): LocationProvider => {
+  const [provider, setProvider] = useState<LocationProvider>(getLocationProvider);
+
+  useEffect(() => {
+    setProvider(getLocationProvider());
+    return subscribeLocationProvider(setProvider);
+  }, []);
+
+  return provider;
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { getPlacesStore, PlacesState, PlacesStore } from '../utils/places';
+
+// Favorites and recent destinations, re-rendering whenever they change.
+export const usePlaces = (store: PlacesStore = getPlacesStore()): PlacesState => {
+  const [state, setState] = useState<PlacesState>(store.getState());
+
+  useEffect(() => {
+    setState(store.getState());
+    return store.subscribe(setState);
+  }, [store]);
+
+  return state;
+};
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getSettingsStore, Settings, SettingsPatch } from '../utils/settings';
+
+export interface UseSettingsResult {
+  settings: Settings;
+  update: (patch: SettingsPatch) => void;
+  reset: () => void;
+}
+
+// The current settings, re-rendering whenever any screen changes them.
+export const useSettings = (): UseSettingsResult => {
+  const store = getSettingsStore();
+  const [settings, setSettings] = useState<Settings>(store.get());
+
+  useEffect(() => {
+    setSettings(store.get());
+    return store.subscribe(setSettings);
+  }, [store]);
+
+  const update = useCallback((patch: SettingsPatch) => store.update(patch), [store]);
+  const reset = useCallback(() => store.reset(), [store]);
+
+  return { settings, update, reset };
+};
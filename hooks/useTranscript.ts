@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { getDefaultTranscript, Transcript, TranscriptTurn } from '../utils/transcript';
+
+// Subscribes to a transcript's turns, re-rendering as they stream in.
+export const useTranscript = (transcript: Transcript = getDefaultTranscript()): TranscriptTurn[] => {
+  const [turns, setTurns] = useState<TranscriptTurn[]>(transcript.getTurns());
+
+  useEffect(() => {
+    setTurns(transcript.getTurns());
+    return transcript.subscribe(setTurns);
+  }, [transcript]);
+
+  return turns;
+};
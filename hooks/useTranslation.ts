@@ -0,0 +1,8 @@
+import { useSettings } from './useSettings';
+import { getTranslator, resolveLanguage, Translator } from '../utils/i18n';
+
+// The translator for the language chosen in settings, updating when it changes.
+export const useTranslation = (): Translator => {
+  const { settings } = useSettings();
+  return getTranslator(resolveLanguage(settings.general.language));
+};
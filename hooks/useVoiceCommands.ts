@@ -0,0 +1,120 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppMode } from '../types';
+import { useSettings } from './useSettings';
+import { currentTranslator } from '../utils/i18n';
+import { haptics } from '../utils/haptics';
+import { repeatLast, speak, stopSpeaking } from '../utils/speech';
+import { createRecognizer, SpeechRecognizer, WebSpeechRecognizer } from '../utils/speechRecognizer';
+import { VoiceCommandController, VoiceCommandState, VoiceIntent } from '../utils/voiceCommands';
+
+// Returns true if it acted on the intent; otherwise the app-wide fallback runs.
+export type VoiceCommandHandler = (intent: VoiceIntent) => boolean;
+
+export interface VoiceCommandContextValue {
+  state: VoiceCommandState;
+  isSupported: boolean;
+  // Push-to-talk: take the next utterance as a command.
+  listen: () => void;
+  register: (handler: VoiceCommandHandler) => () => void;
+  // A destination spoken outside Maps, handed over once Maps opens.
+  takeDestination: () => string | null;
+}
+
+export const VoiceCommandContext = createContext<VoiceCommandContextValue | null>(null);
+
+const recognizerFor = (id: string): SpeechRecognizer => {
+  try {
+    return createRecognizer(id);
+  } catch (err) {
+    console.warn(err);
+    return new WebSpeechRecognizer();
+  }
+};
+
+// Owns the voice command controller for the whole app. Intents go to the
+// handlers of the mode on screen first, then fall back to switching modes.
+export const useVoiceCommandProvider = (setMode: (mode: AppMode) => void): VoiceCommandContextValue => {
+  const { settings } = useSettings();
+  const [state, setState] = useState<VoiceCommandState>('idle');
+  const handlersRef = useRef<VoiceCommandHandler[]>([]);
+  const pendingDestinationRef = useRef<string | null>(null);
+  const setModeRef = useRef(setMode);
+  setModeRef.current = setMode;
+
+  const controller = useMemo(() => new VoiceCommandController({
+    recognizer: recognizerFor(settings.voice.recognizer),
+    getPhrases: () => currentTranslator().commandPhrases,
+    getLang: () => currentTranslator().info.speechLang,
+    onStateChange: setState,
+    onError: err => console.error('Voice command error:', err),
+    onUnrecognized: () => speak(currentTranslator().t('voice.notUnderstood'), { prompt: true }),
+    onIntent: (intent) => {
+      // Newest first, so the mode on screen wins over anything still mounted.
+      for (const handler of [...handlersRef.current].reverse()) {
+        if (handler(intent)) return;
+      }
+      switch (intent.type) {
+        case 'openMode':
+          setModeRef.current(intent.mode);
+          break;
+        case 'navigate':
+          pendingDestinationRef.current = intent.destination;
+          setModeRef.current(AppMode.MAPS);
+          break;
+        case 'stop':
+          stopSpeaking();
+          haptics.stop();
+          break;
+        case 'repeat':
+          if (!repeatLast()) speak(currentTranslator().t('voice.nothingToRepeat'), { prompt: true });
+          break;
+        case 'choose':
+          // Only meaningful while a screen is offering options
+          speak(currentTranslator().t('voice.notUnderstood'), { prompt: true });
+          break;
+      }
+    },
+  }), [settings.voice.recognizer]);
+
+  useEffect(() => {
+    controller.setWakeListening(settings.voice.wakeWord);
+  }, [controller, settings.voice.wakeWord]);
+
+  useEffect(() => () => controller.stop(), [controller]);
+
+  const listen = useCallback(() => {
+    if (controller.isSupported) {
+      stopSpeaking();
+      controller.listenOnce();
+    } else {
+      speak(currentTranslator().t('voice.unsupported'), { prompt: true });
+    }
+  }, [controller]);
+
+  const register = useCallback((handler: VoiceCommandHandler) => {
+    handlersRef.current.push(handler);
+    return () => {
+      handlersRef.current = handlersRef.current.filter(h => h !== handler);
+    };
+  }, []);
+
+  const takeDestination = useCallback(() => {
+    const destination = pendingDestinationRef.current;
+    pendingDestinationRef.current = null;
+    return destination;
+  }, []);
+
+  return { state, isSupported: controller.isSupported, listen, register, takeDestination };
+};
+
+export const useVoiceCommands = (): VoiceCommandContextValue | null => useContext(VoiceCommandContext);
+
+// Lets a mode act on spoken commands while it is mounted. The latest
+// `handler` is always used, so it may close over current state.
+export const useVoiceCommandHandler = (handler: VoiceCommandHandler): void => {
+  const context = useContext(VoiceCommandContext);
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => context?.register(intent => handlerRef.current(intent)), [context?.register]);
+};
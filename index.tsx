@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './utils/offline';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,3 +15,8 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Only in production builds: a caching service worker gets in the way of the dev server's HMR
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
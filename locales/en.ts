@@ -0,0 +1,249 @@
+import type { Message } from '../utils/i18n';
+
+// The source catalog: every key must exist here, and its shape defines the
+// keys other languages translate.
+export const messages = {
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.checkPermissions': '{error} Please check permissions.',
+
+  'camera.switch': 'Switch camera',
+  'camera.torchOn': 'Turn on flashlight',
+  'camera.torchOff': 'Turn off flashlight',
+  'camera.error.denied': 'Camera permission was denied.',
+  'camera.error.inUse': 'The camera is in use by another app.',
+  'camera.error.unavailable': 'Could not access the camera.',
+  'camera.error.stopped': 'The camera stopped and could not be restarted.',
+
+  'home.title': 'AI Vision Assistant',
+  'home.subtitle': 'Choose a mode to get started',
+  'home.settings': 'Settings',
+  'home.fast.title': 'Fast Mode',
+  'home.fast.description': 'Quickly identify objects in your view.',
+  'home.obstacle.title': 'Obstacle Alert',
+  'home.obstacle.description': 'Walk with warnings about things coming into your path.',
+  'home.scene.title': 'Scene Descriptor',
+  'home.scene.description': 'Get a real-time audio description of your surroundings.',
+  'home.maps.title': 'Maps Mode',
+  'home.maps.description': 'Explore nearby places and get information.',
+
+  'position.farLeft': 'on the far left',
+  'position.left': 'to the left',
+  'position.slightlyLeft': 'slightly left',
+  'position.ahead': 'ahead',
+  'position.slightlyRight': 'slightly right',
+  'position.right': 'to the right',
+  'position.farRight': 'on the far right',
+  'distance.underMeter': 'under a meter away',
+  'distance.meters': { one: 'about {count} meter away', other: 'about {count} meters away' },
+  'object.withDistance': '{label} {position} {distance}',
+  'object.withoutDistance': '{label} {position}',
+
+  'fast.approaching': 'Approaching: {objects}.',
+  'fast.new': 'New: {objects}.',
+  'fast.error.offlineModel': "You're offline and the object detection model hasn't been downloaded yet. Connect to the internet once to make Fast Mode work offline.",
+  'fast.error.loadFailed': 'Could not load the object detection model. Please try again later.',
+  'fast.error.detectionFailed': 'Object detection failed.',
+  'fast.downloadingModel': 'Downloading Model...',
+  'fast.loadingModel': 'Loading Model...',
+  'fast.modelUnavailable': 'Model Unavailable',
+  'fast.offlineModel': 'Offline model',
+  'fast.onlineModel': 'Online model',
+  'fast.tonesOn': 'Turn on position tones',
+  'fast.tonesOff': 'Turn off position tones',
+  'fast.pause': 'Pause detection',
+  'fast.resume': 'Resume detection',
+  'fast.inView': 'In view: {objects}.',
+  'fast.nothingInView': 'Nothing detected right now.',
+
+  'obstacle.caution': '{object} {position}.',
+  'obstacle.warning': 'Careful, {object} {position}, getting closer.',
+  'obstacle.danger': 'Stop! {object} {position}.',
+  'obstacle.watching': 'Watching your path',
+  'obstacle.paused': 'Alerts paused',
+  'obstacle.pause': 'Pause obstacle alerts',
+  'obstacle.resume': 'Resume obstacle alerts',
+  'obstacle.error.offlineModel': "You're offline and the object detection model hasn't been downloaded yet. Connect to the internet once to use Obstacle Alert offline.",
+
+  'scene.notice.degraded': 'Connection lost. Reconnecting.',
+  'scene.notice.restored': 'Reconnected.',
+  'scene.notice.lost': 'Could not reconnect. Press the mic to try again.',
+  'scene.status.idle': 'Press mic to start',
+  'scene.status.connecting': 'Connecting...',
+  'scene.status.active': 'Listening...',
+  'scene.status.reconnecting': 'Connection lost. Reconnecting...',
+  'scene.status.stopped': 'Session ended. Press mic to restart.',
+  'scene.error.generic': 'An error occurred',
+  'scene.error.noCamera': 'Camera stream not available.',
+  'scene.error.microphone': 'Could not access microphone. Please check permissions.',
+  'scene.error.micCapture': 'Could not capture audio from the microphone.',
+  'scene.error.connection': 'An error occurred with the connection.',
+  'scene.error.init': 'Failed to initialize AI session.',
+  'scene.error.noLive': 'The chosen AI service cannot hold live conversations.',
+  'scene.start': 'Start describing',
+  'scene.stop': 'Stop describing',
+  'scene.repeatRequest': 'Please repeat what you just said.',
+  'scene.frameStats': {
+    one: '{count} frame sent · {skipped} skipped · {kb} KB',
+    other: '{count} frames sent · {skipped} skipped · {kb} KB',
+  },
+
+  'transcript.label': 'Conversation transcript',
+  'transcript.newSession': 'New session',
+  'transcript.sessionHeading': 'Session {date}',
+  'transcript.you': 'You',
+  'transcript.assistant': 'Assistant',
+  'transcript.interrupted': '(interrupted)',
+  'transcript.exportText': 'Export transcript as text',
+  'transcript.exportJson': 'Export transcript as JSON',
+  'transcript.clear': 'Clear transcript',
+  'transcript.textButton': 'Text',
+  'transcript.jsonButton': 'JSON',
+  'transcript.clearButton': 'Clear',
+
+  'maps.title': 'Maps Navigation',
+  'maps.destination': 'Destination',
+  'maps.destinationPlaceholder': 'Enter destination...',
+  'maps.start': 'Start Navigation',
+  'maps.stop': 'Stop',
+  'maps.enterDestination': 'Enter a destination to begin.',
+  'maps.stopped': 'Navigation stopped. Enter a destination to begin again.',
+  'maps.checkingPermissions': 'Checking permissions...',
+  'maps.gettingLocation': 'Getting your location...',
+  'maps.locationRequired.title': 'Location Required',
+  'maps.locationRequired.body': 'This feature needs your location to provide navigation instructions. Please grant permission to continue.',
+  'maps.enableLocation': 'Enable Location',
+  'maps.locationDenied.title': 'Location Access Denied',
+  'maps.locationDenied.body': "You've denied location access. To use navigation, please enable it in your browser's site settings.",
+  'maps.error.unsupported': 'Geolocation is not supported by your browser.',
+  'maps.error.location': 'Unable to retrieve your location. Please check device settings.',
+  'maps.error.denied': 'Location permission denied. Please enable it in your browser settings.',
+  'maps.error.unavailable': 'Unable to retrieve your location.',
+  'maps.error.needDestination': 'Please enter a destination and enable location.',
+
+  'route.planning': 'Planning the route...',
+  'route.planFailed': "Sorry, I couldn't plan a route to {destination}.",
+  'route.offRoute': "You've left the route. Finding a new one.",
+  'route.replanned': 'New route ready.',
+  'route.depart': 'Head off',
+  'route.straight': 'Continue straight',
+  'route.slightLeft': 'Bear left',
+  'route.left': 'Turn left',
+  'route.sharpLeft': 'Turn sharp left',
+  'route.slightRight': 'Bear right',
+  'route.right': 'Turn right',
+  'route.sharpRight': 'Turn sharp right',
+  'route.uTurn': 'Turn around',
+  'route.onto': '{instruction} onto {street}',
+  'route.arrive': 'You have arrived at {destination}.',
+  'route.inDistance': { one: 'In {count} meter, {instruction}', other: 'In {count} meters, {instruction}' },
+  'route.continueFor': { one: 'Then continue for {count} meter.', other: 'Then continue for {count} meters.' },
+
+  'nav.hazard.high': 'Warning: {hazard}.',
+  'nav.hazard.medium': 'Caution: {hazard}.',
+  'nav.hazard.low': 'Watch for {hazard}.',
+  'nav.direction.left': 'The way on is to your left.',
+  'nav.direction.right': 'The way on is to your right.',
+  'nav.direction.behind': 'The way on is behind you.',
+  'nav.landmarks': 'Look for {landmarks}.',
+  'nav.lowConfidence': "I'm not sure of this from the camera, so check before you go.",
+  'nav.hazards': 'Hazards',
+  'nav.severity.high': 'High',
+  'nav.severity.medium': 'Medium',
+  'nav.severity.low': 'Low',
+  'nav.uncertain': 'Uncertain',
+
+  'heading.ahead': 'straight ahead',
+  'heading.behind': 'behind you',
+  'heading.right': '{degrees}° to your right',
+  'heading.left': '{degrees}° to your left',
+  'heading.unknownDirection': "direction unknown until you start walking",
+  'heading.destination': '{destination} is {distance}, {direction}.',
+  'heading.routeStarts': 'The route starts {direction}.',
+  'heading.calibrate': 'The compass needs calibrating. Wave your phone in a figure-eight.',
+  'heading.enableCompass': 'Enable compass',
+
+  'places.searching': 'Looking up {query}...',
+  'places.notFound': "I couldn't find {query}. Try another name or address.",
+  'places.searchFailed': "Sorry, I couldn't look up {query}.",
+  'places.found': { one: 'I found {count} place.', other: 'I found {count} places.' },
+  'places.option': '{number}: {place}.',
+  'places.choose': 'Say the number of the one you want, or tap it.',
+  'places.chooseTitle': 'Which one?',
+  'places.kilometersAway': { one: 'about {count} kilometer away', other: 'about {count} kilometers away' },
+  'places.favorites': 'Favorites',
+  'places.recents': 'Recent destinations',
+  'places.saveFavorite': 'Save {name} as a favorite',
+  'places.favoriteLabel': 'Favorite name, such as Home',
+  'places.save': 'Save',
+  'places.removeFavorite': 'Remove {label} from favorites',
+  'places.clearRecents': 'Clear recent destinations',
+  'places.saved': '{label} saved.',
+
+  'voice.listening': 'Listening for a command...',
+  'voice.wakeListening': 'Say "{phrase}" to give a command',
+  'voice.hint': 'Long-press anywhere to give a voice command.',
+  'voice.notUnderstood': "Sorry, I didn't understand that command.",
+  'voice.nothingToRepeat': 'Nothing to repeat yet.',
+  'voice.unsupported': 'Voice commands are not supported in this browser.',
+  'voice.error': 'Voice commands stopped because of an error.',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Device language',
+  'settings.speech': 'Speech',
+  'settings.voice': 'Voice',
+  'settings.voiceDefault': 'System default',
+  'settings.rate': 'Speaking rate',
+  'settings.testVoice': 'Test voice',
+  'settings.testVoicePhrase': 'This is how I will sound.',
+  'settings.fast': 'Fast Mode',
+  'settings.fastFps': 'Detections per second',
+  'settings.tones': 'Position tones',
+  'settings.toneVolume': 'Tone volume',
+  'settings.obstacle': 'Obstacle Alert',
+  'settings.obstacleFps': 'Checks per second',
+  'settings.alertSeconds': 'First warning before contact',
+  'settings.alertVolume': 'Alert volume',
+  'settings.scene': 'Scene Descriptor',
+  'settings.frameRate': 'Frames per second',
+  'settings.imageQuality': 'Image quality',
+  'settings.imageSize': 'Image size',
+  'settings.systemInstruction': 'Assistant instructions',
+  'settings.initialPrompt': 'Opening question',
+  'settings.maps': 'Maps',
+  'settings.announceDistance': 'Announce turns from',
+  'settings.offRouteDistance': 'Off-route after',
+  'settings.meters': { one: '{count} meter', other: '{count} meters' },
+  'settings.seconds': { one: '{count} second', other: '{count} seconds' },
+  'settings.geocoder': 'Place search',
+  'settings.geocoder.nominatim': 'OpenStreetMap (online)',
+  'settings.geocoder.gazetteer': 'Local place list',
+  'settings.vibration': 'Vibration',
+  'settings.vibrationEnabled': 'Vibration cues',
+  'settings.strength': 'Strength',
+  'settings.speed': 'Speed',
+  'settings.testVibration': 'Test vibration',
+  'settings.voiceCommands': 'Voice commands',
+  'settings.wakeWord': 'Listen for "{phrase}"',
+  'settings.recognizer': 'Speech recognition',
+  'settings.recognizer.webspeech': 'Browser',
+  'settings.recognizer.ai': 'AI service (online)',
+  'settings.ai': 'AI service',
+  'settings.aiProvider': 'Provider',
+  'settings.aiProvider.gemini': 'Google Gemini',
+  'settings.aiProvider.openai': 'OpenAI-compatible (Ollama, self-hosted)',
+  'settings.aiProvider.mock': 'Scripted replies (offline testing)',
+  'settings.generateModel': 'Model for descriptions and routes',
+  'settings.liveModel': 'Model for live conversations',
+  'settings.modelDefault': 'Default: {model}',
+  'settings.baseUrl': 'Server address',
+  'settings.realtimeUrl': 'Live conversation address (optional)',
+  'settings.apiKey': 'API key',
+  'settings.apiKeyHint': 'Stored on this device only.',
+  'settings.accessibility': 'Accessibility',
+  'settings.highContrast': 'High contrast and large text',
+  'settings.announceTranscript': 'Screen reader reads the transcript',
+  'settings.gestures': 'Gestures: swipe down to go home, tap with two fingers to repeat the last announcement, long-press for a voice command, and double-tap in Fast Mode to hear everything in view.',
+  'settings.reset': 'Restore defaults',
+} satisfies Record<string, Message>;
@@ -0,0 +1,360 @@
+import type { Catalog } from '../utils/i18n';
+import type { CueKeywords } from '../utils/haptics';
+import type { CommandPhrases } from '../utils/voiceCommands';
+
+export const messages: Catalog = {
+  'common.back': 'Volver',
+  'common.cancel': 'Cancelar',
+  'common.checkPermissions': '{error} Revisa los permisos.',
+
+  'camera.switch': 'Cambiar de cámara',
+  'camera.torchOn': 'Encender la linterna',
+  'camera.torchOff': 'Apagar la linterna',
+  'camera.error.denied': 'Se ha denegado el permiso de la cámara.',
+  'camera.error.inUse': 'Otra aplicación está usando la cámara.',
+  'camera.error.unavailable': 'No se ha podido acceder a la cámara.',
+  'camera.error.stopped': 'La cámara se ha detenido y no se ha podido reiniciar.',
+
+  'home.title': 'Asistente de visión con IA',
+  'home.subtitle': 'Elige un modo para empezar',
+  'home.settings': 'Ajustes',
+  'home.fast.title': 'Modo rápido',
+  'home.fast.description': 'Identifica rápidamente los objetos que tienes delante.',
+  'home.obstacle.title': 'Alerta de obstáculos',
+  'home.obstacle.description': 'Camina con avisos de lo que se cruza en tu camino.',
+  'home.scene.title': 'Descriptor de escenas',
+  'home.scene.description': 'Escucha una descripción en tiempo real de tu entorno.',
+  'home.maps.title': 'Modo mapas',
+  'home.maps.description': 'Explora lugares cercanos y obtén información.',
+
+  'position.farLeft': 'muy a la izquierda',
+  'position.left': 'a la izquierda',
+  'position.slightlyLeft': 'un poco a la izquierda',
+  'position.ahead': 'delante',
+  'position.slightlyRight': 'un poco a la derecha',
+  'position.right': 'a la derecha',
+  'position.farRight': 'muy a la derecha',
+  'distance.underMeter': 'a menos de un metro',
+  'distance.meters': { one: 'a {count} metro aproximadamente', other: 'a unos {count} metros' },
+  'object.withDistance': '{label} {position} {distance}',
+  'object.withoutDistance': '{label} {position}',
+
+  'fast.approaching': 'Se acerca: {objects}.',
+  'fast.new': 'Nuevo: {objects}.',
+  'fast.error.offlineModel': 'Estás sin conexión y el modelo de detección de objetos aún no se ha descargado. Conéctate a internet una vez para que el modo rápido funcione sin conexión.',
+  'fast.error.loadFailed': 'No se pudo cargar el modelo de detección de objetos. Inténtalo de nuevo más tarde.',
+  'fast.error.detectionFailed': 'La detección de objetos ha fallado.',
+  'fast.downloadingModel': 'Descargando el modelo...',
+  'fast.loadingModel': 'Cargando el modelo...',
+  'fast.modelUnavailable': 'Modelo no disponible',
+  'fast.offlineModel': 'Modelo sin conexión',
+  'fast.onlineModel': 'Modelo en línea',
+  'fast.tonesOn': 'Activar los tonos de posición',
+  'fast.tonesOff': 'Desactivar los tonos de posición',
+  'fast.pause': 'Pausar la detección',
+  'fast.resume': 'Reanudar la detección',
+  'fast.inView': 'A la vista: {objects}.',
+  'fast.nothingInView': 'Ahora mismo no se detecta nada.',
+
+  'obstacle.caution': '{object} {position}.',
+  'obstacle.warning': 'Cuidado, {object} {position}, acercándose.',
+  'obstacle.danger': '¡Para! {object} {position}.',
+  'obstacle.watching': 'Vigilando tu camino',
+  'obstacle.paused': 'Avisos en pausa',
+  'obstacle.pause': 'Pausar los avisos de obstáculos',
+  'obstacle.resume': 'Reanudar los avisos de obstáculos',
+  'obstacle.error.offlineModel': 'Estás sin conexión y el modelo de detección de objetos aún no se ha descargado. Conéctate a internet una vez para usar la alerta de obstáculos sin conexión.',
+
+  'scene.notice.degraded': 'Se perdió la conexión. Reconectando.',
+  'scene.notice.restored': 'Conexión recuperada.',
+  'scene.notice.lost': 'No se pudo reconectar. Pulsa el micrófono para intentarlo de nuevo.',
+  'scene.status.idle': 'Pulsa el micrófono para empezar',
+  'scene.status.connecting': 'Conectando...',
+  'scene.status.active': 'Escuchando...',
+  'scene.status.reconnecting': 'Se perdió la conexión. Reconectando...',
+  'scene.status.stopped': 'Sesión terminada. Pulsa el micrófono para reiniciar.',
+  'scene.error.generic': 'Se ha producido un error',
+  'scene.error.noCamera': 'La cámara no está disponible.',
+  'scene.error.microphone': 'No se pudo acceder al micrófono. Revisa los permisos.',
+  'scene.error.micCapture': 'No se pudo capturar el audio del micrófono.',
+  'scene.error.connection': 'Se ha producido un error en la conexión.',
+  'scene.error.init': 'No se pudo iniciar la sesión de IA.',
+  'scene.error.noLive': 'El servicio de IA elegido no admite conversaciones en directo.',
+  'scene.start': 'Empezar a describir',
+  'scene.stop': 'Dejar de describir',
+  'scene.repeatRequest': 'Por favor, repite lo que acabas de decir.',
+  'scene.frameStats': {
+    one: '{count} imagen enviada · {skipped} omitidas · {kb} KB',
+    other: '{count} imágenes enviadas · {skipped} omitidas · {kb} KB',
+  },
+
+  'transcript.label': 'Transcripción de la conversación',
+  'transcript.newSession': 'Nueva sesión',
+  'transcript.sessionHeading': 'Sesión del {date}',
+  'transcript.you': 'Tú',
+  'transcript.assistant': 'Asistente',
+  'transcript.interrupted': '(interrumpido)',
+  'transcript.exportText': 'Exportar la transcripción como texto',
+  'transcript.exportJson': 'Exportar la transcripción como JSON',
+  'transcript.clear': 'Borrar la transcripción',
+  'transcript.textButton': 'Texto',
+  'transcript.jsonButton': 'JSON',
+  'transcript.clearButton': 'Borrar',
+
+  'maps.title': 'Navegación',
+  'maps.destination': 'Destino',
+  'maps.destinationPlaceholder': 'Introduce un destino...',
+  'maps.start': 'Iniciar navegación',
+  'maps.stop': 'Detener',
+  'maps.enterDestination': 'Introduce un destino para empezar.',
+  'maps.stopped': 'Navegación detenida. Introduce un destino para volver a empezar.',
+  'maps.checkingPermissions': 'Comprobando permisos...',
+  'maps.gettingLocation': 'Obteniendo tu ubicación...',
+  'maps.locationRequired.title': 'Se necesita tu ubicación',
+  'maps.locationRequired.body': 'Esta función necesita tu ubicación para darte indicaciones. Concede el permiso para continuar.',
+  'maps.enableLocation': 'Activar ubicación',
+  'maps.locationDenied.title': 'Acceso a la ubicación denegado',
+  'maps.locationDenied.body': 'Has denegado el acceso a la ubicación. Para usar la navegación, actívalo en los ajustes del sitio de tu navegador.',
+  'maps.error.unsupported': 'Tu navegador no admite la geolocalización.',
+  'maps.error.location': 'No se pudo obtener tu ubicación. Revisa los ajustes del dispositivo.',
+  'maps.error.denied': 'Permiso de ubicación denegado. Actívalo en los ajustes del navegador.',
+  'maps.error.unavailable': 'No se pudo obtener tu ubicación.',
+  'maps.error.needDestination': 'Introduce un destino y activa la ubicación.',
+
+  'route.planning': 'Planificando la ruta...',
+  'route.planFailed': 'No he podido planificar una ruta a {destination}.',
+  'route.offRoute': 'Te has salido de la ruta. Buscando otra.',
+  'route.replanned': 'Nueva ruta lista.',
+  'route.depart': 'Empieza a caminar',
+  'route.straight': 'Sigue recto',
+  'route.slightLeft': 'Gira ligeramente a la izquierda',
+  'route.left': 'Gira a la izquierda',
+  'route.sharpLeft': 'Gira bruscamente a la izquierda',
+  'route.slightRight': 'Gira ligeramente a la derecha',
+  'route.right': 'Gira a la derecha',
+  'route.sharpRight': 'Gira bruscamente a la derecha',
+  'route.uTurn': 'Da la vuelta',
+  'route.onto': '{instruction} hacia {street}',
+  'route.arrive': 'Has llegado a {destination}.',
+  'route.inDistance': { one: 'En {count} metro, {instruction}', other: 'En {count} metros, {instruction}' },
+  'route.continueFor': { one: 'Después sigue {count} metro.', other: 'Después sigue {count} metros.' },
+
+  'nav.hazard.high': 'Peligro: {hazard}.',
+  'nav.hazard.medium': 'Cuidado: {hazard}.',
+  'nav.hazard.low': 'Atención a {hazard}.',
+  'nav.direction.left': 'El camino sigue a tu izquierda.',
+  'nav.direction.right': 'El camino sigue a tu derecha.',
+  'nav.direction.behind': 'El camino sigue detrás de ti.',
+  'nav.landmarks': 'Busca {landmarks}.',
+  'nav.lowConfidence': 'No estoy seguro por lo que ve la cámara; compruébalo antes de seguir.',
+  'nav.hazards': 'Peligros',
+  'nav.severity.high': 'Alto',
+  'nav.severity.medium': 'Medio',
+  'nav.severity.low': 'Bajo',
+  'nav.uncertain': 'Dudoso',
+
+  'heading.ahead': 'justo delante',
+  'heading.behind': 'detrás de ti',
+  'heading.right': '{degrees}° a tu derecha',
+  'heading.left': '{degrees}° a tu izquierda',
+  'heading.unknownDirection': 'dirección desconocida hasta que empieces a caminar',
+  'heading.destination': '{destination} está {distance}, {direction}.',
+  'heading.routeStarts': 'La ruta empieza {direction}.',
+  'heading.calibrate': 'La brújula necesita calibrarse. Mueve el teléfono dibujando un ocho.',
+  'heading.enableCompass': 'Activar brújula',
+
+  'places.searching': 'Buscando {query}...',
+  'places.notFound': 'No he encontrado {query}. Prueba con otro nombre o dirección.',
+  'places.searchFailed': 'No he podido buscar {query}.',
+  'places.found': { one: 'He encontrado {count} lugar.', other: 'He encontrado {count} lugares.' },
+  'places.option': '{number}: {place}.',
+  'places.choose': 'Di el número del que quieras, o tócalo.',
+  'places.chooseTitle': '¿Cuál?',
+  'places.kilometersAway': { one: 'a {count} kilómetro aproximadamente', other: 'a unos {count} kilómetros' },
+  'places.favorites': 'Favoritos',
+  'places.recents': 'Destinos recientes',
+  'places.saveFavorite': 'Guardar {name} como favorito',
+  'places.favoriteLabel': 'Nombre del favorito, como Casa',
+  'places.save': 'Guardar',
+  'places.removeFavorite': 'Quitar {label} de favoritos',
+  'places.clearRecents': 'Borrar destinos recientes',
+  'places.saved': '{label} guardado.',
+
+  'voice.listening': 'Escuchando una orden...',
+  'voice.wakeListening': 'Di «{phrase}» para dar una orden',
+  'voice.hint': 'Mantén pulsada la pantalla para dar una orden por voz.',
+  'voice.notUnderstood': 'Lo siento, no he entendido esa orden.',
+  'voice.nothingToRepeat': 'Todavía no hay nada que repetir.',
+  'voice.unsupported': 'Este navegador no admite órdenes por voz.',
+  'voice.error': 'Las órdenes por voz se han detenido por un error.',
+
+  'settings.title': 'Ajustes',
+  'settings.language': 'Idioma',
+  'settings.languageAuto': 'Idioma del dispositivo',
+  'settings.speech': 'Voz',
+  'settings.voice': 'Voz',
+  'settings.voiceDefault': 'Predeterminada del sistema',
+  'settings.rate': 'Velocidad de habla',
+  'settings.testVoice': 'Probar la voz',
+  'settings.testVoicePhrase': 'Así es como sonaré.',
+  'settings.fast': 'Modo rápido',
+  'settings.fastFps': 'Detecciones por segundo',
+  'settings.tones': 'Tonos de posición',
+  'settings.toneVolume': 'Volumen de los tonos',
+  'settings.obstacle': 'Alerta de obstáculos',
+  'settings.obstacleFps': 'Comprobaciones por segundo',
+  'settings.alertSeconds': 'Primer aviso antes del contacto',
+  'settings.alertVolume': 'Volumen de los avisos',
+  'settings.scene': 'Descriptor de escenas',
+  'settings.frameRate': 'Imágenes por segundo',
+  'settings.imageQuality': 'Calidad de imagen',
+  'settings.imageSize': 'Tamaño de imagen',
+  'settings.systemInstruction': 'Instrucciones del asistente',
+  'settings.initialPrompt': 'Pregunta inicial',
+  'settings.maps': 'Mapas',
+  'settings.announceDistance': 'Anunciar giros desde',
+  'settings.offRouteDistance': 'Fuera de ruta a partir de',
+  'settings.meters': { one: '{count} metro', other: '{count} metros' },
+  'settings.seconds': { one: '{count} segundo', other: '{count} segundos' },
+  'settings.geocoder': 'Búsqueda de lugares',
+  'settings.geocoder.nominatim': 'OpenStreetMap (en línea)',
+  'settings.geocoder.gazetteer': 'Lista local de lugares',
+  'settings.vibration': 'Vibración',
+  'settings.vibrationEnabled': 'Señales de vibración',
+  'settings.strength': 'Intensidad',
+  'settings.speed': 'Velocidad',
+  'settings.testVibration': 'Probar la vibración',
+  'settings.voiceCommands': 'Órdenes por voz',
+  'settings.wakeWord': 'Escuchar «{phrase}»',
+  'settings.recognizer': 'Reconocimiento de voz',
+  'settings.recognizer.webspeech': 'Navegador',
+  'settings.recognizer.ai': 'Servicio de IA (en línea)',
+  'settings.ai': 'Servicio de IA',
+  'settings.aiProvider': 'Proveedor',
+  'settings.aiProvider.gemini': 'Google Gemini',
+  'settings.aiProvider.openai': 'Compatible con OpenAI (Ollama, servidor propio)',
+  'settings.aiProvider.mock': 'Respuestas guionizadas (pruebas sin conexión)',
+  'settings.generateModel': 'Modelo para descripciones y rutas',
+  'settings.liveModel': 'Modelo para conversaciones en directo',
+  'settings.modelDefault': 'Predeterminado: {model}',
+  'settings.baseUrl': 'Dirección del servidor',
+  'settings.realtimeUrl': 'Dirección para conversaciones en directo (opcional)',
+  'settings.apiKey': 'Clave de API',
+  'settings.apiKeyHint': 'Solo se guarda en este dispositivo.',
+  'settings.accessibility': 'Accesibilidad',
+  'settings.highContrast': 'Alto contraste y texto grande',
+  'settings.announceTranscript': 'El lector de pantalla lee la transcripción',
+  'settings.gestures': 'Gestos: desliza hacia abajo para volver al inicio, toca con dos dedos para repetir el último aviso, mantén pulsado para dar una orden por voz y toca dos veces en el modo rápido para oír todo lo que hay a la vista.',
+  'settings.reset': 'Restablecer valores predeterminados',
+};
+
+export const classes: Record<string, string> = {
+  'person': 'persona',
+  'bicycle': 'bicicleta',
+  'car': 'coche',
+  'motorcycle': 'moto',
+  'airplane': 'avión',
+  'bus': 'autobús',
+  'train': 'tren',
+  'truck': 'camión',
+  'boat': 'barco',
+  'traffic light': 'semáforo',
+  'fire hydrant': 'boca de incendios',
+  'stop sign': 'señal de stop',
+  'parking meter': 'parquímetro',
+  'bench': 'banco',
+  'bird': 'pájaro',
+  'cat': 'gato',
+  'dog': 'perro',
+  'horse': 'caballo',
+  'sheep': 'oveja',
+  'cow': 'vaca',
+  'elephant': 'elefante',
+  'bear': 'oso',
+  'zebra': 'cebra',
+  'giraffe': 'jirafa',
+  'backpack': 'mochila',
+  'umbrella': 'paraguas',
+  'handbag': 'bolso',
+  'tie': 'corbata',
+  'suitcase': 'maleta',
+  'frisbee': 'frisbi',
+  'skis': 'esquís',
+  'snowboard': 'tabla de snowboard',
+  'sports ball': 'pelota',
+  'kite': 'cometa',
+  'baseball bat': 'bate de béisbol',
+  'baseball glove': 'guante de béisbol',
+  'skateboard': 'monopatín',
+  'surfboard': 'tabla de surf',
+  'tennis racket': 'raqueta de tenis',
+  'bottle': 'botella',
+  'wine glass': 'copa de vino',
+  'cup': 'taza',
+  'fork': 'tenedor',
+  'knife': 'cuchillo',
+  'spoon': 'cuchara',
+  'bowl': 'cuenco',
+  'banana': 'plátano',
+  'apple': 'manzana',
+  'sandwich': 'sándwich',
+  'orange': 'naranja',
+  'broccoli': 'brócoli',
+  'carrot': 'zanahoria',
+  'hot dog': 'perrito caliente',
+  'pizza': 'pizza',
+  'donut': 'dónut',
+  'cake': 'tarta',
+  'chair': 'silla',
+  'couch': 'sofá',
+  'potted plant': 'planta en maceta',
+  'bed': 'cama',
+  'dining table': 'mesa',
+  'toilet': 'inodoro',
+  'tv': 'televisor',
+  'laptop': 'portátil',
+  'mouse': 'ratón',
+  'remote': 'mando a distancia',
+  'keyboard': 'teclado',
+  'cell phone': 'móvil',
+  'microwave': 'microondas',
+  'oven': 'horno',
+  'toaster': 'tostadora',
+  'sink': 'fregadero',
+  'refrigerator': 'nevera',
+  'book': 'libro',
+  'clock': 'reloj',
+  'vase': 'jarrón',
+  'scissors': 'tijeras',
+  'teddy bear': 'osito de peluche',
+  'hair drier': 'secador de pelo',
+  'toothbrush': 'cepillo de dientes',
+};
+
+export const cueKeywords: CueKeywords = {
+  arrived: ['has llegado', 'llegado a tu destino', 'ha llegado'],
+  stop: ['detente', 'párate', 'alto', 'espera'],
+  left: ['izquierda'],
+  right: ['derecha'],
+  straight: ['recto', 'sigue', 'continúa', 'adelante', 'de frente'],
+};
+
+export const commandPhrases: CommandPhrases = {
+  wake: ['oye visión', 'hola visión', 'ok visión'],
+  navigate: ['navega a', 'navegar a', 'llévame a', 'cómo llego a', 'ir a', 've a'],
+  stop: ['detente', 'detener', 'para ya', 'cancela', 'cancelar', 'pausa', 'silencio'],
+  repeat: ['repite eso', 'repite', 'repetir', 'otra vez', 'qué has dicho'],
+  home: ['inicio', 'pantalla principal', 'menú principal', 'volver'],
+  settings: ['ajustes', 'configuración', 'preferencias'],
+  fast: ['modo rápido', 'detectar objetos', 'detección de objetos', 'qué hay a mi alrededor'],
+  obstacle: ['modo obstáculos', 'alerta de obstáculos', 'alertas de obstáculos', 'vigila mi camino'],
+  scene: ['describe la escena', 'describir la escena', 'descriptor de escenas', 'qué ves', 'describe'],
+  maps: ['modo mapas', 'mapas', 'navegación'],
+  choices: [
+    ['número uno', 'el primero', 'la primera', 'primero', 'primera', 'uno', 'una', '1'],
+    ['número dos', 'el segundo', 'la segunda', 'segundo', 'segunda', 'dos', '2'],
+    ['número tres', 'el tercero', 'la tercera', 'tercero', 'tercera', 'tres', '3'],
+    ['número cuatro', 'el cuarto', 'la cuarta', 'cuarto', 'cuarta', 'cuatro', '4'],
+    ['número cinco', 'el quinto', 'la quinta', 'quinto', 'quinta', 'cinco', '5'],
+  ],
+};
@@ -0,0 +1,360 @@
+import type { Catalog } from '../utils/i18n';
+import type { CueKeywords } from '../utils/haptics';
+import type { CommandPhrases } from '../utils/voiceCommands';
+
+export const messages: Catalog = {
+  'common.back': 'Retour',
+  'common.cancel': 'Annuler',
+  'common.checkPermissions': '{error} Vérifiez les autorisations.',
+
+  'camera.switch': 'Changer de caméra',
+  'camera.torchOn': 'Allumer la lampe',
+  'camera.torchOff': 'Éteindre la lampe',
+  'camera.error.denied': 'L’accès à la caméra a été refusé.',
+  'camera.error.inUse': 'La caméra est utilisée par une autre application.',
+  'camera.error.unavailable': 'Impossible d’accéder à la caméra.',
+  'camera.error.stopped': 'La caméra s’est arrêtée et n’a pas pu redémarrer.',
+
+  'home.title': 'Assistant visuel IA',
+  'home.subtitle': 'Choisissez un mode pour commencer',
+  'home.settings': 'Réglages',
+  'home.fast.title': 'Mode rapide',
+  'home.fast.description': 'Identifiez rapidement les objets devant vous.',
+  'home.obstacle.title': 'Alerte obstacles',
+  'home.obstacle.description': 'Marchez averti de ce qui arrive sur votre chemin.',
+  'home.scene.title': 'Description de scène',
+  'home.scene.description': 'Écoutez une description en temps réel de votre environnement.',
+  'home.maps.title': 'Mode cartes',
+  'home.maps.description': 'Explorez les lieux à proximité et obtenez des informations.',
+
+  'position.farLeft': 'tout à gauche',
+  'position.left': 'à gauche',
+  'position.slightlyLeft': 'légèrement à gauche',
+  'position.ahead': 'devant',
+  'position.slightlyRight': 'légèrement à droite',
+  'position.right': 'à droite',
+  'position.farRight': 'tout à droite',
+  'distance.underMeter': "à moins d'un mètre",
+  'distance.meters': { one: 'à environ {count} mètre', other: 'à environ {count} mètres' },
+  'object.withDistance': '{label} {position} {distance}',
+  'object.withoutDistance': '{label} {position}',
+
+  'fast.approaching': "S'approche : {objects}.",
+  'fast.new': 'Nouveau : {objects}.',
+  'fast.error.offlineModel': "Vous êtes hors ligne et le modèle de détection d'objets n'a pas encore été téléchargé. Connectez-vous une fois à internet pour que le mode rapide fonctionne hors ligne.",
+  'fast.error.loadFailed': "Impossible de charger le modèle de détection d'objets. Réessayez plus tard.",
+  'fast.error.detectionFailed': "La détection d'objets a échoué.",
+  'fast.downloadingModel': 'Téléchargement du modèle...',
+  'fast.loadingModel': 'Chargement du modèle...',
+  'fast.modelUnavailable': 'Modèle indisponible',
+  'fast.offlineModel': 'Modèle hors ligne',
+  'fast.onlineModel': 'Modèle en ligne',
+  'fast.tonesOn': 'Activer les tons de position',
+  'fast.tonesOff': 'Désactiver les tons de position',
+  'fast.pause': 'Mettre la détection en pause',
+  'fast.resume': 'Reprendre la détection',
+  'fast.inView': 'En vue : {objects}.',
+  'fast.nothingInView': "Rien n'est détecté pour le moment.",
+
+  'obstacle.caution': '{object} {position}.',
+  'obstacle.warning': 'Attention, {object} {position}, qui se rapproche.',
+  'obstacle.danger': 'Stop ! {object} {position}.',
+  'obstacle.watching': 'Surveillance de votre chemin',
+  'obstacle.paused': 'Alertes en pause',
+  'obstacle.pause': 'Mettre en pause les alertes d’obstacles',
+  'obstacle.resume': 'Reprendre les alertes d’obstacles',
+  'obstacle.error.offlineModel': 'Vous êtes hors ligne et le modèle de détection d’objets n’a pas encore été téléchargé. Connectez-vous une fois à internet pour utiliser l’alerte obstacles hors ligne.',
+
+  'scene.notice.degraded': 'Connexion perdue. Reconnexion en cours.',
+  'scene.notice.restored': 'Reconnecté.',
+  'scene.notice.lost': 'Impossible de se reconnecter. Appuyez sur le micro pour réessayer.',
+  'scene.status.idle': 'Appuyez sur le micro pour commencer',
+  'scene.status.connecting': 'Connexion...',
+  'scene.status.active': 'À l’écoute...',
+  'scene.status.reconnecting': 'Connexion perdue. Reconnexion...',
+  'scene.status.stopped': 'Session terminée. Appuyez sur le micro pour recommencer.',
+  'scene.error.generic': 'Une erreur est survenue',
+  'scene.error.noCamera': "Le flux de la caméra n'est pas disponible.",
+  'scene.error.microphone': "Impossible d'accéder au micro. Vérifiez les autorisations.",
+  'scene.error.micCapture': "Impossible de capter l'audio du micro.",
+  'scene.error.connection': 'Une erreur de connexion est survenue.',
+  'scene.error.init': "Impossible d'initialiser la session IA.",
+  'scene.error.noLive': 'Le service d’IA choisi ne permet pas les conversations en direct.',
+  'scene.start': 'Commencer la description',
+  'scene.stop': 'Arrêter la description',
+  'scene.repeatRequest': 'Peux-tu répéter ce que tu viens de dire, s’il te plaît ?',
+  'scene.frameStats': {
+    one: '{count} image envoyée · {skipped} ignorées · {kb} Ko',
+    other: '{count} images envoyées · {skipped} ignorées · {kb} Ko',
+  },
+
+  'transcript.label': 'Transcription de la conversation',
+  'transcript.newSession': 'Nouvelle session',
+  'transcript.sessionHeading': 'Session du {date}',
+  'transcript.you': 'Vous',
+  'transcript.assistant': 'Assistant',
+  'transcript.interrupted': '(interrompu)',
+  'transcript.exportText': 'Exporter la transcription en texte',
+  'transcript.exportJson': 'Exporter la transcription en JSON',
+  'transcript.clear': 'Effacer la transcription',
+  'transcript.textButton': 'Texte',
+  'transcript.jsonButton': 'JSON',
+  'transcript.clearButton': 'Effacer',
+
+  'maps.title': 'Navigation',
+  'maps.destination': 'Destination',
+  'maps.destinationPlaceholder': 'Saisissez une destination...',
+  'maps.start': 'Démarrer la navigation',
+  'maps.stop': 'Arrêter',
+  'maps.enterDestination': 'Saisissez une destination pour commencer.',
+  'maps.stopped': 'Navigation arrêtée. Saisissez une destination pour recommencer.',
+  'maps.checkingPermissions': 'Vérification des autorisations...',
+  'maps.gettingLocation': 'Recherche de votre position...',
+  'maps.locationRequired.title': 'Position requise',
+  'maps.locationRequired.body': 'Cette fonction a besoin de votre position pour vous guider. Autorisez-la pour continuer.',
+  'maps.enableLocation': 'Activer la position',
+  'maps.locationDenied.title': 'Accès à la position refusé',
+  'maps.locationDenied.body': "Vous avez refusé l'accès à votre position. Pour utiliser la navigation, activez-le dans les paramètres du site de votre navigateur.",
+  'maps.error.unsupported': "Votre navigateur ne prend pas en charge la géolocalisation.",
+  'maps.error.location': "Impossible d'obtenir votre position. Vérifiez les réglages de l'appareil.",
+  'maps.error.denied': 'Autorisation de position refusée. Activez-la dans les paramètres du navigateur.',
+  'maps.error.unavailable': "Impossible d'obtenir votre position.",
+  'maps.error.needDestination': 'Saisissez une destination et activez la position.',
+
+  'route.planning': "Calcul de l'itinéraire...",
+  'route.planFailed': "Désolé, je n'ai pas pu calculer d'itinéraire vers {destination}.",
+  'route.offRoute': "Vous avez quitté l'itinéraire. Recherche d'un nouveau.",
+  'route.replanned': 'Nouvel itinéraire prêt.',
+  'route.depart': 'Mettez-vous en route',
+  'route.straight': 'Continuez tout droit',
+  'route.slightLeft': 'Prenez légèrement à gauche',
+  'route.left': 'Tournez à gauche',
+  'route.sharpLeft': 'Tournez franchement à gauche',
+  'route.slightRight': 'Prenez légèrement à droite',
+  'route.right': 'Tournez à droite',
+  'route.sharpRight': 'Tournez franchement à droite',
+  'route.uTurn': 'Faites demi-tour',
+  'route.onto': '{instruction} sur {street}',
+  'route.arrive': 'Vous êtes arrivé à {destination}.',
+  'route.inDistance': { one: 'Dans {count} mètre, {instruction}', other: 'Dans {count} mètres, {instruction}' },
+  'route.continueFor': { one: 'Puis continuez sur {count} mètre.', other: 'Puis continuez sur {count} mètres.' },
+
+  'nav.hazard.high': 'Danger : {hazard}.',
+  'nav.hazard.medium': 'Attention : {hazard}.',
+  'nav.hazard.low': 'Faites attention à {hazard}.',
+  'nav.direction.left': 'Le chemin continue sur votre gauche.',
+  'nav.direction.right': 'Le chemin continue sur votre droite.',
+  'nav.direction.behind': 'Le chemin continue derrière vous.',
+  'nav.landmarks': 'Repérez {landmarks}.',
+  'nav.lowConfidence': 'Je n’en suis pas sûr d’après la caméra ; vérifiez avant d’avancer.',
+  'nav.hazards': 'Dangers',
+  'nav.severity.high': 'Élevé',
+  'nav.severity.medium': 'Moyen',
+  'nav.severity.low': 'Faible',
+  'nav.uncertain': 'Incertain',
+
+  'heading.ahead': 'droit devant',
+  'heading.behind': 'derrière vous',
+  'heading.right': 'à {degrees}° sur votre droite',
+  'heading.left': 'à {degrees}° sur votre gauche',
+  'heading.unknownDirection': "direction inconnue tant que vous ne marchez pas",
+  'heading.destination': '{destination} est {distance}, {direction}.',
+  'heading.routeStarts': "L'itinéraire commence {direction}.",
+  'heading.calibrate': 'La boussole doit être calibrée. Décrivez un huit avec votre téléphone.',
+  'heading.enableCompass': 'Activer la boussole',
+
+  'places.searching': 'Recherche de {query}...',
+  'places.notFound': "Je n'ai pas trouvé {query}. Essayez un autre nom ou une autre adresse.",
+  'places.searchFailed': "Désolé, je n'ai pas pu rechercher {query}.",
+  'places.found': { one: "J'ai trouvé {count} lieu.", other: "J'ai trouvé {count} lieux." },
+  'places.option': '{number} : {place}.',
+  'places.choose': 'Dites le numéro de celui que vous voulez, ou touchez-le.',
+  'places.chooseTitle': 'Lequel ?',
+  'places.kilometersAway': { one: 'à environ {count} kilomètre', other: 'à environ {count} kilomètres' },
+  'places.favorites': 'Favoris',
+  'places.recents': 'Destinations récentes',
+  'places.saveFavorite': 'Enregistrer {name} dans les favoris',
+  'places.favoriteLabel': 'Nom du favori, par exemple Maison',
+  'places.save': 'Enregistrer',
+  'places.removeFavorite': 'Retirer {label} des favoris',
+  'places.clearRecents': 'Effacer les destinations récentes',
+  'places.saved': '{label} enregistré.',
+
+  'voice.listening': "À l’écoute d'une commande...",
+  'voice.wakeListening': 'Dites « {phrase} » pour donner une commande',
+  'voice.hint': "Appuyez longuement n'importe où pour donner une commande vocale.",
+  'voice.notUnderstood': "Désolé, je n'ai pas compris cette commande.",
+  'voice.nothingToRepeat': 'Rien à répéter pour le moment.',
+  'voice.unsupported': 'Ce navigateur ne prend pas en charge les commandes vocales.',
+  'voice.error': 'Les commandes vocales se sont arrêtées à cause d’une erreur.',
+
+  'settings.title': 'Réglages',
+  'settings.language': 'Langue',
+  'settings.languageAuto': "Langue de l'appareil",
+  'settings.speech': 'Voix',
+  'settings.voice': 'Voix',
+  'settings.voiceDefault': 'Voix par défaut du système',
+  'settings.rate': 'Débit de parole',
+  'settings.testVoice': 'Tester la voix',
+  'settings.testVoicePhrase': 'Voici comment je vais parler.',
+  'settings.fast': 'Mode rapide',
+  'settings.fastFps': 'Détections par seconde',
+  'settings.tones': 'Tons de position',
+  'settings.toneVolume': 'Volume des tons',
+  'settings.obstacle': 'Alerte obstacles',
+  'settings.obstacleFps': 'Analyses par seconde',
+  'settings.alertSeconds': 'Premier avertissement avant le contact',
+  'settings.alertVolume': 'Volume des alertes',
+  'settings.scene': 'Description de scène',
+  'settings.frameRate': 'Images par seconde',
+  'settings.imageQuality': "Qualité d'image",
+  'settings.imageSize': "Taille d'image",
+  'settings.systemInstruction': "Instructions de l'assistant",
+  'settings.initialPrompt': "Question d'ouverture",
+  'settings.maps': 'Cartes',
+  'settings.announceDistance': 'Annoncer les virages à',
+  'settings.offRouteDistance': "Hors de l'itinéraire au-delà de",
+  'settings.meters': { one: '{count} mètre', other: '{count} mètres' },
+  'settings.seconds': { one: '{count} seconde', other: '{count} secondes' },
+  'settings.geocoder': 'Recherche de lieux',
+  'settings.geocoder.nominatim': 'OpenStreetMap (en ligne)',
+  'settings.geocoder.gazetteer': 'Liste locale de lieux',
+  'settings.vibration': 'Vibration',
+  'settings.vibrationEnabled': 'Signaux vibrants',
+  'settings.strength': 'Intensité',
+  'settings.speed': 'Vitesse',
+  'settings.testVibration': 'Tester la vibration',
+  'settings.voiceCommands': 'Commandes vocales',
+  'settings.wakeWord': 'Écouter « {phrase} »',
+  'settings.recognizer': 'Reconnaissance vocale',
+  'settings.recognizer.webspeech': 'Navigateur',
+  'settings.recognizer.ai': 'Service d’IA (en ligne)',
+  'settings.ai': 'Service d’IA',
+  'settings.aiProvider': 'Fournisseur',
+  'settings.aiProvider.gemini': 'Google Gemini',
+  'settings.aiProvider.openai': 'Compatible OpenAI (Ollama, auto-hébergé)',
+  'settings.aiProvider.mock': 'Réponses scénarisées (tests hors ligne)',
+  'settings.generateModel': 'Modèle pour les descriptions et les itinéraires',
+  'settings.liveModel': 'Modèle pour les conversations en direct',
+  'settings.modelDefault': 'Par défaut : {model}',
+  'settings.baseUrl': 'Adresse du serveur',
+  'settings.realtimeUrl': 'Adresse des conversations en direct (facultatif)',
+  'settings.apiKey': 'Clé d’API',
+  'settings.apiKeyHint': 'Enregistrée uniquement sur cet appareil.',
+  'settings.accessibility': 'Accessibilité',
+  'settings.highContrast': 'Contraste élevé et grand texte',
+  'settings.announceTranscript': "Le lecteur d'écran lit la transcription",
+  'settings.gestures': "Gestes : balayez vers le bas pour revenir à l'accueil, touchez avec deux doigts pour répéter la dernière annonce, appuyez longuement pour une commande vocale et touchez deux fois en mode rapide pour entendre tout ce qui est en vue.",
+  'settings.reset': 'Rétablir les valeurs par défaut',
+};
+
+export const classes: Record<string, string> = {
+  'person': 'personne',
+  'bicycle': 'vélo',
+  'car': 'voiture',
+  'motorcycle': 'moto',
+  'airplane': 'avion',
+  'bus': 'bus',
+  'train': 'train',
+  'truck': 'camion',
+  'boat': 'bateau',
+  'traffic light': 'feu de circulation',
+  'fire hydrant': "bouche d'incendie",
+  'stop sign': 'panneau stop',
+  'parking meter': 'parcmètre',
+  'bench': 'banc',
+  'bird': 'oiseau',
+  'cat': 'chat',
+  'dog': 'chien',
+  'horse': 'cheval',
+  'sheep': 'mouton',
+  'cow': 'vache',
+  'elephant': 'éléphant',
+  'bear': 'ours',
+  'zebra': 'zèbre',
+  'giraffe': 'girafe',
+  'backpack': 'sac à dos',
+  'umbrella': 'parapluie',
+  'handbag': 'sac à main',
+  'tie': 'cravate',
+  'suitcase': 'valise',
+  'frisbee': 'frisbee',
+  'skis': 'skis',
+  'snowboard': 'snowboard',
+  'sports ball': 'ballon',
+  'kite': 'cerf-volant',
+  'baseball bat': 'batte de baseball',
+  'baseball glove': 'gant de baseball',
+  'skateboard': 'skateboard',
+  'surfboard': 'planche de surf',
+  'tennis racket': 'raquette de tennis',
+  'bottle': 'bouteille',
+  'wine glass': 'verre à vin',
+  'cup': 'tasse',
+  'fork': 'fourchette',
+  'knife': 'couteau',
+  'spoon': 'cuillère',
+  'bowl': 'bol',
+  'banana': 'banane',
+  'apple': 'pomme',
+  'sandwich': 'sandwich',
+  'orange': 'orange',
+  'broccoli': 'brocoli',
+  'carrot': 'carotte',
+  'hot dog': 'hot-dog',
+  'pizza': 'pizza',
+  'donut': 'beignet',
+  'cake': 'gâteau',
+  'chair': 'chaise',
+  'couch': 'canapé',
+  'potted plant': 'plante en pot',
+  'bed': 'lit',
+  'dining table': 'table',
+  'toilet': 'toilettes',
+  'tv': 'télévision',
+  'laptop': 'ordinateur portable',
+  'mouse': 'souris',
+  'remote': 'télécommande',
+  'keyboard': 'clavier',
+  'cell phone': 'téléphone',
+  'microwave': 'micro-ondes',
+  'oven': 'four',
+  'toaster': 'grille-pain',
+  'sink': 'évier',
+  'refrigerator': 'réfrigérateur',
+  'book': 'livre',
+  'clock': 'horloge',
+  'vase': 'vase',
+  'scissors': 'ciseaux',
+  'teddy bear': 'ours en peluche',
+  'hair drier': 'sèche-cheveux',
+  'toothbrush': 'brosse à dents',
+};
+
+export const cueKeywords: CueKeywords = {
+  arrived: ['vous êtes arrivé', 'vous êtes arrivée', 'arrivé à destination', 'arrivée à destination'],
+  stop: ['arrêtez', 'arrêtez-vous', 'stop', 'attendez'],
+  left: ['gauche'],
+  right: ['droite'],
+  straight: ['tout droit', 'continuez', 'avancez', 'devant'],
+};
+
+export const commandPhrases: CommandPhrases = {
+  wake: ['dis vision', 'ok vision', 'salut vision'],
+  navigate: ['navigue vers', 'naviguer vers', 'emmène-moi à', 'emmène moi à', 'itinéraire vers', 'aller à', 'va à'],
+  stop: ['arrête', 'arrêter', 'stop', 'annule', 'annuler', 'pause', 'silence'],
+  repeat: ['répète ça', 'répète', 'répéter', 'redis', "qu'est-ce que tu as dit"],
+  home: ["écran d'accueil", 'accueil', 'menu principal', 'retour'],
+  settings: ['réglages', 'paramètres', 'préférences'],
+  fast: ['mode rapide', 'détecter les objets', "détection d'objets", "qu'y a-t-il autour de moi"],
+  obstacle: ['mode obstacles', 'alerte obstacles', 'alertes obstacles', 'surveille mon chemin'],
+  scene: ['décris la scène', 'décrire la scène', 'description de scène', "qu'est-ce que tu vois", 'décris'],
+  maps: ['mode cartes', 'cartes', 'navigation'],
+  choices: [
+    ['numéro un', 'le premier', 'la première', 'premier', 'première', 'un', 'une', '1'],
+    ['numéro deux', 'le deuxième', 'la deuxième', 'deuxième', 'second', 'seconde', 'deux', '2'],
+    ['numéro trois', 'le troisième', 'la troisième', 'troisième', 'trois', '3'],
+    ['numéro quatre', 'le quatrième', 'la quatrième', 'quatrième', 'quatre', '4'],
+    ['numéro cinq', 'le cinquième', 'la cinquième', 'cinquième', 'cinq', '5'],
+  ],
+};
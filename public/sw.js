@@ -0,0 +1,105 @@
+// Service worker: keeps the app shell and the detector weights available
+// offline so FastMode works with no network at all.
+//
+// Cache layout:
+//  - SHELL_CACHE:  index.html, manifest, icon and the hashed build assets it
+//                  references, stylesheet included
+//  - MODEL_CACHE:  model.json + weight shards, from our origin or the model CDN
+const VERSION = 'v2';
+const SHELL_CACHE = `haptinav-shell-${VERSION}`;
+const MODEL_CACHE = 'haptinav-models';
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const LOCAL_MODEL_URLS = ['/models/coco-ssd/lite_mobilenet_v2/model.json'];
+
+const MODEL_HOSTS = ['storage.googleapis.com', 'tfhub.dev', 'www.kaggle.com'];
+
+// Build assets have hashed names we can't list statically, so read them out
+// of the freshly fetched index.html.
+const assetUrlsFromHtml = (html) =>
+  [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const indexResponse = await cache.match('/index.html');
+  if (indexResponse) {
+    await cache.addAll(assetUrlsFromHtml(await indexResponse.text()));
+  }
+};
+
+// Caches a model.json and every weight shard it lists. Missing local models
+// (weights not fetched at build time) are skipped, not fatal.
+const precacheModel = async (modelUrl) => {
+  const response = await fetch(modelUrl);
+  if (!response.ok) return;
+  const cache = await caches.open(MODEL_CACHE);
+  await cache.put(modelUrl, response.clone());
+  const manifest = await response.json();
+  const shardUrls = manifest.weightsManifest
+    .flatMap(group => group.paths)
+    .map(shard => new URL(shard, new URL(modelUrl, self.location.origin)).toString());
+  await cache.addAll(shardUrls);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    await precacheShell();
+    await Promise.all(LOCAL_MODEL_URLS.map(url => precacheModel(url).catch(() => {})));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, MODEL_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque (no-cors) responses from CDNs have status 0 but are still usable.
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async (request, fallbackUrl) => {
+  try {
+    const response = await fetch(request);
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(fallbackUrl, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await caches.match(fallbackUrl);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    const cacheName = url.pathname.startsWith('/models/') ? MODEL_CACHE : SHELL_CACHE;
+    event.respondWith(cacheFirst(request, cacheName));
+    return;
+  }
+  if (MODEL_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+  }
+  // Everything else (the Gemini API in particular) goes straight to the network.
+});
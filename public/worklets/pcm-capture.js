@@ -0,0 +1,32 @@
+// AudioWorklet that batches the microphone's first channel into fixed-size
+// Float32 chunks at the context's native sample rate and posts them to the
+// main thread, which resamples and encodes them (see utils/micCapture.ts).
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunkSize = options.processorOptions?.chunkSize ?? 2048;
+    this.buffer = new Float32Array(this.chunkSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.chunkSize - this.filled);
+      this.buffer.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.chunkSize) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.chunkSize);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,42 @@
+// Downloads the detector weights into public/models so they are served from
+// our own origin and precached by the service worker, instead of being
+// fetched from Google Cloud Storage on first use.
+//
+// Usage: node scripts/fetch-models.mjs
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const MODELS = [
+  {
+    name: 'coco-ssd/lite_mobilenet_v2',
+    url: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/model.json',
+  },
+];
+
+const download = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+};
+
+for (const model of MODELS) {
+  const outDir = path.join(root, 'public', 'models', model.name);
+  await mkdir(outDir, { recursive: true });
+
+  const manifestBytes = await download(model.url);
+  await writeFile(path.join(outDir, 'model.json'), manifestBytes);
+
+  // Weight shards are listed relative to model.json.
+  const manifest = JSON.parse(manifestBytes.toString('utf8'));
+  const shards = manifest.weightsManifest.flatMap(group => group.paths);
+  for (const shard of shards) {
+    const bytes = await download(new URL(shard, model.url).toString());
+    await writeFile(path.join(outDir, shard), bytes);
+  }
+  console.log(`${model.name}: model.json + ${shards.length} weight file(s)`);
+}
@@ -0,0 +1,119 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// Everything the proxy is configured with comes from the environment, read
+// from .env.local and .env the same way Vite does, so GEMINI_API_KEY can stay
+// where it already is.
+
+// One set of limits. The proxy holds each device, each IP address and all
+// callers together to a set of their own; see limits.ts.
+export interface RateLimits {
+  // Requests (generate calls and live connects) per minute.
+  requestsPerMinute: number;
+  // Generate calls per UTC day.
+  generateRequestsPerDay: number;
+  // Minutes of live sessions per UTC day.
+  liveMinutesPerDay: number;
+  // Live sessions open at once.
+  liveSessions: number;
+}
+
+export interface ProxyConfig {
+  apiKey: string;
+  port: number;
+  // The Gemini API, or a stand-in for it.
+  upstreamUrl: string;
+  // Origins allowed to call the proxy cross-origin. Empty when it is only
+  // reached through the Vite dev server or the app's own origin.
+  allowedOrigins: string[];
+  // Models generate calls may use; empty allows any. Live frames are relayed
+  // unread, so live sessions aren't checked.
+  allowedModels: string[];
+  // JSON-lines file usage is appended to, besides stdout.
+  usageLogPath: string | null;
+  // Take the client's IP address from the last X-Forwarded-For entry, for a
+  // proxy behind a reverse proxy that sets it. Otherwise the header is
+  // ignored, since any client can send one.
+  trustForwardedFor: boolean;
+  // Largest generate request body accepted, in bytes.
+  maxRequestBytes: number;
+  deviceLimits: RateLimits;
+  ipLimits: RateLimits;
+  totalLimits: RateLimits;
+}
+
+export const DEFAULT_PROXY_PORT = 8787;
+
+export const DEFAULT_MAX_REQUEST_BYTES = 20 * 1024 * 1024;
+
+export const DEFAULT_DEVICE_LIMITS: RateLimits = {
+  requestsPerMinute: 20,
+  generateRequestsPerDay: 500,
+  liveMinutesPerDay: 60,
+  liveSessions: 1,
+};
+
+// Room for a household or office sharing an address.
+export const DEFAULT_IP_LIMITS: RateLimits = {
+  requestsPerMinute: 60,
+  generateRequestsPerDay: 2000,
+  liveMinutesPerDay: 240,
+  liveSessions: 4,
+};
+
+// What the key may cost at most, whoever is calling.
+export const DEFAULT_TOTAL_LIMITS: RateLimits = {
+  requestsPerMinute: 300,
+  generateRequestsPerDay: 10000,
+  liveMinutesPerDay: 1200,
+  liveSessions: 20,
+};
+
+// Minimal KEY=value parsing; existing variables win, as with Vite.
+const loadEnvFile = (file: string, env: NodeJS.ProcessEnv): void => {
+  if (!existsSync(file)) return;
+  for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match || match[1] in env) continue;
+    env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  }
+};
+
+const list = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(s => s.trim()).filter(Boolean);
+
+const number = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// AI_PROXY_REQUESTS_PER_MINUTE and so on for devices, with IP_ or TOTAL_
+// after AI_PROXY_ for the other scopes.
+const rateLimits = (env: NodeJS.ProcessEnv, scope: string, defaults: RateLimits): RateLimits => ({
+  requestsPerMinute: number(env[`AI_PROXY_${scope}REQUESTS_PER_MINUTE`], defaults.requestsPerMinute),
+  generateRequestsPerDay: number(env[`AI_PROXY_${scope}GENERATE_PER_DAY`], defaults.generateRequestsPerDay),
+  liveMinutesPerDay: number(env[`AI_PROXY_${scope}LIVE_MINUTES_PER_DAY`], defaults.liveMinutesPerDay),
+  liveSessions: number(env[`AI_PROXY_${scope}LIVE_SESSIONS`], defaults.liveSessions),
+});
+
+export const loadConfig = (root = process.cwd(), env = process.env): ProxyConfig => {
+  loadEnvFile(path.join(root, '.env.local'), env);
+  loadEnvFile(path.join(root, '.env'), env);
+
+  const apiKey = env.GEMINI_API_KEY ?? '';
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+
+  return {
+    apiKey,
+    port: number(env.AI_PROXY_PORT, DEFAULT_PROXY_PORT),
+    upstreamUrl: (env.GEMINI_API_URL || 'https://generativelanguage.googleapis.com').replace(/\/+$/, ''),
+    allowedOrigins: list(env.AI_PROXY_ALLOWED_ORIGINS),
+    allowedModels: list(env.AI_PROXY_MODELS),
+    usageLogPath: env.AI_PROXY_USAGE_LOG || null,
+    trustForwardedFor: env.AI_PROXY_TRUST_FORWARDED_FOR === 'true' || env.AI_PROXY_TRUST_FORWARDED_FOR === '1',
+    maxRequestBytes: DEFAULT_MAX_REQUEST_BYTES,
+    deviceLimits: rateLimits(env, '', DEFAULT_DEVICE_LIMITS),
+    ipLimits: rateLimits(env, 'IP_', DEFAULT_IP_LIMITS),
+    totalLimits: rateLimits(env, 'TOTAL_', DEFAULT_TOTAL_LIMITS),
+  };
+};
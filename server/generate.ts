@@ -0,0 +1,86 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { callerOf, corsHeaders, ProxyContext, readBody, sendError } from './http.js';
+
+// Relays the SDK's generateContent calls to Gemini with the real key in
+// place of the device id.
+
+const GENERATE_PATH = /^\/v1(?:alpha|beta)\/models\/([\w.-]+):generateContent$/;
+
+export const isGeneratePath = (pathname: string): boolean => GENERATE_PATH.test(pathname);
+
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+const usageOf = (body: string): UsageMetadata => {
+  try {
+    return (JSON.parse(body) as { usageMetadata?: UsageMetadata }).usageMetadata ?? {};
+  } catch {
+    return {};
+  }
+};
+
+export const relayGenerate = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  { config, limiter, log }: ProxyContext,
+): Promise<void> => {
+  const cors = corsHeaders(req, config);
+  const caller = callerOf(req, url, config);
+  if (!caller) {
+    sendError(res, 401, 'Missing or malformed device id', cors);
+    return;
+  }
+  const { device, ip } = caller;
+  const model = GENERATE_PATH.exec(url.pathname)?.[1] ?? '';
+  if (config.allowedModels.length > 0 && !config.allowedModels.includes(model)) {
+    log.record({ kind: 'rejected', device, ip, request: 'generate', reason: 'model' });
+    sendError(res, 403, `Model ${model} is not available through this proxy`, cors);
+    return;
+  }
+  const rejection = limiter.admitGenerate(caller);
+  if (rejection) {
+    log.record({ kind: 'rejected', device, ip, request: 'generate', reason: rejection.reason, scope: rejection.scope });
+    sendError(res, 429, `Request refused: ${rejection.scope} ${rejection.reason}`, { ...cors, 'Retry-After': String(rejection.retryAfterSeconds) });
+    return;
+  }
+  const body = await readBody(req, config.maxRequestBytes);
+  if (!body) {
+    sendError(res, 413, 'Request too large', cors);
+    return;
+  }
+
+  const startedAt = Date.now();
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${config.upstreamUrl}${url.pathname}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+      body,
+    });
+  } catch (err) {
+    console.error('Upstream request failed:', err);
+    log.record({ kind: 'generate', device, ip, model, status: 502, durationMs: Date.now() - startedAt });
+    sendError(res, 502, 'Could not reach the AI service', cors);
+    return;
+  }
+  const text = await upstream.text();
+  const usage = usageOf(text);
+  log.record({
+    kind: 'generate',
+    device,
+    ip,
+    model,
+    status: upstream.status,
+    durationMs: Date.now() - startedAt,
+    promptTokens: usage.promptTokenCount,
+    outputTokens: usage.candidatesTokenCount,
+  });
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') ?? 'application/json',
+    ...cors,
+  });
+  res.end(text);
+};
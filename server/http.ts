@@ -0,0 +1,97 @@
+import { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'node:http';
+import { ProxyConfig } from './config.js';
+import { Caller, ProxyLimiter } from './limits.js';
+import { UsageLog } from './usageLog.js';
+
+export interface ProxyContext {
+  config: ProxyConfig;
+  limiter: ProxyLimiter;
+  log: UsageLog;
+}
+
+// The app sends its device id where the Gemini SDK puts the API key: the
+// x-goog-api-key header for requests and ?key= for the live socket. The id is
+// not authentication: the client makes it up, and a caller can make up a new
+// one for every request. It tells honest devices apart for limits and logs;
+// the per-IP and overall limits are what stop a caller that rotates ids. A
+// proxy open to the internet still wants real sign-in in front of it.
+const DEVICE_ID = /^[\w-]{8,64}$/;
+
+const deviceIdOf = (req: IncomingMessage, url: URL): string | null => {
+  const header = req.headers['x-goog-api-key'];
+  const id = (Array.isArray(header) ? header[0] : header) ?? url.searchParams.get('key');
+  return id && DEVICE_ID.test(id) ? id : null;
+};
+
+const ipOf = (req: IncomingMessage, config: ProxyConfig): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustForwardedFor && typeof forwarded === 'string') {
+    // The entry added by the reverse proxy; earlier ones came from the client
+    const last = forwarded.split(',').pop()?.trim();
+    if (last) return last;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Who the request is from, or null when it carries no usable device id.
+export const callerOf = (req: IncomingMessage, url: URL, config: ProxyConfig): Caller | null => {
+  const device = deviceIdOf(req, url);
+  return device ? { device, ip: ipOf(req, config) } : null;
+};
+
+// Same-origin requests (through Vite's proxy or the app's own host) and
+// configured origins. This only keeps other websites from spending the key
+// through their visitors' browsers: requests without an Origin don't come
+// from a page, and anything other than a browser can send whatever it likes,
+// which is why the limits don't rely on it.
+export const originAllowed = (req: IncomingMessage, config: ProxyConfig): boolean => {
+  const { origin, host } = req.headers;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === host || config.allowedOrigins.includes(origin);
+  } catch {
+    return false;
+  }
+};
+
+export const corsHeaders = (req: IncomingMessage, config: ProxyConfig): OutgoingHttpHeaders => {
+  const { origin } = req.headers;
+  if (!origin || !config.allowedOrigins.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] ?? 'content-type, x-goog-api-key',
+    'Access-Control-Max-Age': '600',
+    Vary: 'Origin',
+  };
+};
+
+// Errors in the Gemini API's own shape, so the SDK reports them as usual.
+export const sendError = (
+  res: ServerResponse,
+  status: number,
+  message: string,
+  headers: OutgoingHttpHeaders = {},
+): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Too large: stop buffering and let the caller answer 413
+        req.removeAllListeners('data');
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
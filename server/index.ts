@@ -0,0 +1,74 @@
+// The AI proxy: holds GEMINI_API_KEY so it never reaches the browser, and
+// relays the app's generateContent calls and Live sessions to Gemini with
+// per-device rate limits, daily quotas and a usage log.
+//
+// Usage: npm run proxy, next to npm run dev, which forwards /ai here.
+// Configured through the environment or .env.local; see config.ts. An app
+// served from another origin is built with VITE_AI_PROXY_URL set to the
+// proxy's origin, and that app origin goes in AI_PROXY_ALLOWED_ORIGINS.
+//
+// Device ids are not credentials; see http.ts. The per-IP and overall limits
+// cap what anyone can spend, but a proxy reachable from the internet should
+// also sit behind the host's own sign-in.
+import { createServer } from 'node:http';
+import { loadConfig } from './config.js';
+import { isGeneratePath, relayGenerate } from './generate.js';
+import { corsHeaders, originAllowed, ProxyContext, sendError } from './http.js';
+import { ProxyLimiter } from './limits.js';
+import { isLivePath, relayLive } from './live.js';
+import { UsageLog } from './usageLog.js';
+
+const config = loadConfig();
+const context: ProxyContext = {
+  config,
+  limiter: new ProxyLimiter({ device: config.deviceLimits, ip: config.ipLimits, total: config.totalLimits }),
+  log: new UsageLog(config.usageLogPath),
+};
+
+// Everything is served under /ai, mirroring the Gemini API's paths below it.
+// The SDK joins a bare origin and its live path with a double slash, so the
+// app's base URL needs a path of its own.
+const AI_PATH_PREFIX = '/ai';
+
+// The request's URL with the prefix taken off, or null when it lacks one.
+const apiUrlOf = (requestUrl = '/'): URL | null => {
+  const url = new URL(requestUrl, 'http://proxy');
+  if (!url.pathname.startsWith(`${AI_PATH_PREFIX}/`)) return null;
+  url.pathname = url.pathname.slice(AI_PATH_PREFIX.length);
+  return url;
+};
+
+const server = createServer((req, res) => {
+  const url = apiUrlOf(req.url);
+  if (!originAllowed(req, config)) {
+    sendError(res, 403, 'Origin not allowed');
+    return;
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(req, config));
+    res.end();
+    return;
+  }
+  if (url && req.method === 'POST' && isGeneratePath(url.pathname)) {
+    relayGenerate(req, res, url, context).catch((err) => {
+      console.error('Generate relay failed:', err);
+      if (!res.headersSent) sendError(res, 500, 'Proxy error', corsHeaders(req, config));
+      else res.destroy();
+    });
+    return;
+  }
+  sendError(res, 404, 'Not found', corsHeaders(req, config));
+});
+
+server.on('upgrade', (req, socket, head) => {
+  const url = apiUrlOf(req.url);
+  if (!url || !isLivePath(url.pathname)) {
+    socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  relayLive(req, socket, head, url, context);
+});
+
+server.listen(config.port, () => {
+  console.log(`AI proxy listening on http://localhost:${config.port}, relaying to ${config.upstreamUrl}`);
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimits } from './config.js';
+import { ProxyLimiter } from './limits.js';
+
+const limits = (overrides: Partial<RateLimits> = {}): RateLimits => ({
+  requestsPerMinute: 1000,
+  generateRequestsPerDay: 1000,
+  liveMinutesPerDay: 60,
+  liveSessions: 10,
+  ...overrides,
+});
+
+const NOON = Date.UTC(2026, 0, 15, 12);
+
+describe('ProxyLimiter', () => {
+  it('holds a device to its own daily quota', () => {
+    const limiter = new ProxyLimiter({ device: limits({ generateRequestsPerDay: 2 }), ip: limits(), total: limits() }, () => NOON);
+    const caller = { device: 'device-aaaa', ip: '10.0.0.1' };
+    expect(limiter.admitGenerate(caller)).toBeNull();
+    expect(limiter.admitGenerate(caller)).toBeNull();
+    expect(limiter.admitGenerate(caller)).toMatchObject({ scope: 'device', reason: 'generate-quota' });
+    expect(limiter.admitGenerate({ device: 'device-bbbb', ip: '10.0.0.1' })).toBeNull();
+  });
+
+  it('stops a caller that makes up a new device id for every request', () => {
+    const limiter = new ProxyLimiter({ device: limits(), ip: limits({ requestsPerMinute: 3 }), total: limits() }, () => NOON);
+    const results = Array.from({ length: 4 }, (_, i) => limiter.admitGenerate({ device: `device-${i}-rotating`, ip: '10.0.0.1' }));
+    expect(results.slice(0, 3)).toEqual([null, null, null]);
+    expect(results[3]).toMatchObject({ scope: 'ip', reason: 'rate-limit', retryAfterSeconds: 20 });
+    expect(limiter.admitGenerate({ device: 'device-other', ip: '10.0.0.2' })).toBeNull();
+  });
+
+  it('caps everyone together', () => {
+    const limiter = new ProxyLimiter({ device: limits(), ip: limits(), total: limits({ generateRequestsPerDay: 2 }) }, () => NOON);
+    expect(limiter.admitGenerate({ device: 'device-aaaa', ip: '10.0.0.1' })).toBeNull();
+    expect(limiter.admitGenerate({ device: 'device-bbbb', ip: '10.0.0.2' })).toBeNull();
+    expect(limiter.admitGenerate({ device: 'device-cccc', ip: '10.0.0.3' })).toMatchObject({ scope: 'total', reason: 'generate-quota' });
+  });
+
+  it('counts a refused request against no scope', () => {
+    const limiter = new ProxyLimiter({ device: limits({ generateRequestsPerDay: 2 }), ip: limits({ requestsPerMinute: 1 }), total: limits() }, () => NOON);
+    expect(limiter.admitGenerate({ device: 'device-aaaa', ip: '10.0.0.1' })).toBeNull();
+    // Refused for the IP after the device was checked; the device isn't charged
+    expect(limiter.admitGenerate({ device: 'device-aaaa', ip: '10.0.0.1' })).toMatchObject({ scope: 'ip' });
+    expect(limiter.admitGenerate({ device: 'device-aaaa', ip: '10.0.0.2' })).toBeNull();
+    expect(limiter.admitGenerate({ device: 'device-aaaa', ip: '10.0.0.3' })).toMatchObject({ scope: 'device', reason: 'generate-quota' });
+  });
+
+  it('limits open live sessions per IP and cuts sessions at the smallest remaining quota', () => {
+    const limiter = new ProxyLimiter({ device: limits(), ip: limits({ liveSessions: 1, liveMinutesPerDay: 5 }), total: limits() }, () => NOON);
+    const first = { device: 'device-aaaa', ip: '10.0.0.1' };
+    expect(limiter.startLive(first)).toBeNull();
+    expect(limiter.startLive({ device: 'device-bbbb', ip: '10.0.0.1' })).toMatchObject({ scope: 'ip', reason: 'live-sessions' });
+    expect(limiter.liveRemainingMs(first)).toBe(5 * 60_000);
+    limiter.endLive(first, 2 * 60_000);
+    expect(limiter.liveRemainingMs({ device: 'device-bbbb', ip: '10.0.0.1' })).toBe(3 * 60_000);
+    expect(limiter.startLive({ device: 'device-bbbb', ip: '10.0.0.1' })).toBeNull();
+  });
+
+  it('resets quotas at midnight UTC', () => {
+    let now = NOON;
+    const limiter = new ProxyLimiter({ device: limits({ generateRequestsPerDay: 1 }), ip: limits(), total: limits() }, () => now);
+    const caller = { device: 'device-aaaa', ip: '10.0.0.1' };
+    expect(limiter.admitGenerate(caller)).toBeNull();
+    expect(limiter.admitGenerate(caller)).toMatchObject({ reason: 'generate-quota', retryAfterSeconds: 12 * 3600 });
+    now += 12 * 3600 * 1000;
+    expect(limiter.admitGenerate(caller)).toBeNull();
+  });
+});
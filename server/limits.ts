@@ -0,0 +1,180 @@
+import { RateLimits } from './config.js';
+
+// Rate limits and daily quotas, kept in memory: a restart forgives everyone,
+// which is fine for a single small proxy. A token bucket smooths bursts of
+// requests; quotas reset at midnight UTC.
+//
+// Every request is held to three sets of limits: its device's, its IP
+// address's and everyone's together. Device ids are made up by the client,
+// so the per-device limits only share the key fairly between honest
+// devices; the IP and overall limits are what bound a caller who keeps
+// inventing new ids.
+
+export type LimitScope = 'device' | 'ip' | 'total';
+
+export type RejectionReason = 'rate-limit' | 'generate-quota' | 'live-quota' | 'live-sessions';
+
+export interface Rejection {
+  scope: LimitScope;
+  reason: RejectionReason;
+  // When trying again could succeed.
+  retryAfterSeconds: number;
+}
+
+// Who a request is from, for each scope that is keyed.
+export interface Caller {
+  device: string;
+  ip: string;
+}
+
+interface Usage {
+  tokens: number;
+  refilledAt: number;
+  generateRequests: number;
+  liveMs: number;
+  liveSessions: number;
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// The key the overall limits are counted under.
+const EVERYONE = '*';
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const secondsToMidnight = (now: number) => Math.ceil((DAY_MS - (now % DAY_MS)) / 1000);
+
+// One set of limits, applied to each key separately. Checking and recording
+// are separate steps so a request can be checked against every scope before
+// it counts against any.
+class KeyedLimiter {
+  private usages = new Map<string, Usage>();
+  private day = '';
+
+  constructor(private readonly limits: RateLimits, private readonly now: () => number) {}
+
+  checkGenerate(key: string): Omit<Rejection, 'scope'> | null {
+    const usage = this.usage(key);
+    if (usage.generateRequests >= this.limits.generateRequestsPerDay) {
+      return { reason: 'generate-quota', retryAfterSeconds: secondsToMidnight(this.now()) };
+    }
+    return this.checkRate(usage);
+  }
+
+  recordGenerate(key: string): void {
+    const usage = this.usage(key);
+    usage.tokens--;
+    usage.generateRequests++;
+  }
+
+  checkLive(key: string): Omit<Rejection, 'scope'> | null {
+    const usage = this.usage(key);
+    if (usage.liveMs >= this.limits.liveMinutesPerDay * MINUTE_MS) {
+      return { reason: 'live-quota', retryAfterSeconds: secondsToMidnight(this.now()) };
+    }
+    if (usage.liveSessions >= this.limits.liveSessions) {
+      return { reason: 'live-sessions', retryAfterSeconds: 60 };
+    }
+    return this.checkRate(usage);
+  }
+
+  recordLiveStart(key: string): void {
+    const usage = this.usage(key);
+    usage.tokens--;
+    usage.liveSessions++;
+  }
+
+  liveRemainingMs(key: string): number {
+    return Math.max(0, this.limits.liveMinutesPerDay * MINUTE_MS - this.usage(key).liveMs);
+  }
+
+  endLive(key: string, elapsedMs: number): void {
+    const usage = this.usage(key);
+    usage.liveSessions = Math.max(0, usage.liveSessions - 1);
+    usage.liveMs += elapsedMs;
+  }
+
+  private usage(key: string): Usage {
+    const now = this.now();
+    const day = utcDay(now);
+    if (day !== this.day) {
+      // A new day: quotas reset, and keys with nothing open are forgotten
+      this.day = day;
+      for (const [id, usage] of this.usages) {
+        if (usage.liveSessions === 0) this.usages.delete(id);
+        else Object.assign(usage, { generateRequests: 0, liveMs: 0 });
+      }
+    }
+    let usage = this.usages.get(key);
+    if (!usage) {
+      usage = { tokens: this.limits.requestsPerMinute, refilledAt: now, generateRequests: 0, liveMs: 0, liveSessions: 0 };
+      this.usages.set(key, usage);
+    }
+    return usage;
+  }
+
+  // Refills the bucket and says whether it has a token to spare.
+  private checkRate(usage: Usage): Omit<Rejection, 'scope'> | null {
+    const now = this.now();
+    const perMs = this.limits.requestsPerMinute / MINUTE_MS;
+    usage.tokens = Math.min(this.limits.requestsPerMinute, usage.tokens + (now - usage.refilledAt) * perMs);
+    usage.refilledAt = now;
+    if (usage.tokens < 1) {
+      return { reason: 'rate-limit', retryAfterSeconds: perMs > 0 ? Math.ceil((1 - usage.tokens) / perMs / 1000) : 60 };
+    }
+    return null;
+  }
+}
+
+export interface ProxyLimiterLimits {
+  device: RateLimits;
+  ip: RateLimits;
+  total: RateLimits;
+}
+
+export class ProxyLimiter {
+  private readonly scopes: [LimitScope, KeyedLimiter][];
+
+  constructor(limits: ProxyLimiterLimits, now: () => number = Date.now) {
+    this.scopes = [
+      ['device', new KeyedLimiter(limits.device, now)],
+      ['ip', new KeyedLimiter(limits.ip, now)],
+      ['total', new KeyedLimiter(limits.total, now)],
+    ];
+  }
+
+  // Counts a generate call against the caller, or says why it is refused.
+  admitGenerate(caller: Caller): Rejection | null {
+    for (const [scope, limiter] of this.scopes) {
+      const rejection = limiter.checkGenerate(this.keyFor(scope, caller));
+      if (rejection) return { scope, ...rejection };
+    }
+    for (const [scope, limiter] of this.scopes) limiter.recordGenerate(this.keyFor(scope, caller));
+    return null;
+  }
+
+  // Opens a live session for the caller, or says why it is refused. Every
+  // admitted session must be ended with endLive.
+  startLive(caller: Caller): Rejection | null {
+    for (const [scope, limiter] of this.scopes) {
+      const rejection = limiter.checkLive(this.keyFor(scope, caller));
+      if (rejection) return { scope, ...rejection };
+    }
+    for (const [scope, limiter] of this.scopes) limiter.recordLiveStart(this.keyFor(scope, caller));
+    return null;
+  }
+
+  // How much longer the caller's live sessions may run today.
+  liveRemainingMs(caller: Caller): number {
+    return Math.min(...this.scopes.map(([scope, limiter]) => limiter.liveRemainingMs(this.keyFor(scope, caller))));
+  }
+
+  endLive(caller: Caller, elapsedMs: number): void {
+    for (const [scope, limiter] of this.scopes) limiter.endLive(this.keyFor(scope, caller), elapsedMs);
+  }
+
+  private keyFor(scope: LimitScope, caller: Caller): string {
+    return scope === 'total' ? EVERYONE : caller[scope];
+  }
+}
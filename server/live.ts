@@ -0,0 +1,128 @@
+import http, { IncomingMessage, STATUS_CODES } from 'node:http';
+import https from 'node:https';
+import { Duplex } from 'node:stream';
+import { callerOf, originAllowed, ProxyContext } from './http.js';
+
+// Relays a Live API WebSocket. The handshake is forwarded with the real key
+// swapped in, then the two sockets are joined byte for byte: frames pass
+// through untouched, so no WebSocket library is needed and nothing is
+// buffered or re-encoded.
+
+const LIVE_PATH = /^\/ws\/google\.ai\.generativelanguage\.v1(?:alpha|beta)\.GenerativeService\.BidiGenerateContent$/;
+
+export const isLivePath = (pathname: string): boolean => LIVE_PATH.test(pathname);
+
+// Handshake headers the upstream needs; cookies, origin and the like stay here.
+const FORWARDED_HEADERS = ['sec-websocket-key', 'sec-websocket-version', 'sec-websocket-extensions', 'sec-websocket-protocol'];
+
+const refuse = (socket: Duplex, status: number, headers: Record<string, string> = {}): void => {
+  const lines = [`HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ''}`, 'Connection: close'];
+  for (const [name, value] of Object.entries(headers)) lines.push(`${name}: ${value}`);
+  socket.end(lines.join('\r\n') + '\r\n\r\n');
+};
+
+export const relayLive = (
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  url: URL,
+  { config, limiter, log }: ProxyContext,
+): void => {
+  if (!originAllowed(req, config)) {
+    refuse(socket, 403);
+    return;
+  }
+  const caller = callerOf(req, url, config);
+  if (!caller) {
+    refuse(socket, 401);
+    return;
+  }
+  const { device, ip } = caller;
+  const rejection = limiter.startLive(caller);
+  if (rejection) {
+    log.record({ kind: 'rejected', device, ip, request: 'live', reason: rejection.reason, scope: rejection.scope });
+    refuse(socket, 429, { 'Retry-After': String(rejection.retryAfterSeconds) });
+    return;
+  }
+
+  const target = new URL(url.pathname, config.upstreamUrl);
+  target.searchParams.set('key', config.apiKey);
+  const headers: Record<string, string> = { Connection: 'Upgrade', Upgrade: 'websocket' };
+  for (const name of FORWARDED_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  }
+  const upstreamRequest = (target.protocol === 'https:' ? https : http).request(target, { headers });
+
+  const startedAt = Date.now();
+  let upstreamSocket: Duplex | null = null;
+  let bytesSent = 0;
+  let bytesReceived = 0;
+  let cutOffTimer: ReturnType<typeof setTimeout> | null = null;
+  let ended = false;
+
+  const end = (cutOff: boolean) => {
+    if (ended) return;
+    ended = true;
+    if (cutOffTimer) clearTimeout(cutOffTimer);
+    const durationMs = upstreamSocket ? Date.now() - startedAt : 0;
+    limiter.endLive(caller, durationMs);
+    if (upstreamSocket) {
+      log.record({ kind: 'live', device, ip, durationMs, bytesSent, bytesReceived, cutOff });
+      upstreamSocket.destroy();
+    } else {
+      upstreamRequest.destroy();
+    }
+    // A refusal already ended the socket; let it flush
+    if (!socket.writableEnded) socket.destroy();
+  };
+
+  socket.on('error', () => end(false));
+  socket.on('close', () => end(false));
+
+  upstreamRequest.on('upgrade', (response: IncomingMessage, upstream: Duplex, upstreamHead: Buffer) => {
+    if (ended) {
+      upstream.destroy();
+      return;
+    }
+    upstreamSocket = upstream;
+    const lines = ['HTTP/1.1 101 Switching Protocols'];
+    for (let i = 0; i < response.rawHeaders.length; i += 2) {
+      lines.push(`${response.rawHeaders[i]}: ${response.rawHeaders[i + 1]}`);
+    }
+    socket.write(lines.join('\r\n') + '\r\n\r\n');
+    if (upstreamHead.length > 0) socket.write(upstreamHead);
+    if (head.length > 0) upstream.write(head);
+
+    socket.on('data', (chunk: Buffer) => {
+      bytesSent += chunk.length;
+    });
+    upstream.on('data', (chunk: Buffer) => {
+      bytesReceived += chunk.length;
+    });
+    socket.pipe(upstream).pipe(socket);
+    upstream.on('error', () => end(false));
+    upstream.on('close', () => end(false));
+    // Sessions are cut off when the day's allowance runs out. It is measured
+    // at the start, so concurrent sessions of one device can overrun slightly.
+    cutOffTimer = setTimeout(() => end(true), limiter.liveRemainingMs(caller));
+  });
+
+  // Anything but a 101: the upstream refused the handshake
+  upstreamRequest.on('response', (response: IncomingMessage) => {
+    console.error(`Live handshake refused upstream: ${response.statusCode}`);
+    log.record({ kind: 'rejected', device, ip, request: 'live', reason: 'upstream' });
+    response.resume();
+    refuse(socket, 502);
+    end(false);
+  });
+
+  upstreamRequest.on('error', (err) => {
+    if (ended) return;
+    console.error('Live upstream connection failed:', err);
+    refuse(socket, 502);
+    end(false);
+  });
+
+  upstreamRequest.end();
+};
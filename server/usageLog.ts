@@ -0,0 +1,43 @@
+import { appendFile } from 'node:fs/promises';
+import { LimitScope, RejectionReason } from './limits.js';
+
+// One JSON line per generate call, live session and refusal, on stdout and
+// optionally in a file, for keeping an eye on cost and abuse.
+
+export type UsageEntry = { device: string; ip: string } & (
+  | {
+      kind: 'generate';
+      model: string;
+      status: number;
+      durationMs: number;
+      promptTokens?: number;
+      outputTokens?: number;
+    }
+  | {
+      kind: 'live';
+      durationMs: number;
+      bytesSent: number;
+      bytesReceived: number;
+      // Whether the session ran out of quota rather than being closed.
+      cutOff: boolean;
+    }
+  | {
+      kind: 'rejected';
+      request: 'generate' | 'live';
+      reason: RejectionReason | 'model' | 'upstream';
+      // Whose limit was reached, for limit refusals.
+      scope?: LimitScope;
+    }
+);
+
+export class UsageLog {
+  constructor(private readonly path: string | null = null) {}
+
+  record(entry: UsageEntry): void {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+    console.log(line);
+    if (this.path) {
+      appendFile(this.path, line + '\n').catch(err => console.error('Failed to write usage log:', err));
+    }
+  }
+}
@@ -0,0 +1,11 @@
+// Tailwind only generates the classes it finds in these files, so anything
+// that builds class names must keep them whole (e.g. gestureSurface in
+// hooks/useGestures.ts).
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './hooks/**/*.ts', './utils/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -2,8 +2,10 @@
 export enum AppMode {
   HOME = 'HOME',
   FAST = 'FAST',
+  OBSTACLE = 'OBSTACLE',
   SCENE_DESCRIPTOR = 'SCENE_DESCRIPTOR',
   MAPS = 'MAPS',
+  SETTINGS = 'SETTINGS',
 }
 
 export interface BoundingBox {
@@ -14,3 +16,10 @@ export interface BoundingBox {
   width: number;
   height: number;
 }
+
+// A single prediction as returned by coco-ssd's detect().
+export interface DetectedObject {
+  bbox: [number, number, number, number]; // [x, y, width, height] in pixels
+  class: string;
+  score: number;
+}
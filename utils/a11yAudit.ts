@@ -0,0 +1,89 @@
+// Checks rendered markup for the accessibility mistakes that are easy to
+// make in this app: unlabeled icon buttons and controls, missing headings
+// and status changes that screen readers never hear about. Run against every
+// screen by components/accessibility.test.tsx.
+
+export interface A11yViolation {
+  rule: string;
+  message: string;
+  element: Element;
+}
+
+const describe = (el: Element) => {
+  const id = el.id ? `#${el.id}` : '';
+  return `<${el.tagName.toLowerCase()}${id}>`;
+};
+
+const isHidden = (el: Element) => el.closest('[aria-hidden="true"], [hidden]') !== null;
+
+// The text a screen reader would read for the element, approximately.
+export const accessibleName = (el: Element): string => {
+  const labelledBy = el.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/)
+      .map(id => el.ownerDocument.getElementById(id)?.textContent ?? '')
+      .join(' ')
+      .trim();
+    if (text) return text;
+  }
+  const label = el.getAttribute('aria-label')?.trim();
+  if (label) return label;
+  if (el.id && (el instanceof HTMLInputElement || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement)) {
+    const forLabel = el.ownerDocument.querySelector(`label[for="${CSS.escape(el.id)}"]`);
+    if (forLabel?.textContent?.trim()) return forLabel.textContent.trim();
+  }
+  const wrapping = el.closest('label');
+  if (wrapping && wrapping !== el && wrapping.textContent?.trim()) return wrapping.textContent.trim();
+  const alt = el.getAttribute('alt')?.trim();
+  if (alt) return alt;
+  let text = '';
+  el.childNodes.forEach(node => {
+    if (node instanceof Element && isHidden(node)) return;
+    text += node instanceof Element ? accessibleName(node) || (node.textContent ?? '') : node.textContent ?? '';
+  });
+  return text.trim();
+};
+
+export interface AuditOptions {
+  // Screens whose state changes while open (detection, sessions, navigation)
+  // must announce those changes.
+  requireLiveRegion?: boolean;
+}
+
+export const auditAccessibility = (root: Element, { requireLiveRegion = false }: AuditOptions = {}): A11yViolation[] => {
+  const violations: A11yViolation[] = [];
+  const report = (rule: string, element: Element, message: string) =>
+    violations.push({ rule, element, message: `${describe(element)}: ${message}` });
+
+  root.querySelectorAll('button, a[href], [role="button"]').forEach(el => {
+    if (!isHidden(el) && !accessibleName(el)) report('control-name', el, 'has no accessible name');
+  });
+
+  root.querySelectorAll('input:not([type="hidden"]), select, textarea').forEach(el => {
+    if (!isHidden(el) && !accessibleName(el)) report('form-label', el, 'has no label');
+  });
+
+  root.querySelectorAll('img').forEach(el => {
+    if (!el.hasAttribute('alt')) report('image-alt', el, 'needs alt text, or alt="" if decorative');
+  });
+
+  root.querySelectorAll('svg').forEach(el => {
+    if (isHidden(el) || el.getAttribute('role') === 'img' && accessibleName(el)) return;
+    report('svg-hidden', el, 'should be aria-hidden or have role="img" and a label');
+  });
+
+  root.querySelectorAll('[tabindex]').forEach(el => {
+    if (Number(el.getAttribute('tabindex')) > 0) report('tabindex', el, 'positive tabindex breaks the reading order');
+  });
+
+  const headings = root.querySelectorAll('h1');
+  if (headings.length !== 1) {
+    report('single-h1', root, `should have exactly one h1 to receive focus, found ${headings.length}`);
+  }
+
+  if (requireLiveRegion && !root.querySelector('[aria-live]:not([aria-live="off"]), [role="status"], [role="alert"], [role="log"]')) {
+    report('live-region', root, 'has no live region for status changes');
+  }
+
+  return violations;
+};
@@ -0,0 +1,383 @@
+import { GoogleGenAI } from '@google/genai';
+import { LIVE_INPUT_SAMPLE_RATE } from './audio';
+import { LatLng } from './geo';
+import { GeminiLiveTransport, LiveConnectOptions, liveServerMessage, LiveTransport, LiveTransportCallbacks, LiveTransportSession } from './liveSession';
+import { OpenAiRealtimeTransport } from './openAiRealtime';
+import { AiSettings, getSettingsStore } from './settings';
+import { KeyValueStorage, safeLocalStorage } from './storage';
+
+// The AI service behind the modes: one-shot multimodal requests (describing
+// the camera view, planning a route, transcribing a clip) and Scene
+// Descriptor's live audio conversation. Providers are registered by id and
+// picked in settings, like geocoders and recognizers, so a self-hosted model
+// or a scripted mock can stand in for Gemini.
+
+export type AiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+// A JSON Schema, as plain data.
+export type JsonSchema = Record<string, unknown>;
+
+export interface GenerateRequest {
+  parts: AiPart[];
+  // Grounds the answer in map data around this point, where the provider can.
+  mapsGrounding?: LatLng;
+  // Asks for a JSON reply matching this schema. Callers still validate it:
+  // not every model or server enforces the schema.
+  responseSchema?: JsonSchema;
+}
+
+export interface LiveCapabilities {
+  transport: LiveTransport;
+  model: string;
+  // PCM rates the live API takes from the microphone and plays back.
+  inputSampleRate: number;
+  outputSampleRate: number;
+}
+
+export interface AiProvider {
+  readonly id: string;
+  // The model's text reply.
+  generate(request: GenerateRequest): Promise<string>;
+  // Null when the provider can't hold a live audio conversation.
+  readonly live: LiveCapabilities | null;
+}
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface AiModels {
+  // For one-shot requests.
+  generate: string;
+  // For live audio sessions.
+  live: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: AiModels = {
+  generate: 'gemini-2.5-flash',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+export const DEFAULT_OPENAI_MODELS: AiModels = {
+  generate: 'gpt-4o-mini',
+  live: 'gpt-realtime',
+};
+
+// Gemini's native-audio models answer at 24 kHz.
+const GEMINI_OUTPUT_SAMPLE_RATE = 24000;
+
+export interface GeminiAiProviderOptions {
+  // The AI proxy (server/), which adds the API key on the way to Gemini.
+  proxyUrl: string;
+  // Tells this device apart in the proxy's rate limits and usage log.
+  deviceId: string;
+  models?: Partial<AiModels>;
+}
+
+export class GeminiAiProvider implements AiProvider {
+  readonly id = 'gemini';
+  readonly live: LiveCapabilities;
+  private readonly ai: GoogleGenAI;
+  private readonly model: string;
+
+  constructor(options: GeminiAiProviderOptions) {
+    // The SDK sends its key as x-goog-api-key and ?key=; the proxy reads the
+    // device id from there and swaps in the real key
+    this.ai = new GoogleGenAI({ apiKey: options.deviceId, httpOptions: { baseUrl: options.proxyUrl } });
+    this.model = options.models?.generate || DEFAULT_GEMINI_MODELS.generate;
+    this.live = {
+      transport: new GeminiLiveTransport(this.ai),
+      model: options.models?.live || DEFAULT_GEMINI_MODELS.live,
+      inputSampleRate: LIVE_INPUT_SAMPLE_RATE,
+      outputSampleRate: GEMINI_OUTPUT_SAMPLE_RATE,
+    };
+  }
+
+  async generate({ parts, mapsGrounding, responseSchema }: GenerateRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: { parts },
+      config: {
+        ...(mapsGrounding ? {
+          tools: [{ googleMaps: {} }],
+          toolConfig: {
+            retrievalConfig: {
+              latLng: { latitude: mapsGrounding.lat, longitude: mapsGrounding.lng },
+            },
+          },
+        } : {}),
+        ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+      },
+    });
+    return response.text ?? '';
+  }
+}
+
+export interface OpenAiCompatibleProviderOptions {
+  // Up to and including the version, e.g. http://localhost:11434/v1 for Ollama.
+  baseUrl: string;
+  // Not needed by most self-hosted servers.
+  apiKey?: string;
+  models?: Partial<AiModels>;
+  // WebSocket endpoint of an OpenAI Realtime-compatible server. Without one
+  // there are no live sessions.
+  realtimeUrl?: string;
+  fetch?: FetchLike;
+}
+
+type ChatContent =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+// Formats chat completions accept audio in.
+const CHAT_AUDIO_FORMATS = new Set(['wav', 'mp3']);
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama,
+// llama.cpp, vLLM, LM Studio. Map grounding is Gemini-only and is ignored.
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly id = 'openai';
+  readonly live: LiveCapabilities | null;
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly model: string;
+  private readonly fetch: FetchLike;
+
+  constructor(options: OpenAiCompatibleProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey ?? '';
+    this.model = options.models?.generate || DEFAULT_OPENAI_MODELS.generate;
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+    this.live = options.realtimeUrl ? {
+      transport: new OpenAiRealtimeTransport(options.realtimeUrl, this.apiKey),
+      model: options.models?.live || DEFAULT_OPENAI_MODELS.live,
+      inputSampleRate: OpenAiRealtimeTransport.SAMPLE_RATE,
+      outputSampleRate: OpenAiRealtimeTransport.SAMPLE_RATE,
+    } : null;
+  }
+
+  async generate({ parts, responseSchema }: GenerateRequest): Promise<string> {
+    const content = parts.map((part): ChatContent => {
+      if ('text' in part) return { type: 'text', text: part.text };
+      const { mimeType, data } = part.inlineData;
+      if (mimeType.startsWith('image/')) return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+      const format = mimeType.split(/[/;]/)[1] ?? '';
+      if (mimeType.startsWith('audio/') && CHAT_AUDIO_FORMATS.has(format)) {
+        return { type: 'input_audio', input_audio: { data, format } };
+      }
+      throw new Error(`The ${this.id} provider cannot send ${mimeType} input`);
+    });
+    const response = await this.fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content }],
+        ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {}),
+      }),
+    });
+    if (!response.ok) throw new Error(`Chat completion failed with status ${response.status}`);
+    const body = await response.json() as { choices?: { message?: { content?: string | null } }[] };
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+}
+
+export interface AiScript {
+  // Replies to generate(): the first entry whose `match` occurs in the
+  // request's text answers it; an entry without `match` answers anything.
+  generate: { match?: string; reply: string }[];
+  // What the live "model" says, in order, one turn for each text sent and
+  // for every `framesPerTurn` frames. Wraps around at the end.
+  live: string[];
+  framesPerTurn: number;
+}
+
+export const DEFAULT_AI_SCRIPT: AiScript = {
+  generate: [
+    {
+      match: 'navigation assistant',
+      reply: JSON.stringify({
+        maneuver: 'straight',
+        direction: 'ahead',
+        distanceMeters: 20,
+        street: '',
+        landmarks: ['a bus stop'],
+        hazards: [{ description: 'a bicycle parked on the pavement', severity: 'low' }],
+        confidence: 0.8,
+      }),
+    },
+    { match: 'Transcribe', reply: '' },
+    { reply: 'This is a scripted reply.' },
+  ],
+  live: [
+    'You are facing a quiet street with parked cars on the right.',
+    'A person is walking towards you on the left.',
+    'The path ahead is clear.',
+  ],
+  framesPerTurn: 5,
+};
+
+// Where the 'mock' provider loads its script from; served from public/ when
+// present, otherwise DEFAULT_AI_SCRIPT is used.
+export const MOCK_AI_SCRIPT_URL = '/mock-ai.json';
+
+const requestText = (parts: AiPart[]) => parts.map(p => 'text' in p ? p.text : '').join('\n');
+
+// Replays canned responses, so the modes can be developed and tested offline
+// and give the same replies every run. Records what it was asked.
+export class ScriptedAiProvider implements AiProvider {
+  readonly id = 'mock';
+  readonly live: LiveCapabilities;
+  readonly requests: GenerateRequest[] = [];
+
+  constructor(private readonly script: AiScript | Promise<AiScript> = DEFAULT_AI_SCRIPT) {
+    this.live = {
+      transport: new ScriptedLiveTransport(script),
+      model: 'scripted',
+      inputSampleRate: LIVE_INPUT_SAMPLE_RATE,
+      outputSampleRate: GEMINI_OUTPUT_SAMPLE_RATE,
+    };
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    this.requests.push(request);
+    const text = requestText(request.parts);
+    const entry = (await this.script).generate.find(e => e.match === undefined || text.includes(e.match));
+    return entry?.reply ?? '';
+  }
+}
+
+// A live "server" that speaks the script as transcribed turns. It sends no
+// audio, so the conversation shows up in the transcript only.
+export class ScriptedLiveTransport implements LiveTransport {
+  private turn = 0;
+
+  constructor(private readonly script: AiScript | Promise<AiScript> = DEFAULT_AI_SCRIPT) {}
+
+  async connect(_options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportSession> {
+    const { live, framesPerTurn } = await this.script;
+    let closed = false;
+    let frames = 0;
+    const say = () => {
+      if (closed || live.length === 0) return;
+      const text = live[this.turn++ % live.length];
+      queueMicrotask(() => {
+        if (closed) return;
+        callbacks.onmessage(liveServerMessage({ outputTranscription: { text } }));
+        callbacks.onmessage(liveServerMessage({ turnComplete: true }));
+      });
+    };
+    callbacks.onopen();
+    return {
+      sendRealtimeInput: (input) => {
+        if (closed) throw new Error('Connection closed');
+        if (input.text) say();
+        if (input.media?.mimeType?.startsWith('image/') && ++frames % framesPerTurn === 0) say();
+      },
+      close: () => {
+        closed = true;
+      },
+    };
+  }
+}
+
+const loadMockScript = async (): Promise<AiScript> => {
+  try {
+    const response = await fetch(MOCK_AI_SCRIPT_URL);
+    if (!response.ok) return DEFAULT_AI_SCRIPT;
+    return { ...DEFAULT_AI_SCRIPT, ...await response.json() as Partial<AiScript> };
+  } catch {
+    return DEFAULT_AI_SCRIPT;
+  }
+};
+
+export type AiProviderFactory = (settings: AiSettings) => AiProvider;
+
+const factories = new Map<string, AiProviderFactory>();
+
+export const registerAiProvider = (id: string, factory: AiProviderFactory): void => {
+  factories.set(id, factory);
+};
+
+export const listAiProviders = (): string[] => [...factories.keys()];
+
+export const createAiProvider = (id: string, settings: AiSettings): AiProvider => {
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown AI provider "${id}". Registered: ${listAiProviders().join(', ')}`);
+  }
+  return factory(settings);
+};
+
+const modelsFrom = (settings: AiSettings): Partial<AiModels> => ({
+  generate: settings.generateModel.trim(),
+  live: settings.liveModel.trim(),
+});
+
+const DEVICE_ID_KEY = 'haptinav.deviceId';
+let deviceId: string | null = null;
+
+// A random id, kept on the device, that the AI proxy limits and logs usage
+// by. It isn't a secret; without storage it lasts the session.
+export const getDeviceId = (storage: KeyValueStorage | null = safeLocalStorage()): string => {
+  if (!deviceId) {
+    deviceId = storage?.getItem(DEVICE_ID_KEY) ?? null;
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      try {
+        storage?.setItem(DEVICE_ID_KEY, deviceId);
+      } catch (err) {
+        console.error(`Failed to save ${DEVICE_ID_KEY}:`, err);
+      }
+    }
+  }
+  return deviceId;
+};
+
+// Where the AI proxy is: under the app's own origin, which Vite forwards in
+// development, unless the build names another origin for it.
+const aiProxyUrl = (): string => `${import.meta.env.VITE_AI_PROXY_URL || location.origin}/ai`;
+
+registerAiProvider('gemini', settings => new GeminiAiProvider({
+  proxyUrl: aiProxyUrl(),
+  deviceId: getDeviceId(),
+  models: modelsFrom(settings),
+}));
+registerAiProvider('openai', settings => new OpenAiCompatibleProvider({
+  baseUrl: settings.baseUrl,
+  apiKey: settings.apiKey,
+  realtimeUrl: settings.realtimeUrl.trim() || undefined,
+  models: modelsFrom(settings),
+}));
+registerAiProvider('mock', () => new ScriptedAiProvider(loadMockScript()));
+
+let cached: { key: string; provider: AiProvider } | null = null;
+let override: AiProvider | null = null;
+
+// The provider chosen in settings, rebuilt when the AI settings change. An
+// id that is no longer registered falls back to Gemini.
+export const getAiProvider = (): AiProvider => {
+  if (override) return override;
+  const settings = getSettingsStore().get().ai;
+  const key = JSON.stringify(settings);
+  if (cached?.key !== key) {
+    let provider: AiProvider;
+    try {
+      provider = createAiProvider(settings.provider, settings);
+    } catch (err) {
+      console.warn(err);
+      provider = createAiProvider('gemini', settings);
+    }
+    cached = { key, provider };
+  }
+  return cached.provider;
+};
+
+// Replaces the configured provider, e.g. with a ScriptedAiProvider in tests.
+// Pass null to go back to settings.
+export const setAiProvider = (provider: AiProvider | null): void => {
+  override = provider;
+};
@@ -0,0 +1,47 @@
+// Screen reader announcements that aren't tied to a visible element, through
+// two visually hidden live regions shared by the whole app.
+
+export type Politeness = 'polite' | 'assertive';
+
+const VISUALLY_HIDDEN =
+  'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0';
+
+export class Announcer {
+  private regions: Partial<Record<Politeness, HTMLElement>> = {};
+  private timers: Partial<Record<Politeness, ReturnType<typeof setTimeout>>> = {};
+
+  constructor(private readonly doc: Document = document) {}
+
+  announce(message: string, politeness: Politeness = 'polite'): void {
+    const region = this.region(politeness);
+    clearTimeout(this.timers[politeness]);
+    // Emptied first so that the same message twice in a row is read twice
+    region.textContent = '';
+    this.timers[politeness] = setTimeout(() => {
+      region.textContent = message;
+    }, 100);
+  }
+
+  private region(politeness: Politeness): HTMLElement {
+    let region = this.regions[politeness];
+    if (!region || !region.isConnected) {
+      region = this.doc.createElement('div');
+      region.setAttribute('aria-live', politeness);
+      region.setAttribute('aria-atomic', 'true');
+      region.setAttribute('role', politeness === 'assertive' ? 'alert' : 'status');
+      region.style.cssText = VISUALLY_HIDDEN;
+      this.doc.body.appendChild(region);
+      this.regions[politeness] = region;
+    }
+    return region;
+  }
+}
+
+let defaultAnnouncer: Announcer | null = null;
+
+export const announce = (message: string, politeness: Politeness = 'polite'): void => {
+  if (!defaultAnnouncer) {
+    defaultAnnouncer = new Announcer();
+  }
+  defaultAnnouncer.announce(message, politeness);
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { floatTo16BitPCM, resample, Resampler } from './audio';
+
+const sine = (frequency: number, sampleRate: number, seconds: number): Float32Array =>
+  Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+// Largest difference away from the ends, where the averaging window is cut
+// short and the tail is padded rather than known.
+const maxError = (actual: Float32Array, expected: Float32Array, edge = 2): number => {
+  let max = 0;
+  for (let i = edge; i < expected.length - edge; i++) max = Math.max(max, Math.abs(actual[i] - expected[i]));
+  return max;
+};
+
+describe('Resampler', () => {
+  it.each([48000, 44100, 8000])('converts a 440 Hz sine from %i Hz to 16 kHz', (fromRate) => {
+    const output = resample(sine(440, fromRate, 1), fromRate, 16000);
+    expect(output.length).toBe(16000);
+    // The averaging window snaps to whole input samples, which can shift it
+    // by up to half a sample; at 44.1 kHz that is worth about 0.03 here
+    expect(maxError(output, sine(440, 16000, 1))).toBeLessThan(0.04);
+  });
+
+  it.each([48000, 44100, 8000])('gives the same samples when %i Hz input arrives in chunks', (fromRate) => {
+    const input = sine(440, fromRate, 0.5);
+    const whole = new Resampler(fromRate, 16000).process(input);
+
+    const streaming = new Resampler(fromRate, 16000);
+    const pieces: number[] = [];
+    // Odd chunk sizes, like an audio worklet's, so boundaries fall anywhere
+    for (let start = 0; start < input.length; start += 333) {
+      pieces.push(...streaming.process(input.subarray(start, start + 333)));
+    }
+    expect(pieces.length).toBe(whole.length);
+    expect(maxError(Float32Array.from(pieces), whole, 0)).toBeLessThan(1e-6);
+  });
+
+  it('passes audio already at the target rate through unchanged', () => {
+    const input = sine(440, 16000, 0.1);
+    expect(new Resampler(16000, 16000).process(input)).toEqual(input);
+  });
+
+  it('rejects a non-positive rate', () => {
+    expect(() => new Resampler(0, 16000)).toThrow();
+  });
+});
+
+describe('floatTo16BitPCM', () => {
+  it('maps full scale to the ends of the Int16 range', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([1, -1, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('clamps samples beyond ±1 instead of wrapping', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([1.5, -1.5, 10, -10])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+
+  it('scales samples in between', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([0.5, -0.5])))).toEqual([16383, -16384]);
+  });
+});
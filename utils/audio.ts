@@ -39,14 +39,101 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): Blob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-        int16[i] = data[i] * 32768;
-    }
+// Sample rate the Live API expects for input audio.
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+
+// Converts [-1, 1] float samples to little-endian 16-bit PCM. Samples are
+// clamped first, and the asymmetric Int16 range is respected, so full-scale
+// input doesn't wrap around.
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16;
+}
+
+export function createBlob(data: Float32Array, sampleRate: number = LIVE_INPUT_SAMPLE_RATE): Blob {
     return {
-        data: encode(new Uint8Array(int16.buffer)),
-        mimeType: 'audio/pcm;rate=16000',
+        data: encode(new Uint8Array(floatTo16BitPCM(data).buffer)),
+        mimeType: `audio/pcm;rate=${sampleRate}`,
     };
 }
+
+// Streaming sample-rate converter. Chunks can be fed one at a time; state
+// carried between calls keeps the output continuous across chunk boundaries.
+// When downsampling, each output sample averages the input samples it covers,
+// a cheap low-pass that keeps speech intelligible and limits aliasing.
+export class Resampler {
+  private readonly ratio: number;
+  private pending = new Float32Array(0);
+  // Position of the next output sample, in input samples relative to `pending`.
+  private position = 0;
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    if (fromRate <= 0 || toRate <= 0) {
+      throw new Error(`Invalid sample rates: ${fromRate} -> ${toRate}`);
+    }
+    this.ratio = fromRate / toRate;
+  }
+
+  process(chunk: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return chunk.slice();
+
+    const input = new Float32Array(this.pending.length + chunk.length);
+    input.set(this.pending);
+    input.set(chunk, this.pending.length);
+
+    const halfWindow = this.ratio > 1 ? this.ratio / 2 : 0;
+    const output: number[] = [];
+    // Interpolation needs the sample after `position`; averaging needs the whole window.
+    while (Math.ceil(this.position + halfWindow) < input.length && Math.floor(this.position) + 1 < input.length) {
+      output.push(this.ratio > 1 ? average(input, this.position, halfWindow) : interpolate(input, this.position));
+      this.position += this.ratio;
+    }
+
+    // Keep what future output samples still need.
+    const keepFrom = Math.max(0, Math.min(input.length, Math.floor(this.position - halfWindow)));
+    this.pending = input.slice(keepFrom);
+    this.position -= keepFrom;
+    return Float32Array.from(output);
+  }
+
+  reset(): void {
+    this.pending = new Float32Array(0);
+    this.position = 0;
+  }
+}
+
+function interpolate(input: Float32Array, position: number): number {
+  const i = Math.floor(position);
+  const frac = position - i;
+  return input[i] + (input[i + 1] - input[i]) * frac;
+}
+
+function average(input: Float32Array, center: number, halfWindow: number): number {
+  const start = Math.max(0, Math.ceil(center - halfWindow));
+  const end = Math.min(input.length - 1, Math.floor(center + halfWindow));
+  let sum = 0;
+  for (let i = start; i <= end; i++) {
+    sum += input[i];
+  }
+  return end >= start ? sum / (end - start + 1) : interpolate(input, center);
+}
+
+// Resamples a complete buffer in one go.
+export function resample(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  const resampler = new Resampler(fromRate, toRate);
+  // Pad with the last sample so the tail isn't held back waiting for more input.
+  const padding = new Float32Array(Math.ceil(fromRate / toRate) + 1).fill(data[data.length - 1] ?? 0);
+  const out = resampler.process(data);
+  const tail = resampler.process(padding);
+  const expected = Math.round((data.length * toRate) / fromRate);
+  const result = new Float32Array(expected);
+  result.set(out.subarray(0, expected));
+  if (out.length < expected) {
+    result.set(tail.subarray(0, expected - out.length), out.length);
+  }
+  return result;
+}
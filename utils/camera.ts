@@ -0,0 +1,329 @@
+// One place that owns the camera: device selection, constraints, torch and
+// recovery when the track dies (another app grabbing the camera, a USB camera
+// being unplugged, the OS suspending the page).
+
+import { KeyValueStorage, safeLocalStorage } from './storage';
+
+// The subset of MediaDevices the manager needs, so tests can inject a fake.
+export interface MediaDevicesLike {
+  getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream>;
+  enumerateDevices(): Promise<MediaDeviceInfo[]>;
+}
+
+// A frame as a mode processes it. `timestamp` is in milliseconds; for a
+// replay it is the clip's own time, so anything paced by it replays the same.
+export interface CameraFrame {
+  image: HTMLVideoElement | HTMLCanvasElement;
+  width: number;
+  height: number;
+  timestamp: number;
+}
+
+// Devices that hand out frames one at a time in a fixed order, rather than
+// whatever the video element happens to show (see frameReplay.ts).
+export interface FrameSource {
+  readFrame(): Promise<CameraFrame | null>;
+}
+
+const isFrameSource = (devices: MediaDevicesLike): devices is MediaDevicesLike & FrameSource =>
+  typeof (devices as Partial<FrameSource>).readFrame === 'function';
+
+// The frame a live video element is showing, or null until it has one.
+export const frameFromVideo = (video: HTMLVideoElement | null): CameraFrame | null => {
+  if (!video || video.readyState < 2 || video.videoWidth === 0) return null;
+  return { image: video, width: video.videoWidth, height: video.videoHeight, timestamp: performance.now() };
+};
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface CameraConstraints {
+  width?: number;
+  height?: number;
+  frameRate?: number;
+}
+
+export type CameraStatus = 'idle' | 'starting' | 'active' | 'recovering' | 'error';
+
+// Why the camera is unavailable. The UI turns these into messages in the
+// user's language (see useCamera).
+export type CameraError = 'denied' | 'in-use' | 'unavailable' | 'stopped';
+
+export interface CameraState {
+  status: CameraStatus;
+  stream: MediaStream | null;
+  devices: CameraDevice[];
+  // Null means "whatever facingMode: environment picks".
+  deviceId: string | null;
+  torchSupported: boolean;
+  torchOn: boolean;
+  error: CameraError | null;
+  // Set while the devices in use are a replay, which modes read from instead
+  // of the video element.
+  frameSource: FrameSource | null;
+}
+
+export interface CameraManagerOptions {
+  // Where the chosen camera is remembered. Pass null to disable.
+  storage?: KeyValueStorage | null;
+  maxRecoveryAttempts?: number;
+  recoveryDelayMs?: number;
+}
+
+const STORAGE_KEY = 'haptinav.cameraDeviceId';
+
+// Torch isn't in the standard TypeScript DOM typings yet.
+interface TorchCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+}
+
+const INITIAL_STATE: CameraState = {
+  status: 'idle',
+  stream: null,
+  devices: [],
+  deviceId: null,
+  torchSupported: false,
+  torchOn: false,
+  error: null,
+  frameSource: null,
+};
+
+export class CameraManager {
+  private state: CameraState;
+  private listeners = new Set<(state: CameraState) => void>();
+  private constraints: CameraConstraints = {};
+  private readonly storage: CameraManagerOptions['storage'];
+  private readonly maxRecoveryAttempts: number;
+  private readonly recoveryDelayMs: number;
+  private recoveryAttempts = 0;
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every start/stop so a slow getUserMedia that resolves after a
+  // newer request doesn't clobber it.
+  private requestId = 0;
+  private mediaDevices: MediaDevicesLike;
+
+  constructor(private readonly defaultMediaDevices: MediaDevicesLike, options: CameraManagerOptions = {}) {
+    this.mediaDevices = defaultMediaDevices;
+    this.storage = options.storage === undefined ? safeLocalStorage() : options.storage;
+    this.maxRecoveryAttempts = options.maxRecoveryAttempts ?? 3;
+    this.recoveryDelayMs = options.recoveryDelayMs ?? 1000;
+    this.state = { ...INITIAL_STATE, deviceId: this.storage?.getItem(STORAGE_KEY) ?? null };
+  }
+
+  getState(): CameraState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: CameraState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async start(constraints: CameraConstraints = this.constraints): Promise<MediaStream> {
+    this.constraints = constraints;
+    this.recoveryAttempts = 0;
+    return this.open(this.state.deviceId, 'starting');
+  }
+
+  stop(): void {
+    this.requestId++;
+    this.clearRecovery();
+    this.stopTracks(this.state.stream);
+    this.setState({ status: 'idle', stream: null, torchOn: false, torchSupported: false });
+  }
+
+  // Swaps the devices frames come from, e.g. for a recorded clip, reopening
+  // the camera if it is running. Pass null to go back to the real ones.
+  async replaceMediaDevices(mediaDevices: MediaDevicesLike | null): Promise<MediaStream | null> {
+    this.mediaDevices = mediaDevices ?? this.defaultMediaDevices;
+    const frameSource = isFrameSource(this.mediaDevices) ? this.mediaDevices : null;
+    this.setState({ frameSource, devices: [] });
+    if (this.state.status === 'idle') return null;
+    this.recoveryAttempts = 0;
+    return this.open(this.state.deviceId, 'starting');
+  }
+
+  async listCameras(): Promise<CameraDevice[]> {
+    const devices = (await this.mediaDevices.enumerateDevices())
+      .filter(d => d.kind === 'videoinput')
+      .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+    this.setState({ devices });
+    return devices;
+  }
+
+  async switchCamera(deviceId: string | null): Promise<MediaStream | null> {
+    if (deviceId) {
+      this.storage?.setItem(STORAGE_KEY, deviceId);
+    } else {
+      this.storage?.removeItem(STORAGE_KEY);
+    }
+    this.setState({ deviceId });
+    if (this.state.status === 'idle') return null;
+    return this.open(deviceId, 'starting');
+  }
+
+  // Cycles to the next camera in the device list.
+  async nextCamera(): Promise<MediaStream | null> {
+    const devices = this.state.devices.length > 0 ? this.state.devices : await this.listCameras();
+    if (devices.length < 2) return this.state.stream;
+    const currentId = this.currentTrack()?.getSettings().deviceId ?? this.state.deviceId;
+    const index = devices.findIndex(d => d.deviceId === currentId);
+    return this.switchCamera(devices[(index + 1) % devices.length].deviceId);
+  }
+
+  async setTorch(on: boolean): Promise<boolean> {
+    const track = this.currentTrack();
+    if (!track || !this.state.torchSupported) return false;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+      this.setState({ torchOn: on });
+      return true;
+    } catch (err) {
+      console.error("Failed to toggle torch:", err);
+      return false;
+    }
+  }
+
+  private async open(deviceId: string | null, status: CameraStatus): Promise<MediaStream> {
+    const requestId = ++this.requestId;
+    this.clearRecovery();
+    this.stopTracks(this.state.stream);
+    this.setState({ status, stream: null, torchOn: false, error: null });
+
+    let stream: MediaStream;
+    try {
+      stream = await this.mediaDevices.getUserMedia({ video: this.videoConstraints(deviceId) });
+    } catch (err) {
+      // A remembered camera that has since disappeared shouldn't lock the user out.
+      if (deviceId && isDeviceMissing(err)) {
+        this.storage?.removeItem(STORAGE_KEY);
+        this.setState({ deviceId: null });
+        return this.open(null, status);
+      }
+      if (requestId === this.requestId) {
+        this.setState({ status: 'error', error: cameraErrorOf(err) });
+      }
+      throw err;
+    }
+
+    if (requestId !== this.requestId) {
+      this.stopTracks(stream);
+      throw new Error("Camera request superseded");
+    }
+
+    const track = stream.getVideoTracks()[0];
+    track?.addEventListener('ended', () => this.handleTrackEnded(stream));
+    const capabilities = (track?.getCapabilities?.() ?? {}) as TorchCapabilities;
+    this.setState({ status: 'active', stream, torchSupported: capabilities.torch === true });
+    this.recoveryAttempts = 0;
+
+    // Labels are only exposed once permission has been granted, so refresh now.
+    this.listCameras().catch(() => {});
+    return stream;
+  }
+
+  private handleTrackEnded(stream: MediaStream): void {
+    if (stream !== this.state.stream) return;
+    this.scheduleRecovery();
+  }
+
+  // Reopens the camera with a growing delay, giving up after a few attempts.
+  private scheduleRecovery(): void {
+    if (this.recoveryAttempts >= this.maxRecoveryAttempts) {
+      this.setState({ status: 'error', stream: null, error: 'stopped' });
+      return;
+    }
+    this.recoveryAttempts++;
+    this.setState({ status: 'recovering', stream: null });
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      this.open(this.state.deviceId, 'recovering').catch(() => {
+        // Only retry our own failure, not a request superseded by start/stop.
+        if (this.state.status === 'error') this.scheduleRecovery();
+      });
+    }, this.recoveryDelayMs * this.recoveryAttempts);
+  }
+
+  private videoConstraints(deviceId: string | null): MediaTrackConstraints {
+    const { width, height, frameRate } = this.constraints;
+    return {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }),
+      ...(width ? { width: { ideal: width } } : {}),
+      ...(height ? { height: { ideal: height } } : {}),
+      ...(frameRate ? { frameRate: { ideal: frameRate } } : {}),
+    };
+  }
+
+  private currentTrack(): MediaStreamTrack | undefined {
+    return this.state.stream?.getVideoTracks()[0];
+  }
+
+  private stopTracks(stream: MediaStream | null): void {
+    stream?.getTracks().forEach(track => track.stop());
+  }
+
+  private clearRecovery(): void {
+    if (this.recoveryTimer !== null) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+  }
+
+  private setState(patch: Partial<CameraState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+const isDeviceMissing = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError');
+
+const cameraErrorOf = (err: unknown): CameraError => {
+  if (err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'SecurityError')) {
+    return 'denied';
+  }
+  if (err instanceof DOMException && err.name === 'NotReadableError') {
+    return 'in-use';
+  }
+  return 'unavailable';
+};
+
+// Test double: serves a stream captured from a canvas instead of a real camera.
+export class SyntheticMediaDevices implements MediaDevicesLike {
+  readonly requests: MediaStreamConstraints[] = [];
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private readonly devices: CameraDevice[] = [{ deviceId: 'synthetic', label: 'Synthetic camera' }],
+    private readonly frameRate = 30,
+  ) {}
+
+  async getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream> {
+    this.requests.push(constraints);
+    return this.canvas.captureStream(this.frameRate);
+  }
+
+  async enumerateDevices(): Promise<MediaDeviceInfo[]> {
+    return this.devices.map(d => ({
+      deviceId: d.deviceId,
+      groupId: '',
+      kind: 'videoinput',
+      label: d.label,
+      toJSON: () => d,
+    }) as MediaDeviceInfo);
+  }
+}
+
+let defaultManager: CameraManager | null = null;
+
+// The app-wide manager backed by the real navigator.mediaDevices.
+export const getDefaultCameraManager = (): CameraManager => {
+  if (!defaultManager) {
+    defaultManager = new CameraManager(navigator.mediaDevices);
+  }
+  return defaultManager;
+};
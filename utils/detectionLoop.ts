@@ -0,0 +1,127 @@
+export interface Scheduler {
+  setTimeout(callback: () => void, ms: number): number;
+  clearTimeout(handle: number): void;
+  now(): number;
+}
+
+const browserScheduler: Scheduler = {
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: handle => window.clearTimeout(handle),
+  now: () => performance.now(),
+};
+
+export interface DetectionLoopOptions<T> {
+  // Runs one detection. The loop never calls it again until the previous
+  // promise settles, so slow devices drop frames instead of queueing them.
+  detect: () => Promise<T | null>;
+  onResult: (result: T) => void;
+  onError?: (error: unknown) => void;
+  targetFps: number;
+  scheduler?: Scheduler;
+}
+
+export class DetectionLoop<T> {
+  private readonly detect: () => Promise<T | null>;
+  private readonly onResult: (result: T) => void;
+  private readonly onError?: (error: unknown) => void;
+  private readonly scheduler: Scheduler;
+  private frameIntervalMs: number;
+  private timer: number | null = null;
+  private running = false;
+  private paused = false;
+  private inFlight = false;
+  // Incremented on every stop so results from a detection that started before
+  // a stop/pause are discarded.
+  private generation = 0;
+
+  constructor(options: DetectionLoopOptions<T>) {
+    this.detect = options.detect;
+    this.onResult = options.onResult;
+    this.onError = options.onError;
+    this.scheduler = options.scheduler ?? browserScheduler;
+    this.frameIntervalMs = fpsToInterval(options.targetFps);
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isBusy(): boolean {
+    return this.inFlight;
+  }
+
+  setTargetFps(fps: number): void {
+    this.frameIntervalMs = fpsToInterval(fps);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.paused = false;
+    this.schedule(0);
+  }
+
+  pause(): void {
+    if (!this.running || this.paused) return;
+    this.paused = true;
+    this.clearTimer();
+    this.generation++;
+  }
+
+  resume(): void {
+    if (!this.running || !this.paused) return;
+    this.paused = false;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    this.paused = false;
+    this.clearTimer();
+    this.generation++;
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    this.timer = this.scheduler.setTimeout(() => {
+      this.timer = null;
+      this.tick();
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.scheduler.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.running || this.paused || this.inFlight) return;
+    const generation = this.generation;
+    const startedAt = this.scheduler.now();
+    this.inFlight = true;
+    try {
+      const result = await this.detect();
+      if (generation === this.generation && result !== null) {
+        this.onResult(result);
+      }
+    } catch (err) {
+      if (generation === this.generation) {
+        this.onError?.(err);
+      }
+    } finally {
+      this.inFlight = false;
+    }
+    if (this.running && !this.paused) {
+      const elapsed = this.scheduler.now() - startedAt;
+      this.schedule(Math.max(0, this.frameIntervalMs - elapsed));
+    }
+  }
+}
+
+const fpsToInterval = (fps: number) => (fps > 0 ? 1000 / fps : 1000);
@@ -0,0 +1,299 @@
+import type * as tf from '@tensorflow/tfjs';
+import { AppMode, DetectedObject } from '../types';
+import { COCO_OBJECT_SIZES } from './objectSizes';
+
+export type DetectorInput = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageData;
+
+export interface DetectorMetadata {
+  id: string;
+  name: string;
+  // Where the weights come from, for display and debugging.
+  source: string;
+  version?: string;
+}
+
+export interface DetectOptions {
+  // Predictions scoring below this are dropped.
+  minScore: number;
+  maxDetections: number;
+}
+
+export const DEFAULT_DETECT_OPTIONS: DetectOptions = {
+  minScore: 0.5,
+  maxDetections: 20,
+};
+
+export interface Detector {
+  readonly metadata: DetectorMetadata;
+  readonly classes: readonly string[];
+  // URLs the model may be fetched from, in order of preference. Used to tell
+  // whether it can be loaded without a network connection.
+  readonly modelUrls: readonly string[];
+  readonly isLoaded: boolean;
+  // Idempotent: concurrent and repeated calls share one load.
+  load(): Promise<void>;
+  detect(input: DetectorInput, options?: Partial<DetectOptions>): Promise<DetectedObject[]>;
+  dispose(): void;
+}
+
+export type DetectorFactory = () => Detector;
+
+export const COCO_CLASSES: readonly string[] = Object.keys(COCO_OBJECT_SIZES);
+
+const applyOptions = (predictions: DetectedObject[], options: DetectOptions): DetectedObject[] =>
+  predictions
+    .filter(p => p.score >= options.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.maxDetections);
+
+// Shares a single in-flight load between callers and allows a retry after failure.
+abstract class LazyDetector implements Detector {
+  abstract readonly metadata: DetectorMetadata;
+  abstract readonly classes: readonly string[];
+  abstract readonly modelUrls: readonly string[];
+  private loading: Promise<void> | null = null;
+  private loaded = false;
+
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadModel().then(
+        () => { this.loaded = true; },
+        (err) => {
+          this.loading = null;
+          throw err;
+        },
+      );
+    }
+    return this.loading;
+  }
+
+  async detect(input: DetectorInput, options: Partial<DetectOptions> = {}): Promise<DetectedObject[]> {
+    if (!this.loaded) {
+      throw new Error(`Detector "${this.metadata.id}" is not loaded`);
+    }
+    return this.runModel(input, { ...DEFAULT_DETECT_OPTIONS, ...options });
+  }
+
+  dispose(): void {
+    this.disposeModel();
+    this.loading = null;
+    this.loaded = false;
+  }
+
+  protected abstract loadModel(): Promise<void>;
+  protected abstract runModel(input: DetectorInput, options: DetectOptions): Promise<DetectedObject[]>;
+  protected abstract disposeModel(): void;
+}
+
+export type CocoSsdBase = 'mobilenet_v1' | 'mobilenet_v2' | 'lite_mobilenet_v2';
+
+export interface CocoSsdConfig {
+  base?: CocoSsdBase;
+  // Overrides where the weights are fetched from. By default a copy hosted on
+  // our own origin (see scripts/fetch-models.mjs) is tried before the CDN.
+  modelUrl?: string;
+}
+
+const cocoSsdRemoteUrl = (base: CocoSsdBase) =>
+  `https://storage.googleapis.com/tfjs-models/savedmodel/${base === 'lite_mobilenet_v2' ? 'ssdlite_mobilenet_v2' : `ssd_${base}`}/model.json`;
+
+export class CocoSsdDetector extends LazyDetector {
+  readonly classes = COCO_CLASSES;
+  readonly modelUrls: readonly string[];
+  private readonly base: CocoSsdBase;
+  private model: import('@tensorflow-models/coco-ssd').ObjectDetection | null = null;
+  private loadedFrom: string | null = null;
+
+  constructor(config: CocoSsdConfig = {}) {
+    super();
+    this.base = config.base ?? 'lite_mobilenet_v2';
+    this.modelUrls = config.modelUrl
+      ? [config.modelUrl]
+      : [`/models/coco-ssd/${this.base}/model.json`, cocoSsdRemoteUrl(this.base)];
+  }
+
+  get metadata(): DetectorMetadata {
+    return {
+      id: `coco-ssd/${this.base}`,
+      name: `COCO-SSD (${this.base})`,
+      source: this.loadedFrom ?? this.modelUrls[0],
+    };
+  }
+
+  protected async loadModel(): Promise<void> {
+    // Loaded on demand so tfjs stays out of the initial bundle.
+    await import('@tensorflow/tfjs');
+    const cocoSsd = await import('@tensorflow-models/coco-ssd');
+    let lastError: unknown = null;
+    for (const modelUrl of this.modelUrls) {
+      try {
+        this.model = await cocoSsd.load({ base: this.base, modelUrl });
+        this.loadedFrom = modelUrl;
+        return;
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+
+  protected async runModel(input: DetectorInput, options: DetectOptions): Promise<DetectedObject[]> {
+    const predictions = await this.model!.detect(input, options.maxDetections, options.minScore);
+    return applyOptions(predictions, options);
+  }
+
+  protected disposeModel(): void {
+    this.model?.dispose();
+    this.model = null;
+    this.loadedFrom = null;
+  }
+}
+
+export interface TfjsGraphModelConfig {
+  id: string;
+  name: string;
+  modelUrl: string;
+  classes: readonly string[];
+  // Turns the raw model outputs into detections in input pixel coordinates.
+  // Output layouts differ between exported models, so this is model specific.
+  decode: (
+    outputs: tf.Tensor | tf.Tensor[],
+    input: { width: number; height: number },
+    classes: readonly string[],
+  ) => Promise<DetectedObject[]>;
+  // Resize the input to this square size before inference, if the model needs it.
+  inputSize?: number;
+}
+
+// Adapter for custom-trained detectors exported as a tfjs graph model.
+export class TfjsGraphModelDetector extends LazyDetector {
+  readonly metadata: DetectorMetadata;
+  readonly classes: readonly string[];
+  readonly modelUrls: readonly string[];
+  private tf: typeof import('@tensorflow/tfjs') | null = null;
+  private model: tf.GraphModel | null = null;
+
+  constructor(private readonly config: TfjsGraphModelConfig) {
+    super();
+    this.metadata = { id: config.id, name: config.name, source: config.modelUrl };
+    this.classes = config.classes;
+    this.modelUrls = [config.modelUrl];
+  }
+
+  protected async loadModel(): Promise<void> {
+    this.tf = await import('@tensorflow/tfjs');
+    this.model = await this.tf.loadGraphModel(this.config.modelUrl);
+  }
+
+  protected async runModel(input: DetectorInput, options: DetectOptions): Promise<DetectedObject[]> {
+    const tfjs = this.tf!;
+    const pixels = tfjs.browser.fromPixels(input);
+    const [height, width] = pixels.shape;
+    const size = this.config.inputSize;
+    const batched = tfjs.tidy(() => {
+      const resized = size ? tfjs.image.resizeBilinear(pixels, [size, size]) : pixels;
+      return resized.expandDims(0);
+    });
+    pixels.dispose();
+    try {
+      const outputs = await this.model!.executeAsync(batched);
+      try {
+        const predictions = await this.config.decode(outputs, { width, height }, this.classes);
+        return applyOptions(predictions, options);
+      } finally {
+        tfjs.dispose(outputs);
+      }
+    } finally {
+      batched.dispose();
+    }
+  }
+
+  protected disposeModel(): void {
+    this.model?.dispose();
+    this.model = null;
+  }
+}
+
+export type FakeDetectorScript = DetectedObject[][] | ((call: number, input: DetectorInput) => DetectedObject[]);
+
+// Deterministic detector for tests: replays scripted frames in order (the last
+// one repeats once the script runs out), with no model and no timing.
+export class FakeDetector extends LazyDetector {
+  readonly metadata: DetectorMetadata = { id: 'fake', name: 'Fake detector', source: 'script' };
+  readonly classes: readonly string[];
+  readonly modelUrls: readonly string[] = [];
+  calls = 0;
+
+  constructor(private readonly script: FakeDetectorScript = [], classes: readonly string[] = COCO_CLASSES) {
+    super();
+    this.classes = classes;
+  }
+
+  protected async loadModel(): Promise<void> {}
+
+  protected async runModel(input: DetectorInput, options: DetectOptions): Promise<DetectedObject[]> {
+    const call = this.calls++;
+    const frame = typeof this.script === 'function'
+      ? this.script(call, input)
+      : this.script[Math.min(call, this.script.length - 1)] ?? [];
+    return applyOptions(frame.map(p => ({ ...p, bbox: [...p.bbox] })), options);
+  }
+
+  protected disposeModel(): void {
+    this.calls = 0;
+  }
+}
+
+const factories = new Map<string, DetectorFactory>();
+const instances = new Map<string, Detector>();
+
+// Registers a detector under `id`. Re-registering replaces the factory and
+// drops any instance created from the old one.
+export const registerDetector = (id: string, factory: DetectorFactory): void => {
+  factories.set(id, factory);
+  instances.get(id)?.dispose();
+  instances.delete(id);
+};
+
+export const listDetectors = (): string[] => [...factories.keys()];
+
+// Returns the shared instance for `id`, so a model is loaded once per app
+// session rather than on every mode mount.
+export const getDetector = (id: string): Detector => {
+  let detector = instances.get(id);
+  if (!detector) {
+    const factory = factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown detector "${id}". Registered: ${listDetectors().join(', ')}`);
+    }
+    detector = factory();
+    instances.set(id, detector);
+  }
+  return detector;
+};
+
+registerDetector('coco-ssd', () => new CocoSsdDetector());
+registerDetector('coco-ssd-accurate', () => new CocoSsdDetector({ base: 'mobilenet_v2' }));
+
+export interface DetectionProfile extends DetectOptions {
+  detectorId: string;
+}
+
+const DEFAULT_PROFILE: DetectionProfile = { detectorId: 'coco-ssd', ...DEFAULT_DETECT_OPTIONS };
+
+const profiles: Partial<Record<AppMode, DetectionProfile>> = {
+  [AppMode.FAST]: { detectorId: 'coco-ssd', minScore: 0.5, maxDetections: 20 },
+  // Missing a hazard is worse than a spurious box, which still has to be
+  // tracked and growing before it alerts
+  [AppMode.OBSTACLE]: { detectorId: 'coco-ssd', minScore: 0.4, maxDetections: 20 },
+};
+
+export const detectionProfileFor = (mode: AppMode): DetectionProfile => profiles[mode] ?? DEFAULT_PROFILE;
+
+export const setDetectionProfile = (mode: AppMode, profile: Partial<DetectionProfile>): void => {
+  profiles[mode] = { ...detectionProfileFor(mode), ...profile };
+};
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { AppMode } from '../types';
+import { parseRecording, Recording, serializeRecording } from './frameRecorder';
+
+const readText = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+
+const readBytes = (blob: Blob): Promise<number[]> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(Array.from(new Uint8Array(reader.result as ArrayBuffer)));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const jpeg = (...bytes: number[]) => new Blob([new Uint8Array(bytes)], { type: 'image/jpeg' });
+
+describe('serializeRecording', () => {
+  it('writes JSON that parses back to the same frames', async () => {
+    const recording: Recording = {
+      createdAt: '2026-10-19T12:00:00.000Z',
+      frames: [
+        { mode: AppMode.FAST, timestamp: 0, width: 640, height: 480, image: jpeg(0xff, 0xd8, 0x00) },
+        { mode: AppMode.OBSTACLE, timestamp: 120, width: 640, height: 480, image: jpeg(0xff, 0xd8, 0x01, 0x02) },
+      ],
+    };
+    const text = await readText(await serializeRecording(recording));
+    expect(JSON.parse(text)).toMatchObject({ version: 1, createdAt: recording.createdAt });
+
+    const parsed = parseRecording(text);
+    expect(parsed.createdAt).toBe(recording.createdAt);
+    expect(parsed.frames.map(({ image: _, ...frame }) => frame)).toEqual(recording.frames.map(({ image: _, ...frame }) => frame));
+    expect(await Promise.all(parsed.frames.map(frame => readBytes(frame.image)))).toEqual([[0xff, 0xd8, 0x00], [0xff, 0xd8, 0x01, 0x02]]);
+  });
+
+  it('writes a recording with no frames', async () => {
+    const text = await readText(await serializeRecording({ createdAt: '', frames: [] }));
+    expect(parseRecording(text).frames).toEqual([]);
+  });
+});
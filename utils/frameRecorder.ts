@@ -0,0 +1,169 @@
+import { AppMode } from '../types';
+import { CameraFrame } from './camera';
+import { scaledSize } from './frameScheduler';
+
+// Records the frames each mode actually processed, with their timestamps, so
+// a bug report ("it missed the bicycle at the crosswalk") can be replayed
+// frame for frame through frameReplay.ts and kept as a regression case.
+
+export interface RecordedFrame {
+  // The mode that consumed the frame.
+  mode: AppMode;
+  // Milliseconds from the first recorded frame.
+  timestamp: number;
+  width: number;
+  height: number;
+  image: Blob;
+}
+
+export interface Recording {
+  // ISO date the recording started.
+  createdAt: string;
+  frames: RecordedFrame[];
+}
+
+export interface FrameRecorderOptions {
+  // Longest side of the stored JPEGs, in pixels.
+  maxDimension: number;
+  jpegQuality: number;
+  // Recording stops by itself after this many frames, to bound memory.
+  maxFrames: number;
+}
+
+// Detection runs on much smaller inputs than this, so little is lost. At
+// roughly 50 kB a frame the cap keeps a full recording around 60 MB, which
+// still loads back in one piece.
+export const DEFAULT_FRAME_RECORDER_OPTIONS: FrameRecorderOptions = {
+  maxDimension: 640,
+  jpegQuality: 0.75,
+  maxFrames: 1200,
+};
+
+export interface FrameRecorderStatus {
+  recording: boolean;
+  frameCount: number;
+}
+
+export class FrameRecorder {
+  private readonly options: FrameRecorderOptions;
+  private readonly canvas = document.createElement('canvas');
+  private frames: Promise<RecordedFrame | null>[] = [];
+  private recording = false;
+  private createdAt = '';
+  private firstTimestamp: number | null = null;
+  private listeners = new Set<(status: FrameRecorderStatus) => void>();
+
+  constructor(options: Partial<FrameRecorderOptions> = {}) {
+    this.options = { ...DEFAULT_FRAME_RECORDER_OPTIONS, ...options };
+  }
+
+  getStatus(): FrameRecorderStatus {
+    return { recording: this.recording, frameCount: this.frames.length };
+  }
+
+  subscribe(listener: (status: FrameRecorderStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  start(): void {
+    this.frames = [];
+    this.recording = true;
+    this.createdAt = new Date().toISOString();
+    this.firstTimestamp = null;
+    this.emit();
+  }
+
+  // Resolves once every captured frame has been encoded.
+  async stop(): Promise<Recording> {
+    this.recording = false;
+    this.emit();
+    const frames = (await Promise.all(this.frames)).filter((f): f is RecordedFrame => f !== null);
+    return { createdAt: this.createdAt, frames };
+  }
+
+  // Called with every frame a mode reads while recording. The frame is
+  // copied straight away, since a video or replay canvas moves on.
+  capture(frame: CameraFrame, mode: AppMode): void {
+    if (!this.recording) return;
+    const { width, height } = scaledSize(frame.width, frame.height, this.options.maxDimension);
+    this.canvas.width = width;
+    this.canvas.height = height;
+    const context = this.canvas.getContext('2d');
+    if (!context) return;
+    context.drawImage(frame.image, 0, 0, width, height);
+    this.firstTimestamp ??= frame.timestamp;
+    const timestamp = frame.timestamp - this.firstTimestamp;
+
+    this.frames.push(new Promise((resolve) => {
+      this.canvas.toBlob(
+        (blob) => resolve(blob ? { mode, timestamp, width, height, image: blob } : null),
+        'image/jpeg',
+        this.options.jpegQuality,
+      );
+    }));
+    if (this.frames.length >= this.options.maxFrames) this.recording = false;
+    this.emit();
+  }
+
+  private emit(): void {
+    const status = this.getStatus();
+    for (const listener of this.listeners) listener(status);
+  }
+}
+
+interface SerializedRecording {
+  version: 1;
+  createdAt: string;
+  frames: (Omit<RecordedFrame, 'image'> & { image: string })[];
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+  if (!match) throw new Error('Recorded frame is not a base64 data URL');
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: match[1] });
+};
+
+// A single JSON file with the frames inlined, easy to attach to a bug report
+// or check in as a fixture. Built as a Blob one frame at a time: a long
+// recording is bigger than the longest string the browser can make.
+export const serializeRecording = async (recording: Recording): Promise<Blob> => {
+  const header: Omit<SerializedRecording, 'frames'> = { version: 1, createdAt: recording.createdAt };
+  const parts = [`${JSON.stringify(header).slice(0, -1)},"frames":[`];
+  for (const [i, frame] of recording.frames.entries()) {
+    if (i > 0) parts.push(',');
+    parts.push(JSON.stringify({ ...frame, image: await blobToDataUrl(frame.image) }));
+  }
+  parts.push(']}');
+  return new Blob(parts, { type: 'application/json' });
+};
+
+export const parseRecording = (text: string): Recording => {
+  const parsed = JSON.parse(text) as Partial<SerializedRecording>;
+  if (parsed.version !== 1 || !Array.isArray(parsed.frames)) throw new Error('Not a frame recording');
+  return {
+    createdAt: parsed.createdAt ?? '',
+    frames: parsed.frames.map(frame => ({ ...frame, image: dataUrlToBlob(frame.image) })),
+  };
+};
+
+let defaultRecorder: FrameRecorder | null = null;
+
+// The recorder every mode's frames go through; see useCamera's readFrame.
+export const getFrameRecorder = (): FrameRecorder => {
+  if (!defaultRecorder) defaultRecorder = new FrameRecorder();
+  return defaultRecorder;
+};
@@ -0,0 +1,233 @@
+import { CameraDevice, CameraFrame, FrameSource, MediaDevicesLike } from './camera';
+import { parseRecording, Recording } from './frameRecorder';
+
+// Feeds a recorded clip to the modes in place of the live camera. Frames are
+// handed out one per read, in order, with the clip's own timestamps, so how
+// fast the device runs doesn't change which frames a mode sees: the same
+// clip produces the same detections and prompts every time.
+
+export interface ReplayClip {
+  readonly name: string;
+  readonly frameCount: number;
+  readonly width: number;
+  readonly height: number;
+  // Time from the first frame to the end of the last, in milliseconds.
+  readonly durationMs: number;
+  // Milliseconds from the start of the clip.
+  timestampAt(index: number): number;
+  drawFrame(index: number, context: CanvasRenderingContext2D): Promise<void>;
+  dispose(): void;
+}
+
+// Spacing between images in a folder, which carries no timing of its own.
+export const DEFAULT_IMAGE_INTERVAL_MS = 200;
+// Rate at which a video file is sampled.
+export const DEFAULT_VIDEO_SAMPLE_FPS = 10;
+
+// Decodes each image as it is drawn rather than holding every bitmap.
+const loadImageSequence = async (name: string, images: Blob[], timestamps: number[]): Promise<ReplayClip> => {
+  if (images.length === 0) throw new Error('The clip has no frames');
+  const first = await createImageBitmap(images[0]);
+  const { width, height } = first;
+  first.close();
+  const last = timestamps[timestamps.length - 1];
+  const averageGap = images.length > 1 && last > 0 ? last / (images.length - 1) : DEFAULT_IMAGE_INTERVAL_MS;
+  return {
+    name,
+    frameCount: images.length,
+    width,
+    height,
+    durationMs: last + averageGap,
+    timestampAt: index => timestamps[index],
+    drawFrame: async (index, context) => {
+      const bitmap = await createImageBitmap(images[index]);
+      context.drawImage(bitmap, 0, 0, width, height);
+      bitmap.close();
+    },
+    dispose: () => {},
+  };
+};
+
+// A recording made with FrameRecorder, at its recorded timing.
+export const recordingClip = (recording: Recording, name = 'recording'): Promise<ReplayClip> =>
+  loadImageSequence(name, recording.frames.map(f => f.image), recording.frames.map(f => f.timestamp));
+
+// A folder of stills, in file-name order ("frame-2" before "frame-10").
+export const imageFolderClip = (files: File[], intervalMs = DEFAULT_IMAGE_INTERVAL_MS): Promise<ReplayClip> => {
+  const images = files
+    .filter(f => f.type.startsWith('image/'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const folder = files[0]?.webkitRelativePath.split('/')[0] || `${images.length} images`;
+  return loadImageSequence(folder, images, images.map((_, i) => i * intervalMs));
+};
+
+const once = (target: EventTarget, event: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new Error(`Could not load video (${event})`));
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+
+// A video file sampled at a fixed rate by seeking, so the frames don't
+// depend on playback speed.
+export const videoFileClip = async (file: File, fps = DEFAULT_VIDEO_SAMPLE_FPS): Promise<ReplayClip> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+  try {
+    await once(video, 'loadeddata');
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+  const frameCount = Math.max(1, Math.floor(video.duration * fps));
+  return {
+    name: file.name,
+    frameCount,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    durationMs: frameCount * 1000 / fps,
+    timestampAt: index => index * 1000 / fps,
+    drawFrame: async (index, context) => {
+      const time = index / fps;
+      if (video.currentTime !== time) {
+        const seeked = once(video, 'seeked');
+        video.currentTime = time;
+        await seeked;
+      }
+      context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+    },
+    dispose: () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+};
+
+// A recording (.json), a video, or a set of images.
+export const loadReplayClip = async (files: File[]): Promise<ReplayClip> => {
+  const [first] = files;
+  if (!first) throw new Error('No files chosen');
+  if (files.length === 1 && (first.type === 'application/json' || first.name.endsWith('.json'))) {
+    return recordingClip(parseRecording(await first.text()), first.name);
+  }
+  if (files.length === 1 && first.type.startsWith('video/')) return videoFileClip(first);
+  return imageFolderClip(files);
+};
+
+export interface FrameReplayOptions {
+  // Start over after the last frame instead of running dry.
+  loop: boolean;
+  // Rate of the preview stream shown in the mode's video element.
+  previewFps: number;
+}
+
+export const DEFAULT_FRAME_REPLAY_OPTIONS: FrameReplayOptions = {
+  loop: false,
+  previewFps: 30,
+};
+
+export interface FrameReplayStatus {
+  // Frames handed out so far in this pass.
+  position: number;
+  frameCount: number;
+  finished: boolean;
+}
+
+// Stands in for the camera through CameraManager.replaceMediaDevices. Each
+// frame a mode reads is drawn on one canvas, whose stream is the mode's
+// preview, so the screen shows exactly what was processed.
+export class FrameReplay implements MediaDevicesLike, FrameSource {
+  private readonly options: FrameReplayOptions;
+  private readonly canvas = document.createElement('canvas');
+  private position = 0;
+  // Completed passes, which push timestamps on so they keep increasing.
+  private passes = 0;
+  // Reads are chained so overlapping callers still get consecutive frames.
+  private pending: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<(status: FrameReplayStatus) => void>();
+
+  constructor(readonly clip: ReplayClip, options: Partial<FrameReplayOptions> = {}) {
+    this.options = { ...DEFAULT_FRAME_REPLAY_OPTIONS, ...options };
+    this.canvas.width = clip.width;
+    this.canvas.height = clip.height;
+  }
+
+  getStatus(): FrameReplayStatus {
+    const { frameCount } = this.clip;
+    return { position: this.position, frameCount, finished: !this.options.loop && this.position >= frameCount };
+  }
+
+  subscribe(listener: (status: FrameReplayStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setLoop(loop: boolean): void {
+    this.options.loop = loop;
+    this.emit();
+  }
+
+  rewind(): void {
+    this.position = 0;
+    this.passes = 0;
+    this.emit();
+  }
+
+  readFrame(): Promise<CameraFrame | null> {
+    const read = this.pending.then(() => this.readNext());
+    this.pending = read.catch(() => {});
+    return read;
+  }
+
+  async getUserMedia(): Promise<MediaStream> {
+    return this.canvas.captureStream(this.options.previewFps);
+  }
+
+  async enumerateDevices(): Promise<MediaDeviceInfo[]> {
+    const device: CameraDevice = { deviceId: 'replay', label: `Replay: ${this.clip.name}` };
+    return [{ ...device, groupId: '', kind: 'videoinput', toJSON: () => device } as MediaDeviceInfo];
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+    this.clip.dispose();
+  }
+
+  private async readNext(): Promise<CameraFrame | null> {
+    const { clip } = this;
+    if (this.position >= clip.frameCount) {
+      if (!this.options.loop) return null;
+      this.position = 0;
+      this.passes++;
+    }
+    const index = this.position++;
+    const context = this.canvas.getContext('2d');
+    if (!context) return null;
+    await clip.drawFrame(index, context);
+    this.emit();
+    return {
+      image: this.canvas,
+      width: clip.width,
+      height: clip.height,
+      timestamp: this.passes * clip.durationMs + clip.timestampAt(index),
+    };
+  }
+
+  private emit(): void {
+    const status = this.getStatus();
+    for (const listener of this.listeners) listener(status);
+  }
+}
@@ -0,0 +1,219 @@
+// Decides when camera frames are worth sending to the Live API. A static
+// scene (pointing at a wall, standing at a crossing) costs nothing after the
+// first frame; motion raises the rate so changes are described promptly.
+
+import { CameraFrame } from './camera';
+
+export interface FrameSchedulerOptions {
+  // Longest side of the sent JPEG, in pixels.
+  maxDimension: number;
+  jpegQuality: number;
+  // Interval between frames while the scene is calm.
+  baseIntervalMs: number;
+  // Interval between frames while there is motion.
+  motionIntervalMs: number;
+  // Difference (0..1) from the last sent frame below which a frame is skipped.
+  changeThreshold: number;
+  // Difference (0..1) between consecutive samples that counts as motion.
+  motionThreshold: number;
+  // How long the faster rate is kept after the last motion.
+  motionHoldMs: number;
+  // Even an unchanged scene is re-sent this often so the model's view never
+  // goes completely stale.
+  keepAliveMs: number;
+}
+
+export const DEFAULT_FRAME_SCHEDULER_OPTIONS: FrameSchedulerOptions = {
+  maxDimension: 768,
+  jpegQuality: 0.8,
+  baseIntervalMs: 1000,
+  motionIntervalMs: 350,
+  changeThreshold: 0.03,
+  motionThreshold: 0.08,
+  motionHoldMs: 3000,
+  keepAliveMs: 10000,
+};
+
+export interface FrameStats {
+  framesSent: number;
+  framesSkipped: number;
+  // Size of the base64 payloads, which is what actually goes over the socket.
+  bytesSent: number;
+  lastDifference: number;
+  inMotion: boolean;
+}
+
+const THUMB_WIDTH = 16;
+const THUMB_HEIGHT = 12;
+
+// Fits (width, height) inside a square of `maxDimension`, never upscaling.
+export const scaledSize = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Luma of each pixel in an RGBA buffer, scaled to 0..1.
+export const toGrayscale = (rgba: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    const o = i * 4;
+    gray[i] = (0.299 * rgba[o] + 0.587 * rgba[o + 1] + 0.114 * rgba[o + 2]) / 255;
+  }
+  return gray;
+};
+
+// Mean absolute difference between two equally sized thumbnails, 0..1.
+// Comparing tiny blurred thumbnails ignores sensor noise and compression
+// artifacts while still catching anything a person would call a change.
+export const frameDifference = (a: Float32Array, b: Float32Array): number => {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / a.length;
+};
+
+// Returns whether the frame went out. One that was dropped (e.g. while the
+// session reconnects) is neither counted nor compared against later.
+export type FrameSink = (base64Jpeg: string) => boolean;
+
+export class AdaptiveFrameScheduler {
+  private readonly options: FrameSchedulerOptions;
+  private readonly thumbCanvas = document.createElement('canvas');
+  private readonly frameCanvas = document.createElement('canvas');
+  private timer: number | null = null;
+  private lastSentThumb: Float32Array | null = null;
+  private lastSampleThumb: Float32Array | null = null;
+  // When the last send-or-skip decision was made, which paces decisions to the current rate.
+  private lastDecisionAt = -Infinity;
+  private lastSentAt = -Infinity;
+  private lastMotionAt = -Infinity;
+  private encoding = false;
+  private reading = false;
+  private stats: FrameStats = { framesSent: 0, framesSkipped: 0, bytesSent: 0, lastDifference: 0, inMotion: false };
+
+  constructor(
+    private readonly readFrame: () => Promise<CameraFrame | null>,
+    private readonly send: FrameSink,
+    options: Partial<FrameSchedulerOptions> = {},
+    private readonly onStats?: (stats: FrameStats) => void,
+  ) {
+    this.options = { ...DEFAULT_FRAME_SCHEDULER_OPTIONS, ...options };
+    this.thumbCanvas.width = THUMB_WIDTH;
+    this.thumbCanvas.height = THUMB_HEIGHT;
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+    // Sample at the motion rate; whether a sample is sent is decided per tick.
+    this.timer = window.setInterval(() => this.tick(), this.options.motionIntervalMs);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.lastSentThumb = null;
+    this.lastSampleThumb = null;
+    this.lastDecisionAt = -Infinity;
+    this.lastSentAt = -Infinity;
+    this.lastMotionAt = -Infinity;
+  }
+
+  getStats(): FrameStats {
+    return { ...this.stats };
+  }
+
+  // Sends the next frame whatever it shows, for a receiver that has lost
+  // what it was sent before (a new session rather than a resumed one).
+  resend(): void {
+    this.lastSentThumb = null;
+    this.lastDecisionAt = -Infinity;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.encoding || this.reading) return;
+    this.reading = true;
+    let frame: CameraFrame | null;
+    try {
+      frame = await this.readFrame();
+    } catch (err) {
+      console.error("Failed to read a frame:", err);
+      return;
+    } finally {
+      this.reading = false;
+    }
+    if (!frame || this.timer === null) return;
+
+    // Paced by the frame's own time, so a replayed clip sends the same frames
+    const now = frame.timestamp;
+    const thumb = this.sampleThumbnail(frame);
+    if (!thumb) return;
+
+    const motion = this.lastSampleThumb ? frameDifference(thumb, this.lastSampleThumb) : 0;
+    this.lastSampleThumb = thumb;
+    if (motion >= this.options.motionThreshold) {
+      this.lastMotionAt = now;
+    }
+    const inMotion = now - this.lastMotionAt < this.options.motionHoldMs;
+    const interval = inMotion ? this.options.motionIntervalMs : this.options.baseIntervalMs;
+    if (now - this.lastDecisionAt < interval) return;
+    this.lastDecisionAt = now;
+
+    const difference = this.lastSentThumb ? frameDifference(thumb, this.lastSentThumb) : 1;
+    const stale = now - this.lastSentAt >= this.options.keepAliveMs;
+    if (difference < this.options.changeThreshold && !stale) {
+      this.stats = { ...this.stats, framesSkipped: this.stats.framesSkipped + 1, lastDifference: difference, inMotion };
+      this.onStats?.(this.getStats());
+      return;
+    }
+
+    this.stats = { ...this.stats, lastDifference: difference, inMotion };
+    this.encodeAndSend(frame, () => {
+      this.lastSentAt = now;
+      this.lastSentThumb = thumb;
+    });
+  }
+
+  private sampleThumbnail(frame: CameraFrame): Float32Array | null {
+    const context = this.thumbCanvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(frame.image, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    return toGrayscale(context.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT).data);
+  }
+
+  private encodeAndSend(frame: CameraFrame, onSent: () => void): void {
+    const { width, height } = scaledSize(frame.width, frame.height, this.options.maxDimension);
+    this.frameCanvas.width = width;
+    this.frameCanvas.height = height;
+    const context = this.frameCanvas.getContext('2d');
+    if (!context) return;
+    context.drawImage(frame.image, 0, 0, width, height);
+
+    this.encoding = true;
+    this.frameCanvas.toBlob((blob) => {
+      if (!blob) {
+        this.encoding = false;
+        return;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        this.encoding = false;
+        const base64data = (reader.result as string).split(',')[1];
+        // Stopped while encoding, or the frame was dropped
+        if (this.timer === null || !this.send(base64data)) return;
+        onSent();
+        this.stats = {
+          ...this.stats,
+          framesSent: this.stats.framesSent + 1,
+          bytesSent: this.stats.bytesSent + base64data.length,
+        };
+        this.onStats?.(this.getStats());
+      };
+      reader.readAsDataURL(blob);
+    }, 'image/jpeg', this.options.jpegQuality);
+  }
+}
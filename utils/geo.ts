@@ -0,0 +1,161 @@
+// Small-distance geometry on latitude/longitude. Walking routes span a few
+// kilometres at most, so a local flat projection is accurate enough for
+// projecting onto paths; distances themselves use the haversine formula.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+export const isValidLatLng = (value: unknown): value is LatLng => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { lat, lng } = value as Record<string, unknown>;
+  return typeof lat === 'number' && typeof lng === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+};
+
+export const distanceMeters = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Compass bearing from `a` to `b`, 0..360 with 0 = north, 90 = east.
+export const bearingDegrees = (a: LatLng, b: LatLng): number => {
+  const lat1 = toRadians(a.lat);
+  const lat2 = toRadians(b.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+// Signed turn from heading `from` to heading `to`, -180..180; positive is clockwise (right).
+export const angleDifference = (from: number, to: number): number => {
+  const diff = ((to - from) % 360 + 540) % 360 - 180;
+  return diff === -180 ? 180 : diff;
+};
+
+// Metres east/north of `origin`.
+const toLocal = (point: LatLng, origin: LatLng): { x: number; y: number } => ({
+  x: toRadians(point.lng - origin.lng) * EARTH_RADIUS_METERS * Math.cos(toRadians(origin.lat)),
+  y: toRadians(point.lat - origin.lat) * EARTH_RADIUS_METERS,
+});
+
+const fromLocal = (x: number, y: number, origin: LatLng): LatLng => ({
+  lat: origin.lat + toDegrees(y / EARTH_RADIUS_METERS),
+  lng: origin.lng + toDegrees(x / (EARTH_RADIUS_METERS * Math.cos(toRadians(origin.lat)))),
+});
+
+// The point `east` and `north` metres from `origin`, and back.
+export const offsetMeters = (origin: LatLng, east: number, north: number): LatLng => fromLocal(east, north, origin);
+export const metersFrom = (origin: LatLng, point: LatLng): { east: number; north: number } => {
+  const { x, y } = toLocal(point, origin);
+  return { east: x, north: y };
+};
+
+// Linear in degrees, which is fine over the length of a street.
+export const interpolate = (a: LatLng, b: LatLng, fraction: number): LatLng => ({
+  lat: a.lat + (b.lat - a.lat) * fraction,
+  lng: a.lng + (b.lng - a.lng) * fraction,
+});
+
+export interface SegmentProjection {
+  // The closest point on the segment.
+  point: LatLng;
+  // 0 at the segment start, 1 at its end.
+  fraction: number;
+  distanceMeters: number;
+}
+
+export const projectOntoSegment = (point: LatLng, start: LatLng, end: LatLng): SegmentProjection => {
+  const p = toLocal(point, start);
+  const e = toLocal(end, start);
+  const lengthSq = e.x * e.x + e.y * e.y;
+  const fraction = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSq));
+  const projected = fromLocal(e.x * fraction, e.y * fraction, start);
+  return { point: projected, fraction, distanceMeters: distanceMeters(point, projected) };
+};
+
+export const pathLengthMeters = (path: LatLng[]): number => {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += distanceMeters(path[i - 1], path[i]);
+  return total;
+};
+
+export interface PathProjection {
+  point: LatLng;
+  // Index of the segment (path[i] to path[i + 1]) the point lies on.
+  segmentIndex: number;
+  // Metres from the start of the path to the projected point.
+  distanceAlong: number;
+  // Metres from `point` to the path.
+  distanceFromPath: number;
+}
+
+// The closest point on `path`. With `minDistanceAlong`, parts of the path
+// before it are ignored, so a route that doubles back doesn't snap the user
+// to a section they already walked.
+export const projectOntoPath = (point: LatLng, path: LatLng[], minDistanceAlong = 0): PathProjection => {
+  if (path.length === 1) {
+    return { point: path[0], segmentIndex: 0, distanceAlong: 0, distanceFromPath: distanceMeters(point, path[0]) };
+  }
+  let best: PathProjection | null = null;
+  let along = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const length = distanceMeters(path[i], path[i + 1]);
+    if (along + length >= minDistanceAlong) {
+      let { point: projected, fraction, distanceMeters: distanceFromPath } = projectOntoSegment(point, path[i], path[i + 1]);
+      if (along + fraction * length < minDistanceAlong) {
+        // Clamp to where the allowed part of the path begins
+        fraction = (minDistanceAlong - along) / length;
+        projected = interpolate(path[i], path[i + 1], fraction);
+        distanceFromPath = distanceMeters(point, projected);
+      }
+      if (!best || distanceFromPath < best.distanceFromPath) {
+        best = { point: projected, segmentIndex: i, distanceAlong: along + fraction * length, distanceFromPath };
+      }
+    }
+    along += length;
+  }
+  return best ?? { point: path[path.length - 1], segmentIndex: path.length - 2, distanceAlong: along, distanceFromPath: distanceMeters(point, path[path.length - 1]) };
+};
+
+// The point `distance` metres along `path`, clamped to its ends.
+export const pointAlongPath = (path: LatLng[], distance: number): LatLng => {
+  let along = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const length = distanceMeters(path[i], path[i + 1]);
+    if (along + length >= distance) {
+      return interpolate(path[i], path[i + 1], length === 0 ? 0 : Math.max(0, distance - along) / length);
+    }
+    along += length;
+  }
+  return path[path.length - 1];
+};
+
+// The subset of GeoJSON read by the local routing and geocoding providers.
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'LineString'; coordinates: number[][] }
+    | { type: 'Point'; coordinates: number[] }
+    | { type: string; coordinates: unknown };
+  properties?: Record<string, unknown> | null;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+// GeoJSON coordinates are [longitude, latitude].
+export const fromGeoJson = (coordinates: number[]): LatLng => ({ lat: coordinates[1], lng: coordinates[0] });
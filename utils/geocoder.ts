@@ -0,0 +1,212 @@
+import { distanceMeters, fromGeoJson, GeoJsonFeatureCollection, isValidLatLng, LatLng } from './geo';
+import { Language } from './i18n';
+
+// Turns what the user typed or said into coordinates. Providers are
+// registered by id, like detectors and recognizers, so the online service
+// can be swapped for a local gazetteer file.
+
+export interface Place {
+  name: string;
+  location: LatLng;
+  // Street address or area, to tell apart places with the same name.
+  address?: string;
+}
+
+export interface GeocodeRequest {
+  query: string;
+  // Results near this are preferred.
+  near?: LatLng | null;
+  language: Language;
+  limit?: number;
+}
+
+export interface Geocoder {
+  readonly id: string;
+  // Best match first. An empty list means nothing matched; errors are for
+  // when the lookup itself failed.
+  search(request: GeocodeRequest): Promise<Place[]>;
+}
+
+export const DEFAULT_GEOCODE_LIMIT = 5;
+
+// Case, accents and punctuation don't matter when comparing names.
+export const normalizePlaceName = (name: string): string =>
+  name.toLocaleLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const COORDINATE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+// "40.4168, -3.7038" typed or spoken as a destination.
+export const parseCoordinates = (text: string): LatLng | null => {
+  const match = COORDINATE_PATTERN.exec(text);
+  if (!match) return null;
+  const location = { lat: Number(match[1]), lng: Number(match[2]) };
+  return isValidLatLng(location) ? location : null;
+};
+
+const byDistanceFrom = (near: LatLng | null | undefined) => (a: Place, b: Place) =>
+  near ? distanceMeters(near, a.location) - distanceMeters(near, b.location) : 0;
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface NominatimGeocoderOptions {
+  endpoint?: string;
+  // Results are biased towards this box around `near`, in degrees.
+  viewboxDegrees?: number;
+  fetch?: FetchLike;
+}
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+}
+
+// OpenStreetMap's public geocoder, biased towards the user's surroundings
+// but keeping its own relevance order. Its usage policy allows about one request
+// a second, which a person entering destinations never comes near.
+export class NominatimGeocoder implements Geocoder {
+  readonly id = 'nominatim';
+  private readonly endpoint: string;
+  private readonly viewboxDegrees: number;
+  private readonly fetch: FetchLike;
+
+  constructor(options: NominatimGeocoderOptions = {}) {
+    this.endpoint = options.endpoint ?? 'https://nominatim.openstreetmap.org/search';
+    this.viewboxDegrees = options.viewboxDegrees ?? 0.1;
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+  }
+
+  async search({ query, near, language, limit = DEFAULT_GEOCODE_LIMIT }: GeocodeRequest): Promise<Place[]> {
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: String(limit), 'accept-language': language });
+    if (near) {
+      const d = this.viewboxDegrees;
+      params.set('viewbox', [near.lng - d, near.lat + d, near.lng + d, near.lat - d].join(','));
+    }
+    const response = await this.fetch(`${this.endpoint}?${params}`, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Geocoding failed with status ${response.status}`);
+    const results = await response.json() as NominatimResult[];
+    return results
+      .map((result): Place | null => {
+        const location = { lat: Number(result.lat), lng: Number(result.lon) };
+        if (!isValidLatLng(location)) return null;
+        const parts = result.display_name.split(',').map(p => p.trim()).filter(Boolean);
+        const name = result.name?.trim() || parts[0] || query;
+        // The street and area are enough to tell matches apart when read out
+        const address = parts.filter(p => p !== name).slice(0, 3).join(', ') || undefined;
+        return { name, location, address };
+      })
+      .filter((place): place is Place => place !== null);
+  }
+}
+
+interface GazetteerEntry {
+  place: Place;
+  // Normalized name and aliases.
+  names: string[];
+}
+
+// Searches a GeoJSON file of named Point features, for offline use or a
+// venue the online geocoder doesn't know. Features can list `aliases` and
+// an `address` in their properties.
+export class GazetteerGeocoder implements Geocoder {
+  readonly id = 'gazetteer';
+  private readonly entries: GazetteerEntry[] = [];
+
+  constructor(collection: GeoJsonFeatureCollection) {
+    for (const feature of collection.features) {
+      const { geometry, properties } = feature;
+      if (geometry.type !== 'Point' || !Array.isArray(geometry.coordinates)) continue;
+      const location = fromGeoJson(geometry.coordinates as number[]);
+      const name = typeof properties?.name === 'string' ? properties.name.trim() : '';
+      if (!isValidLatLng(location) || !name) continue;
+      const aliases = Array.isArray(properties?.aliases) ? properties.aliases.filter((a): a is string => typeof a === 'string') : [];
+      const address = typeof properties?.address === 'string' ? properties.address : undefined;
+      this.entries.push({ place: { name, location, address }, names: [name, ...aliases].map(normalizePlaceName) });
+    }
+  }
+
+  static async fromUrl(url: string, fetchImpl: FetchLike = (u, init) => fetch(u, init)): Promise<GazetteerGeocoder> {
+    const response = await fetchImpl(url);
+    if (!response.ok) throw new Error(`Could not load gazetteer ${url}: status ${response.status}`);
+    return new GazetteerGeocoder(await response.json() as GeoJsonFeatureCollection);
+  }
+
+  async search({ query, near, limit = DEFAULT_GEOCODE_LIMIT }: GeocodeRequest): Promise<Place[]> {
+    const wanted = normalizePlaceName(query);
+    if (!wanted) return [];
+    const words = wanted.split(' ');
+    // 3: a name matches exactly, 2: a name contains the query, 1: every word
+    // of the query appears in a name
+    const score = (entry: GazetteerEntry) => Math.max(0, ...entry.names.map(name => {
+      if (name === wanted) return 3;
+      if (name.includes(wanted)) return 2;
+      const nameWords = name.split(' ');
+      return words.every(w => nameWords.includes(w)) ? 1 : 0;
+    }));
+    const nearest = byDistanceFrom(near);
+    return this.entries
+      .map(entry => ({ entry, score: score(entry) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || nearest(a.entry.place, b.entry.place))
+      .slice(0, limit)
+      .map(({ entry }) => entry.place);
+  }
+}
+
+// Where the 'gazetteer' geocoder loads its places from; served from public/.
+export const GAZETTEER_URL = '/gazetteer.geojson';
+
+// Defers loading a geocoder until its first search, and retries a failed load.
+const lazyGeocoder = (id: string, load: () => Promise<Geocoder>): Geocoder => {
+  let loading: Promise<Geocoder> | null = null;
+  return {
+    id,
+    search: async (request) => {
+      loading ??= load().catch(err => {
+        loading = null;
+        throw err;
+      });
+      return (await loading).search(request);
+    },
+  };
+};
+
+export type GeocoderFactory = () => Geocoder;
+
+const factories = new Map<string, GeocoderFactory>();
+
+export const registerGeocoder = (id: string, factory: GeocoderFactory): void => {
+  factories.set(id, factory);
+};
+
+export const listGeocoders = (): string[] => [...factories.keys()];
+
+export const createGeocoder = (id: string): Geocoder => {
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown geocoder "${id}". Registered: ${listGeocoders().join(', ')}`);
+  }
+  return factory();
+};
+
+registerGeocoder('nominatim', () => new NominatimGeocoder());
+registerGeocoder('gazetteer', () => lazyGeocoder('gazetteer', () => GazetteerGeocoder.fromUrl(GAZETTEER_URL)));
+
+const instances = new Map<string, Geocoder>();
+
+// The geocoder for a settings id, kept so a loaded gazetteer is reused. An
+// id that is no longer registered falls back to the online geocoder.
+export const getGeocoder = (id: string): Geocoder => {
+  let geocoder = instances.get(id);
+  if (!geocoder) {
+    try {
+      geocoder = createGeocoder(id);
+    } catch (err) {
+      console.warn(err);
+      return getGeocoder('nominatim');
+    }
+    instances.set(id, geocoder);
+  }
+  return geocoder;
+};
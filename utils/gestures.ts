@@ -0,0 +1,174 @@
+// Whole-screen gestures recognized from raw pointer events, so they work
+// anywhere on the screen rather than on a particular button.
+
+export type Gesture = 'doubleTap' | 'longPress' | 'swipeDown' | 'twoFingerTap';
+
+export interface GesturePointer {
+  id: number;
+  x: number;
+  y: number;
+  // Milliseconds, e.g. PointerEvent.timeStamp.
+  time: number;
+  // Started on a button or form control. Taps there are clicks, not gestures.
+  interactive?: boolean;
+}
+
+export interface GestureOptions {
+  longPressMs: number;
+  // The second tap must land within this long of the first.
+  doubleTapMs: number;
+  // Movement up to this still counts as a tap or press.
+  tapSlopPx: number;
+  swipeMinPx: number;
+  swipeMaxMs: number;
+  // Both fingers must lift within this long of the first touching down.
+  twoFingerTapMs: number;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  longPressMs: 600,
+  doubleTapMs: 350,
+  tapSlopPx: 12,
+  swipeMinPx: 100,
+  swipeMaxMs: 700,
+  twoFingerTapMs: 400,
+};
+
+interface Contact {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+interface Tap {
+  x: number;
+  y: number;
+  time: number;
+}
+
+// Tracks one touch sequence at a time: from the first pointer down until the
+// last pointer up.
+export class GestureRecognizer {
+  private readonly options: GestureOptions;
+  private contacts = new Map<number, Contact>();
+  private sequenceStart = 0;
+  private maxContacts = 0;
+  private moved = false;
+  private interactive = false;
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+  private longPressFired = false;
+  private lastTap: Tap | null = null;
+
+  constructor(private readonly onGesture: (gesture: Gesture) => void, options: Partial<GestureOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  down(pointer: GesturePointer): void {
+    if (this.contacts.size === 0) {
+      this.sequenceStart = pointer.time;
+      this.maxContacts = 0;
+      this.moved = false;
+      this.longPressFired = false;
+      this.interactive = !!pointer.interactive;
+    }
+    this.contacts.set(pointer.id, { startX: pointer.x, startY: pointer.y, x: pointer.x, y: pointer.y });
+    this.maxContacts = Math.max(this.maxContacts, this.contacts.size);
+
+    this.clearLongPress();
+    if (this.contacts.size === 1) {
+      this.longPressTimer = setTimeout(() => {
+        this.longPressTimer = null;
+        if (this.contacts.size === 1 && !this.moved) {
+          this.longPressFired = true;
+          this.lastTap = null;
+          this.onGesture('longPress');
+        }
+      }, this.options.longPressMs);
+    }
+  }
+
+  move(pointer: GesturePointer): void {
+    const contact = this.contacts.get(pointer.id);
+    if (!contact) return;
+    contact.x = pointer.x;
+    contact.y = pointer.y;
+    if (Math.hypot(contact.x - contact.startX, contact.y - contact.startY) > this.options.tapSlopPx) {
+      this.moved = true;
+      this.clearLongPress();
+    }
+  }
+
+  up(pointer: GesturePointer): void {
+    const contact = this.contacts.get(pointer.id);
+    if (!contact) return;
+    this.move(pointer);
+    this.contacts.delete(pointer.id);
+    if (this.contacts.size > 0) return;
+
+    this.clearLongPress();
+    if (this.longPressFired) return;
+    const duration = pointer.time - this.sequenceStart;
+
+    if (this.maxContacts === 2) {
+      if (!this.moved && duration <= this.options.twoFingerTapMs) this.onGesture('twoFingerTap');
+      this.lastTap = null;
+      return;
+    }
+    if (this.maxContacts !== 1) return;
+
+    const dx = contact.x - contact.startX;
+    const dy = contact.y - contact.startY;
+    if (dy >= this.options.swipeMinPx && Math.abs(dx) < dy / 2 && duration <= this.options.swipeMaxMs) {
+      this.lastTap = null;
+      this.onGesture('swipeDown');
+      return;
+    }
+    if (this.moved || this.interactive || duration >= this.options.longPressMs) {
+      this.lastTap = null;
+      return;
+    }
+
+    const tap = { x: contact.x, y: contact.y, time: pointer.time };
+    const previous = this.lastTap;
+    if (
+      previous &&
+      tap.time - previous.time <= this.options.doubleTapMs &&
+      Math.hypot(tap.x - previous.x, tap.y - previous.y) <= this.options.tapSlopPx * 4
+    ) {
+      this.lastTap = null;
+      this.onGesture('doubleTap');
+    } else {
+      this.lastTap = tap;
+    }
+  }
+
+  // The browser took the pointer over (scrolling, zooming); nothing counts.
+  cancel(pointer: GesturePointer): void {
+    this.contacts.delete(pointer.id);
+    this.moved = true;
+    this.lastTap = null;
+    this.clearLongPress();
+  }
+
+  // True once after a long-press, so the click that ends the press can be
+  // ignored.
+  consumeLongPress(): boolean {
+    const fired = this.longPressFired;
+    this.longPressFired = false;
+    return fired;
+  }
+
+  dispose(): void {
+    this.clearLongPress();
+    this.contacts.clear();
+    this.lastTap = null;
+  }
+
+  private clearLongPress(): void {
+    if (this.longPressTimer !== null) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+}
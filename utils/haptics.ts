@@ -0,0 +1,232 @@
+import { BoundingBox } from '../types';
+
+export type HapticCue =
+  | 'left'
+  | 'right'
+  | 'straight'
+  | 'stop'
+  | 'obstacleNear'
+  | 'obstacleFar'
+  | 'arrived';
+
+export interface HapticOptions {
+  enabled: boolean;
+  // 0..1. The Vibration API has no amplitude control, so intensity is expressed
+  // as longer pulses (a stronger felt buzz) rather than a stronger motor.
+  intensity: number;
+  // Playback speed multiplier. 2 plays every pulse and pause twice as fast.
+  tempo: number;
+  // Minimum time between two plays of the same cue, so continuous callers
+  // don't turn the motor into a constant drone.
+  repeatIntervalMs: number;
+}
+
+export const DEFAULT_HAPTIC_OPTIONS: HapticOptions = {
+  enabled: true,
+  intensity: 0.7,
+  tempo: 1,
+  repeatIntervalMs: 1500,
+};
+
+// Base vocabulary at intensity 1 and tempo 1: alternating vibrate/pause
+// durations in ms, as accepted by navigator.vibrate.
+const BASE_PATTERNS: Record<HapticCue, number[]> = {
+  straight: [90],
+  left: [90, 110, 90],
+  right: [90, 110, 90, 110, 90],
+  stop: [650],
+  obstacleNear: [45, 45, 45, 45, 45, 45, 45, 45, 45],
+  obstacleFar: [70, 380, 70],
+  arrived: [300, 120, 100, 120, 300],
+};
+
+// Pause inserted between cues when a sequence is played.
+const SEQUENCE_GAP_MS = 350;
+const MIN_PULSE_MS = 10;
+
+export interface HapticDriver {
+  readonly isSupported: boolean;
+  vibrate(pattern: number[]): void;
+  cancel(): void;
+}
+
+export class NavigatorHapticDriver implements HapticDriver {
+  get isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+  }
+
+  vibrate(pattern: number[]): void {
+    if (this.isSupported) {
+      navigator.vibrate(pattern);
+    }
+  }
+
+  cancel(): void {
+    if (this.isSupported) {
+      navigator.vibrate(0);
+    }
+  }
+}
+
+export interface RecordedHaptic {
+  pattern: number[];
+  at: number;
+}
+
+// Test double: records every pattern instead of driving a motor.
+export class RecordingHapticDriver implements HapticDriver {
+  readonly isSupported = true;
+  readonly recorded: RecordedHaptic[] = [];
+  cancelCount = 0;
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  vibrate(pattern: number[]): void {
+    this.recorded.push({ pattern: [...pattern], at: this.now() });
+  }
+
+  cancel(): void {
+    this.cancelCount++;
+  }
+
+  get patterns(): number[][] {
+    return this.recorded.map(r => r.pattern);
+  }
+
+  clear(): void {
+    this.recorded.length = 0;
+    this.cancelCount = 0;
+  }
+}
+
+export class HapticEngine {
+  private options: HapticOptions;
+  private lastPlayed = new Map<string, number>();
+
+  constructor(
+    private readonly driver: HapticDriver = new NavigatorHapticDriver(),
+    options: Partial<HapticOptions> = {},
+    private readonly now: () => number = () => Date.now(),
+  ) {
+    this.options = { ...DEFAULT_HAPTIC_OPTIONS, ...options };
+  }
+
+  get isSupported(): boolean {
+    return this.driver.isSupported;
+  }
+
+  configure(options: Partial<HapticOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): HapticOptions {
+    return { ...this.options };
+  }
+
+  // Renders a cue with the current intensity and tempo applied.
+  patternFor(cue: HapticCue): number[] {
+    const { intensity, tempo } = this.options;
+    const pulseScale = 0.4 + 0.6 * clamp(intensity, 0, 1);
+    const speed = tempo > 0 ? tempo : 1;
+    return BASE_PATTERNS[cue].map((ms, i) => {
+      const isPulse = i % 2 === 0;
+      const scaled = (isPulse ? ms * pulseScale : ms) / speed;
+      return Math.max(MIN_PULSE_MS, Math.round(scaled));
+    });
+  }
+
+  sequencePattern(cues: HapticCue[]): number[] {
+    const gap = Math.round(SEQUENCE_GAP_MS / (this.options.tempo > 0 ? this.options.tempo : 1));
+    const pattern: number[] = [];
+    cues.forEach((cue, i) => {
+      if (i > 0) pattern.push(gap);
+      pattern.push(...this.patternFor(cue));
+    });
+    return pattern;
+  }
+
+  // Plays a single cue. Returns false when it was suppressed (disabled,
+  // unsupported or repeated too soon).
+  play(cue: HapticCue, { force = false }: { force?: boolean } = {}): boolean {
+    return this.playSequence([cue], { force });
+  }
+
+  playSequence(cues: HapticCue[], { force = false }: { force?: boolean } = {}): boolean {
+    if (cues.length === 0 || !this.options.enabled || this.options.intensity <= 0 || !this.driver.isSupported) {
+      return false;
+    }
+    const key = cues.join('+');
+    const now = this.now();
+    const last = this.lastPlayed.get(key);
+    if (!force && last !== undefined && now - last < this.options.repeatIntervalMs) {
+      return false;
+    }
+    this.lastPlayed.set(key, now);
+    this.driver.vibrate(this.sequencePattern(cues));
+    return true;
+  }
+
+  stop(): void {
+    this.lastPlayed.clear();
+    this.driver.cancel();
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Boxes covering more than this fraction of the frame are treated as near.
+const NEAR_AREA_FRACTION = 0.15;
+
+export const directionCueForBox = (box: BoundingBox): HapticCue => {
+  const centerX = box.x + box.width / 2;
+  if (centerX < 1 / 3) return 'left';
+  if (centerX > 2 / 3) return 'right';
+  return 'straight';
+};
+
+export const proximityCueForBox = (box: BoundingBox): HapticCue =>
+  box.width * box.height >= NEAR_AREA_FRACTION ? 'obstacleNear' : 'obstacleFar';
+
+// Encodes the most prominent (largest) box as "where it is" followed by "how close".
+export const cuesForBoxes = (boxes: BoundingBox[]): HapticCue[] => {
+  if (boxes.length === 0) return [];
+  const largest = boxes.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+  return [directionCueForBox(largest), proximityCueForBox(largest)];
+};
+
+// Words that signal each instruction cue, per language. Phrases are allowed;
+// matching is case-insensitive and on whole words.
+export type CueKeywords = Record<'arrived' | 'stop' | 'left' | 'right' | 'straight', string[]>;
+
+export const ENGLISH_CUE_KEYWORDS: CueKeywords = {
+  arrived: ['arrived', 'you have reached', 'reached your destination'],
+  stop: ['stop', 'wait', 'halt'],
+  left: ['left'],
+  right: ['right'],
+  straight: ['straight', 'continue', 'ahead', 'forward'],
+};
+
+// Index of the first whole-word match of any keyword, or -1. Letter classes
+// rather than \b, which treats accented letters as word boundaries.
+const findKeyword = (text: string, words: string[]): number => {
+  const escaped = words.map(w => w.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return text.search(new RegExp(`(?<!\\p{L})(?:${escaped.join('|')})(?!\\p{L})`, 'u'));
+};
+
+// Maps a free-form navigation instruction onto a cue, or null if none fits.
+export const cueForInstruction = (instruction: string, keywords: CueKeywords = ENGLISH_CUE_KEYWORDS): HapticCue | null => {
+  const text = instruction.toLowerCase();
+  if (findKeyword(text, keywords.arrived) !== -1) return 'arrived';
+  if (findKeyword(text, keywords.stop) !== -1) return 'stop';
+  const left = findKeyword(text, keywords.left);
+  const right = findKeyword(text, keywords.right);
+  if (left !== -1 || right !== -1) {
+    // Whichever direction is mentioned first is the one to act on.
+    if (right === -1 || (left !== -1 && left < right)) return 'left';
+    return 'right';
+  }
+  if (findKeyword(text, keywords.straight) !== -1) return 'straight';
+  return null;
+};
+
+export const haptics = new HapticEngine();
@@ -0,0 +1,320 @@
+import { angleDifference, bearingDegrees, distanceMeters, LatLng } from './geo';
+import { Translator } from './i18n';
+
+// Which way the user is facing, from the compass when the device has one and
+// from their direction of travel while walking otherwise. Headings are
+// compass bearings, 0..360 with 0 = north, for the direction the back camera
+// points, which is the way users hold the phone in this app.
+
+export type HeadingSource = 'compass' | 'gps';
+
+export interface HeadingReading {
+  heading: number;
+  source: HeadingSource;
+  // Degrees either side of `heading`, when the source reports it.
+  accuracy: number | null;
+  timestamp: number;
+}
+
+// 'needsPermission' means the browser only asks for the compass from a user
+// gesture (iOS), so start() has to be called again from a button.
+export type CompassState = 'idle' | 'needsPermission' | 'active' | 'denied' | 'unsupported';
+
+export interface HeadingStatus {
+  compass: CompassState;
+  // The compass is off and the user should wave the phone in a figure-eight.
+  needsCalibration: boolean;
+  // Where getHeading() would read from right now.
+  source: HeadingSource | null;
+}
+
+// The fields of a DeviceOrientationEvent the service reads, plus the
+// WebKit-only compass fields.
+export interface OrientationSample {
+  alpha: number | null;
+  beta: number | null;
+  gamma: number | null;
+  absolute: boolean;
+  webkitCompassHeading?: number;
+  webkitCompassAccuracy?: number;
+}
+
+export interface HeadingServiceOptions {
+  // Smoothing time constant for compass readings.
+  smoothingMs: number;
+  // Compass readings older than this are ignored.
+  compassMaxAgeMs: number;
+  // GPS headings older than this are ignored; after a stop the user may have turned.
+  gpsMaxAgeMs: number;
+  // Distance to walk before a heading is taken from two fixes.
+  gpsMinDistanceMeters: number;
+  // Fixes less accurate than this don't count towards a GPS heading.
+  gpsMaxAccuracyMeters: number;
+  // WebKit compass accuracy above this (degrees) asks for calibration.
+  maxCompassAccuracy: number;
+  // How far the compass may disagree with the walking direction before it is
+  // treated as uncalibrated, and for how many GPS headings in a row.
+  maxCompassDisagreement: number;
+  disagreementsForCalibration: number;
+  now: () => number;
+}
+
+export const DEFAULT_HEADING_OPTIONS: HeadingServiceOptions = {
+  smoothingMs: 250,
+  compassMaxAgeMs: 2000,
+  gpsMaxAgeMs: 10000,
+  gpsMinDistanceMeters: 8,
+  gpsMaxAccuracyMeters: 25,
+  maxCompassAccuracy: 30,
+  maxCompassDisagreement: 60,
+  disagreementsForCalibration: 3,
+  now: () => Date.now(),
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const normalize = (degrees: number) => (degrees % 360 + 360) % 360;
+
+// Compass heading of the back of the device from absolute Euler angles,
+// following the W3C DeviceOrientation spec. It stays right however far the
+// phone is tilted, unlike reading `alpha` alone, which is only the heading
+// when the phone lies flat. Null when the phone is flat enough that the back
+// points at the ground and has no meaningful heading.
+export const tiltCompensatedHeading = (alpha: number, beta: number, gamma: number): number | null => {
+  const x = toRadians(beta);
+  const y = toRadians(gamma);
+  const z = toRadians(alpha);
+  const vx = -Math.cos(z) * Math.sin(y) - Math.sin(z) * Math.sin(x) * Math.cos(y);
+  const vy = -Math.sin(z) * Math.sin(y) + Math.cos(z) * Math.sin(x) * Math.cos(y);
+  if (Math.hypot(vx, vy) < 0.1) return null;
+  return normalize(Math.atan2(vx, vy) * 180 / Math.PI);
+};
+
+// Averages angles as unit vectors so 359° and 1° smooth to 0°, not 180°.
+export class CircularSmoother {
+  private x = 0;
+  private y = 0;
+  private last: number | null = null;
+
+  constructor(private readonly timeConstantMs: number) {}
+
+  add(degrees: number, timestamp: number): number {
+    const weight = this.last === null ? 1 : 1 - Math.exp(-Math.max(0, timestamp - this.last) / this.timeConstantMs);
+    this.x += (Math.cos(toRadians(degrees)) - this.x) * weight;
+    this.y += (Math.sin(toRadians(degrees)) - this.y) * weight;
+    this.last = timestamp;
+    return this.value();
+  }
+
+  value(): number {
+    return normalize(Math.atan2(this.y, this.x) * 180 / Math.PI);
+  }
+
+  reset(): void {
+    this.x = 0;
+    this.y = 0;
+    this.last = null;
+  }
+}
+
+// Heading from the direction of travel. Uses the course the device reports
+// while moving, otherwise the bearing between fixes far enough apart that
+// GPS noise doesn't dominate.
+export class GpsHeadingEstimator {
+  private anchor: LatLng | null = null;
+
+  constructor(private readonly minDistanceMeters: number, private readonly maxAccuracyMeters: number) {}
+
+  // `course` and `speed` are GeolocationCoordinates.heading and .speed.
+  add(position: LatLng, accuracy: number, course: number | null = null, speed: number | null = null): number | null {
+    if (course !== null && Number.isFinite(course) && speed !== null && speed > 0.5) {
+      this.anchor = position;
+      return normalize(course);
+    }
+    if (accuracy > this.maxAccuracyMeters) return null;
+    if (!this.anchor) {
+      this.anchor = position;
+      return null;
+    }
+    if (distanceMeters(this.anchor, position) < Math.max(this.minDistanceMeters, accuracy)) return null;
+    const heading = bearingDegrees(this.anchor, position);
+    this.anchor = position;
+    return heading;
+  }
+
+  reset(): void {
+    this.anchor = null;
+  }
+}
+
+type RequestPermission = () => Promise<'granted' | 'denied'>;
+
+export class HeadingService {
+  private readonly options: HeadingServiceOptions;
+  private readonly smoother: CircularSmoother;
+  private readonly gps: GpsHeadingEstimator;
+  private compassState: CompassState = 'idle';
+  private compass: HeadingReading | null = null;
+  private gpsHeading: HeadingReading | null = null;
+  private compassInaccurate = false;
+  private disagreements = 0;
+  private eventName: 'deviceorientationabsolute' | 'deviceorientation' | null = null;
+  private listeners = new Set<(status: HeadingStatus) => void>();
+  private status: HeadingStatus = { compass: 'idle', needsCalibration: false, source: null };
+
+  constructor(options: Partial<HeadingServiceOptions> = {}) {
+    this.options = { ...DEFAULT_HEADING_OPTIONS, ...options };
+    this.smoother = new CircularSmoother(this.options.smoothingMs);
+    this.gps = new GpsHeadingEstimator(this.options.gpsMinDistanceMeters, this.options.gpsMaxAccuracyMeters);
+  }
+
+  // Starts listening to the compass. On iOS this has to run from a user
+  // gesture the first time; otherwise the state becomes 'needsPermission'.
+  async start(): Promise<CompassState> {
+    if (this.eventName) return this.compassState;
+    if (typeof window === 'undefined' || typeof DeviceOrientationEvent === 'undefined') {
+      this.setCompassState('unsupported');
+      return this.compassState;
+    }
+    const requestPermission = (DeviceOrientationEvent as unknown as { requestPermission?: RequestPermission }).requestPermission;
+    if (typeof requestPermission === 'function') {
+      try {
+        if (await requestPermission() !== 'granted') {
+          this.setCompassState('denied');
+          return this.compassState;
+        }
+      } catch {
+        // Thrown when not called from a user gesture
+        this.setCompassState('needsPermission');
+        return this.compassState;
+      }
+    }
+    // Chrome's plain event is relative to wherever the page loaded; only the
+    // absolute one is tied to north. Safari's plain event has the WebKit compass.
+    this.eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+    window.addEventListener(this.eventName, this.handleEvent);
+    this.setCompassState('active');
+    return this.compassState;
+  }
+
+  stop(): void {
+    if (this.eventName) window.removeEventListener(this.eventName, this.handleEvent);
+    this.eventName = null;
+    this.compass = null;
+    this.gpsHeading = null;
+    this.smoother.reset();
+    this.gps.reset();
+    this.compassInaccurate = false;
+    this.disagreements = 0;
+    if (this.compassState === 'active') this.compassState = 'idle';
+    this.emit();
+  }
+
+  private handleEvent = (event: Event) => {
+    this.addOrientation(event as DeviceOrientationEvent & OrientationSample);
+  };
+
+  // Public so recorded or simulated samples can be fed in.
+  addOrientation(sample: OrientationSample): void {
+    const now = this.options.now();
+    let raw: number | null = null;
+    if (typeof sample.webkitCompassHeading === 'number' && Number.isFinite(sample.webkitCompassHeading)) {
+      // Already tilt-compensated, but relative to the screen's natural orientation
+      raw = normalize(sample.webkitCompassHeading + screenAngle());
+      const accuracy = sample.webkitCompassAccuracy;
+      this.compassInaccurate = typeof accuracy === 'number' && (accuracy < 0 || accuracy > this.options.maxCompassAccuracy);
+    } else if (sample.absolute && sample.alpha !== null && sample.beta !== null && sample.gamma !== null) {
+      raw = tiltCompensatedHeading(sample.alpha, sample.beta, sample.gamma);
+    }
+    if (raw === null) return;
+    const accuracy = typeof sample.webkitCompassAccuracy === 'number' && sample.webkitCompassAccuracy >= 0
+      ? sample.webkitCompassAccuracy
+      : null;
+    this.compass = { heading: this.smoother.add(raw, now), source: 'compass', accuracy, timestamp: now };
+    this.emit();
+  }
+
+  // Feed every position fix; used for the walking-direction fallback and to
+  // notice a compass that disagrees with where the user is actually going.
+  addPosition(position: LatLng, accuracy: number, course: number | null = null, speed: number | null = null): void {
+    const heading = this.gps.add(position, accuracy, course, speed);
+    if (heading === null) return;
+    const now = this.options.now();
+    this.gpsHeading = { heading, source: 'gps', accuracy: null, timestamp: now };
+    const compass = this.fresh(this.compass, this.options.compassMaxAgeMs);
+    if (compass) {
+      const disagrees = Math.abs(angleDifference(compass.heading, heading)) > this.options.maxCompassDisagreement;
+      this.disagreements = disagrees ? this.disagreements + 1 : 0;
+    }
+    this.emit();
+  }
+
+  // The best current heading, or null when neither source has a recent one.
+  getHeading(): HeadingReading | null {
+    const compass = this.fresh(this.compass, this.options.compassMaxAgeMs);
+    const gps = this.fresh(this.gpsHeading, this.options.gpsMaxAgeMs);
+    if (compass && !this.needsCalibration()) return compass;
+    return gps ?? compass;
+  }
+
+  getStatus(): HeadingStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: HeadingStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private needsCalibration(): boolean {
+    return this.compass !== null &&
+      (this.compassInaccurate || this.disagreements >= this.options.disagreementsForCalibration);
+  }
+
+  private fresh(reading: HeadingReading | null, maxAgeMs: number): HeadingReading | null {
+    return reading && this.options.now() - reading.timestamp <= maxAgeMs ? reading : null;
+  }
+
+  private setCompassState(state: CompassState): void {
+    this.compassState = state;
+    this.emit();
+  }
+
+  // Listeners only hear about status changes, not every reading, which
+  // arrive at up to 60 Hz; read getHeading() when a heading is needed.
+  private emit(): void {
+    const next: HeadingStatus = {
+      compass: this.compassState,
+      needsCalibration: this.needsCalibration(),
+      source: this.getHeading()?.source ?? null,
+    };
+    const { status } = this;
+    if (next.compass === status.compass && next.needsCalibration === status.needsCalibration && next.source === status.source) {
+      return;
+    }
+    this.status = next;
+    for (const listener of this.listeners) listener(next);
+  }
+}
+
+const screenAngle = () => (typeof screen !== 'undefined' && screen.orientation ? screen.orientation.angle : 0);
+
+// Signed angle from the way the user faces to `target`, -180..180; positive is to the right.
+export const relativeBearing = (heading: number, from: LatLng, target: LatLng): number =>
+  angleDifference(heading, bearingDegrees(from, target));
+
+// "40° to your right", rounded to 5° because nobody can turn more precisely.
+export const describeRelativeBearing = (angle: number, translator: Translator): string => {
+  const degrees = Math.round(Math.abs(angle) / 5) * 5;
+  if (degrees <= 10) return translator.t('heading.ahead');
+  if (degrees >= 165) return translator.t('heading.behind');
+  return translator.t(angle > 0 ? 'heading.right' : 'heading.left', { degrees });
+};
+
+let defaultService: HeadingService | null = null;
+
+export const getHeadingService = (): HeadingService => {
+  if (!defaultService) defaultService = new HeadingService();
+  return defaultService;
+};
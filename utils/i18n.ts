@@ -0,0 +1,133 @@
+import { messages as en } from '../locales/en';
+import { messages as es, classes as esClasses, cueKeywords as esCueKeywords, commandPhrases as esCommandPhrases } from '../locales/es';
+import { messages as fr, classes as frClasses, cueKeywords as frCueKeywords, commandPhrases as frCommandPhrases } from '../locales/fr';
+import { CueKeywords, ENGLISH_CUE_KEYWORDS } from './haptics';
+import { CommandPhrases, ENGLISH_COMMAND_PHRASES } from './voiceCommands';
+import { getSettingsStore } from './settings';
+
+// Message catalogs and formatting for the UI, the spoken output and the
+// language the AI is asked to answer in.
+
+export type Language = 'en' | 'es' | 'fr';
+
+export interface LanguageInfo {
+  code: Language;
+  // In the language itself, as shown in the language picker.
+  nativeName: string;
+  // In English, for instructing the model.
+  englishName: string;
+  // BCP 47 tag for speech synthesis and recognition.
+  speechLang: string;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { code: 'en', nativeName: 'English', englishName: 'English', speechLang: 'en-US' },
+  es: { code: 'es', nativeName: 'Español', englishName: 'Spanish', speechLang: 'es-ES' },
+  fr: { code: 'fr', nativeName: 'Français', englishName: 'French', speechLang: 'fr-FR' },
+};
+
+// A message with a `{count}` parameter can vary with it. `other` is required;
+// the remaining forms follow Intl.PluralRules for the language.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+interface LanguagePack {
+  messages: Catalog;
+  // COCO class name to its translation. Missing names are spoken as-is.
+  classes: Record<string, string>;
+  cueKeywords: CueKeywords;
+  commandPhrases: CommandPhrases;
+}
+
+const PACKS: Record<Language, LanguagePack> = {
+  en: { messages: en, classes: {}, cueKeywords: ENGLISH_CUE_KEYWORDS, commandPhrases: ENGLISH_COMMAND_PHRASES },
+  es: { messages: es, classes: esClasses, cueKeywords: esCueKeywords, commandPhrases: esCommandPhrases },
+  fr: { messages: fr, classes: frClasses, cueKeywords: frCueKeywords, commandPhrases: frCommandPhrases },
+};
+
+const isLanguage = (code: string): code is Language => code in LANGUAGES;
+
+// Picks a supported language: the stored choice if any, otherwise the first
+// of the browser's preferred languages we have, otherwise English.
+export const resolveLanguage = (preferred: string | null, browserLanguages: readonly string[] = navigatorLanguages()): Language => {
+  const candidates = preferred ? [preferred] : browserLanguages;
+  for (const tag of candidates) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return 'en';
+};
+
+const navigatorLanguages = (): readonly string[] =>
+  typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+
+const interpolate = (template: string, params: MessageParams): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+
+export class Translator {
+  private readonly pack: LanguagePack;
+  private readonly pluralRules: Intl.PluralRules;
+  private readonly listFormat: Intl.ListFormat;
+
+  constructor(readonly language: Language) {
+    this.pack = PACKS[language];
+    this.pluralRules = new Intl.PluralRules(language);
+    this.listFormat = new Intl.ListFormat(language, { style: 'long', type: 'conjunction' });
+  }
+
+  get info(): LanguageInfo {
+    return LANGUAGES[this.language];
+  }
+
+  get cueKeywords(): CueKeywords {
+    return this.pack.cueKeywords;
+  }
+
+  get commandPhrases(): CommandPhrases {
+    return this.pack.commandPhrases;
+  }
+
+  // Looks up a message, choosing the plural form from `params.count` when the
+  // message has forms. Falls back to English for anything untranslated.
+  // An arrow property so components can destructure it.
+  readonly t = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = this.pack.messages[key] ?? en[key];
+    if (typeof message === 'string') return interpolate(message, params);
+    const count = typeof params.count === 'number' ? params.count : 0;
+    const form = message[this.pluralRules.select(count)] ?? message.other;
+    return interpolate(form, params);
+  };
+
+  // "a, b and c" with the language's own conjunction and punctuation.
+  list(items: string[]): string {
+    return this.listFormat.format(items);
+  }
+
+  className(cocoClass: string): string {
+    return this.pack.classes[cocoClass] ?? cocoClass;
+  }
+}
+
+const translators = new Map<Language, Translator>();
+
+export const getTranslator = (language: Language): Translator => {
+  let translator = translators.get(language);
+  if (!translator) {
+    translator = new Translator(language);
+    translators.set(language, translator);
+  }
+  return translator;
+};
+
+// Appended to prompts so the model answers in the user's language.
+export const responseLanguageInstruction = (language: Language): string =>
+  `Always respond in ${LANGUAGES[language].englishName}.`;
+
+// The language chosen in settings, for code outside React.
+export const currentLanguage = (): Language => resolveLanguage(getSettingsStore().get().general.language);
+
+export const currentTranslator = (): Translator => getTranslator(currentLanguage());
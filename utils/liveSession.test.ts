@@ -0,0 +1,172 @@
+import { LiveServerMessage } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionNotice, FakeLiveTransport, LiveSessionController, LiveSessionControllerOptions, LiveSessionState, Timers } from './liveSession';
+
+// Timers the test fires by hand, recording each delay asked for.
+class ManualTimers implements Timers {
+  pending: { callback: () => void; ms: number }[] = [];
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer = { callback, ms };
+    this.pending.push(timer);
+    return timer;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.pending = this.pending.filter(timer => timer !== handle);
+  }
+
+  // Fires the oldest timer and returns the delay it was set for.
+  runNext(): number {
+    const timer = this.pending.shift();
+    if (!timer) throw new Error('No timer pending');
+    timer.callback();
+    return timer.ms;
+  }
+}
+
+// Lets the controller's awaited connect() settle.
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const message = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+const setup = async (options: Partial<LiveSessionControllerOptions> = {}) => {
+  const transport = new FakeLiveTransport();
+  const timers = new ManualTimers();
+  const states: LiveSessionState[] = [];
+  const notices: ConnectionNotice[] = [];
+  const opens: { reconnect: boolean; resumed: boolean }[] = [];
+  const controller = new LiveSessionController({
+    transport,
+    model: 'test-model',
+    config: {},
+    timers,
+    baseReconnectDelayMs: 100,
+    maxReconnectDelayMs: 1000,
+    onStateChange: state => states.push(state),
+    onNotice: notice => notices.push(notice),
+    onOpen: info => opens.push(info),
+    ...options,
+  });
+  controller.start();
+  await settle();
+  return { transport, timers, states, notices, opens, controller };
+};
+
+describe('LiveSessionController', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('connects and sends on the open connection', async () => {
+    const { transport, states, opens, controller } = await setup();
+    expect(states).toEqual(['connecting', 'active']);
+    expect(opens).toEqual([{ reconnect: false, resumed: false }]);
+    expect(controller.send({ text: 'hello' })).toBe(true);
+    expect(transport.current!.sent).toEqual([{ text: 'hello' }]);
+  });
+
+  it('reconnects with growing delays after a drop and says so', async () => {
+    const { transport, timers, states, notices, controller } = await setup();
+    transport.current!.emitClose();
+    expect(controller.getState()).toBe('reconnecting');
+    expect(notices).toEqual(['degraded']);
+    // Input while reconnecting is dropped rather than queued
+    expect(controller.send({ text: 'lost' })).toBe(false);
+
+    transport.failNextConnect = new Error('still down');
+    expect(timers.runNext()).toBe(100);
+    await settle();
+    transport.failNextConnect = new Error('still down');
+    expect(timers.runNext()).toBe(200);
+    await settle();
+    expect(timers.runNext()).toBe(400);
+    await settle();
+
+    expect(controller.getState()).toBe('active');
+    expect(notices).toEqual(['degraded', 'restored']);
+    expect(states).toEqual(['connecting', 'active', 'reconnecting', 'active']);
+
+    // A later drop starts again from the shortest delay
+    transport.current!.emitClose();
+    expect(timers.runNext()).toBe(100);
+  });
+
+  it('resumes the conversation with the latest handle', async () => {
+    const { transport, timers, opens } = await setup();
+    expect(transport.current!.options.config.sessionResumption).toEqual({});
+    transport.current!.emitMessage(message({ sessionResumptionUpdate: { resumable: true, newHandle: 'first' } }));
+    transport.current!.emitMessage(message({ sessionResumptionUpdate: { resumable: true, newHandle: 'second' } }));
+    // An update that cannot be resumed from keeps the last good handle
+    transport.current!.emitMessage(message({ sessionResumptionUpdate: { resumable: false } }));
+
+    transport.current!.emitError();
+    timers.runNext();
+    await settle();
+    expect(transport.current!.options.config.sessionResumption).toEqual({ handle: 'second' });
+    expect(opens[1]).toEqual({ reconnect: true, resumed: true });
+  });
+
+  it('reports a reconnect without a handle as not resumed', async () => {
+    const { transport, timers, opens } = await setup();
+    transport.current!.emitClose();
+    timers.runNext();
+    await settle();
+    expect(opens[1]).toEqual({ reconnect: true, resumed: false });
+  });
+
+  it('moves to a new connection straight away on goAway', async () => {
+    const { transport, timers, states, controller } = await setup();
+    const first = transport.current!;
+    first.emitMessage(message({ goAway: { timeLeft: '5s' } }));
+    expect(first.closed).toBe(true);
+    expect(timers.pending).toEqual([]);
+    await settle();
+    expect(transport.connections).toHaveLength(2);
+    expect(controller.getState()).toBe('active');
+    expect(states.slice(-2)).toEqual(['reconnecting', 'active']);
+  });
+
+  it('gives up after the last attempt and says the connection is lost', async () => {
+    const errors: unknown[] = [];
+    const { transport, timers, notices, controller } = await setup({ maxReconnectAttempts: 2, onError: e => errors.push(e) });
+    transport.current!.emitClose();
+    for (let i = 0; i < 2; i++) {
+      transport.failNextConnect = new Error('down');
+      timers.runNext();
+      await settle();
+    }
+    expect(controller.getState()).toBe('error');
+    expect(notices).toEqual(['degraded', 'lost']);
+    expect(errors).toEqual([new Error('down')]);
+    expect(timers.pending).toEqual([]);
+  });
+
+  it('fails without retrying when the first connection cannot be made', async () => {
+    const transport = new FakeLiveTransport();
+    transport.failNextConnect = new Error('bad key');
+    const timers = new ManualTimers();
+    const notices: ConnectionNotice[] = [];
+    const controller = new LiveSessionController({ transport, model: 'test-model', config: {}, timers, onNotice: n => notices.push(n) });
+    controller.start();
+    await settle();
+    expect(controller.getState()).toBe('error');
+    expect(timers.pending).toEqual([]);
+    expect(notices).toEqual([]);
+  });
+
+  it('ignores a drop from a connection that was stopped', async () => {
+    const { transport, timers, notices, controller } = await setup();
+    const connection = transport.current!;
+    controller.stop();
+    connection.emitClose();
+    expect(controller.getState()).toBe('stopped');
+    expect(timers.pending).toEqual([]);
+    expect(notices).toEqual([]);
+  });
+});
@@ -0,0 +1,329 @@
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveSendRealtimeInputParameters,
+  LiveServerContent,
+  LiveServerMessage,
+} from '@google/genai';
+
+export type LiveSessionState = 'idle' | 'connecting' | 'active' | 'reconnecting' | 'error' | 'stopped';
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (error: ErrorEvent | Error) => void;
+  onclose: (event?: CloseEvent) => void;
+}
+
+export interface LiveTransportSession {
+  sendRealtimeInput(input: LiveSendRealtimeInputParameters): void;
+  close(): void;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+}
+
+// The seam between the controller and the network, so the state machine can
+// be driven by a fake in tests.
+export interface LiveTransport {
+  connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportSession>;
+}
+
+// A server message for transports that translate another protocol into the
+// Live API's. The SDK's message is a class, for its text and data getters.
+export const liveServerMessage = (serverContent: LiveServerContent): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), { serverContent });
+
+export class GeminiLiveTransport implements LiveTransport {
+  constructor(private readonly ai: GoogleGenAI) {}
+
+  connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportSession> {
+    return this.ai.live.connect({ ...options, callbacks });
+  }
+}
+
+// Why the user should be told something about the connection.
+export type ConnectionNotice = 'degraded' | 'restored' | 'lost';
+
+export interface Timers {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+const defaultTimers: Timers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface LiveSessionControllerOptions {
+  transport: LiveTransport;
+  model: string;
+  config: LiveConnectConfig;
+  onStateChange?: (state: LiveSessionState) => void;
+  onMessage?: (message: LiveServerMessage) => void;
+  // Called on every successful (re)connection. `resumed` is true when the
+  // server kept the conversation from before the drop.
+  onOpen?: (info: { reconnect: boolean; resumed: boolean }) => void;
+  onNotice?: (notice: ConnectionNotice) => void;
+  onError?: (error: unknown) => void;
+  maxReconnectAttempts?: number;
+  baseReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  timers?: Timers;
+}
+
+// Owns one logical Live conversation across however many websocket
+// connections it takes. Unexpected drops are retried with exponential
+// backoff, resuming the server-side session when a resumption handle is
+// available.
+//
+//   idle ─start→ connecting ─open→ active ─drop→ reconnecting ─open→ active
+//                     │                              │ (attempts exhausted)
+//                     └──────────── fail ────────────┴────────→ error
+//   any ─stop→ stopped
+export class LiveSessionController {
+  private state: LiveSessionState = 'idle';
+  private session: LiveTransportSession | null = null;
+  private resumptionHandle: string | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: unknown = null;
+  private hasConnected = false;
+  // Identifies the current connection; callbacks from older ones are ignored.
+  private connectionId = 0;
+  private readonly timers: Timers;
+  private readonly maxReconnectAttempts: number;
+  private readonly baseReconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+
+  constructor(private readonly options: LiveSessionControllerOptions) {
+    this.timers = options.timers ?? defaultTimers;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.baseReconnectDelayMs = options.baseReconnectDelayMs ?? 500;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 8000;
+  }
+
+  getState(): LiveSessionState {
+    return this.state;
+  }
+
+  get canResume(): boolean {
+    return this.resumptionHandle !== null;
+  }
+
+  start(): void {
+    if (this.state === 'connecting' || this.state === 'active' || this.state === 'reconnecting') return;
+    this.resumptionHandle = null;
+    this.reconnectAttempts = 0;
+    this.hasConnected = false;
+    this.setState('connecting');
+    this.connect();
+  }
+
+  stop(): void {
+    this.connectionId++;
+    this.clearReconnectTimer();
+    this.closeSession();
+    this.resumptionHandle = null;
+    if (this.state !== 'idle') this.setState('stopped');
+  }
+
+  // Sends input on the current connection. Input arriving while reconnecting
+  // is dropped: stale audio and frames are worse than none.
+  send(input: LiveSendRealtimeInputParameters): boolean {
+    if (this.state !== 'active' || !this.session) return false;
+    try {
+      this.session.sendRealtimeInput(input);
+      return true;
+    } catch (err) {
+      this.handleDrop(err);
+      return false;
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const id = ++this.connectionId;
+    const reconnect = this.hasConnected;
+    const resuming = this.resumptionHandle !== null;
+    const config: LiveConnectConfig = {
+      ...this.options.config,
+      // Ask for resumption handles from the start so a later drop can resume.
+      sessionResumption: resuming ? { handle: this.resumptionHandle! } : {},
+    };
+
+    const callbacks: LiveTransportCallbacks = {
+      // The session object isn't available until connect() resolves, so
+      // activation happens below rather than here.
+      onopen: () => {},
+      onmessage: (message) => {
+        if (id !== this.connectionId) return;
+        this.handleMessage(message);
+      },
+      onerror: (error) => {
+        if (id !== this.connectionId) return;
+        console.error('Live session error:', error);
+        this.handleDrop(error);
+      },
+      onclose: () => {
+        if (id !== this.connectionId) return;
+        this.handleDrop(new Error('Connection closed'));
+      },
+    };
+
+    try {
+      const session = await this.options.transport.connect(
+        { model: this.options.model, config },
+        callbacks,
+      );
+      if (id !== this.connectionId) {
+        session.close();
+        return;
+      }
+      this.session = session;
+      this.hasConnected = true;
+      this.reconnectAttempts = 0;
+      this.setState('active');
+      if (reconnect) this.options.onNotice?.('restored');
+      this.options.onOpen?.({ reconnect, resumed: reconnect && resuming });
+    } catch (err) {
+      if (id !== this.connectionId) return;
+      this.handleDrop(err);
+    }
+  }
+
+  private handleMessage(message: LiveServerMessage): void {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.resumptionHandle = update.newHandle;
+    }
+    this.options.onMessage?.(message);
+    if (message.goAway) {
+      // The server is about to close this connection; move to a new one now
+      // rather than waiting for the drop.
+      this.reconnectNow();
+    }
+  }
+
+  private handleDrop(error: unknown): void {
+    if (this.state === 'stopped' || this.state === 'idle' || this.state === 'error') return;
+    this.connectionId++;
+    this.closeSession();
+
+    if (!this.hasConnected) {
+      // Never got a working connection: this is a setup problem (key, model,
+      // network), not a blip worth retrying behind the user's back.
+      this.fail(error);
+      return;
+    }
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.fail(error);
+      return;
+    }
+    if (this.state !== 'reconnecting') {
+      this.setState('reconnecting');
+      this.options.onNotice?.('degraded');
+    }
+    const delay = Math.min(
+      this.maxReconnectDelayMs,
+      this.baseReconnectDelayMs * 2 ** this.reconnectAttempts,
+    );
+    this.reconnectAttempts++;
+    this.clearReconnectTimer();
+    this.reconnectTimer = this.timers.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private reconnectNow(): void {
+    if (this.state !== 'active') return;
+    this.connectionId++;
+    this.closeSession();
+    this.setState('reconnecting');
+    this.connect();
+  }
+
+  private fail(error: unknown): void {
+    this.clearReconnectTimer();
+    this.setState('error');
+    if (this.hasConnected) this.options.onNotice?.('lost');
+    this.options.onError?.(error);
+  }
+
+  private closeSession(): void {
+    const session = this.session;
+    this.session = null;
+    try {
+      session?.close();
+    } catch {
+      // Already closed.
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      this.timers.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setState(state: LiveSessionState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
+
+// Test double: records connections and lets a test play the server's part.
+export class FakeLiveTransport implements LiveTransport {
+  readonly connections: FakeLiveConnection[] = [];
+  // When set, the next connect() rejects with this error.
+  failNextConnect: Error | null = null;
+
+  get current(): FakeLiveConnection | undefined {
+    return this.connections[this.connections.length - 1];
+  }
+
+  async connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportSession> {
+    if (this.failNextConnect) {
+      const error = this.failNextConnect;
+      this.failNextConnect = null;
+      throw error;
+    }
+    const connection = new FakeLiveConnection(options, callbacks);
+    this.connections.push(connection);
+    callbacks.onopen();
+    return connection;
+  }
+}
+
+export class FakeLiveConnection implements LiveTransportSession {
+  readonly sent: LiveSendRealtimeInputParameters[] = [];
+  closed = false;
+
+  constructor(readonly options: LiveConnectOptions, private readonly callbacks: LiveTransportCallbacks) {}
+
+  sendRealtimeInput(input: LiveSendRealtimeInputParameters): void {
+    if (this.closed) throw new Error('Connection closed');
+    this.sent.push(input);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emitMessage(message: LiveServerMessage): void {
+    this.callbacks.onmessage(message);
+  }
+
+  emitError(error: Error = new Error('Fake transport error')): void {
+    this.callbacks.onerror(error);
+  }
+
+  // Simulates the server or network dropping the connection.
+  emitClose(): void {
+    this.closed = true;
+    this.callbacks.onclose();
+  }
+}
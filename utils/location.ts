@@ -0,0 +1,244 @@
+import { LatLng } from './geo';
+
+// Where MapsMode gets positions and location permission from. The browser's
+// geolocation is one implementation; SimulatedLocationProvider lets every
+// branch of the Maps UI be exercised at a desk, by hand or from a recorded
+// track (see trackReplay.ts).
+
+export type LocationPermission = 'checking' | 'prompt' | 'granted' | 'denied';
+
+export interface LocationFix {
+  location: LatLng;
+  // Metres, as GeolocationCoordinates.accuracy.
+  accuracy: number;
+  // Direction of travel in degrees and speed in m/s, when known.
+  heading: number | null;
+  speed: number | null;
+  timestamp: number;
+}
+
+export type LocationErrorCode = 'denied' | 'unavailable' | 'timeout';
+
+export interface LocationFailure {
+  code: LocationErrorCode;
+  message: string;
+}
+
+export interface LocationProvider {
+  readonly id: string;
+  isSupported(): boolean;
+  // Calls `listener` with the current permission and again on every change.
+  watchPermission(listener: (permission: LocationPermission) => void): () => void;
+  // Shows the browser's prompt. Resolves with the resulting permission.
+  requestPermission(): Promise<LocationPermission>;
+  // Sends a fix as soon as one is known and then on every move.
+  watch(onFix: (fix: LocationFix) => void, onError: (failure: LocationFailure) => void): () => void;
+}
+
+const failureFromError = (err: GeolocationPositionError): LocationFailure => ({
+  code: err.code === err.PERMISSION_DENIED ? 'denied' : err.code === err.TIMEOUT ? 'timeout' : 'unavailable',
+  message: err.message,
+});
+
+const fixFromPosition = (position: GeolocationPosition): LocationFix => ({
+  location: { lat: position.coords.latitude, lng: position.coords.longitude },
+  accuracy: position.coords.accuracy,
+  heading: position.coords.heading,
+  speed: position.coords.speed,
+  timestamp: position.timestamp,
+});
+
+export class BrowserLocationProvider implements LocationProvider {
+  readonly id = 'browser';
+  private permissionListeners = new Set<(permission: LocationPermission) => void>();
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.geolocation;
+  }
+
+  watchPermission(listener: (permission: LocationPermission) => void): () => void {
+    let active = true;
+    let status: PermissionStatus | null = null;
+    const emit = (permission: LocationPermission) => {
+      if (active) listener(permission);
+    };
+    const onChange = () => status && emit(status.state);
+
+    this.permissionListeners.add(emit);
+    emit('checking');
+    if (!this.isSupported()) {
+      emit('denied');
+    } else if (!navigator.permissions) {
+      // Older Safari and iOS WebViews have geolocation but no Permissions API
+      emit('prompt');
+    } else {
+      navigator.permissions.query({ name: 'geolocation' }).then((result) => {
+        status = result;
+        emit(result.state);
+        result.addEventListener('change', onChange);
+      }).catch((error) => {
+        console.error("Permissions API not supported, falling back to prompt.", error);
+        emit('prompt');
+      });
+    }
+    return () => {
+      active = false;
+      this.permissionListeners.delete(emit);
+      status?.removeEventListener('change', onChange);
+    };
+  }
+
+  requestPermission(): Promise<LocationPermission> {
+    return new Promise((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(
+        () => this.settle('granted', resolve),
+        (err) => {
+          if (err.code === err.PERMISSION_DENIED) this.settle('denied', resolve);
+          else reject(new Error(err.message));
+        },
+      );
+    });
+  }
+
+  // Browsers without the Permissions API never report a change, so the
+  // outcome of the prompt is passed on here as well.
+  private settle(permission: LocationPermission, resolve: (permission: LocationPermission) => void): void {
+    for (const listener of this.permissionListeners) listener(permission);
+    resolve(permission);
+  }
+
+  watch(onFix: (fix: LocationFix) => void, onError: (failure: LocationFailure) => void): () => void {
+    const success = (position: GeolocationPosition) => onFix(fixFromPosition(position));
+    const failure = (err: GeolocationPositionError) => onError(failureFromError(err));
+    navigator.geolocation.getCurrentPosition(success, failure, { enableHighAccuracy: true });
+    const watchId = navigator.geolocation.watchPosition(success, failure, { enableHighAccuracy: true });
+    return () => navigator.geolocation.clearWatch(watchId);
+  }
+}
+
+export interface SimulatedLocationState {
+  permission: LocationPermission;
+  // What requestPermission() turns a 'prompt' into.
+  promptResult: 'granted' | 'denied';
+  fix: LocationFix | null;
+  // Reported by isSupported(); false shows MapsMode's unsupported error.
+  supported: boolean;
+}
+
+// A position and permission set from code or the developer panel. Watchers
+// only hear fixes while permission is granted, as with the real thing.
+export class SimulatedLocationProvider implements LocationProvider {
+  readonly id = 'simulated';
+  private state: SimulatedLocationState;
+  private permissionListeners = new Set<(permission: LocationPermission) => void>();
+  private watchers = new Set<{ onFix: (fix: LocationFix) => void; onError: (failure: LocationFailure) => void }>();
+  private stateListeners = new Set<(state: SimulatedLocationState) => void>();
+
+  constructor(initial: Partial<SimulatedLocationState> = {}) {
+    this.state = { permission: 'granted', promptResult: 'granted', fix: null, supported: true, ...initial };
+  }
+
+  getState(): SimulatedLocationState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: SimulatedLocationState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  isSupported(): boolean {
+    return this.state.supported;
+  }
+
+  watchPermission(listener: (permission: LocationPermission) => void): () => void {
+    this.permissionListeners.add(listener);
+    listener(this.state.supported ? this.state.permission : 'denied');
+    return () => {
+      this.permissionListeners.delete(listener);
+    };
+  }
+
+  async requestPermission(): Promise<LocationPermission> {
+    if (this.state.permission === 'prompt' || this.state.permission === 'checking') {
+      this.setPermission(this.state.promptResult);
+    }
+    return this.state.permission;
+  }
+
+  watch(onFix: (fix: LocationFix) => void, onError: (failure: LocationFailure) => void): () => void {
+    const watcher = { onFix, onError };
+    this.watchers.add(watcher);
+    if (this.state.permission === 'granted' && this.state.fix) onFix(this.state.fix);
+    return () => {
+      this.watchers.delete(watcher);
+    };
+  }
+
+  setPermission(permission: LocationPermission): void {
+    this.update({ permission });
+    for (const listener of this.permissionListeners) listener(permission);
+  }
+
+  setPromptResult(promptResult: 'granted' | 'denied'): void {
+    this.update({ promptResult });
+  }
+
+  setSupported(supported: boolean): void {
+    this.update({ supported });
+    for (const listener of this.permissionListeners) listener(supported ? this.state.permission : 'denied');
+  }
+
+  setPosition(location: LatLng, options: Partial<Omit<LocationFix, 'location'>> = {}): void {
+    const fix: LocationFix = { location, accuracy: 5, heading: null, speed: null, timestamp: Date.now(), ...options };
+    this.update({ fix });
+    if (this.state.permission !== 'granted') return;
+    for (const watcher of this.watchers) watcher.onFix(fix);
+  }
+
+  // Simulates losing the signal or a timeout.
+  fail(code: LocationErrorCode, message = `Simulated ${code} error`): void {
+    for (const watcher of this.watchers) watcher.onError({ code, message });
+  }
+
+  private update(patch: Partial<SimulatedLocationState>): void {
+    this.state = { ...this.state, ...patch };
+    for (const listener of this.stateListeners) listener(this.state);
+  }
+}
+
+let browserProvider: BrowserLocationProvider | null = null;
+let currentProvider: LocationProvider | null = null;
+let simulatedProvider: SimulatedLocationProvider | null = null;
+const providerListeners = new Set<(provider: LocationProvider) => void>();
+
+// The provider MapsMode reads; the browser's unless replaced.
+export const getLocationProvider = (): LocationProvider => {
+  if (!currentProvider) {
+    browserProvider ??= new BrowserLocationProvider();
+    currentProvider = browserProvider;
+  }
+  return currentProvider;
+};
+
+// Pass null to go back to the browser's geolocation.
+export const setLocationProvider = (provider: LocationProvider | null): void => {
+  currentProvider = provider;
+  const next = getLocationProvider();
+  for (const listener of providerListeners) listener(next);
+};
+
+export const subscribeLocationProvider = (listener: (provider: LocationProvider) => void): () => void => {
+  providerListeners.add(listener);
+  return () => {
+    providerListeners.delete(listener);
+  };
+};
+
+// The simulator shared by the developer panel and track replays.
+export const getSimulatedLocation = (): SimulatedLocationProvider => {
+  if (!simulatedProvider) simulatedProvider = new SimulatedLocationProvider();
+  return simulatedProvider;
+};
@@ -0,0 +1,64 @@
+import { Blob } from '@google/genai';
+import { createBlob, LIVE_INPUT_SAMPLE_RATE, Resampler } from './audio';
+
+const WORKLET_URL = '/worklets/pcm-capture.js';
+
+export interface MicCaptureOptions {
+  // Samples per emitted chunk at the target rate. 2048 at 16 kHz is 128 ms:
+  // smaller chunks lower latency, larger ones mean fewer messages.
+  chunkSize?: number;
+  targetSampleRate?: number;
+  onChunk: (blob: Blob) => void;
+}
+
+// Captures microphone audio on the audio rendering thread through an
+// AudioWorklet and emits 16-bit PCM chunks at the target rate, whatever rate
+// the device actually runs at.
+export class MicCapture {
+  private constructor(
+    private readonly source: MediaStreamAudioSourceNode,
+    private readonly node: AudioWorkletNode,
+    private readonly sink: GainNode,
+  ) {}
+
+  static async start(ctx: AudioContext, stream: MediaStream, options: MicCaptureOptions): Promise<MicCapture> {
+    const targetRate = options.targetSampleRate ?? LIVE_INPUT_SAMPLE_RATE;
+    const chunkSize = options.chunkSize ?? 2048;
+    if (!ctx.audioWorklet) {
+      throw new Error("AudioWorklet is not supported in this browser.");
+    }
+    await ctx.audioWorklet.addModule(WORKLET_URL);
+
+    const resampler = new Resampler(ctx.sampleRate, targetRate);
+    const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      // Collect device-rate frames that resample to roughly one chunk.
+      processorOptions: { chunkSize: Math.round((chunkSize * ctx.sampleRate) / targetRate) },
+    });
+    node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      const samples = resampler.process(event.data);
+      if (samples.length > 0) {
+        options.onChunk(createBlob(samples, targetRate));
+      }
+    };
+
+    const source = ctx.createMediaStreamSource(stream);
+    // The graph only runs while connected to the destination; a muted gain
+    // keeps it pulling without echoing the mic to the speakers.
+    const sink = ctx.createGain();
+    sink.gain.value = 0;
+    source.connect(node);
+    node.connect(sink);
+    sink.connect(ctx.destination);
+    return new MicCapture(source, node, sink);
+  }
+
+  stop(): void {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.node.disconnect();
+    this.sink.disconnect();
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { getTranslator } from './i18n';
+import { NavigationStep, parseNavigationStep, PlannedStep, renderNavigationStep } from './navigationStep';
+
+const PLANNED: PlannedStep = { maneuver: 'left', distanceMeters: 40, street: 'Oak Lane' };
+
+const reply = (fields: Record<string, unknown>) => JSON.stringify({
+  maneuver: 'left',
+  direction: 'ahead',
+  distanceMeters: 35,
+  street: 'Oak Lane',
+  landmarks: [],
+  hazards: [],
+  confidence: 0.9,
+  ...fields,
+});
+
+const step = (fields: Partial<NavigationStep>): NavigationStep => ({
+  maneuver: 'left',
+  direction: 'ahead',
+  distanceMeters: 40,
+  street: 'Oak Lane',
+  landmarks: [],
+  hazards: [],
+  confidence: 0.9,
+  ...fields,
+});
+
+describe('parseNavigationStep', () => {
+  it.each([
+    ['prose', 'Turn left at the bakery.'],
+    ['truncated JSON', '{"maneuver": "left", "dist'],
+    ['an array', '[1, 2, 3]'],
+    ['a bare string', '"left"'],
+    ['null', 'null'],
+  ])('returns null for %s so the plan stands', (_name, text) => {
+    expect(parseNavigationStep(text, PLANNED)).toBeNull();
+  });
+
+  it('reads a reply wrapped in a code fence', () => {
+    expect(parseNavigationStep('```json\n' + reply({}) + '\n```', PLANNED)).toMatchObject({ maneuver: 'left', distanceMeters: 35 });
+  });
+
+  it('keeps the planned maneuver and lowers the confidence when the model disagrees', () => {
+    const parsed = parseNavigationStep(reply({ maneuver: 'right', confidence: 0.95 }), PLANNED)!;
+    expect(parsed.maneuver).toBe('left');
+    expect(parsed.confidence).toBeLessThan(0.5);
+  });
+
+  it.each([
+    ['far from the plan', 400],
+    ['negative and far off', -100],
+    ['not a number', 'forty'],
+    ['null', null],
+  ])('uses the planned distance when the estimate is %s', (_name, distanceMeters) => {
+    expect(parseNavigationStep(reply({ distanceMeters }), PLANNED)!.distanceMeters).toBe(40);
+  });
+
+  it('takes a close estimate over the planned distance', () => {
+    expect(parseNavigationStep(reply({ distanceMeters: 55 }), PLANNED)!.distanceMeters).toBe(55);
+  });
+
+  it('falls back field by field on missing or malformed values', () => {
+    const parsed = parseNavigationStep('{}', PLANNED)!;
+    expect(parsed).toEqual({
+      maneuver: 'left',
+      direction: 'ahead',
+      distanceMeters: 40,
+      street: 'Oak Lane',
+      landmarks: [],
+      hazards: [],
+      confidence: 0,
+    });
+    expect(parseNavigationStep(reply({ direction: 'upwards', confidence: 7, street: '  ' }), PLANNED)).toMatchObject({
+      direction: 'ahead',
+      confidence: 1,
+      street: 'Oak Lane',
+    });
+  });
+
+  it('orders hazards most severe first and keeps at most three', () => {
+    const parsed = parseNavigationStep(reply({
+      hazards: [
+        { description: 'puddle', severity: 'low' },
+        { description: 'bike on the pavement', severity: 'medium' },
+        { description: 'no description' },
+        { description: 'open manhole', severity: 'high' },
+        { description: '', severity: 'high' },
+        { description: 'scaffolding', severity: 'catastrophic' },
+        'a string, not a hazard',
+      ],
+    }), PLANNED)!;
+    // A hazard with an unknown severity is treated as medium
+    expect(parsed.hazards).toEqual([
+      { description: 'open manhole', severity: 'high' },
+      { description: 'bike on the pavement', severity: 'medium' },
+      { description: 'no description', severity: 'medium' },
+    ]);
+  });
+
+  it('keeps at most three landmarks, skipping empty ones', () => {
+    const parsed = parseNavigationStep(reply({ landmarks: ['', 'bakery', 42, ' bus stop ', 'church', 'kiosk'] }), PLANNED)!;
+    expect(parsed.landmarks).toEqual(['bakery', 'bus stop', 'church']);
+  });
+});
+
+describe('renderNavigationStep', () => {
+  const en = getTranslator('en');
+
+  it('gives the step with a rounded distance', () => {
+    expect(renderNavigationStep(step({ distanceMeters: 38 }), 'the bakery', en)).toBe('In 40 meters, turn left onto Oak Lane.');
+  });
+
+  it('puts urgent hazards first and minor ones last', () => {
+    const text = renderNavigationStep(step({
+      hazards: [
+        { description: 'open manhole ahead', severity: 'high' },
+        { description: 'cyclist on the left', severity: 'medium' },
+        { description: 'wet leaves', severity: 'low' },
+      ],
+      landmarks: ['a bakery', 'a bus stop'],
+    }), 'the bakery', en);
+    expect(text).toBe(
+      'Warning: open manhole ahead. Caution: cyclist on the left. In 40 meters, turn left onto Oak Lane. '
+      + 'Look for a bakery and a bus stop. Watch for wet leaves.',
+    );
+  });
+
+  it('says when the step is uncertain and which way to face', () => {
+    const text = renderNavigationStep(step({ confidence: 0.2, direction: 'behind', distanceMeters: 0 }), 'the bakery', en);
+    expect(text).toBe("Turn left onto Oak Lane. I'm not sure of this from the camera, so check before you go. The way on is behind you.");
+  });
+});
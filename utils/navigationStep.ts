@@ -0,0 +1,186 @@
+import { JsonSchema } from './aiProvider';
+import { MessageKey, Translator } from './i18n';
+import { describeManeuver, MANEUVER_TYPES, ManeuverType, stripCodeFence } from './routing';
+
+// The upcoming step of a route, checked by the model against the camera view.
+// The model answers in fields rather than prose, and the spoken and displayed
+// instruction is built from them here, so it stays one short step with
+// hazards first, whatever the model's style.
+
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+// Least to most severe.
+export const HAZARD_SEVERITIES: readonly HazardSeverity[] = ['low', 'medium', 'high'];
+
+export interface Hazard {
+  description: string;
+  severity: HazardSeverity;
+}
+
+// Where the way on lies relative to the camera's view.
+export type StepDirection = 'ahead' | 'left' | 'right' | 'behind';
+
+export const STEP_DIRECTIONS: readonly StepDirection[] = ['ahead', 'left', 'right', 'behind'];
+
+export interface NavigationStep {
+  maneuver: ManeuverType;
+  direction: StepDirection;
+  // Metres to the maneuver; 0 once the user is at it.
+  distanceMeters: number;
+  street?: string;
+  // Things in view that confirm the step.
+  landmarks: string[];
+  // Most severe first.
+  hazards: Hazard[];
+  // 0..1, how sure the model is of what it sees.
+  confidence: number;
+}
+
+// What the route says the step is, before the model has looked.
+export interface PlannedStep {
+  maneuver: ManeuverType;
+  distanceMeters: number;
+  street?: string;
+}
+
+// Below this the step is flagged as uncertain.
+export const LOW_CONFIDENCE = 0.5;
+
+// Caps on what is read out, so a busy scene doesn't become a speech.
+const MAX_LANDMARKS = 3;
+const MAX_HAZARDS = 3;
+
+export const NAVIGATION_STEP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    maneuver: { type: 'string', enum: [...MANEUVER_TYPES], description: 'The maneuver of the step.' },
+    direction: {
+      type: 'string',
+      enum: [...STEP_DIRECTIONS],
+      description: 'Where the way on lies relative to the camera view.',
+    },
+    distanceMeters: { type: 'number', description: 'Meters to the maneuver.' },
+    street: { type: 'string', description: 'Street the step leads onto, or an empty string.' },
+    landmarks: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Short names of visible landmarks or signs that confirm the step.',
+    },
+    hazards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string', description: 'A few words naming the hazard and where it is.' },
+          severity: { type: 'string', enum: [...HAZARD_SEVERITIES] },
+        },
+        required: ['description', 'severity'],
+      },
+      description: 'Obstacles or dangers in the walking path.',
+    },
+    confidence: { type: 'number', description: 'From 0 to 1, how clearly the view confirms the step.' },
+  },
+  required: ['maneuver', 'direction', 'distanceMeters', 'street', 'landmarks', 'hazards', 'confidence'],
+};
+
+// Spoken distances are rounded so they don't sound falsely precise.
+export const roundDistance = (meters: number) => Math.max(5, Math.round(meters / 5) * 5);
+
+export const lowerFirst = (text: string) => text.charAt(0).toLocaleLowerCase() + text.slice(1);
+
+const severityRank = (severity: HazardSeverity) => HAZARD_SEVERITIES.indexOf(severity);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// Reads the model's step, keeping the plan wherever a field is missing or
+// implausible. Null when the reply isn't a JSON object at all, in which case
+// the planned instruction stands.
+export const parseNavigationStep = (text: string, planned: PlannedStep): NavigationStep | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFence(text));
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+
+  // The route decides the maneuver; a model that disagrees has probably
+  // misread the view, so the step keeps the plan and is flagged
+  const maneuverAgrees = data.maneuver === planned.maneuver;
+  const direction = STEP_DIRECTIONS.includes(data.direction as StepDirection) ? data.direction as StepDirection : 'ahead';
+
+  // The distance comes from GPS; an estimate from the image only replaces it
+  // when close
+  const distance = typeof data.distanceMeters === 'number' && Number.isFinite(data.distanceMeters) ? data.distanceMeters : NaN;
+  const plausible = Math.abs(distance - planned.distanceMeters) <= Math.max(20, planned.distanceMeters / 2);
+
+  const landmarks = (Array.isArray(data.landmarks) ? data.landmarks : [])
+    .map(cleanString)
+    .filter(Boolean)
+    .slice(0, MAX_LANDMARKS);
+
+  // A hazard with no usable severity counts as medium, erring towards a warning
+  const hazards = (Array.isArray(data.hazards) ? data.hazards : [])
+    .filter(isRecord)
+    .map((raw): Hazard => ({
+      description: cleanString(raw.description),
+      severity: HAZARD_SEVERITIES.includes(raw.severity as HazardSeverity) ? raw.severity as HazardSeverity : 'medium',
+    }))
+    .filter(h => h.description)
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity))
+    .slice(0, MAX_HAZARDS);
+
+  const rawConfidence = typeof data.confidence === 'number' && Number.isFinite(data.confidence) ? data.confidence : 0;
+  const confidence = Math.min(1, Math.max(0, rawConfidence));
+
+  return {
+    maneuver: planned.maneuver,
+    direction,
+    distanceMeters: plausible ? Math.max(0, distance) : planned.distanceMeters,
+    street: cleanString(data.street) || planned.street,
+    landmarks,
+    hazards,
+    confidence: maneuverAgrees ? confidence : Math.min(confidence, LOW_CONFIDENCE / 2),
+  };
+};
+
+export const isLowConfidence = (step: NavigationStep): boolean => step.confidence < LOW_CONFIDENCE;
+
+// Hazards worth interrupting for, as opposed to ones mentioned in passing.
+export const urgentHazards = (step: NavigationStep): Hazard[] => step.hazards.filter(h => h.severity !== 'low');
+
+const HAZARD_MESSAGES: Record<HazardSeverity, MessageKey> = {
+  high: 'nav.hazard.high',
+  medium: 'nav.hazard.medium',
+  low: 'nav.hazard.low',
+};
+
+const DIRECTION_MESSAGES: Record<Exclude<StepDirection, 'ahead'>, MessageKey> = {
+  left: 'nav.direction.left',
+  right: 'nav.direction.right',
+  behind: 'nav.direction.behind',
+};
+
+// The spoken instruction: urgent hazards, the step itself, whether it is
+// uncertain, which way to face, landmarks to look for, then minor hazards.
+export const renderNavigationStep = (step: NavigationStep, destination: string, translator: Translator): string => {
+  const { t } = translator;
+  const instruction = describeManeuver(step.maneuver, step.street, destination, translator);
+  const sentences = [
+    ...urgentHazards(step).map(h => t(HAZARD_MESSAGES[h.severity], { hazard: h.description })),
+    step.distanceMeters >= 5
+      ? t('route.inDistance', { count: roundDistance(step.distanceMeters), instruction: lowerFirst(instruction) })
+      : instruction,
+    isLowConfidence(step) ? t('nav.lowConfidence') : '',
+    step.direction !== 'ahead' ? t(DIRECTION_MESSAGES[step.direction]) : '',
+    step.landmarks.length > 0 ? t('nav.landmarks', { landmarks: translator.list(step.landmarks) }) : '',
+    ...step.hazards.filter(h => h.severity === 'low').map(h => t(HAZARD_MESSAGES.low, { hazard: h.description })),
+  ];
+  return sentences
+    .filter(Boolean)
+    .map(s => /[.!?]$/.test(s) ? s : `${s}.`)
+    .join(' ');
+};
@@ -0,0 +1,91 @@
+// Typical real-world dimensions of the COCO-SSD classes, in meters, used to
+// turn a bounding box into a rough distance. `height` is the extent that is
+// vertical in a typical view, `width` the horizontal one as usually seen.
+// These are ballpark figures; a chair can be a stool or an armchair.
+export interface ObjectSize {
+  height: number;
+  width: number;
+}
+
+export const COCO_OBJECT_SIZES: Record<string, ObjectSize> = {
+  'person': { height: 1.7, width: 0.5 },
+  'bicycle': { height: 1.0, width: 1.7 },
+  'car': { height: 1.5, width: 4.3 },
+  'motorcycle': { height: 1.1, width: 2.0 },
+  'airplane': { height: 10, width: 35 },
+  'bus': { height: 3.2, width: 11 },
+  'train': { height: 4.0, width: 20 },
+  'truck': { height: 3.0, width: 7.0 },
+  'boat': { height: 2.0, width: 6.0 },
+  'traffic light': { height: 1.0, width: 0.35 },
+  'fire hydrant': { height: 0.75, width: 0.4 },
+  'stop sign': { height: 0.75, width: 0.75 },
+  'parking meter': { height: 1.4, width: 0.3 },
+  'bench': { height: 0.85, width: 1.5 },
+  'bird': { height: 0.25, width: 0.25 },
+  'cat': { height: 0.3, width: 0.45 },
+  'dog': { height: 0.6, width: 0.8 },
+  'horse': { height: 1.6, width: 2.4 },
+  'sheep': { height: 0.9, width: 1.2 },
+  'cow': { height: 1.4, width: 2.2 },
+  'elephant': { height: 3.0, width: 5.0 },
+  'bear': { height: 1.2, width: 1.8 },
+  'zebra': { height: 1.4, width: 2.2 },
+  'giraffe': { height: 5.0, width: 2.5 },
+  'backpack': { height: 0.5, width: 0.3 },
+  'umbrella': { height: 1.0, width: 1.0 },
+  'handbag': { height: 0.3, width: 0.35 },
+  'tie': { height: 0.5, width: 0.08 },
+  'suitcase': { height: 0.65, width: 0.45 },
+  'frisbee': { height: 0.05, width: 0.25 },
+  'skis': { height: 1.7, width: 0.1 },
+  'snowboard': { height: 1.5, width: 0.3 },
+  'sports ball': { height: 0.22, width: 0.22 },
+  'kite': { height: 1.0, width: 1.0 },
+  'baseball bat': { height: 0.85, width: 0.07 },
+  'baseball glove': { height: 0.3, width: 0.25 },
+  'skateboard': { height: 0.12, width: 0.8 },
+  'surfboard': { height: 2.0, width: 0.55 },
+  'tennis racket': { height: 0.68, width: 0.27 },
+  'bottle': { height: 0.25, width: 0.07 },
+  'wine glass': { height: 0.2, width: 0.08 },
+  'cup': { height: 0.1, width: 0.08 },
+  'fork': { height: 0.19, width: 0.03 },
+  'knife': { height: 0.22, width: 0.03 },
+  'spoon': { height: 0.17, width: 0.04 },
+  'bowl': { height: 0.08, width: 0.16 },
+  'banana': { height: 0.04, width: 0.2 },
+  'apple': { height: 0.08, width: 0.08 },
+  'sandwich': { height: 0.06, width: 0.15 },
+  'orange': { height: 0.08, width: 0.08 },
+  'broccoli': { height: 0.15, width: 0.12 },
+  'carrot': { height: 0.03, width: 0.18 },
+  'hot dog': { height: 0.05, width: 0.18 },
+  'pizza': { height: 0.04, width: 0.3 },
+  'donut': { height: 0.04, width: 0.1 },
+  'cake': { height: 0.12, width: 0.25 },
+  'chair': { height: 0.9, width: 0.5 },
+  'couch': { height: 0.85, width: 2.0 },
+  'potted plant': { height: 0.6, width: 0.4 },
+  'bed': { height: 0.6, width: 1.6 },
+  'dining table': { height: 0.75, width: 1.5 },
+  'toilet': { height: 0.75, width: 0.4 },
+  'tv': { height: 0.6, width: 1.0 },
+  'laptop': { height: 0.23, width: 0.33 },
+  'mouse': { height: 0.04, width: 0.06 },
+  'remote': { height: 0.03, width: 0.18 },
+  'keyboard': { height: 0.03, width: 0.45 },
+  'cell phone': { height: 0.15, width: 0.07 },
+  'microwave': { height: 0.3, width: 0.5 },
+  'oven': { height: 0.85, width: 0.6 },
+  'toaster': { height: 0.2, width: 0.3 },
+  'sink': { height: 0.2, width: 0.55 },
+  'refrigerator': { height: 1.8, width: 0.7 },
+  'book': { height: 0.23, width: 0.16 },
+  'clock': { height: 0.3, width: 0.3 },
+  'vase': { height: 0.3, width: 0.15 },
+  'scissors': { height: 0.2, width: 0.08 },
+  'teddy bear': { height: 0.35, width: 0.25 },
+  'hair drier': { height: 0.25, width: 0.25 },
+  'toothbrush': { height: 0.19, width: 0.02 },
+};
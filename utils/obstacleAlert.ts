@@ -0,0 +1,225 @@
+import { FrameSize, HorizontalPosition, positionFor } from './spatial';
+import { area, BBox, Track } from './tracker';
+
+// Decides when something in the user's walking path is worth an alarm. Only
+// objects in the "walking corridor", the lower-central part of the frame the
+// user is about to walk through, count, and only while they are getting
+// closer. Closing speed comes from how fast a box grows: for an object
+// approaching at a steady speed, apparent area goes with 1/distance², so the
+// growth rate r of ln(area) per second gives the time to contact as 2 / r.
+// Everything stays quiet until an object is on course to reach the user.
+
+export type AlertLevel = 'none' | 'caution' | 'warning' | 'danger';
+
+// Least to most urgent.
+export const ALERT_LEVELS: readonly AlertLevel[] = ['none', 'caution', 'warning', 'danger'];
+
+export interface ObstacleAlert {
+  level: AlertLevel;
+  trackId: number;
+  label: string;
+  bbox: BBox;
+  position: HorizontalPosition;
+  // Centre of the box, 0 (left edge) to 1 (right edge).
+  centerX: number;
+  secondsToContact: number;
+}
+
+// A region of the frame in fractions of its width and height.
+export interface FrameRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface ObstacleAlertOptions {
+  corridor: FrameRegion;
+  // Share of a box that must lie in the corridor for it to be in the path.
+  minCorridorOverlap: number;
+  // COCO classes treated as hazards to walk into.
+  hazardClasses: readonly string[];
+  // Time to contact at or below which each level applies.
+  cautionSeconds: number;
+  warningSeconds: number;
+  dangerSeconds: number;
+  // How far back growth is measured, and how much of it is needed.
+  growthWindowMs: number;
+  minGrowthSpanMs: number;
+  minGrowthSamples: number;
+  // A danger that persists is repeated this often.
+  repeatDangerMs: number;
+  // Minimum gap between two alerts that don't raise the level.
+  minAlertGapMs: number;
+}
+
+export const DEFAULT_OBSTACLE_ALERT_OPTIONS: ObstacleAlertOptions = {
+  corridor: { left: 0.25, top: 0.35, right: 0.75, bottom: 1 },
+  minCorridorOverlap: 0.3,
+  // COCO has no class for bare poles; the sign, light, meter and hydrant
+  // classes catch the street furniture most poles carry.
+  hazardClasses: [
+    'person', 'bicycle', 'motorcycle', 'car', 'bus', 'truck', 'dog', 'horse',
+    'fire hydrant', 'stop sign', 'parking meter', 'traffic light', 'bench', 'chair', 'potted plant', 'suitcase',
+  ],
+  cautionSeconds: 4,
+  warningSeconds: 2.5,
+  dangerSeconds: 1.2,
+  growthWindowMs: 1500,
+  minGrowthSpanMs: 300,
+  minGrowthSamples: 3,
+  repeatDangerMs: 2000,
+  minAlertGapMs: 1000,
+};
+
+interface AreaSample {
+  timestamp: number;
+  logArea: number;
+}
+
+interface TrackState {
+  samples: AreaSample[];
+  // The level last alerted for this track; lowered again as it recedes.
+  alerted: AlertLevel;
+  alertedAt: number;
+  lastSeen: number;
+}
+
+const levelRank = (level: AlertLevel) => ALERT_LEVELS.indexOf(level);
+
+// Share of `box` inside `region`, both in pixels of `frame`.
+export const corridorOverlap = ([x, y, w, h]: BBox, frame: FrameSize, region: FrameRegion): number => {
+  if (w <= 0 || h <= 0) return 0;
+  const left = Math.max(x, region.left * frame.width);
+  const right = Math.min(x + w, region.right * frame.width);
+  const top = Math.max(y, region.top * frame.height);
+  const bottom = Math.min(y + h, region.bottom * frame.height);
+  return Math.max(0, right - left) * Math.max(0, bottom - top) / (w * h);
+};
+
+// Least-squares slope of ln(area) against time, per second.
+export const growthRate = (samples: AreaSample[]): number => {
+  const n = samples.length;
+  if (n < 2) return 0;
+  const meanT = samples.reduce((sum, s) => sum + s.timestamp, 0) / n;
+  const meanA = samples.reduce((sum, s) => sum + s.logArea, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (const { timestamp, logArea } of samples) {
+    covariance += (timestamp - meanT) * (logArea - meanA);
+    variance += (timestamp - meanT) ** 2;
+  }
+  return variance > 0 ? (covariance / variance) * 1000 : 0;
+};
+
+export class ObstacleMonitor {
+  private readonly options: ObstacleAlertOptions;
+  private readonly hazardClasses: Set<string>;
+  private states = new Map<number, TrackState>();
+  private lastAlertAt = -Infinity;
+
+  constructor(options: Partial<ObstacleAlertOptions> = {}) {
+    this.options = { ...DEFAULT_OBSTACLE_ALERT_OPTIONS, ...options };
+    this.hazardClasses = new Set(this.options.hazardClasses);
+  }
+
+  reset(): void {
+    this.states.clear();
+    this.lastAlertAt = -Infinity;
+  }
+
+  // The one alert worth giving this frame, or null to stay silent. An alert
+  // goes out when an object reaches a higher level than it was last alerted
+  // at, and a danger is repeated while it lasts.
+  update(tracks: Track[], frame: FrameSize, timestamp: number): ObstacleAlert | null {
+    const assessed = this.assess(tracks, frame, timestamp);
+    const inPath = new Set(assessed.map(a => a.trackId));
+    // Objects that stopped closing in can raise the alarm again later, once
+    // they have been clear for a moment so one hovering at a threshold
+    // doesn't chatter
+    for (const [id, state] of this.states) {
+      if (!inPath.has(id) && timestamp - state.alertedAt >= this.options.repeatDangerMs) state.alerted = 'none';
+    }
+    for (const alert of assessed) {
+      const state = this.states.get(alert.trackId)!;
+      const escalated = levelRank(alert.level) > levelRank(state.alerted);
+      const repeated = alert.level === 'danger' && timestamp - state.alertedAt >= this.options.repeatDangerMs;
+      if (!escalated && !repeated) continue;
+      // Escalation to danger always gets through; anything else waits its turn
+      if (alert.level !== 'danger' && timestamp - this.lastAlertAt < this.options.minAlertGapMs) return null;
+      state.alerted = alert.level;
+      state.alertedAt = timestamp;
+      this.lastAlertAt = timestamp;
+      return alert;
+    }
+    return null;
+  }
+
+  // Every object in the path that is closing in, most urgent first, whether
+  // or not it is due an alert.
+  private assess(tracks: Track[], frame: FrameSize, timestamp: number): ObstacleAlert[] {
+    const { corridor, minCorridorOverlap, growthWindowMs } = this.options;
+    const assessed: ObstacleAlert[] = [];
+    for (const track of tracks) {
+      if (!this.hazardClasses.has(track.label)) continue;
+      const state = this.stateFor(track.id, timestamp);
+      const size = area(track.bbox);
+      if (size > 0) state.samples.push({ timestamp, logArea: Math.log(size) });
+      while (state.samples.length > 0 && state.samples[0].timestamp < timestamp - growthWindowMs) state.samples.shift();
+
+      if (corridorOverlap(track.bbox, frame, corridor) < minCorridorOverlap) continue;
+      const secondsToContact = this.secondsToContact(state.samples);
+      const centerX = frame.width > 0 ? (track.bbox[0] + track.bbox[2] / 2) / frame.width : 0.5;
+      assessed.push({
+        level: this.levelFor(secondsToContact),
+        trackId: track.id,
+        label: track.label,
+        bbox: [...track.bbox],
+        position: positionFor(centerX),
+        centerX,
+        secondsToContact,
+      });
+    }
+    this.forgetStale(timestamp);
+    return assessed
+      .filter(a => a.level !== 'none')
+      .sort((a, b) => levelRank(b.level) - levelRank(a.level) || a.secondsToContact - b.secondsToContact);
+  }
+
+  private stateFor(id: number, timestamp: number): TrackState {
+    let state = this.states.get(id);
+    if (!state) {
+      state = { samples: [], alerted: 'none', alertedAt: -Infinity, lastSeen: timestamp };
+      this.states.set(id, state);
+    }
+    state.lastSeen = timestamp;
+    return state;
+  }
+
+  // Infinity when the object isn't measurably getting closer.
+  private secondsToContact(samples: AreaSample[]): number {
+    const { minGrowthSamples, minGrowthSpanMs } = this.options;
+    if (samples.length < minGrowthSamples) return Infinity;
+    if (samples[samples.length - 1].timestamp - samples[0].timestamp < minGrowthSpanMs) return Infinity;
+    const rate = growthRate(samples);
+    if (rate <= 0) return Infinity;
+    // The fit gives the time to contact as of the window's mean time; the
+    // object has been closing in since then
+    const meanT = samples.reduce((sum, s) => sum + s.timestamp, 0) / samples.length;
+    return Math.max(0, 2 / rate - (samples[samples.length - 1].timestamp - meanT) / 1000);
+  }
+
+  private levelFor(secondsToContact: number): AlertLevel {
+    const { cautionSeconds, warningSeconds, dangerSeconds } = this.options;
+    if (secondsToContact <= dangerSeconds) return 'danger';
+    if (secondsToContact <= warningSeconds) return 'warning';
+    if (secondsToContact <= cautionSeconds) return 'caution';
+    return 'none';
+  }
+
+  private forgetStale(timestamp: number): void {
+    for (const [id, state] of this.states) {
+      if (timestamp - state.lastSeen > this.options.growthWindowMs) this.states.delete(id);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+// Must match MODEL_CACHE in public/sw.js.
+const MODEL_CACHE = 'haptinav-models';
+
+// Where a model is going to be loaded from, as far as we can tell up front.
+export type ModelAvailability = 'cached' | 'network' | 'unavailable';
+
+export const registerServiceWorker = (): void => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.error("Service worker registration failed:", err);
+    });
+  });
+};
+
+export const isModelCached = async (modelUrls: readonly string[]): Promise<boolean> => {
+  if (typeof caches === 'undefined') return false;
+  try {
+    const cache = await caches.open(MODEL_CACHE);
+    for (const url of modelUrls) {
+      if (await cache.match(new URL(url, window.location.href).toString())) {
+        return true;
+      }
+    }
+  } catch (err) {
+    // Cache Storage is unavailable in some private browsing modes.
+    console.warn("Could not inspect the model cache:", err);
+  }
+  return false;
+};
+
+export const checkModelAvailability = async (modelUrls: readonly string[]): Promise<ModelAvailability> => {
+  if (modelUrls.length === 0 || await isModelCached(modelUrls)) return 'cached';
+  return navigator.onLine ? 'network' : 'unavailable';
+};
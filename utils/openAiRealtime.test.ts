@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAiRealtimeTransport } from './openAiRealtime';
+
+// Just the part of WebSocket the transport uses; the test plays the server.
+class FakeWebSocket {
+  static last: FakeWebSocket;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+
+  constructor() {
+    FakeWebSocket.last = this;
+  }
+
+  send() {}
+  close() {}
+
+  receive(data: string) {
+    this.onmessage?.({ data });
+  }
+}
+
+const connect = async () => {
+  const callbacks = { onopen: vi.fn(), onmessage: vi.fn(), onerror: vi.fn(), onclose: vi.fn() };
+  const session = new OpenAiRealtimeTransport('wss://realtime.test/v1').connect({ model: 'test', config: {} }, callbacks);
+  FakeWebSocket.last.onopen?.();
+  await session;
+  return { socket: FakeWebSocket.last, callbacks };
+};
+
+describe('OpenAiRealtimeTransport', () => {
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('ignores malformed events', async () => {
+    const { socket, callbacks } = await connect();
+    socket.receive('{not json');
+    socket.receive('"just a string"');
+    expect(callbacks.onerror).not.toHaveBeenCalled();
+    expect(callbacks.onmessage).not.toHaveBeenCalled();
+  });
+
+  it('keeps the session after an error about one event', async () => {
+    const { socket, callbacks } = await connect();
+    socket.receive(JSON.stringify({ type: 'error', error: { type: 'invalid_request_error', message: 'Unknown parameter' } }));
+    expect(callbacks.onerror).not.toHaveBeenCalled();
+
+    socket.receive(JSON.stringify({ type: 'response.done' }));
+    expect(callbacks.onmessage).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    [{ type: 'server_error', message: 'Internal error' }],
+    [{ type: 'invalid_request_error', code: 'session_expired', message: 'Session expired' }],
+  ])('reports a fatal error %o', async (error) => {
+    const { socket, callbacks } = await connect();
+    socket.receive(JSON.stringify({ type: 'error', error }));
+    expect(callbacks.onerror).toHaveBeenCalledWith(new Error(error.message));
+  });
+});
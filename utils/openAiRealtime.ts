@@ -0,0 +1,143 @@
+import { LiveConnectConfig, LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { LiveConnectOptions, liveServerMessage, LiveTransport, LiveTransportCallbacks, LiveTransportSession } from './liveSession';
+
+// Runs a live session against an OpenAI Realtime-compatible WebSocket,
+// translating to and from the Live API messages LiveSessionController and
+// SceneDescriptorMode already understand.
+
+interface RealtimeEvent {
+  type: string;
+  delta?: string;
+  transcript?: string;
+  error?: { type?: string; code?: string; message?: string };
+}
+
+// Most error events answer one bad client event (an unsupported parameter, a
+// frame too large) and leave the session running. Only these end it.
+const isFatalError = (error: RealtimeEvent['error']): boolean =>
+  error?.type === 'server_error' || error?.code === 'session_expired';
+
+const parseEvent = (data: string): RealtimeEvent | null => {
+  try {
+    const event: unknown = JSON.parse(data);
+    return typeof event === 'object' && event !== null && typeof (event as RealtimeEvent).type === 'string'
+      ? event as RealtimeEvent
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// The system instruction as plain text, whichever form it was given in.
+const instructionText = (instruction: LiveConnectConfig['systemInstruction']): string => {
+  if (!instruction) return '';
+  if (typeof instruction === 'string') return instruction;
+  const parts = Array.isArray(instruction) ? instruction : 'parts' in instruction ? instruction.parts ?? [] : [instruction];
+  return parts.map(part => typeof part === 'string' ? part : part.text ?? '').join('\n');
+};
+
+// What each server event means to the Live API's consumers. Events with no
+// counterpart are dropped.
+const toLiveMessage = (event: RealtimeEvent): LiveServerMessage | null => {
+  switch (event.type) {
+    case 'response.output_audio.delta':
+      return liveServerMessage({ modelTurn: { parts: [{ inlineData: { data: event.delta, mimeType: `audio/pcm;rate=${OpenAiRealtimeTransport.SAMPLE_RATE}` } }] } });
+    case 'response.output_audio_transcript.delta':
+      return liveServerMessage({ outputTranscription: { text: event.delta } });
+    case 'conversation.item.input_audio_transcription.completed':
+      return liveServerMessage({ inputTranscription: { text: event.transcript } });
+    case 'input_audio_buffer.speech_started':
+      // The user talking over the reply cuts it off, as with Gemini
+      return liveServerMessage({ interrupted: true });
+    case 'response.done':
+      return liveServerMessage({ turnComplete: true });
+    default:
+      return null;
+  }
+};
+
+export class OpenAiRealtimeTransport implements LiveTransport {
+  // Realtime audio is 24 kHz PCM both ways.
+  static readonly SAMPLE_RATE = 24000;
+
+  constructor(private readonly url: string, private readonly apiKey = '') {}
+
+  connect({ model, config }: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportSession> {
+    const url = new URL(this.url);
+    url.searchParams.set('model', model);
+    // Browsers can't set headers on a WebSocket, so the key rides in a subprotocol
+    const protocols = this.apiKey ? ['realtime', `openai-insecure-api-key.${this.apiKey}`] : ['realtime'];
+    const socket = new WebSocket(url, protocols);
+    const send = (event: object) => socket.send(JSON.stringify(event));
+
+    return new Promise((resolve, reject) => {
+      let open = false;
+      socket.onopen = () => {
+        open = true;
+        send({
+          type: 'session.update',
+          session: {
+            type: 'realtime',
+            instructions: instructionText(config.systemInstruction),
+            output_modalities: ['audio'],
+            audio: {
+              input: {
+                format: { type: 'audio/pcm', rate: OpenAiRealtimeTransport.SAMPLE_RATE },
+                transcription: config.inputAudioTranscription ? { model: 'gpt-4o-mini-transcribe' } : undefined,
+                turn_detection: { type: 'server_vad' },
+              },
+              output: { format: { type: 'audio/pcm', rate: OpenAiRealtimeTransport.SAMPLE_RATE } },
+            },
+          },
+        });
+        callbacks.onopen();
+        resolve({
+          sendRealtimeInput: (input) => this.sendInput(input, send),
+          close: () => socket.close(),
+        });
+      };
+      socket.onmessage = (event: MessageEvent<string>) => {
+        const data = parseEvent(event.data);
+        if (!data) {
+          console.warn("Ignoring malformed realtime event:", event.data);
+          return;
+        }
+        if (data.type === 'error') {
+          if (isFatalError(data.error)) callbacks.onerror(new Error(data.error?.message ?? 'Realtime error'));
+          else console.warn("Realtime server rejected an event:", data.error?.message);
+          return;
+        }
+        const message = toLiveMessage(data);
+        if (message) callbacks.onmessage(message);
+      };
+      socket.onerror = () => {
+        if (!open) reject(new Error(`Could not connect to ${this.url}`));
+        else callbacks.onerror(new Error('Realtime connection error'));
+      };
+      socket.onclose = (event) => {
+        if (!open) reject(new Error(`Realtime connection closed (${event.code})`));
+        else callbacks.onclose(event);
+      };
+    });
+  }
+
+  private sendInput(input: LiveSendRealtimeInputParameters, send: (event: object) => void): void {
+    const media = input.media as { data?: string; mimeType?: string } | undefined;
+    if (media?.data && media.mimeType?.startsWith('audio/pcm')) {
+      send({ type: 'input_audio_buffer.append', audio: media.data });
+    } else if (media?.data && media.mimeType?.startsWith('image/')) {
+      // Frames join the conversation for the next reply to look at
+      send({
+        type: 'conversation.item.create',
+        item: { type: 'message', role: 'user', content: [{ type: 'input_image', image_url: `data:${media.mimeType};base64,${media.data}` }] },
+      });
+    }
+    if (input.text) {
+      send({
+        type: 'conversation.item.create',
+        item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: input.text }] },
+      });
+      send({ type: 'response.create' });
+    }
+  }
+}
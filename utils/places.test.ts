@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { PlacesStore } from './places';
+
+const PHARMACY = { name: 'Farmacia Central', location: { lat: 40.4168, lng: -3.7038 } };
+const HOUSE = { name: 'Calle Mayor 5', location: { lat: 40.4155, lng: -3.7074 } };
+
+describe('PlacesStore.findSaved', () => {
+  const store = new PlacesStore({ storage: null });
+  store.saveFavorite('The pharmacy', PHARMACY);
+  store.saveFavorite('Mi casa', HOUSE);
+  store.addRecent({ name: 'The Old Library', location: { lat: 40.42, lng: -3.7 } });
+
+  it.each(['the pharmacy', 'pharmacy', 'The Pharmacy.', 'my pharmacy'])('finds a favorite saved with an article: %s', (query) => {
+    expect(store.findSaved(query)).toEqual({ name: 'The pharmacy', location: PHARMACY.location });
+  });
+
+  it.each(['mi casa', 'casa', 'Mí casa'])('finds a Spanish favorite: %s', (query) => {
+    expect(store.findSaved(query)?.name).toBe('Mi casa');
+  });
+
+  it('finds a favorite by the place name', () => {
+    expect(store.findSaved('farmacia central')?.name).toBe('The pharmacy');
+  });
+
+  it('finds a recent place with or without its article', () => {
+    expect(store.findSaved('old library')?.name).toBe('The Old Library');
+    expect(store.findSaved('the old library')?.name).toBe('The Old Library');
+  });
+
+  it('finds nothing for an unknown place or a bare article', () => {
+    expect(store.findSaved('the station')).toBeNull();
+    expect(store.findSaved('the')).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+import { distanceMeters, isValidLatLng, LatLng } from './geo';
+import { Geocoder, normalizePlaceName, parseCoordinates, Place } from './geocoder';
+import { Language, Translator } from './i18n';
+import { KeyValueStorage, readJson, safeLocalStorage, writeJson } from './storage';
+
+// Favorites ("Home", "Work", "the pharmacy") and recent destinations, and
+// turning what the user typed or said into one place to navigate to.
+
+export interface Favorite extends Place {
+  // What the user calls it; unique, ignoring case and accents.
+  label: string;
+}
+
+export interface RecentPlace extends Place {
+  // Epoch milliseconds of the last trip there.
+  usedAt: number;
+}
+
+export interface PlacesState {
+  favorites: Favorite[];
+  // Most recent first.
+  recents: RecentPlace[];
+}
+
+export interface PlacesStoreOptions {
+  // Pass null to keep places in memory only.
+  storage?: KeyValueStorage | null;
+  maxRecents?: number;
+  now?: () => number;
+}
+
+const STORAGE_KEY = 'haptinav.places';
+
+// Trips to within this of a recent place update it instead of adding another.
+const SAME_PLACE_METERS = 30;
+
+// "the pharmacy", "mi casa", "ma maison": said before a saved label but not part of it.
+const LEADING_ARTICLE = /^(?:the|my|el|la|los|las|mi|mis|le|les|ma|mon|mes) /;
+
+// What a spoken query and a saved label or name are compared by, so "the
+// pharmacy", "pharmacy" and a favorite saved as "The pharmacy" all meet.
+const lookupKey = (name: string) => normalizePlaceName(name).replace(LEADING_ARTICLE, '');
+
+const isPlace = (value: unknown): value is Place => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, location, address } = value as Record<string, unknown>;
+  return typeof name === 'string' && isValidLatLng(location) && (address === undefined || typeof address === 'string');
+};
+
+const isSamePlace = (a: Place, b: Place) =>
+  normalizePlaceName(a.name) === normalizePlaceName(b.name) && distanceMeters(a.location, b.location) <= SAME_PLACE_METERS;
+
+export class PlacesStore {
+  private state: PlacesState;
+  private listeners = new Set<(state: PlacesState) => void>();
+  private readonly storage: KeyValueStorage | null;
+  private readonly maxRecents: number;
+  private readonly now: () => number;
+
+  constructor(options: PlacesStoreOptions = {}) {
+    this.storage = options.storage === undefined ? safeLocalStorage() : options.storage;
+    this.maxRecents = options.maxRecents ?? 10;
+    this.now = options.now ?? Date.now;
+    const stored = readJson<Partial<PlacesState>>(this.storage, STORAGE_KEY);
+    this.state = {
+      favorites: Array.isArray(stored?.favorites)
+        ? stored.favorites.filter((f): f is Favorite => isPlace(f) && typeof f.label === 'string')
+        : [],
+      recents: Array.isArray(stored?.recents)
+        ? stored.recents.filter((r): r is RecentPlace => isPlace(r) && typeof r.usedAt === 'number')
+        : [],
+    };
+  }
+
+  getState(): PlacesState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: PlacesState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Saves `place` under `label`, replacing any favorite with the same label.
+  saveFavorite(label: string, place: Place): void {
+    const trimmed = label.trim();
+    if (!trimmed) throw new Error('A favorite needs a label');
+    const key = normalizePlaceName(trimmed);
+    const favorite: Favorite = { label: trimmed, name: place.name, location: place.location, address: place.address };
+    this.commit({
+      ...this.state,
+      favorites: [...this.state.favorites.filter(f => normalizePlaceName(f.label) !== key), favorite],
+    });
+  }
+
+  removeFavorite(label: string): void {
+    const key = normalizePlaceName(label);
+    this.commit({ ...this.state, favorites: this.state.favorites.filter(f => normalizePlaceName(f.label) !== key) });
+  }
+
+  addRecent(place: Place): void {
+    const recent: RecentPlace = { name: place.name, location: place.location, address: place.address, usedAt: this.now() };
+    this.commit({
+      ...this.state,
+      recents: [recent, ...this.state.recents.filter(r => !isSamePlace(r, place))].slice(0, this.maxRecents),
+    });
+  }
+
+  clearRecents(): void {
+    this.commit({ ...this.state, recents: [] });
+  }
+
+  // A favorite whose label or name is `query`, then a recent place with that
+  // name, so "home" or "the pharmacy" skip the geocoder.
+  findSaved(query: string): Place | null {
+    const wanted = lookupKey(query);
+    if (!wanted) return null;
+    const favorite = this.state.favorites.find(f => lookupKey(f.label) === wanted) ??
+      this.state.favorites.find(f => lookupKey(f.name) === wanted);
+    if (favorite) return { name: favorite.label, location: favorite.location, address: favorite.address };
+    return this.state.recents.find(r => lookupKey(r.name) === wanted) ?? null;
+  }
+
+  private commit(state: PlacesState): void {
+    this.state = state;
+    writeJson(this.storage, STORAGE_KEY, state);
+    for (const listener of this.listeners) listener(state);
+  }
+}
+
+export type Resolution =
+  | { type: 'resolved'; place: Place }
+  | { type: 'ambiguous'; candidates: Place[] }
+  | { type: 'notFound' };
+
+export interface ResolveOptions {
+  geocoder: Geocoder;
+  places: PlacesStore;
+  near?: LatLng | null;
+  language: Language;
+  // Most candidates offered when several places match; more is too much to listen to.
+  maxCandidates?: number;
+}
+
+// Coordinates, then saved places, then the geocoder. Matches that are the
+// same place under slightly different entries are merged; if distinct places
+// remain, the user has to pick one.
+export const resolveDestination = async (query: string, options: ResolveOptions): Promise<Resolution> => {
+  const text = query.trim();
+  if (!text) return { type: 'notFound' };
+
+  const coordinates = parseCoordinates(text);
+  if (coordinates) return { type: 'resolved', place: { name: text, location: coordinates } };
+
+  const saved = options.places.findSaved(text);
+  if (saved) return { type: 'resolved', place: saved };
+
+  const results = await options.geocoder.search({ query: text, near: options.near, language: options.language });
+  const distinct = results.filter((place, i) =>
+    !results.slice(0, i).some(other => distanceMeters(other.location, place.location) <= SAME_PLACE_METERS));
+  if (distinct.length === 0) return { type: 'notFound' };
+  if (distinct.length === 1) return { type: 'resolved', place: distinct[0] };
+  return { type: 'ambiguous', candidates: distinct.slice(0, options.maxCandidates ?? 3) };
+};
+
+// One option read out in a list: name, then whatever tells it apart.
+export const describePlace = (place: Place, near: LatLng | null, translator: Translator): string => {
+  const details: string[] = [];
+  if (place.address) details.push(place.address);
+  if (near) {
+    const meters = distanceMeters(near, place.location);
+    details.push(meters >= 1000
+      ? translator.t('places.kilometersAway', { count: Math.round(meters / 100) / 10 })
+      : translator.t('distance.meters', { count: Math.max(10, Math.round(meters / 10) * 10) }));
+  }
+  return details.length > 0 ? `${place.name}, ${details.join(', ')}` : place.name;
+};
+
+// "I found 3 places. 1: ... 2: ... Say the number of the one you want."
+export const describeCandidates = (candidates: Place[], near: LatLng | null, translator: Translator): string => {
+  const options = candidates.map((place, i) =>
+    translator.t('places.option', { number: i + 1, place: describePlace(place, near, translator) }));
+  return [translator.t('places.found', { count: candidates.length }), ...options, translator.t('places.choose')].join(' ');
+};
+
+let defaultStore: PlacesStore | null = null;
+
+// The app-wide places backed by localStorage.
+export const getPlacesStore = (): PlacesStore => {
+  if (!defaultStore) {
+    defaultStore = new PlacesStore();
+  }
+  return defaultStore;
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { GeoJsonFeature, GeoJsonFeatureCollection, LatLng, offsetMeters } from './geo';
+import { RouteEvent, RouteTracker } from './routeTracker';
+import { GraphRoutingProvider, Route } from './routing';
+
+// A small walking network, in metres east and north of ORIGIN:
+//
+//        C (0, 300)
+//        |  Main Street
+//        A (0, 200) ── Oak Lane ── B (150, 200)
+//        |  Main Street
+//        O (0, 0)                          X (500, 0) ── Island Walk ── Y (600, 0)
+//
+// X–Y is not connected to the rest.
+const ORIGIN: LatLng = { lat: 40.4168, lng: -3.7038 };
+const at = (east: number, north: number) => offsetMeters(ORIGIN, east, north);
+
+const way = (name: string, ...points: [number, number][]): GeoJsonFeature => ({
+  type: 'Feature',
+  geometry: { type: 'LineString', coordinates: points.map(([east, north]) => { const p = at(east, north); return [p.lng, p.lat]; }) },
+  properties: { name },
+});
+
+const NETWORK: GeoJsonFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    way('Main Street', [0, 0], [0, 200], [0, 300]),
+    way('Oak Lane', [0, 200], [150, 200]),
+    way('Island Walk', [500, 0], [600, 0]),
+    // Points are places, not ways, and are skipped
+    { type: 'Feature', geometry: { type: 'Point', coordinates: [ORIGIN.lng, ORIGIN.lat] }, properties: { name: 'Fountain' } },
+  ],
+};
+
+const planToBakery = (): Promise<Route> => new GraphRoutingProvider(NETWORK).plan({
+  origin: at(0, 0),
+  destination: { name: 'Bakery', location: at(150, 200) },
+  language: 'en',
+});
+
+// Fixes every `step` metres from one point to another.
+const walk = (from: [number, number], to: [number, number], step = 5): LatLng[] => {
+  const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  const fixes: LatLng[] = [];
+  for (let d = step; d <= length; d += step) {
+    const f = d / length;
+    fixes.push(at(from[0] + (to[0] - from[0]) * f, from[1] + (to[1] - from[1]) * f));
+  }
+  return fixes;
+};
+
+const eventsAlong = (tracker: RouteTracker, fixes: LatLng[]): RouteEvent[] =>
+  fixes.flatMap(fix => tracker.update(fix));
+
+describe('GraphRoutingProvider', () => {
+  it('plans along the ways with a maneuver where the route turns onto another street', async () => {
+    const route = await planToBakery();
+    expect(route.provider).toBe('graph');
+    expect(route.lengthMeters).toBeCloseTo(350, -1);
+    expect(route.maneuvers.map(m => [m.type, m.street])).toEqual([
+      ['depart', 'Main Street'],
+      ['right', 'Oak Lane'],
+      ['arrive', undefined],
+    ]);
+    expect(route.maneuvers[1].distanceAlong).toBeCloseTo(200, -1);
+    expect(route.maneuvers[1].instruction).toBe('Turn right onto Oak Lane');
+  });
+
+  it('writes the instructions in the requested language', async () => {
+    const route = await new GraphRoutingProvider(NETWORK).plan({
+      origin: at(0, 0),
+      destination: { name: 'Panadería', location: at(150, 200) },
+      language: 'es',
+    });
+    expect(route.maneuvers[1].instruction).toMatch(/derecha.*Oak Lane/);
+  });
+
+  it('refuses a destination the network cannot reach', async () => {
+    await expect(new GraphRoutingProvider(NETWORK).plan({
+      origin: at(0, 0),
+      destination: { name: 'Island', location: at(600, 0) },
+      language: 'en',
+    })).rejects.toThrow('No walking route to "Island"');
+  });
+});
+
+describe('RouteTracker', () => {
+  it('announces the turn ahead, then at it, then the arrival, each once', async () => {
+    const route = await planToBakery();
+    const tracker = new RouteTracker(route);
+    const events = eventsAlong(tracker, [...walk([0, 0], [0, 200]), ...walk([0, 200], [150, 200])]);
+
+    expect(events.map(e => e.type)).toEqual(['upcoming', 'maneuver', 'arrived']);
+    const [upcoming, maneuver] = events as Extract<RouteEvent, { type: 'upcoming' | 'maneuver' }>[];
+    expect(upcoming.index).toBe(1);
+    expect(upcoming.distanceMeters).toBeLessThanOrEqual(40);
+    expect(upcoming.distanceMeters).toBeGreaterThan(12);
+    expect(maneuver.distanceMeters).toBeLessThanOrEqual(12);
+    expect(tracker.getProgress()).toMatchObject({ arrived: true, offRoute: false });
+    // Nothing more once arrived
+    expect(tracker.update(at(150, 200))).toEqual([]);
+  });
+
+  it('skips the warning for a turn reached within one fix', async () => {
+    const route = await planToBakery();
+    const tracker = new RouteTracker(route);
+    expect(tracker.update(at(0, 150)).map(e => e.type)).toEqual([]);
+    expect(tracker.update(at(0, 195)).map(e => e.type)).toEqual(['maneuver']);
+  });
+
+  it('reports leaving the route only after several fixes away from it, once', async () => {
+    const route = await planToBakery();
+    const tracker = new RouteTracker(route, { offRouteFixes: 3 });
+    tracker.update(at(0, 50));
+    const away = [at(80, 60), at(90, 60), at(100, 60), at(110, 60)].map(fix => tracker.update(fix));
+    expect(away.map(events => events.map(e => e.type))).toEqual([[], [], ['offRoute'], []]);
+    expect(tracker.getProgress()?.offRoute).toBe(true);
+
+    // Coming back clears it, and a new excursion has to build up again
+    tracker.update(at(0, 70));
+    expect(tracker.getProgress()?.offRoute).toBe(false);
+    expect(tracker.update(at(100, 80))).toEqual([]);
+  });
+
+  it('allows for the fix accuracy, up to a limit', async () => {
+    const route = await planToBakery();
+    const tracker = new RouteTracker(route, { offRouteMeters: 30, offRouteFixes: 1, maxAccuracyAllowanceMeters: 30 });
+    expect(tracker.update(at(45, 50), 20)).toEqual([]);
+    // An accuracy of 500 m only widens the tolerance by 30 m
+    expect(tracker.update(at(70, 50), 500).map(e => e.type)).toEqual(['offRoute']);
+  });
+
+  it('does not lose progress to fixes that jitter backwards', async () => {
+    const route = await planToBakery();
+    const tracker = new RouteTracker(route, { backtrackMeters: 20 });
+    eventsAlong(tracker, walk([0, 0], [0, 150]));
+    tracker.update(at(0, 135));
+    expect(tracker.getProgress()?.distanceAlong).toBeCloseTo(150, 0);
+    expect(tracker.getProgress()?.remainingMeters).toBeCloseTo(200, -1);
+  });
+});
@@ -0,0 +1,141 @@
+import { distanceMeters, LatLng, projectOntoPath } from './geo';
+import { Maneuver, Route } from './routing';
+
+// Follows a planned route from position fixes: works out progress along the
+// path, says when the next maneuver is coming up and notices when the user
+// has left the route.
+
+export type RouteEvent =
+  // The next turn is within the announce distance.
+  | { type: 'upcoming'; maneuver: Maneuver; index: number; distanceMeters: number }
+  // The next maneuver is here; act on it now.
+  | { type: 'maneuver'; maneuver: Maneuver; index: number; distanceMeters: number }
+  | { type: 'arrived'; maneuver: Maneuver }
+  | { type: 'offRoute'; distanceFromPath: number };
+
+export interface RouteProgress {
+  // Metres walked along the path.
+  distanceAlong: number;
+  distanceFromPath: number;
+  nextManeuverIndex: number;
+  distanceToNext: number;
+  remainingMeters: number;
+  offRoute: boolean;
+  arrived: boolean;
+}
+
+export interface RouteTrackerOptions {
+  // Distance before a maneuver at which it is first announced.
+  announceDistanceMeters: number;
+  // Distance before a maneuver at which it is announced as happening now.
+  maneuverDistanceMeters: number;
+  // How far from the path counts as off route, on top of the fix's accuracy.
+  offRouteMeters: number;
+  // Consecutive off-route fixes needed, so one bad fix doesn't trigger a re-plan.
+  offRouteFixes: number;
+  // Within this of the destination counts as arrived.
+  arrivalMeters: number;
+  // Fixes are allowed to fall back this far behind the progress made, for GPS jitter.
+  backtrackMeters: number;
+  // Poor fixes only widen the off-route tolerance up to this.
+  maxAccuracyAllowanceMeters: number;
+}
+
+export const DEFAULT_ROUTE_TRACKER_OPTIONS: RouteTrackerOptions = {
+  announceDistanceMeters: 40,
+  maneuverDistanceMeters: 12,
+  offRouteMeters: 30,
+  offRouteFixes: 3,
+  arrivalMeters: 15,
+  backtrackMeters: 20,
+  maxAccuracyAllowanceMeters: 30,
+};
+
+// How far past a maneuver the user must be before it counts as done.
+const PASSED_MARGIN_METERS = 5;
+
+type Stage = 'none' | 'upcoming' | 'maneuver';
+
+export class RouteTracker {
+  private readonly options: RouteTrackerOptions;
+  private distanceAlong = 0;
+  private nextIndex = 0;
+  private stages: Stage[];
+  private offRouteCount = 0;
+  private offRouteReported = false;
+  private arrived = false;
+  private progress: RouteProgress | null = null;
+
+  constructor(readonly route: Route, options: Partial<RouteTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_ROUTE_TRACKER_OPTIONS, ...options };
+    this.stages = route.maneuvers.map(() => 'none');
+  }
+
+  getProgress(): RouteProgress | null {
+    return this.progress;
+  }
+
+  update(position: LatLng, accuracyMeters = 0): RouteEvent[] {
+    if (this.arrived) return [];
+    const { route, options } = this;
+    const events: RouteEvent[] = [];
+
+    const projection = projectOntoPath(position, route.path, Math.max(0, this.distanceAlong - options.backtrackMeters));
+    const tolerance = options.offRouteMeters + Math.min(Math.max(0, accuracyMeters), options.maxAccuracyAllowanceMeters);
+    const offRoute = projection.distanceFromPath > tolerance;
+
+    if (offRoute) {
+      this.offRouteCount++;
+      if (this.offRouteCount >= options.offRouteFixes && !this.offRouteReported) {
+        this.offRouteReported = true;
+        events.push({ type: 'offRoute', distanceFromPath: projection.distanceFromPath });
+      }
+    } else {
+      this.offRouteCount = 0;
+      this.offRouteReported = false;
+      this.distanceAlong = Math.max(this.distanceAlong, projection.distanceAlong);
+      // Maneuvers already walked past are dropped, announced or not
+      while (
+        this.nextIndex < route.maneuvers.length - 1 &&
+        route.maneuvers[this.nextIndex].distanceAlong + PASSED_MARGIN_METERS < this.distanceAlong
+      ) {
+        this.nextIndex++;
+      }
+      events.push(...this.announce(position));
+    }
+
+    const next = route.maneuvers[this.nextIndex];
+    this.progress = {
+      distanceAlong: this.distanceAlong,
+      distanceFromPath: projection.distanceFromPath,
+      nextManeuverIndex: this.nextIndex,
+      distanceToNext: Math.max(0, next.distanceAlong - this.distanceAlong),
+      remainingMeters: Math.max(0, route.lengthMeters - this.distanceAlong),
+      offRoute: this.offRouteReported,
+      arrived: this.arrived,
+    };
+    return events;
+  }
+
+  private announce(position: LatLng): RouteEvent[] {
+    const { route, options } = this;
+    const index = this.nextIndex;
+    const maneuver = route.maneuvers[index];
+    const distance = Math.max(0, maneuver.distanceAlong - this.distanceAlong);
+
+    if (maneuver.type === 'arrive') {
+      if (distance > options.arrivalMeters && distanceMeters(position, maneuver.location) > options.arrivalMeters) return [];
+      this.arrived = true;
+      return [{ type: 'arrived', maneuver }];
+    }
+    if (distance <= options.maneuverDistanceMeters && this.stages[index] !== 'maneuver') {
+      this.stages[index] = 'maneuver';
+      return [{ type: 'maneuver', maneuver, index, distanceMeters: distance }];
+    }
+    if (distance <= options.announceDistanceMeters && this.stages[index] === 'none') {
+      this.stages[index] = 'upcoming';
+      return [{ type: 'upcoming', maneuver, index, distanceMeters: distance }];
+    }
+    return [];
+  }
+}
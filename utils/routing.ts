@@ -0,0 +1,365 @@
+import { AiProvider, getAiProvider } from './aiProvider';
+import {
+  angleDifference, bearingDegrees, distanceMeters, fromGeoJson, GeoJsonFeatureCollection, isValidLatLng, LatLng, pathLengthMeters, projectOntoPath,
+} from './geo';
+import { Place } from './geocoder';
+import { HapticCue } from './haptics';
+import { getTranslator, Language, MessageKey, responseLanguageInstruction, Translator } from './i18n';
+
+// A walking route as an ordered list of maneuvers along a path, planned once
+// and then followed with RouteTracker, instead of asking for one step at a time.
+
+export type ManeuverType =
+  | 'depart'
+  | 'straight'
+  | 'slightLeft'
+  | 'left'
+  | 'sharpLeft'
+  | 'slightRight'
+  | 'right'
+  | 'sharpRight'
+  | 'uTurn'
+  | 'arrive';
+
+export const MANEUVER_TYPES: readonly ManeuverType[] = [
+  'depart', 'straight', 'slightLeft', 'left', 'sharpLeft', 'slightRight', 'right', 'sharpRight', 'uTurn', 'arrive',
+];
+
+export interface Maneuver {
+  type: ManeuverType;
+  location: LatLng;
+  // Spoken as-is, already in the user's language.
+  instruction: string;
+  street?: string;
+  // Metres from the start of the path to this maneuver.
+  distanceAlong: number;
+}
+
+export interface Route {
+  destination: Place;
+  path: LatLng[];
+  // Starts with 'depart' and ends with 'arrive'.
+  maneuvers: Maneuver[];
+  lengthMeters: number;
+  // Id of the provider that planned it.
+  provider: string;
+}
+
+export interface RouteRequest {
+  origin: LatLng;
+  // Already resolved to coordinates, see places.ts.
+  destination: Place;
+  language: Language;
+}
+
+export interface RoutingProvider {
+  readonly id: string;
+  plan(request: RouteRequest): Promise<Route>;
+}
+
+export type ManeuverInput = Omit<Maneuver, 'distanceAlong'>;
+
+// Places each maneuver along the path, in order, and checks the route is usable.
+export const createRoute = (
+  destination: Place,
+  path: LatLng[],
+  maneuvers: ManeuverInput[],
+  provider: string,
+): Route => {
+  if (path.length < 2) throw new Error('A route needs at least two points');
+  if (maneuvers.length < 2 || maneuvers[0].type !== 'depart' || maneuvers[maneuvers.length - 1].type !== 'arrive') {
+    throw new Error('A route must start with "depart" and end with "arrive"');
+  }
+  let along = 0;
+  const placed = maneuvers.map((maneuver, i) => {
+    if (i === 0) return { ...maneuver, distanceAlong: 0 };
+    along = projectOntoPath(maneuver.location, path, along).distanceAlong;
+    return { ...maneuver, distanceAlong: along };
+  });
+  return { destination, path, maneuvers: placed, lengthMeters: pathLengthMeters(path), provider };
+};
+
+// Classifies a change of direction, in degrees clockwise, as a maneuver.
+export const maneuverTypeForTurn = (angle: number): ManeuverType => {
+  const magnitude = Math.abs(angle);
+  if (magnitude < 20) return 'straight';
+  if (magnitude >= 160) return 'uTurn';
+  if (angle < 0) return magnitude < 50 ? 'slightLeft' : magnitude < 120 ? 'left' : 'sharpLeft';
+  return magnitude < 50 ? 'slightRight' : magnitude < 120 ? 'right' : 'sharpRight';
+};
+
+export const cueForManeuver = (type: ManeuverType): HapticCue => {
+  switch (type) {
+    case 'slightLeft':
+    case 'left':
+    case 'sharpLeft':
+      return 'left';
+    case 'slightRight':
+    case 'right':
+    case 'sharpRight':
+      return 'right';
+    case 'uTurn':
+      return 'stop';
+    case 'arrive':
+      return 'arrived';
+    default:
+      return 'straight';
+  }
+};
+
+const MANEUVER_MESSAGES: Record<Exclude<ManeuverType, 'arrive'>, MessageKey> = {
+  depart: 'route.depart',
+  straight: 'route.straight',
+  slightLeft: 'route.slightLeft',
+  left: 'route.left',
+  sharpLeft: 'route.sharpLeft',
+  slightRight: 'route.slightRight',
+  right: 'route.right',
+  sharpRight: 'route.sharpRight',
+  uTurn: 'route.uTurn',
+};
+
+// Instruction text for providers that only know the geometry.
+export const describeManeuver = (type: ManeuverType, street: string | undefined, destination: string, translator: Translator): string => {
+  if (type === 'arrive') return translator.t('route.arrive', { destination });
+  const instruction = translator.t(MANEUVER_MESSAGES[type]);
+  return street ? translator.t('route.onto', { instruction, street }) : instruction;
+};
+
+export const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+const toLatLng = (value: unknown): LatLng | null => {
+  if (Array.isArray(value) && value.length >= 2) {
+    const candidate = { lat: value[0], lng: value[1] };
+    return isValidLatLng(candidate) ? candidate : null;
+  }
+  return isValidLatLng(value) ? { lat: value.lat, lng: value.lng } : null;
+};
+
+// Reads the route JSON a model was asked for. Unknown maneuver types become
+// "straight" and a missing path is drawn through the maneuvers; anything
+// that can't be followed (no coordinates, too few steps) throws.
+export const parseRouteResponse = (
+  text: string,
+  origin: LatLng,
+  destination: Place,
+  provider: string,
+  translator: Translator = getTranslator('en'),
+): Route => {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFence(text));
+  } catch {
+    throw new Error('Route response is not valid JSON');
+  }
+  const record = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  const rawManeuvers = Array.isArray(record.maneuvers) ? record.maneuvers : [];
+
+  const maneuvers: ManeuverInput[] = [];
+  for (const raw of rawManeuvers) {
+    if (typeof raw !== 'object' || raw === null) continue;
+    const m = raw as Record<string, unknown>;
+    const location = toLatLng(m.location ?? { lat: m.lat, lng: m.lng });
+    const instruction = typeof m.instruction === 'string' ? m.instruction.trim() : '';
+    if (!location || !instruction) continue;
+    const type = MANEUVER_TYPES.includes(m.type as ManeuverType) ? m.type as ManeuverType : 'straight';
+    const street = typeof m.street === 'string' && m.street.trim() ? m.street.trim() : undefined;
+    maneuvers.push({ type, location, instruction, street });
+  }
+  if (maneuvers.length === 0) throw new Error('Route response has no usable maneuvers');
+
+  if (maneuvers[0].type !== 'depart') {
+    maneuvers[0] = { ...maneuvers[0], type: 'depart' };
+  }
+  const last = maneuvers[maneuvers.length - 1];
+  if (last.type !== 'arrive') {
+    maneuvers.push({ type: 'arrive', location: last.location, instruction: describeManeuver('arrive', undefined, destination.name, translator) });
+  }
+
+  const rawPath = Array.isArray(record.path) ? record.path.map(toLatLng).filter((p): p is LatLng => p !== null) : [];
+  const path = rawPath.length >= 2 ? rawPath : [origin, ...maneuvers.map(m => m.location)];
+  if (distanceMeters(path[0], origin) > 1) path.unshift(origin);
+  // Ends where the destination was resolved, not wherever the model stopped
+  if (distanceMeters(path[path.length - 1], destination.location) > 1) path.push(destination.location);
+  return createRoute(destination, path, maneuvers, provider);
+};
+
+// Plans with the AI provider, asking for the route as JSON. Gemini grounds
+// it in Google Maps data; other providers answer from what the model knows.
+export class AiRoutingProvider implements RoutingProvider {
+  readonly id = 'ai';
+
+  // Without a provider, the one in settings at the time of planning is used.
+  constructor(private readonly ai: AiProvider | null = null) {}
+
+  async plan({ origin, destination, language }: RouteRequest): Promise<Route> {
+    const text = await (this.ai ?? getAiProvider()).generate({
+      parts: [{ text: `Plan a walking route from latitude ${origin.lat}, longitude ${origin.lng} to "${destination.name}"${destination.address ? ` (${destination.address})` : ''} at latitude ${destination.location.lat}, longitude ${destination.location.lng} using Google Maps data.
+Reply with JSON only, no other text, in this shape:
+{"maneuvers": [{"type": "depart", "instruction": "...", "street": "...", "lat": 0, "lng": 0}], "path": [[lat, lng], ...]}
+"type" is one of ${MANEUVER_TYPES.join(', ')}. The first maneuver is "depart" at the start, the last is "arrive" at the destination, and every turn in between is listed with the coordinates of the intersection. "instruction" is a short spoken instruction for that maneuver. "path" follows the walking route with enough points to trace every street. ${responseLanguageInstruction(language)}` }],
+      mapsGrounding: origin,
+    });
+    return parseRouteResponse(text, origin, destination, this.id, getTranslator(language));
+  }
+}
+
+interface GraphEdge {
+  to: string;
+  meters: number;
+  street?: string;
+}
+
+interface GraphNode {
+  location: LatLng;
+  edges: GraphEdge[];
+}
+
+const nodeKey = (p: LatLng) => `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`;
+
+// Routes over a local walking network of LineString features, the ways,
+// named by `properties.name`. Other features are ignored, so the same file
+// can hold a GazetteerGeocoder's places. Meant for tests, demos and small
+// venues, not city-sized graphs.
+export class GraphRoutingProvider implements RoutingProvider {
+  readonly id = 'graph';
+  private readonly nodes = new Map<string, GraphNode>();
+
+  constructor(network: GeoJsonFeatureCollection) {
+    for (const feature of network.features) {
+      const { geometry } = feature;
+      if (geometry.type === 'LineString' && Array.isArray(geometry.coordinates)) {
+        const points = (geometry.coordinates as number[][]).map(fromGeoJson).filter(isValidLatLng);
+        const street = typeof feature.properties?.name === 'string' ? feature.properties.name : undefined;
+        for (let i = 1; i < points.length; i++) this.addEdge(points[i - 1], points[i], street);
+      }
+    }
+  }
+
+  async plan({ origin, destination, language }: RouteRequest): Promise<Route> {
+    const target = destination.location;
+    const start = this.nearestNode(origin);
+    const end = this.nearestNode(target);
+    if (!start || !end) throw new Error('The walking network is empty');
+
+    const keys = this.shortestPath(start, end);
+    if (!keys) throw new Error(`No walking route to "${destination.name}"`);
+    const path = [origin, ...keys.map(k => this.nodes.get(k)!.location), target]
+      .filter((p, i, all) => i === 0 || distanceMeters(p, all[i - 1]) > 0.5);
+    if (path.length < 2) path.push(target);
+
+    return createRoute(destination, path, this.maneuversFor(keys, path, destination, getTranslator(language)), this.id);
+  }
+
+  private addEdge(a: LatLng, b: LatLng, street?: string): void {
+    const meters = distanceMeters(a, b);
+    const keyA = nodeKey(a);
+    const keyB = nodeKey(b);
+    if (keyA === keyB) return;
+    this.node(keyA, a).edges.push({ to: keyB, meters, street });
+    this.node(keyB, b).edges.push({ to: keyA, meters, street });
+  }
+
+  private node(key: string, location: LatLng): GraphNode {
+    let node = this.nodes.get(key);
+    if (!node) {
+      node = { location, edges: [] };
+      this.nodes.set(key, node);
+    }
+    return node;
+  }
+
+  private nearestNode(point: LatLng): string | null {
+    let best: string | null = null;
+    let bestMeters = Infinity;
+    for (const [key, node] of this.nodes) {
+      const meters = distanceMeters(point, node.location);
+      if (meters < bestMeters) {
+        best = key;
+        bestMeters = meters;
+      }
+    }
+    return best;
+  }
+
+  // Dijkstra with a linear scan for the closest node; fine at this scale.
+  private shortestPath(start: string, end: string): string[] | null {
+    const distance = new Map<string, number>([[start, 0]]);
+    const previous = new Map<string, string>();
+    const open = new Set([start]);
+    const done = new Set<string>();
+    while (open.size > 0) {
+      let current = '';
+      let currentDistance = Infinity;
+      for (const key of open) {
+        const d = distance.get(key)!;
+        if (d < currentDistance) {
+          current = key;
+          currentDistance = d;
+        }
+      }
+      if (current === end) break;
+      open.delete(current);
+      done.add(current);
+      for (const edge of this.nodes.get(current)!.edges) {
+        if (done.has(edge.to)) continue;
+        const candidate = currentDistance + edge.meters;
+        if (candidate < (distance.get(edge.to) ?? Infinity)) {
+          distance.set(edge.to, candidate);
+          previous.set(edge.to, current);
+          open.add(edge.to);
+        }
+      }
+    }
+    if (!distance.has(end)) return null;
+    const keys = [end];
+    while (keys[0] !== start) keys.unshift(previous.get(keys[0])!);
+    return keys;
+  }
+
+  private streetBetween(from: string, to: string): string | undefined {
+    return this.nodes.get(from)?.edges.find(e => e.to === to)?.street;
+  }
+
+  // A maneuver wherever the path turns or changes street.
+  private maneuversFor(keys: string[], path: LatLng[], destination: Place, translator: Translator): ManeuverInput[] {
+    const firstStreet = keys.length > 1 ? this.streetBetween(keys[0], keys[1]) : undefined;
+    const maneuvers: ManeuverInput[] = [{
+      type: 'depart',
+      location: path[0],
+      street: firstStreet,
+      instruction: describeManeuver('depart', firstStreet, destination.name, translator),
+    }];
+    for (let i = 1; i < keys.length - 1; i++) {
+      const before = this.nodes.get(keys[i - 1])!.location;
+      const at = this.nodes.get(keys[i])!.location;
+      const after = this.nodes.get(keys[i + 1])!.location;
+      const type = maneuverTypeForTurn(angleDifference(bearingDegrees(before, at), bearingDegrees(at, after)));
+      const streetIn = this.streetBetween(keys[i - 1], keys[i]);
+      const street = this.streetBetween(keys[i], keys[i + 1]);
+      if (type === 'straight' && street === streetIn) continue;
+      maneuvers.push({ type, location: at, street, instruction: describeManeuver(type, street, destination.name, translator) });
+    }
+    maneuvers.push({
+      type: 'arrive',
+      location: path[path.length - 1],
+      instruction: describeManeuver('arrive', undefined, destination.name, translator),
+    });
+    return maneuvers;
+  }
+}
+
+let defaultProvider: RoutingProvider | null = null;
+
+// The provider MapsMode plans with. The AI provider unless replaced, e.g. by a
+// GraphRoutingProvider in tests.
+export const getRoutingProvider = (): RoutingProvider => {
+  if (!defaultProvider) {
+    defaultProvider = new AiRoutingProvider();
+  }
+  return defaultProvider;
+};
+
+export const setRoutingProvider = (provider: RoutingProvider | null): void => {
+  defaultProvider = provider;
+};
@@ -0,0 +1,308 @@
+import { KeyValueStorage, readJson, safeLocalStorage, writeJson } from './storage';
+
+// Everything a user can tune, persisted across visits. Modes read their
+// parameters from here instead of keeping their own constants.
+
+export interface GeneralSettings {
+  // Language code for the UI, speech and AI replies; null follows the browser.
+  language: string | null;
+}
+
+export interface SpeechSettings {
+  // A SpeechSynthesisVoice.voiceURI; null uses the browser's default voice.
+  voiceURI: string | null;
+  // 0.5..2, where 1 is the voice's normal speed.
+  rate: number;
+}
+
+export interface FastModeSettings {
+  targetFps: number;
+  earcons: boolean;
+  earconVolume: number;
+}
+
+export interface ObstacleSettings {
+  targetFps: number;
+  // How long before a predicted collision the first alert is given.
+  alertSeconds: number;
+  alertVolume: number;
+}
+
+export interface SceneSettings {
+  // Frames per second sent while the scene is calm; motion raises it.
+  frameRate: number;
+  jpegQuality: number;
+  maxFrameDimension: number;
+  systemInstruction: string;
+  // Spoken to the model as soon as a session opens.
+  initialPrompt: string;
+}
+
+export interface MapsSettings {
+  // How far ahead of a turn it is first announced.
+  announceDistanceMeters: number;
+  // How far from the route counts as off it and triggers a re-plan.
+  offRouteMeters: number;
+  jpegQuality: number;
+  // A registered geocoder id, see geocoder.ts.
+  geocoder: string;
+}
+
+export interface HapticSettings {
+  enabled: boolean;
+  intensity: number;
+  tempo: number;
+}
+
+export interface VoiceSettings {
+  // Listen all the time for the wake phrase, not only on a long-press.
+  wakeWord: boolean;
+  // A registered recognizer id, see speechRecognizer.ts.
+  recognizer: string;
+}
+
+export interface AiSettings {
+  // A registered AI provider id, see aiProvider.ts.
+  provider: string;
+  // Models for one-shot requests and live sessions; blank uses the provider's default.
+  generateModel: string;
+  liveModel: string;
+  // For the OpenAI-compatible provider, e.g. http://localhost:11434/v1 for Ollama.
+  baseUrl: string;
+  // Realtime WebSocket endpoint for live sessions; blank means none.
+  realtimeUrl: string;
+  // For the OpenAI-compatible provider; kept on the device. Gemini is reached
+  // through the AI proxy, which holds its key.
+  apiKey: string;
+}
+
+export interface AccessibilitySettings {
+  // High-contrast colors and larger text throughout the app.
+  highContrast: boolean;
+  // Have screen readers read each finished transcript turn. Off by default
+  // because the assistant's reply is already heard as audio.
+  announceTranscript: boolean;
+}
+
+export interface Settings {
+  general: GeneralSettings;
+  speech: SpeechSettings;
+  fastMode: FastModeSettings;
+  obstacle: ObstacleSettings;
+  scene: SceneSettings;
+  maps: MapsSettings;
+  haptics: HapticSettings;
+  voice: VoiceSettings;
+  ai: AiSettings;
+  accessibility: AccessibilitySettings;
+}
+
+export type SettingsPatch = { [K in keyof Settings]?: Partial<Settings[K]> };
+
+export const DEFAULT_SETTINGS: Settings = {
+  general: {
+    language: null,
+  },
+  speech: {
+    voiceURI: null,
+    rate: 1,
+  },
+  fastMode: {
+    targetFps: 5,
+    earcons: true,
+    earconVolume: 0.5,
+  },
+  obstacle: {
+    targetFps: 8,
+    alertSeconds: 4,
+    alertVolume: 0.8,
+  },
+  scene: {
+    frameRate: 1,
+    jpegQuality: 0.8,
+    maxFrameDimension: 768,
+    systemInstruction: 'You are a visual assistant. Describe what you see from the video frames and answer any user questions concisely. Be helpful and descriptive.',
+    initialPrompt: 'What is happening in front of me?',
+  },
+  maps: {
+    announceDistanceMeters: 40,
+    offRouteMeters: 30,
+    jpegQuality: 0.8,
+    geocoder: 'nominatim',
+  },
+  haptics: {
+    enabled: true,
+    intensity: 0.7,
+    tempo: 1,
+  },
+  voice: {
+    wakeWord: false,
+    recognizer: 'webspeech',
+  },
+  ai: {
+    provider: 'gemini',
+    generateModel: '',
+    liveModel: '',
+    baseUrl: 'http://localhost:11434/v1',
+    realtimeUrl: '',
+    apiKey: '',
+  },
+  accessibility: {
+    highContrast: false,
+    announceTranscript: false,
+  },
+};
+
+export interface NumericRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Bounds for every numeric setting. Stored values are clamped into them, and
+// the Settings screen uses them for its sliders.
+export const SETTING_RANGES = {
+  speech: {
+    rate: { min: 0.5, max: 2, step: 0.1 },
+  },
+  fastMode: {
+    targetFps: { min: 1, max: 10, step: 1 },
+    earconVolume: { min: 0, max: 1, step: 0.05 },
+  },
+  obstacle: {
+    targetFps: { min: 2, max: 15, step: 1 },
+    // Not below the warning level's own lead time, see obstacleAlert.ts
+    alertSeconds: { min: 2.5, max: 8, step: 0.5 },
+    alertVolume: { min: 0, max: 1, step: 0.05 },
+  },
+  scene: {
+    frameRate: { min: 0.2, max: 3, step: 0.1 },
+    jpegQuality: { min: 0.3, max: 1, step: 0.05 },
+    maxFrameDimension: { min: 320, max: 1280, step: 64 },
+  },
+  maps: {
+    announceDistanceMeters: { min: 15, max: 100, step: 5 },
+    offRouteMeters: { min: 15, max: 80, step: 5 },
+    jpegQuality: { min: 0.3, max: 1, step: 0.05 },
+  },
+  haptics: {
+    intensity: { min: 0, max: 1, step: 0.1 },
+    tempo: { min: 0.5, max: 2, step: 0.1 },
+  },
+} satisfies { [K in keyof Settings]?: { [F in keyof Settings[K]]?: NumericRange } };
+
+// Bump when a stored field is renamed, moved or changes meaning, and add a
+// migration from the previous version. Added fields need neither: they are
+// filled from the defaults.
+export const SETTINGS_VERSION = 2;
+
+type StoredSettings = { version: number; settings: unknown };
+
+const STORAGE_KEY = 'haptinav.settings';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keyed by the version being migrated from; each returns the next version's
+// shape. Stored data can be anything, so each checks what it touches.
+const MIGRATIONS: Record<number, (settings: unknown) => unknown> = {
+  // The 'gemini' recognizer became 'ai', running on whichever provider is set.
+  1: (settings) => isRecord(settings) && isRecord(settings.voice) && settings.voice.recognizer === 'gemini'
+    ? { ...settings, voice: { ...settings.voice, recognizer: 'ai' } }
+    : settings,
+};
+
+// Takes each known field from `stored` when it has the right type, falling
+// back to the default otherwise, and clamps numbers into their range.
+export const sanitizeSettings = (stored: unknown): Settings => {
+  const result = structuredClone(DEFAULT_SETTINGS) as Settings;
+  if (!isRecord(stored)) return result;
+  for (const group of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+    const source = stored[group];
+    if (!isRecord(source)) continue;
+    const target = result[group] as unknown as Record<string, unknown>;
+    const ranges = (SETTING_RANGES as Record<string, Record<string, NumericRange> | undefined>)[group];
+    for (const [field, fallback] of Object.entries(target)) {
+      const value = source[field];
+      const range = ranges?.[field];
+      if (typeof fallback === 'number' && typeof value === 'number' && Number.isFinite(value)) {
+        target[field] = range ? Math.min(range.max, Math.max(range.min, value)) : value;
+      } else if (typeof fallback === 'boolean' && typeof value === 'boolean') {
+        target[field] = value;
+      } else if (typeof fallback === 'string' && typeof value === 'string') {
+        target[field] = value;
+      } else if (fallback === null && (value === null || typeof value === 'string')) {
+        target[field] = value;
+      }
+    }
+  }
+  return result;
+};
+
+// Brings a stored envelope up to the current version. Data from a newer
+// build (after a downgrade) is read as-is, keeping whatever still fits.
+export const migrateSettings = (stored: StoredSettings | null): Settings => {
+  if (!stored || typeof stored.version !== 'number') return sanitizeSettings(null);
+  let { version, settings } = stored;
+  while (version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) settings = migrate(settings);
+    version++;
+  }
+  return sanitizeSettings(settings);
+};
+
+export interface SettingsStoreOptions {
+  // Pass null to keep settings in memory only.
+  storage?: KeyValueStorage | null;
+}
+
+export class SettingsStore {
+  private settings: Settings;
+  private listeners = new Set<(settings: Settings) => void>();
+  private readonly storage: KeyValueStorage | null;
+
+  constructor(options: SettingsStoreOptions = {}) {
+    this.storage = options.storage === undefined ? safeLocalStorage() : options.storage;
+    this.settings = migrateSettings(readJson<StoredSettings>(this.storage, STORAGE_KEY));
+  }
+
+  get(): Settings {
+    return this.settings;
+  }
+
+  subscribe(listener: (settings: Settings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  update(patch: SettingsPatch): void {
+    const merged: Record<string, unknown> = { ...this.settings };
+    for (const group of Object.keys(patch) as (keyof Settings)[]) {
+      merged[group] = { ...this.settings[group], ...patch[group] };
+    }
+    this.commit(sanitizeSettings(merged));
+  }
+
+  reset(): void {
+    this.commit(sanitizeSettings(null));
+  }
+
+  private commit(settings: Settings): void {
+    this.settings = settings;
+    writeJson(this.storage, STORAGE_KEY, { version: SETTINGS_VERSION, settings });
+    this.listeners.forEach(listener => listener(settings));
+  }
+}
+
+let defaultStore: SettingsStore | null = null;
+
+// The app-wide store backed by localStorage.
+export const getSettingsStore = (): SettingsStore => {
+  if (!defaultStore) {
+    defaultStore = new SettingsStore();
+  }
+  return defaultStore;
+};
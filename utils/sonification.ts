@@ -0,0 +1,210 @@
+// Short positional tones ("earcons") for detected objects. Each tone is panned
+// to where the object sits in the frame; nearer objects beep higher and
+// faster, like a parking sensor.
+
+export interface Earcon {
+  className: string;
+  // -1 (hard left) to 1 (hard right).
+  pan: number;
+  // 0 (far away or unknown) to 1 (right in front of the user).
+  nearness: number;
+}
+
+export interface Timbre {
+  type: OscillatorType;
+  baseFrequency: number;
+}
+
+export interface SonifierOptions {
+  // 0..1, applied on the master bus.
+  volume: number;
+  toneDurationSec: number;
+}
+
+export const DEFAULT_SONIFIER_OPTIONS: SonifierOptions = {
+  volume: 0.5,
+  toneDurationSec: 0.07,
+};
+
+type Category = 'person' | 'vehicle' | 'animal' | 'obstacle' | 'other';
+
+const TIMBRES: Record<Category, Timbre> = {
+  person: { type: 'sine', baseFrequency: 660 },
+  vehicle: { type: 'sawtooth', baseFrequency: 220 },
+  animal: { type: 'triangle', baseFrequency: 440 },
+  obstacle: { type: 'square', baseFrequency: 330 },
+  other: { type: 'sine', baseFrequency: 520 },
+};
+
+const CLASS_CATEGORIES: Record<string, Category> = {
+  'person': 'person',
+  'bicycle': 'vehicle',
+  'car': 'vehicle',
+  'motorcycle': 'vehicle',
+  'bus': 'vehicle',
+  'train': 'vehicle',
+  'truck': 'vehicle',
+  'boat': 'vehicle',
+  'bird': 'animal',
+  'cat': 'animal',
+  'dog': 'animal',
+  'horse': 'animal',
+  'sheep': 'animal',
+  'cow': 'animal',
+  'elephant': 'animal',
+  'bear': 'animal',
+  'zebra': 'animal',
+  'giraffe': 'animal',
+  'fire hydrant': 'obstacle',
+  'parking meter': 'obstacle',
+  'bench': 'obstacle',
+  'chair': 'obstacle',
+  'couch': 'obstacle',
+  'potted plant': 'obstacle',
+  'dining table': 'obstacle',
+  'suitcase': 'obstacle',
+};
+
+export const timbreFor = (className: string): Timbre => TIMBRES[CLASS_CATEGORIES[className] ?? 'other'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Maps an estimated distance onto nearness. Anything within half a meter is
+// as near as it gets; beyond 8 m the tone stays at its slowest.
+export const nearnessFromDistance = (meters: number | null): number =>
+  meters === null ? 0 : clamp(1 - (meters - 0.5) / 7.5, 0, 1);
+
+// Converts a horizontal frame position (0 = left edge, 1 = right edge) to a pan value.
+export const panFromCenterX = (centerX: number): number => clamp(centerX * 2 - 1, -1, 1);
+
+export interface BurstShape {
+  repetitions: number;
+  intervalSec: number;
+  frequency: number;
+}
+
+export const burstShape = (earcon: Earcon): BurstShape => {
+  const nearness = clamp(earcon.nearness, 0, 1);
+  const timbre = timbreFor(earcon.className);
+  return {
+    repetitions: 1 + Math.round(nearness * 4),
+    intervalSec: 0.35 - nearness * 0.27,
+    frequency: timbre.baseFrequency * (1 + nearness * 0.5),
+  };
+};
+
+export class Sonifier {
+  private readonly master: GainNode;
+  private options: SonifierOptions;
+  // Context time at which the last scheduled burst finishes.
+  private busyUntil = 0;
+
+  constructor(private readonly ctx: BaseAudioContext, options: Partial<SonifierOptions> = {}) {
+    this.options = { ...DEFAULT_SONIFIER_OPTIONS, ...options };
+    this.master = ctx.createGain();
+    this.master.gain.value = this.options.volume;
+    this.master.connect(ctx.destination);
+  }
+
+  get context(): BaseAudioContext {
+    return this.ctx;
+  }
+
+  setVolume(volume: number): void {
+    this.options.volume = clamp(volume, 0, 1);
+    this.master.gain.setValueAtTime(this.options.volume, this.ctx.currentTime);
+  }
+
+  get isBusy(): boolean {
+    return this.ctx.currentTime < this.busyUntil;
+  }
+
+  // Schedules a burst for `earcon` starting at `when` (context time) and
+  // returns the time at which it ends.
+  schedule(earcon: Earcon, when: number = this.ctx.currentTime): number {
+    const { repetitions, intervalSec, frequency } = burstShape(earcon);
+    const { type } = timbreFor(earcon.className);
+    const panner = this.createPanner(clamp(earcon.pan, -1, 1));
+    panner.connect(this.master);
+
+    let end = when;
+    for (let i = 0; i < repetitions; i++) {
+      // The panner is shared by the whole burst, so the last tone releases it.
+      const onEnded = i === repetitions - 1 ? () => panner.disconnect() : undefined;
+      end = this.scheduleTone(when + i * intervalSec, type, frequency, panner, onEnded);
+    }
+    this.busyUntil = Math.max(this.busyUntil, end);
+    return end;
+  }
+
+  // Plays a burst unless the previous one is still sounding. Returns whether it played.
+  playIfIdle(earcon: Earcon): boolean {
+    if (this.isBusy || this.options.volume <= 0) return false;
+    this.schedule(earcon);
+    return true;
+  }
+
+  private scheduleTone(
+    start: number,
+    type: OscillatorType,
+    frequency: number,
+    output: AudioNode,
+    onEnded?: () => void,
+  ): number {
+    const duration = this.options.toneDurationSec;
+    const oscillator = this.ctx.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+
+    // Short attack and release so the tones don't click.
+    const envelope = this.ctx.createGain();
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(1, start + 0.005);
+    envelope.gain.setValueAtTime(1, start + duration - 0.015);
+    envelope.gain.linearRampToValueAtTime(0, start + duration);
+
+    oscillator.connect(envelope);
+    envelope.connect(output);
+    oscillator.onended = () => {
+      oscillator.disconnect();
+      envelope.disconnect();
+      onEnded?.();
+    };
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+    return start + duration;
+  }
+
+  private createPanner(pan: number): AudioNode {
+    if (typeof this.ctx.createStereoPanner === 'function') {
+      const stereo = this.ctx.createStereoPanner();
+      stereo.pan.value = pan;
+      return stereo;
+    }
+    // Older WebKit has no StereoPannerNode; an equal-power PannerNode on the
+    // x axis gives the same left/right placement.
+    const panner = this.ctx.createPanner();
+    panner.panningModel = 'equalpower';
+    panner.setPosition(pan, 0, 1 - Math.abs(pan));
+    return panner;
+  }
+}
+
+export interface ScheduledEarcon {
+  earcon: Earcon;
+  // Seconds from the start of the render.
+  at: number;
+}
+
+// Renders earcons without touching the speakers, e.g. to inspect the output
+// buffer in tests. Returns a stereo buffer.
+export const renderOffline = async (
+  earcons: ScheduledEarcon[],
+  durationSec: number,
+  { sampleRate = 22050, ...options }: Partial<SonifierOptions> & { sampleRate?: number } = {},
+): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, Math.ceil(durationSec * sampleRate), sampleRate);
+  const sonifier = new Sonifier(ctx, options);
+  earcons.forEach(({ earcon, at }) => sonifier.schedule(earcon, at));
+  return ctx.startRendering();
+};
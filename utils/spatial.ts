@@ -0,0 +1,167 @@
+import { DetectedObject } from '../types';
+import { COCO_OBJECT_SIZES, ObjectSize } from './objectSizes';
+import { getTranslator, MessageKey, Translator } from './i18n';
+
+export type HorizontalPosition =
+  | 'far left'
+  | 'left'
+  | 'slightly left'
+  | 'ahead'
+  | 'slightly right'
+  | 'right'
+  | 'far right';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface SpatialOptions {
+  // Diagonal field of view of the camera. Using the diagonal keeps the
+  // estimate independent of portrait/landscape orientation.
+  diagonalFovDeg: number;
+  sizes: Record<string, ObjectSize>;
+}
+
+export const DEFAULT_SPATIAL_OPTIONS: SpatialOptions = {
+  // Typical main phone camera.
+  diagonalFovDeg: 75,
+  sizes: COCO_OBJECT_SIZES,
+};
+
+export interface SpatialDescription {
+  label: string;
+  position: HorizontalPosition;
+  // Horizontal centre of the box, 0 (left edge) to 1 (right edge).
+  centerX: number;
+  // 0 when dead centre, 1 at either edge.
+  offCenter: number;
+  distanceMeters: number | null;
+}
+
+// Upper bounds of the box centre for each position, left to right.
+const POSITION_BOUNDS: [number, HorizontalPosition][] = [
+  [0.15, 'far left'],
+  [0.35, 'left'],
+  [0.45, 'slightly left'],
+  [0.55, 'ahead'],
+  [0.65, 'slightly right'],
+  [0.85, 'right'],
+  [Infinity, 'far right'],
+];
+
+// Boxes this close to a frame edge are treated as cut off in that direction.
+const EDGE_MARGIN_PX = 2;
+
+// Distance assumed for objects with no known size when ranking.
+const UNKNOWN_DISTANCE_RANK_M = 10;
+
+export const positionFor = (centerX: number): HorizontalPosition =>
+  POSITION_BOUNDS.find(([bound]) => centerX < bound)![1];
+
+const focalLengthPx = (frame: FrameSize, diagonalFovDeg: number): number => {
+  const diagonal = Math.hypot(frame.width, frame.height);
+  return diagonal / 2 / Math.tan((diagonalFovDeg * Math.PI) / 360);
+};
+
+// Pinhole-camera estimate: distance = real size * focal length / size in pixels.
+// Dimensions cut off by the frame edge would make the object look smaller and
+// further away, so they are only used when nothing better is available.
+export const estimateDistance = (
+  object: Pick<DetectedObject, 'class' | 'bbox'>,
+  frame: FrameSize,
+  options: SpatialOptions = DEFAULT_SPATIAL_OPTIONS,
+): number | null => {
+  const size = options.sizes[object.class];
+  const [x, y, w, h] = object.bbox;
+  if (!size || w <= 0 || h <= 0) return null;
+
+  const focal = focalLengthPx(frame, options.diagonalFovDeg);
+  const clippedVertically = y <= EDGE_MARGIN_PX || y + h >= frame.height - EDGE_MARGIN_PX;
+  const clippedHorizontally = x <= EDGE_MARGIN_PX || x + w >= frame.width - EDGE_MARGIN_PX;
+  const fromHeight = (size.height * focal) / h;
+  const fromWidth = (size.width * focal) / w;
+
+  // Height is preferred: an object's width depends on which way it is turned.
+  if (!clippedVertically) return fromHeight;
+  if (!clippedHorizontally) return fromWidth;
+  // Both clipped: the object fills the view and is at most this far away.
+  return Math.min(fromHeight, fromWidth);
+};
+
+export const describeObject = (
+  object: Pick<DetectedObject, 'class' | 'bbox'>,
+  frame: FrameSize,
+  options: SpatialOptions = DEFAULT_SPATIAL_OPTIONS,
+): SpatialDescription => {
+  const [x, , w] = object.bbox;
+  const centerX = frame.width > 0 ? (x + w / 2) / frame.width : 0.5;
+  return {
+    label: object.class,
+    position: positionFor(centerX),
+    centerX,
+    offCenter: Math.min(1, Math.abs(centerX - 0.5) * 2),
+    distanceMeters: estimateDistance(object, frame, options),
+  };
+};
+
+// Near, central objects first: a chair right in front matters more than a
+// car at the edge of the view.
+export const relevance = (description: SpatialDescription): number => {
+  const distance = description.distanceMeters ?? UNKNOWN_DISTANCE_RANK_M;
+  return distance * (1 + description.offCenter);
+};
+
+export const rankByRelevance = (descriptions: SpatialDescription[]): SpatialDescription[] =>
+  [...descriptions].sort((a, b) => relevance(a) - relevance(b));
+
+const POSITION_KEYS: Record<HorizontalPosition, MessageKey> = {
+  'far left': 'position.farLeft',
+  'left': 'position.left',
+  'slightly left': 'position.slightlyLeft',
+  'ahead': 'position.ahead',
+  'slightly right': 'position.slightlyRight',
+  'right': 'position.right',
+  'far right': 'position.farRight',
+};
+
+const english = getTranslator('en');
+
+export const phrasePosition = (position: HorizontalPosition, translator: Translator = english): string =>
+  translator.t(POSITION_KEYS[position]);
+
+export const phraseDistance = (meters: number, translator: Translator = english): string => {
+  if (meters < 1) return translator.t('distance.underMeter');
+  // Coarser steps further away, where the estimate is rougher anyway.
+  const rounded = meters < 10 ? Math.round(meters) : Math.round(meters / 5) * 5;
+  return translator.t('distance.meters', { count: rounded });
+};
+
+// "person slightly left about 3 meters away". No commas inside, so several
+// phrases can be joined into one list.
+export const phraseObject = (description: SpatialDescription, translator: Translator = english): string => {
+  const label = translator.className(description.label);
+  const position = phrasePosition(description.position, translator);
+  if (description.distanceMeters === null) {
+    return translator.t('object.withoutDistance', { label, position });
+  }
+  const distance = phraseDistance(description.distanceMeters, translator);
+  return translator.t('object.withDistance', { label, position, distance });
+};
+
+export interface AnnouncementOptions extends Partial<SpatialOptions> {
+  // Cap on how many objects are spoken, most relevant first.
+  maxItems?: number;
+  translator?: Translator;
+}
+
+export const describeScene = (
+  objects: Pick<DetectedObject, 'class' | 'bbox'>[],
+  frame: FrameSize,
+  { maxItems = 3, translator = english, ...spatial }: AnnouncementOptions = {},
+): string[] => {
+  const options = { ...DEFAULT_SPATIAL_OPTIONS, ...spatial };
+  return rankByRelevance(objects.map(o => describeObject(o, frame, options)))
+    .slice(0, maxItems)
+    .map(d => phraseObject(d, translator));
+};
@@ -0,0 +1,35 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { repeatLast, speak } from './speech';
+
+const spoken: string[] = [];
+
+beforeAll(() => {
+  vi.stubGlobal('SpeechSynthesisUtterance', class {
+    constructor(readonly text: string) {}
+  });
+  vi.stubGlobal('speechSynthesis', {
+    speak: (utterance: { text: string }) => spoken.push(utterance.text),
+    cancel() {},
+    getVoices: () => [],
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('repeatLast', () => {
+  it('has nothing to repeat before anything is said', () => {
+    speak('Say that again?', { prompt: true });
+    expect(repeatLast()).toBe(false);
+  });
+
+  it('repeats the last content, not the prompts said since', () => {
+    speak('In 40 meters, turn left.');
+    speak("Sorry, I didn't understand.", { prompt: true });
+    spoken.length = 0;
+    expect(repeatLast()).toBe(true);
+    expect(spoken).toEqual(['In 40 meters, turn left.']);
+  });
+});
@@ -0,0 +1,77 @@
+import { getSettingsStore, SpeechSettings } from './settings';
+import { currentTranslator } from './i18n';
+
+// Text-to-speech with the user's chosen voice and rate.
+
+export interface SpeakOptions {
+  // Cut off whatever is being said. Otherwise the utterance is queued.
+  interrupt?: boolean;
+  // Runs once the utterance has been spoken, e.g. to start listening for a reply.
+  onEnd?: () => void;
+  // A reply about the commands themselves ("not understood", "nothing to
+  // repeat"), which "repeat that" skips to say the last real content again.
+  prompt?: boolean;
+}
+
+const baseLang = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+
+// Voices that can speak `lang`, the browser's default first.
+export const voicesFor = (voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice[] =>
+  voices
+    .filter(v => baseLang(v.lang) === baseLang(lang))
+    .sort((a, b) => Number(b.default) - Number(a.default));
+
+// The chosen voice if it speaks `lang`; otherwise the best voice that does.
+// An English voice reading Spanish is worse than a different Spanish voice.
+const pickVoice = (voiceURI: string | null, lang: string): SpeechSynthesisVoice | undefined => {
+  const candidates = voicesFor(window.speechSynthesis.getVoices(), lang);
+  return candidates.find(v => v.voiceURI === voiceURI) ?? candidates[0];
+};
+
+export const createUtterance = (text: string, settings: SpeechSettings, lang: string): SpeechSynthesisUtterance => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = settings.rate;
+  utterance.lang = lang;
+  const voice = pickVoice(settings.voiceURI, lang);
+  if (voice) utterance.voice = voice;
+  return utterance;
+};
+
+let lastSpoken: string | null = null;
+
+export const speak = (text: string, { interrupt = true, onEnd, prompt = false }: SpeakOptions = {}): void => {
+  if (!prompt) lastSpoken = text;
+  if (interrupt) window.speechSynthesis.cancel();
+  const lang = currentTranslator().info.speechLang;
+  const utterance = createUtterance(text, getSettingsStore().get().speech, lang);
+  if (onEnd) utterance.onend = () => onEnd();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = (): void => {
+  window.speechSynthesis.cancel();
+};
+
+// Says the most recent spoken content again, prompts aside. Returns false if
+// nothing was said yet.
+export const repeatLast = (): boolean => {
+  if (lastSpoken === null) return false;
+  speak(lastSpoken);
+  return true;
+};
+
+// Voices load asynchronously in most browsers; resolves once they are known
+// or after a short wait, whichever comes first.
+export const loadVoices = (timeoutMs = 1500): Promise<SpeechSynthesisVoice[]> => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      window.speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(done, timeoutMs);
+    window.speechSynthesis.addEventListener('voiceschanged', done);
+  });
+};
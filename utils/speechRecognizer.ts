@@ -0,0 +1,265 @@
+import { getAiProvider } from './aiProvider';
+
+// Speech-to-text behind one interface, so voice commands can run on the
+// browser's recognizer, on the AI provider, or on a script.
+
+export interface RecognitionOptions {
+  // BCP 47 tag, e.g. "es-ES".
+  lang: string;
+  // Keep listening across utterances until stop(); otherwise end after one.
+  continuous: boolean;
+}
+
+export interface RecognitionCallbacks {
+  // One final transcript per utterance.
+  onResult: (text: string) => void;
+  onError: (error: unknown) => void;
+  // Recognition has stopped, whether asked to or not.
+  onEnd: () => void;
+}
+
+export interface SpeechRecognizer {
+  readonly isSupported: boolean;
+  // Starting while already running restarts with the new options.
+  start(options: RecognitionOptions, callbacks: RecognitionCallbacks): void;
+  stop(): void;
+}
+
+export type SpeechRecognizerFactory = () => SpeechRecognizer;
+
+// The parts of the Web Speech API we use; TypeScript's DOM library doesn't
+// declare it because only some browsers ship it, most behind a prefix.
+interface WebSpeechResult {
+  readonly isFinal: boolean;
+  readonly 0: { readonly transcript: string };
+}
+
+interface WebSpeechResultEvent {
+  readonly resultIndex: number;
+  readonly results: { readonly length: number; readonly [index: number]: WebSpeechResult };
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: WebSpeechResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+const webSpeechConstructor = (): WebSpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as unknown as Record<string, WebSpeechRecognitionConstructor | undefined>;
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+};
+
+// Errors that only mean nothing was heard; recognition just ends.
+const BENIGN_WEB_SPEECH_ERRORS = new Set(['no-speech', 'aborted']);
+
+export class WebSpeechRecognizer implements SpeechRecognizer {
+  private recognition: WebSpeechRecognition | null = null;
+
+  get isSupported(): boolean {
+    return webSpeechConstructor() !== undefined;
+  }
+
+  start(options: RecognitionOptions, callbacks: RecognitionCallbacks): void {
+    this.stop();
+    const Recognition = webSpeechConstructor();
+    if (!Recognition) {
+      callbacks.onError(new Error('Speech recognition is not supported in this browser'));
+      return;
+    }
+    const recognition = new Recognition();
+    recognition.lang = options.lang;
+    recognition.continuous = options.continuous;
+    recognition.interimResults = false;
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const text = result[0].transcript.trim();
+        if (result.isFinal && text) callbacks.onResult(text);
+      }
+    };
+    recognition.onerror = (event) => {
+      if (!BENIGN_WEB_SPEECH_ERRORS.has(event.error)) {
+        callbacks.onError(new Error(`Speech recognition error: ${event.error}`));
+      }
+    };
+    recognition.onend = () => {
+      if (this.recognition === recognition) this.recognition = null;
+      callbacks.onEnd();
+    };
+    this.recognition = recognition;
+    try {
+      recognition.start();
+    } catch (err) {
+      this.recognition = null;
+      callbacks.onError(err);
+    }
+  }
+
+  stop(): void {
+    const recognition = this.recognition;
+    this.recognition = null;
+    recognition?.abort();
+  }
+}
+
+export interface AiRecognizerOptions {
+  // Length of each recorded clip. Commands are short, so a few seconds is enough.
+  clipMs?: number;
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// For browsers without the Web Speech API: records short microphone clips
+// and asks the configured AI provider to transcribe each one.
+export class AiRecognizer implements SpeechRecognizer {
+  private readonly clipMs: number;
+  // Bumped on every start/stop so clips from an earlier run are dropped.
+  private generation = 0;
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+
+  constructor(options: AiRecognizerOptions = {}) {
+    this.clipMs = options.clipMs ?? 4000;
+  }
+
+  get isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  start(options: RecognitionOptions, callbacks: RecognitionCallbacks): void {
+    this.stop();
+    const generation = this.generation;
+    this.run(generation, options, callbacks).catch(err => {
+      if (generation !== this.generation) return;
+      this.release();
+      callbacks.onError(err);
+    });
+  }
+
+  stop(): void {
+    this.generation++;
+    this.release();
+  }
+
+  private async run(generation: number, options: RecognitionOptions, callbacks: RecognitionCallbacks): Promise<void> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    if (generation !== this.generation) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.stream = stream;
+    do {
+      const clip = await this.record(stream);
+      if (generation !== this.generation) return;
+      const text = await this.transcribe(clip, options.lang);
+      if (generation !== this.generation) return;
+      if (text) callbacks.onResult(text);
+    } while (options.continuous && generation === this.generation);
+    if (generation !== this.generation) return;
+    this.release();
+    callbacks.onEnd();
+  }
+
+  private record(stream: MediaStream): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+      recorder.onerror = () => reject(new Error('Recording failed'));
+      this.recorder = recorder;
+      recorder.start();
+      setTimeout(() => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      }, this.clipMs);
+    });
+  }
+
+  private async transcribe(clip: Blob, lang: string): Promise<string> {
+    const data = await blobToBase64(clip);
+    const text = await getAiProvider().generate({
+      parts: [
+        { inlineData: { mimeType: clip.type.split(';')[0] || 'audio/webm', data } },
+        { text: `Transcribe the speech in this recording (language: ${lang}). Reply with the transcript only, or nothing if no one speaks.` },
+      ],
+    });
+    return text.trim();
+  }
+
+  private release(): void {
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop();
+    this.recorder = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+}
+
+// Deterministic recognizer for tests: each start() plays the next entry of
+// the script as results, then ends (unless continuous, which waits for stop()).
+export class ScriptedRecognizer implements SpeechRecognizer {
+  readonly isSupported = true;
+  starts: RecognitionOptions[] = [];
+  private callbacks: RecognitionCallbacks | null = null;
+
+  constructor(private readonly script: string[][] = []) {}
+
+  start(options: RecognitionOptions, callbacks: RecognitionCallbacks): void {
+    const utterances = this.script[this.starts.length] ?? [];
+    this.starts.push(options);
+    this.callbacks = callbacks;
+    queueMicrotask(() => {
+      if (this.callbacks !== callbacks) return;
+      utterances.forEach(text => callbacks.onResult(text));
+      if (!options.continuous && this.callbacks === callbacks) this.end();
+    });
+  }
+
+  // Delivers an utterance to the running recognition, as if just spoken.
+  say(text: string): void {
+    this.callbacks?.onResult(text);
+  }
+
+  stop(): void {
+    if (this.callbacks) this.end();
+  }
+
+  private end(): void {
+    const callbacks = this.callbacks;
+    this.callbacks = null;
+    callbacks?.onEnd();
+  }
+}
+
+const factories = new Map<string, SpeechRecognizerFactory>();
+
+export const registerRecognizer = (id: string, factory: SpeechRecognizerFactory): void => {
+  factories.set(id, factory);
+};
+
+export const listRecognizers = (): string[] => [...factories.keys()];
+
+export const createRecognizer = (id: string): SpeechRecognizer => {
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown recognizer "${id}". Registered: ${listRecognizers().join(', ')}`);
+  }
+  return factory();
+};
+
+registerRecognizer('webspeech', () => new WebSpeechRecognizer());
+registerRecognizer('ai', () => new AiRecognizer());
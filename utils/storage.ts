@@ -0,0 +1,33 @@
+// localStorage can be missing (SSR, tests) or throw on access (Safari private
+// mode, disabled cookies). Everything persisted goes through this.
+
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export const safeLocalStorage = (): Storage | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads and parses a JSON value, returning null when it is absent or corrupt.
+export const readJson = <T>(storage: KeyValueStorage | null, key: string): T | null => {
+  const raw = storage?.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+// Writes a JSON value. Quota errors are logged rather than thrown; losing a
+// save is better than breaking the screen that triggered it.
+export const writeJson = (storage: KeyValueStorage | null, key: string, value: unknown): void => {
+  try {
+    storage?.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save ${key}:`, err);
+  }
+};
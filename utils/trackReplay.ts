@@ -0,0 +1,213 @@
+import { bearingDegrees, distanceMeters, fromGeoJson, GeoJsonFeatureCollection, interpolate, isValidLatLng, LatLng, offsetMeters } from './geo';
+import { SimulatedLocationProvider } from './location';
+
+// Replays a recorded walk through a SimulatedLocationProvider, so MapsMode
+// can be driven along a real route faster than walking it, with GPS-like
+// noise on top.
+
+export interface TrackPoint {
+  location: LatLng;
+  // Epoch milliseconds, when the track has timestamps.
+  time?: number;
+}
+
+// Reads <trkpt> points (or <rtept> for route-only files) from a GPX file.
+export const parseGpx = (xml: string): TrackPoint[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('Not a valid GPX file');
+  let elements = Array.from(doc.getElementsByTagName('trkpt'));
+  if (elements.length === 0) elements = Array.from(doc.getElementsByTagName('rtept'));
+  return elements
+    .map((el): TrackPoint => {
+      const time = el.getElementsByTagName('time')[0]?.textContent;
+      const parsed = time ? Date.parse(time) : NaN;
+      return {
+        location: { lat: Number(el.getAttribute('lat')), lng: Number(el.getAttribute('lon')) },
+        time: Number.isFinite(parsed) ? parsed : undefined,
+      };
+    })
+    .filter(point => isValidLatLng(point.location));
+};
+
+// The first LineString in a GeoJSON file. Times are read from
+// `properties.coordTimes`, which GPX-to-GeoJSON converters write.
+export const parseGeoJsonTrack = (collection: GeoJsonFeatureCollection): TrackPoint[] => {
+  const feature = collection.features.find(f => f.geometry.type === 'LineString' && Array.isArray(f.geometry.coordinates));
+  if (!feature) throw new Error('The GeoJSON file has no LineString to replay');
+  const times = Array.isArray(feature.properties?.coordTimes) ? feature.properties.coordTimes : [];
+  return (feature.geometry.coordinates as number[][])
+    .map((coordinates, i): TrackPoint => {
+      const parsed = typeof times[i] === 'string' ? Date.parse(times[i]) : NaN;
+      return { location: fromGeoJson(coordinates), time: Number.isFinite(parsed) ? parsed : undefined };
+    })
+    .filter(point => isValidLatLng(point.location));
+};
+
+// GPX if it looks like XML, GeoJSON otherwise.
+export const parseTrack = (text: string): TrackPoint[] => {
+  const points = text.trimStart().startsWith('<') ? parseGpx(text) : parseGeoJsonTrack(JSON.parse(text));
+  if (points.length < 2) throw new Error('A track needs at least two points');
+  return points;
+};
+
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface ReplayStatus {
+  state: ReplayState;
+  // 0..1 through the track.
+  progress: number;
+}
+
+export interface TrackReplayerOptions {
+  // Playback rate; 2 replays a walk in half the time.
+  speed: number;
+  // Standard deviation of the position noise added to each fix.
+  noiseMeters: number;
+  // Walking speed for tracks without timestamps.
+  walkingSpeed: number;
+  // How often a fix is sent, in real time.
+  intervalMs: number;
+  random: () => number;
+}
+
+export const DEFAULT_REPLAY_OPTIONS: TrackReplayerOptions = {
+  speed: 1,
+  noiseMeters: 0,
+  walkingSpeed: 1.4,
+  intervalMs: 1000,
+  random: Math.random,
+};
+
+// Normal noise by the Box-Muller transform.
+const gaussian = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+export class TrackReplayer {
+  private readonly options: TrackReplayerOptions;
+  // Track time of each point, from 0, in milliseconds.
+  private readonly offsets: number[];
+  private elapsed = 0;
+  private state: ReplayState = 'idle';
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<(status: ReplayStatus) => void>();
+
+  constructor(
+    private readonly track: TrackPoint[],
+    private readonly target: SimulatedLocationProvider,
+    options: Partial<TrackReplayerOptions> = {},
+  ) {
+    if (track.length < 2) throw new Error('A track needs at least two points');
+    this.options = { ...DEFAULT_REPLAY_OPTIONS, ...options };
+    const timed = track.every(p => p.time !== undefined);
+    let offset = 0;
+    this.offsets = track.map((point, i) => {
+      if (i > 0) {
+        const gap = timed
+          ? point.time! - track[i - 1].time!
+          : distanceMeters(track[i - 1].location, point.location) / this.options.walkingSpeed * 1000;
+        offset += Math.max(0, gap);
+      }
+      return offset;
+    });
+  }
+
+  get duration(): number {
+    return this.offsets[this.offsets.length - 1];
+  }
+
+  getStatus(): ReplayStatus {
+    return { state: this.state, progress: this.duration === 0 ? 1 : Math.min(1, this.elapsed / this.duration) };
+  }
+
+  subscribe(listener: (status: ReplayStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setSpeed(speed: number): void {
+    this.options.speed = speed;
+  }
+
+  setNoise(noiseMeters: number): void {
+    this.options.noiseMeters = noiseMeters;
+  }
+
+  play(): void {
+    if (this.state === 'playing') return;
+    if (this.state === 'finished') this.elapsed = 0;
+    this.state = 'playing';
+    this.emitFix();
+    this.timer = setInterval(() => this.advance(this.options.intervalMs), this.options.intervalMs);
+    this.emitStatus();
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.clearTimer();
+    this.state = 'paused';
+    this.emitStatus();
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.elapsed = 0;
+    this.state = 'idle';
+    this.emitStatus();
+  }
+
+  // Moves the replay on by `realMs` of wall-clock time. Public so a replay
+  // can be stepped without timers.
+  advance(realMs: number): void {
+    this.elapsed = Math.min(this.duration, this.elapsed + realMs * this.options.speed);
+    this.emitFix();
+    if (this.elapsed >= this.duration) {
+      this.clearTimer();
+      this.state = 'finished';
+    }
+    this.emitStatus();
+  }
+
+  private emitFix(): void {
+    const { location, heading, speed } = this.sample(this.elapsed);
+    const noise = this.options.noiseMeters;
+    const noisy = noise > 0
+      ? offsetMeters(location, gaussian(this.options.random) * noise, gaussian(this.options.random) * noise)
+      : location;
+    this.target.setPosition(noisy, {
+      // Roughly what a phone reports for this much scatter
+      accuracy: Math.max(5, noise * 2),
+      heading,
+      speed,
+      timestamp: Date.now(),
+    });
+  }
+
+  // Position, course and speed `elapsed` ms into the track.
+  private sample(elapsed: number): { location: LatLng; heading: number | null; speed: number | null } {
+    const { track, offsets } = this;
+    let i = 1;
+    while (i < offsets.length - 1 && offsets[i] < elapsed) i++;
+    const span = offsets[i] - offsets[i - 1];
+    const fraction = span === 0 ? 1 : Math.min(1, Math.max(0, (elapsed - offsets[i - 1]) / span));
+    const from = track[i - 1].location;
+    const to = track[i].location;
+    const meters = distanceMeters(from, to);
+    return {
+      location: interpolate(from, to, fraction),
+      heading: meters > 0 ? bearingDegrees(from, to) : null,
+      speed: span > 0 ? meters / (span / 1000) : null,
+    };
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private emitStatus(): void {
+    const status = this.getStatus();
+    for (const listener of this.listeners) listener(status);
+  }
+}
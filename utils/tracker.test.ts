@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { DetectedObject } from '../types';
+import { areaGrowth, BBox, iou, ObjectTracker } from './tracker';
+
+const detection = (label: string, bbox: BBox, score = 0.9): DetectedObject => ({ class: label, bbox, score });
+
+// A box of the given size centred on (cx, cy), as a detector would report it.
+const boxAt = (cx: number, cy: number, size: number): BBox => [cx - size / 2, cy - size / 2, size, size];
+
+describe('iou', () => {
+  it('is 1 for the same box and 0 for disjoint ones', () => {
+    expect(iou([0, 0, 10, 10], [0, 0, 10, 10])).toBe(1);
+    expect(iou([0, 0, 10, 10], [20, 20, 10, 10])).toBe(0);
+  });
+
+  it('is the shared area over the combined area', () => {
+    expect(iou([0, 0, 10, 10], [5, 0, 10, 10])).toBeCloseTo(50 / 150);
+  });
+});
+
+describe('ObjectTracker', () => {
+  it('keeps the same id for an object moving across frames', () => {
+    const tracker = new ObjectTracker();
+    const ids = new Set<number>();
+    for (let frame = 0; frame < 10; frame++) {
+      const update = tracker.update([detection('person', boxAt(100 + frame * 8, 200, 80))]);
+      update.visible.forEach(track => ids.add(track.id));
+    }
+    expect(ids.size).toBe(1);
+    expect(tracker.getTracks()).toHaveLength(1);
+  });
+
+  it('follows a fast object by its centre when the boxes stop overlapping', () => {
+    const tracker = new ObjectTracker();
+    tracker.update([detection('car', [0, 0, 40, 40])]);
+    // Too little overlap to match by IoU, but a short hop for its size
+    const update = tracker.update([detection('car', [25, 0, 40, 40])]);
+    expect(update.appeared.map(track => track.id)).toEqual([1]);
+  });
+
+  it('keeps objects of the same class apart', () => {
+    const tracker = new ObjectTracker();
+    const frame = (shift: number) => [
+      detection('person', boxAt(100 + shift, 200, 60)),
+      detection('person', boxAt(400 - shift, 200, 60)),
+    ];
+    tracker.update(frame(0));
+    const first = tracker.update(frame(5)).visible;
+    const second = tracker.update(frame(10)).visible;
+    expect(first.map(track => track.id)).toEqual(second.map(track => track.id));
+    expect(second.map(track => track.bbox[0] < 250)).toEqual(first.map(track => track.bbox[0] < 250));
+  });
+
+  it('does not match a detection of another class', () => {
+    const tracker = new ObjectTracker();
+    tracker.update([detection('dog', [0, 0, 50, 50])]);
+    tracker.update([detection('cat', [0, 0, 50, 50])]);
+    expect(tracker.getTracks().map(track => track.label)).toEqual(['dog', 'cat']);
+  });
+
+  it('reports a track only once it has been seen enough times', () => {
+    const tracker = new ObjectTracker({ minHitsToConfirm: 3 });
+    const box = boxAt(100, 100, 50);
+    expect(tracker.update([detection('chair', box)]).appeared).toEqual([]);
+    expect(tracker.update([detection('chair', box)]).appeared).toEqual([]);
+    const third = tracker.update([detection('chair', box)]);
+    expect(third.appeared).toHaveLength(1);
+    expect(tracker.update([detection('chair', box)]).appeared).toEqual([]);
+  });
+
+  it('ages a missed track and drops it after too many missed frames', () => {
+    const tracker = new ObjectTracker({ maxMissedFrames: 2 });
+    const box = boxAt(100, 100, 50);
+    tracker.update([detection('bench', box)]);
+    tracker.update([detection('bench', box)]);
+
+    const missed = tracker.update([]);
+    expect(missed.visible).toEqual([]);
+    expect(missed.lost).toEqual([]);
+    expect(tracker.getTracks()[0]).toMatchObject({ age: 3, hits: 2, missed: 1 });
+
+    expect(tracker.update([]).lost).toEqual([]);
+    const dropped = tracker.update([]);
+    expect(dropped.lost.map(track => track.id)).toEqual([1]);
+    expect(tracker.getTracks()).toEqual([]);
+  });
+
+  it('picks a track back up within the missed-frame allowance', () => {
+    const tracker = new ObjectTracker({ maxMissedFrames: 2 });
+    const box = boxAt(100, 100, 50);
+    tracker.update([detection('bench', box)]);
+    tracker.update([detection('bench', box)]);
+    tracker.update([]);
+    const update = tracker.update([detection('bench', box)]);
+    expect(update.visible.map(track => track.id)).toEqual([1]);
+    expect(update.appeared).toEqual([]);
+  });
+
+  it('forgets an unconfirmed track without reporting it lost', () => {
+    const tracker = new ObjectTracker({ maxMissedFrames: 1 });
+    tracker.update([detection('cup', [0, 0, 10, 10])]);
+    tracker.update([]);
+    expect(tracker.update([]).lost).toEqual([]);
+    expect(tracker.getTracks()).toEqual([]);
+  });
+
+  it('flags an object whose box keeps growing as approaching, once', () => {
+    const tracker = new ObjectTracker();
+    const starts: number[] = [];
+    for (let frame = 0; frame < 8; frame++) {
+      const update = tracker.update([detection('person', boxAt(320, 240, 60 + frame * 10))]);
+      if (update.startedApproaching.length > 0) starts.push(frame);
+    }
+    expect(starts).toHaveLength(1);
+    expect(tracker.getTracks()[0].approaching).toBe(true);
+  });
+
+  it('does not flag an object that stays the same size, despite jitter', () => {
+    const tracker = new ObjectTracker();
+    for (let frame = 0; frame < 10; frame++) {
+      const size = 100 + (frame % 2 === 0 ? 4 : -4);
+      expect(tracker.update([detection('person', boxAt(320, 240, size))]).startedApproaching).toEqual([]);
+    }
+    expect(tracker.getTracks()[0].approaching).toBe(false);
+  });
+
+  it('stops flagging an object once it stops growing', () => {
+    const tracker = new ObjectTracker({ historyLength: 4 });
+    for (let frame = 0; frame < 5; frame++) tracker.update([detection('car', boxAt(320, 240, 60 + frame * 15))]);
+    expect(tracker.getTracks()[0].approaching).toBe(true);
+    for (let frame = 0; frame < 4; frame++) tracker.update([detection('car', boxAt(320, 240, 120))]);
+    expect(tracker.getTracks()[0].approaching).toBe(false);
+  });
+});
+
+describe('areaGrowth', () => {
+  it('compares the newest samples with the oldest', () => {
+    expect(areaGrowth({ areaHistory: [100, 100, 100, 200, 200, 200] })).toBe(2);
+    expect(areaGrowth({ areaHistory: [100] })).toBe(1);
+  });
+});
@@ -0,0 +1,222 @@
+import { DetectedObject } from '../types';
+
+export type BBox = [number, number, number, number]; // [x, y, width, height]
+
+export interface Track {
+  id: number;
+  label: string;
+  bbox: BBox;
+  score: number;
+  // Frames since the track was created.
+  age: number;
+  // Frames in which the track was matched to a detection.
+  hits: number;
+  // Consecutive frames without a match.
+  missed: number;
+  confirmed: boolean;
+  approaching: boolean;
+  // Box areas of the most recent matched frames, oldest first.
+  areaHistory: number[];
+}
+
+export interface TrackerUpdate {
+  // Confirmed tracks matched in this frame.
+  visible: Track[];
+  // Tracks that were confirmed in this frame, i.e. worth announcing as new.
+  appeared: Track[];
+  // Tracks that started approaching in this frame.
+  startedApproaching: Track[];
+  // Confirmed tracks dropped in this frame after going unmatched too long.
+  lost: Track[];
+}
+
+export interface TrackerOptions {
+  // Minimum IoU for a detection to continue a track.
+  iouThreshold: number;
+  // When boxes don't overlap enough (fast motion, low fps), a detection can
+  // still continue a track if its centre moved less than this many box
+  // diagonals.
+  maxCentroidShift: number;
+  // How many frames a track may go unmatched before it is dropped.
+  maxMissedFrames: number;
+  // How many matches a track needs before it is reported.
+  minHitsToConfirm: number;
+  historyLength: number;
+  // Growth in box area (recent vs. oldest samples) that counts as approaching.
+  approachGrowth: number;
+  // Minimum samples in the history before approach is judged.
+  minApproachSamples: number;
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  iouThreshold: 0.3,
+  maxCentroidShift: 0.5,
+  maxMissedFrames: 5,
+  minHitsToConfirm: 2,
+  historyLength: 10,
+  approachGrowth: 1.3,
+  minApproachSamples: 4,
+};
+
+export const area = ([, , w, h]: BBox): number => Math.max(0, w) * Math.max(0, h);
+
+export const iou = (a: BBox, b: BBox): number => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Distance between box centres, measured in diagonals of box `a`.
+const centroidShift = (a: BBox, b: BBox): number => {
+  const dx = a[0] + a[2] / 2 - (b[0] + b[2] / 2);
+  const dy = a[1] + a[3] / 2 - (b[1] + b[3] / 2);
+  const diagonal = Math.hypot(a[2], a[3]);
+  return diagonal > 0 ? Math.hypot(dx, dy) / diagonal : Infinity;
+};
+
+// Ratio of the recent box area to the earliest one in the history. Values
+// above 1 mean the object is filling more of the frame, i.e. getting closer.
+export const areaGrowth = (track: Pick<Track, 'areaHistory'>): number => {
+  const history = track.areaHistory;
+  if (history.length < 2) return 1;
+  // Average a few samples at each end to smooth out detector jitter.
+  const span = Math.max(1, Math.floor(history.length / 3));
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const early = mean(history.slice(0, span));
+  const recent = mean(history.slice(-span));
+  return early > 0 ? recent / early : 1;
+};
+
+interface Candidate {
+  trackIndex: number;
+  detectionIndex: number;
+  // Lower is better. IoU matches always rank ahead of centroid-only matches.
+  cost: number;
+}
+
+export class ObjectTracker {
+  private readonly options: TrackerOptions;
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  constructor(options: Partial<TrackerOptions> = {}) {
+    this.options = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+  }
+
+  // All live tracks, including tentative and currently unmatched ones.
+  getTracks(): Track[] {
+    return this.tracks.map(cloneTrack);
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.nextId = 1;
+  }
+
+  update(detections: DetectedObject[]): TrackerUpdate {
+    const { iouThreshold, maxCentroidShift } = this.options;
+
+    const candidates: Candidate[] = [];
+    this.tracks.forEach((track, trackIndex) => {
+      detections.forEach((detection, detectionIndex) => {
+        if (detection.class !== track.label) return;
+        const overlap = iou(track.bbox, detection.bbox);
+        if (overlap >= iouThreshold) {
+          candidates.push({ trackIndex, detectionIndex, cost: 1 - overlap });
+          return;
+        }
+        const shift = centroidShift(track.bbox, detection.bbox);
+        if (shift <= maxCentroidShift) {
+          candidates.push({ trackIndex, detectionIndex, cost: 1 + shift });
+        }
+      });
+    });
+    candidates.sort((a, b) => a.cost - b.cost);
+
+    // Greedy assignment: good enough for the handful of objects per frame.
+    const matchedTracks = new Set<number>();
+    const matchedDetections = new Set<number>();
+    const result: TrackerUpdate = { visible: [], appeared: [], startedApproaching: [], lost: [] };
+
+    for (const { trackIndex, detectionIndex } of candidates) {
+      if (matchedTracks.has(trackIndex) || matchedDetections.has(detectionIndex)) continue;
+      matchedTracks.add(trackIndex);
+      matchedDetections.add(detectionIndex);
+      this.matchTrack(this.tracks[trackIndex], detections[detectionIndex], result);
+    }
+
+    const survivors: Track[] = [];
+    this.tracks.forEach((track, trackIndex) => {
+      if (!matchedTracks.has(trackIndex)) {
+        track.age++;
+        track.missed++;
+      }
+      if (track.missed > this.options.maxMissedFrames) {
+        if (track.confirmed) result.lost.push(cloneTrack(track));
+      } else {
+        survivors.push(track);
+      }
+    });
+
+    detections.forEach((detection, detectionIndex) => {
+      if (matchedDetections.has(detectionIndex)) return;
+      const track: Track = {
+        id: this.nextId++,
+        label: detection.class,
+        bbox: [...detection.bbox],
+        score: detection.score,
+        age: 1,
+        hits: 1,
+        missed: 0,
+        confirmed: false,
+        approaching: false,
+        areaHistory: [area(detection.bbox)],
+      };
+      this.confirmIfReady(track, result);
+      survivors.push(track);
+    });
+
+    this.tracks = survivors;
+    return result;
+  }
+
+  private matchTrack(track: Track, detection: DetectedObject, result: TrackerUpdate): void {
+    const { historyLength, approachGrowth, minApproachSamples } = this.options;
+    track.bbox = [...detection.bbox];
+    track.score = detection.score;
+    track.age++;
+    track.hits++;
+    track.missed = 0;
+    track.areaHistory.push(area(detection.bbox));
+    if (track.areaHistory.length > historyLength) {
+      track.areaHistory.shift();
+    }
+
+    const wasApproaching = track.approaching;
+    track.approaching = track.areaHistory.length >= minApproachSamples && areaGrowth(track) >= approachGrowth;
+    if (track.confirmed && track.approaching && !wasApproaching) {
+      result.startedApproaching.push(cloneTrack(track));
+    }
+    this.confirmIfReady(track, result);
+  }
+
+  private confirmIfReady(track: Track, result: TrackerUpdate): void {
+    if (!track.confirmed && track.hits >= this.options.minHitsToConfirm) {
+      track.confirmed = true;
+      result.appeared.push(cloneTrack(track));
+    }
+    if (track.confirmed && track.missed === 0) {
+      result.visible.push(cloneTrack(track));
+    }
+  }
+}
+
+const cloneTrack = (track: Track): Track => ({
+  ...track,
+  bbox: [...track.bbox],
+  areaHistory: [...track.areaHistory],
+});
@@ -0,0 +1,75 @@
+import { LiveServerMessage } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getTranslator } from './i18n';
+import { KeyValueStorage } from './storage';
+import { Transcript, transcriptToText } from './transcript';
+
+const memoryStorage = () => {
+  const values = new Map<string, string>();
+  const storage: KeyValueStorage = {
+    getItem: key => values.get(key) ?? null,
+    setItem: vi.fn((key: string, value: string) => void values.set(key, value)),
+    removeItem: key => void values.delete(key),
+  };
+  return storage;
+};
+
+const output = (text: string): LiveServerMessage => ({ serverContent: { outputTranscription: { text } } }) as LiveServerMessage;
+const input = (text: string): LiveServerMessage => ({ serverContent: { inputTranscription: { text } } }) as LiveServerMessage;
+const interrupted = { serverContent: { interrupted: true } } as LiveServerMessage;
+const turnComplete = { serverContent: { turnComplete: true } } as LiveServerMessage;
+
+describe('Transcript saving', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves streamed text once after the delay rather than on every chunk', () => {
+    const storage = memoryStorage();
+    const transcript = new Transcript({ storage, saveDelayMs: 1000 });
+    for (const word of ['There ', 'is ', 'a ', 'door']) transcript.ingest(output(word));
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(new Transcript({ storage }).getTurns()[0].text).toBe('There is a door');
+  });
+
+  it('saves straight away when a turn completes', () => {
+    const storage = memoryStorage();
+    const transcript = new Transcript({ storage, saveDelayMs: 1000 });
+    transcript.ingest(output('Hello'));
+    transcript.ingest(turnComplete);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+
+    // Nothing is left waiting on the timer
+    vi.advanceTimersByTime(1000);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves pending text on flush', () => {
+    const storage = memoryStorage();
+    const transcript = new Transcript({ storage, saveDelayMs: 1000 });
+    transcript.ingest(output('Hello'));
+    transcript.flush();
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(new Transcript({ storage }).getTurns()[0].text).toBe('Hello');
+  });
+});
+
+describe('transcriptToText', () => {
+  it('labels speakers and interruptions in the given language', () => {
+    const transcript = new Transcript({ storage: null });
+    transcript.ingest(input('¿Qué hay delante?'));
+    transcript.ingest(output('Una puerta'));
+    transcript.ingest(interrupted);
+    const lines = transcriptToText(transcript.getTurns(), getTranslator('es')).split('\n');
+    expect(lines[0]).toMatch(/^Sesión del /);
+    expect(lines[1]).toMatch(/\] Tú: ¿Qué hay delante\?$/);
+    expect(lines[2]).toMatch(/\] Asistente: Una puerta \(interrumpido\)$/);
+  });
+});
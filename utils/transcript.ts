@@ -0,0 +1,217 @@
+import { LiveServerMessage } from '@google/genai';
+import { currentTranslator, Translator } from './i18n';
+import { KeyValueStorage, readJson, safeLocalStorage, writeJson } from './storage';
+
+// A turn-by-turn record of a Scene Descriptor conversation, built from the
+// Live API's streamed input and output transcriptions.
+
+export type TranscriptRole = 'user' | 'assistant';
+
+export interface TranscriptTurn {
+  id: number;
+  role: TranscriptRole;
+  text: string;
+  // Epoch milliseconds.
+  startedAt: number;
+  // Null while the turn is still being spoken.
+  endedAt: number | null;
+  // The assistant was cut off by the user speaking over it.
+  interrupted: boolean;
+  // Turns from the same session share this; it is the session's start time.
+  sessionId: number;
+}
+
+export interface TranscriptOptions {
+  // Where turns are kept across sessions. Pass null to disable.
+  storage?: KeyValueStorage | null;
+  // Oldest turns are dropped beyond this.
+  maxTurns?: number;
+  // How long streamed text may go unsaved. Completed turns, new sessions and
+  // clears are saved straight away.
+  saveDelayMs?: number;
+  now?: () => number;
+}
+
+const STORAGE_KEY = 'haptinav.transcript';
+
+export class Transcript {
+  private turns: TranscriptTurn[];
+  private listeners = new Set<(turns: TranscriptTurn[]) => void>();
+  private nextId: number;
+  private sessionId: number;
+  private readonly storage: KeyValueStorage | null;
+  private readonly maxTurns: number;
+  private readonly saveDelayMs: number;
+  private readonly now: () => number;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: TranscriptOptions = {}) {
+    this.storage = options.storage === undefined ? safeLocalStorage() : options.storage;
+    this.maxTurns = options.maxTurns ?? 500;
+    this.saveDelayMs = options.saveDelayMs ?? 2000;
+    this.now = options.now ?? Date.now;
+    this.turns = (readJson<TranscriptTurn[]>(this.storage, STORAGE_KEY) ?? [])
+      // A turn left open by a crash or reload will never be completed.
+      .map(turn => turn.endedAt === null ? { ...turn, endedAt: turn.startedAt } : turn);
+    this.nextId = this.turns.reduce((max, turn) => Math.max(max, turn.id), 0) + 1;
+    this.sessionId = this.now();
+  }
+
+  getTurns(): TranscriptTurn[] {
+    return this.turns;
+  }
+
+  subscribe(listener: (turns: TranscriptTurn[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Marks the start of a new conversation; earlier turns are kept.
+  beginSession(): void {
+    this.closeOpenTurns(false);
+    this.sessionId = this.now();
+    this.commit(true);
+  }
+
+  // Feeds one server message in. Returns true if the transcript changed.
+  ingest(message: LiveServerMessage): boolean {
+    const content = message.serverContent;
+    if (!content) return false;
+    let changed = false;
+    let completed = false;
+    if (content.inputTranscription?.text) {
+      completed = this.append('user', content.inputTranscription.text);
+      changed = true;
+    }
+    if (content.outputTranscription?.text) {
+      completed = this.append('assistant', content.outputTranscription.text) || completed;
+      changed = true;
+    }
+    if (content.interrupted || content.turnComplete) {
+      completed = this.closeOpenTurns(!!content.interrupted) || completed;
+    }
+    changed = changed || completed;
+    if (changed) this.commit(completed);
+    return changed;
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.commit(true);
+  }
+
+  // Saves anything still waiting on the save delay.
+  flush(): void {
+    if (this.saveTimer !== null) this.save();
+  }
+
+  // Returns true if this ended an earlier turn.
+  private append(role: TranscriptRole, text: string): boolean {
+    const last = this.turns[this.turns.length - 1];
+    if (last && last.role === role && last.endedAt === null && last.sessionId === this.sessionId) {
+      this.turns = [...this.turns.slice(0, -1), { ...last, text: last.text + text }];
+      return false;
+    }
+    // The other speaker has started, so whatever they were saying is over.
+    const closed = this.closeOpenTurns(false);
+    this.turns = [...this.turns, {
+      id: this.nextId++,
+      role,
+      text,
+      startedAt: this.now(),
+      endedAt: null,
+      interrupted: false,
+      sessionId: this.sessionId,
+    }];
+    if (this.turns.length > this.maxTurns) {
+      this.turns = this.turns.slice(this.turns.length - this.maxTurns);
+    }
+    return closed;
+  }
+
+  private closeOpenTurns(interrupted: boolean): boolean {
+    if (!this.turns.some(turn => turn.endedAt === null)) return false;
+    const now = this.now();
+    this.turns = this.turns.map(turn => turn.endedAt !== null ? turn : {
+      ...turn,
+      text: turn.text.trim(),
+      endedAt: now,
+      // Only the assistant can be interrupted; the user's turn simply ends.
+      interrupted: interrupted && turn.role === 'assistant',
+    });
+    return true;
+  }
+
+  // Serializing every turn on every streamed chunk is too slow, so text that
+  // is still arriving is saved on a timer.
+  private commit(saveNow: boolean): void {
+    if (saveNow) {
+      this.save();
+    } else if (this.saveTimer === null && this.storage) {
+      this.saveTimer = setTimeout(() => this.save(), this.saveDelayMs);
+    }
+    this.listeners.forEach(listener => listener(this.turns));
+  }
+
+  private save(): void {
+    if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    writeJson(this.storage, STORAGE_KEY, this.turns);
+  }
+}
+
+// Plain text for reading or sharing, with a heading per session, in the
+// UI language.
+export const transcriptToText = (turns: TranscriptTurn[], { t }: Translator = currentTranslator()): string => {
+  const speakers: Record<TranscriptRole, string> = { user: t('transcript.you'), assistant: t('transcript.assistant') };
+  const lines: string[] = [];
+  let sessionId: number | null = null;
+  for (const turn of turns) {
+    if (turn.sessionId !== sessionId) {
+      sessionId = turn.sessionId;
+      if (lines.length > 0) lines.push('');
+      lines.push(t('transcript.sessionHeading', { date: new Date(sessionId).toLocaleString() }));
+    }
+    const time = new Date(turn.startedAt).toLocaleTimeString();
+    const suffix = turn.interrupted ? ` ${t('transcript.interrupted')}` : '';
+    lines.push(`[${time}] ${speakers[turn.role]}: ${turn.text.trim()}${suffix}`);
+  }
+  return lines.join('\n');
+};
+
+// Full-fidelity export for debugging, with ISO timestamps.
+export const transcriptToJson = (turns: TranscriptTurn[]): string =>
+  JSON.stringify(turns.map(turn => ({
+    role: turn.role,
+    text: turn.text.trim(),
+    startedAt: new Date(turn.startedAt).toISOString(),
+    endedAt: turn.endedAt === null ? null : new Date(turn.endedAt).toISOString(),
+    interrupted: turn.interrupted,
+    session: new Date(turn.sessionId).toISOString(),
+  })), null, 2);
+
+// Saves the transcript as a file through a temporary download link.
+export const downloadTranscript = (turns: TranscriptTurn[], format: 'text' | 'json'): void => {
+  const isJson = format === 'json';
+  const content = isJson ? transcriptToJson(turns) : transcriptToText(turns);
+  const blob = new Blob([content], { type: isJson ? 'application/json' : 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `transcript-${new Date().toISOString().slice(0, 10)}.${isJson ? 'json' : 'txt'}`;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+let defaultTranscript: Transcript | null = null;
+
+// The app-wide transcript backed by localStorage.
+export const getDefaultTranscript = (): Transcript => {
+  if (!defaultTranscript) {
+    defaultTranscript = new Transcript();
+  }
+  return defaultTranscript;
+};
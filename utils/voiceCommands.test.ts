@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode } from '../types';
+import { getTranslator, Language } from './i18n';
+import { parseIntent, stripWakePhrase, VoiceIntent } from './voiceCommands';
+
+const CASES: Record<Language, [string, VoiceIntent | null][]> = {
+  en: [
+    ['Navigate to the train station.', { type: 'navigate', destination: 'the train station' }],
+    ['please take me to Main Street', { type: 'navigate', destination: 'Main Street' }],
+    ['go to fast mode', { type: 'openMode', mode: AppMode.FAST }],
+    ['go to settings', { type: 'openMode', mode: AppMode.SETTINGS }],
+    ['go to the fast food place', { type: 'navigate', destination: 'the fast food place' }],
+    ['go to home', { type: 'navigate', destination: 'home' }],
+    ['take me home', { type: 'navigate', destination: 'home' }],
+    ['navigate home', { type: 'navigate', destination: 'home' }],
+    ['take me to the park', { type: 'navigate', destination: 'the park' }],
+    ['navigate', { type: 'openMode', mode: AppMode.MAPS }],
+    ['repeat that', { type: 'repeat' }],
+    ['stop navigation', { type: 'stop' }],
+    ['go home', { type: 'openMode', mode: AppMode.HOME }],
+    ['open settings', { type: 'openMode', mode: AppMode.SETTINGS }],
+    ['watch my path', { type: 'openMode', mode: AppMode.OBSTACLE }],
+    ["what's around me?", { type: 'openMode', mode: AppMode.FAST }],
+    ['What do you see', { type: 'openMode', mode: AppMode.SCENE_DESCRIPTOR }],
+    ['maps', { type: 'openMode', mode: AppMode.MAPS }],
+    ['number three', { type: 'choose', index: 2 }],
+    ['2', { type: 'choose', index: 1 }],
+    ['the second one', { type: 'choose', index: 1 }],
+    ['I want the fourth one please', { type: 'choose', index: 3 }],
+    ['one', { type: 'choose', index: 0 }],
+    ['tell me a joke', null],
+    ['  ...  ', null],
+  ],
+  es: [
+    ['Llévame a la farmacia', { type: 'navigate', destination: 'la farmacia' }],
+    ['ir a ajustes', { type: 'openMode', mode: AppMode.SETTINGS }],
+    ['ve a modo rápido', { type: 'openMode', mode: AppMode.FAST }],
+    ['¿Qué has dicho?', { type: 'repeat' }],
+    ['cancela', { type: 'stop' }],
+    ['menú principal', { type: 'openMode', mode: AppMode.HOME }],
+    ['vigila mi camino', { type: 'openMode', mode: AppMode.OBSTACLE }],
+    ['¿Qué ves?', { type: 'openMode', mode: AppMode.SCENE_DESCRIPTOR }],
+    ['modo mapas', { type: 'openMode', mode: AppMode.MAPS }],
+    ['la tercera', { type: 'choose', index: 2 }],
+    ['la segunda una', { type: 'choose', index: 1 }],
+    ['cuéntame un chiste', null],
+  ],
+  fr: [
+    ['Emmène-moi à la gare', { type: 'navigate', destination: 'la gare' }],
+    ['aller à paramètres', { type: 'openMode', mode: AppMode.SETTINGS }],
+    ['va à mode rapide', { type: 'openMode', mode: AppMode.FAST }],
+    ['répète', { type: 'repeat' }],
+    ['arrête la navigation', { type: 'stop' }],
+    ['accueil', { type: 'openMode', mode: AppMode.HOME }],
+    ['surveille mon chemin', { type: 'openMode', mode: AppMode.OBSTACLE }],
+    ["Qu'est-ce que tu vois ?", { type: 'openMode', mode: AppMode.SCENE_DESCRIPTOR }],
+    ['mode cartes', { type: 'openMode', mode: AppMode.MAPS }],
+    ['le deuxième', { type: 'choose', index: 1 }],
+    ['la troisième une', { type: 'choose', index: 2 }],
+    ['quelle heure est-il', null],
+  ],
+};
+
+describe('parseIntent', () => {
+  for (const [language, cases] of Object.entries(CASES) as [Language, [string, VoiceIntent | null][]][]) {
+    const phrases = getTranslator(language).commandPhrases;
+    it.each(cases)(`${language}: %s`, (text, intent) => {
+      expect(parseIntent(text, phrases)).toEqual(intent);
+    });
+  }
+});
+
+describe('stripWakePhrase', () => {
+  it('returns the command after the wake phrase', () => {
+    expect(stripWakePhrase('Hey Vision, go home')).toBe('go home');
+  });
+
+  it('returns an empty string for the wake phrase alone', () => {
+    expect(stripWakePhrase('ok vision.')).toBe('');
+  });
+
+  it('ignores speech without the wake phrase', () => {
+    expect(stripWakePhrase('I said hey vision')).toBeNull();
+  });
+
+  it('uses the language phrases', () => {
+    expect(stripWakePhrase('oye visión, inicio', getTranslator('es').commandPhrases)).toBe('inicio');
+  });
+});
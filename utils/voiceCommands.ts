@@ -0,0 +1,305 @@
+import { AppMode } from '../types';
+import { SpeechRecognizer } from './speechRecognizer';
+
+// Hands-free control: a recognizer turns speech into text, `parseIntent`
+// turns text into an intent, and the app maps intents onto modes and actions.
+
+export type VoiceIntent =
+  | { type: 'openMode'; mode: AppMode }
+  | { type: 'navigate'; destination: string }
+  | { type: 'stop' }
+  | { type: 'repeat' }
+  // Picks an option from a list that was read out; 0-based.
+  | { type: 'choose'; index: number };
+
+// The phrases for each intent in one language. Matching is case-insensitive
+// and on whole words, so "please go home" matches "go home".
+export interface CommandPhrases {
+  // Said before a command when always-on listening is enabled.
+  wake: string[];
+  // Followed by the destination, e.g. "take me to the station".
+  navigate: string[];
+  stop: string[];
+  repeat: string[];
+  home: string[];
+  settings: string[];
+  fast: string[];
+  obstacle: string[];
+  scene: string[];
+  maps: string[];
+  // choices[i] picks option i + 1 from a list, e.g. "two", "the second".
+  choices: string[][];
+}
+
+export const ENGLISH_COMMAND_PHRASES: CommandPhrases = {
+  wake: ['hey vision', 'ok vision', 'okay vision'],
+  // The forms without "to" come after those with it, and take "home" as the
+  // saved place: "take me home" is a trip, "go home" the home screen.
+  navigate: ['navigate to', 'take me to', 'directions to', 'walk me to', 'go to', 'take me', 'walk me', 'navigate'],
+  stop: ['stop', 'cancel', 'pause', 'be quiet'],
+  repeat: ['repeat that', 'repeat', 'say that again', 'say again', 'what did you say'],
+  home: ['go home', 'home screen', 'main menu', 'go back', 'home'],
+  settings: ['settings', 'preferences'],
+  fast: ['fast mode', 'object detection', 'detect objects', 'what is around me', "what's around me"],
+  obstacle: ['obstacle mode', 'obstacle alert', 'obstacle alerts', 'watch my path', 'watch the path'],
+  scene: ['describe the scene', 'describe scene', 'scene descriptor', 'describe what you see', 'what do you see', 'describe'],
+  maps: ['maps mode', 'maps', 'navigation', 'navigate'],
+  choices: [
+    ['number one', 'the first', 'first', 'one', '1'],
+    ['number two', 'the second', 'second', 'two', '2'],
+    ['number three', 'the third', 'third', 'three', '3'],
+    ['number four', 'the fourth', 'fourth', 'four', '4'],
+    ['number five', 'the fifth', 'fifth', 'five', '5'],
+  ],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches any phrase as whole words; \p{L} rather than \b so accented
+// letters count as part of a word.
+const phrasePattern = (phrases: string[]) =>
+  `(?<![\\p{L}\\p{N}])(?:${phrases.map(p => escapeRegExp(p).replace(/\s+/g, '\\s+')).join('|')})(?![\\p{L}\\p{N}])`;
+
+const containsPhrase = (text: string, phrases: string[]) =>
+  phrases.length > 0 && new RegExp(phrasePattern(phrases), 'iu').test(text);
+
+// Whether the whole of `text` is one of the phrases.
+const isPhrase = (text: string, phrases: string[]) =>
+  phrases.length > 0 && new RegExp(`^${phrasePattern(phrases)}$`, 'iu').test(text);
+
+const tidy = (text: string) => text.trim().replace(/[\s.,!?¿¡;:]+$/u, '').replace(/^[\s.,!?¿¡;:]+/u, '');
+
+// What follows the wake phrase, or null if the text doesn't start with one.
+// An empty string means the wake phrase was said on its own.
+export const stripWakePhrase = (text: string, phrases: CommandPhrases = ENGLISH_COMMAND_PHRASES): string | null => {
+  const match = new RegExp(`^\\s*${phrasePattern(phrases.wake)}[\\s,.!]*`, 'iu').exec(text);
+  return match ? tidy(text.slice(match[0].length)) : null;
+};
+
+// Screens that can be opened by name. Home is left out: "go to home" is as
+// likely to mean a saved place.
+const namedScreens = (phrases: CommandPhrases): [string[], AppMode][] => [
+  [phrases.settings, AppMode.SETTINGS],
+  [phrases.obstacle, AppMode.OBSTACLE],
+  [phrases.fast, AppMode.FAST],
+  [phrases.scene, AppMode.SCENE_DESCRIPTOR],
+  [phrases.maps, AppMode.MAPS],
+];
+
+// The option whose phrase matches the most of the utterance, so "the second
+// one" picks the second rather than the first for its "one"; -1 if none.
+const chooseOption = (utterance: string, choices: string[][]): number => {
+  let best = -1;
+  let bestLength = 0;
+  choices.forEach((options, index) => {
+    const match = options.length > 0 ? new RegExp(phrasePattern(options), 'iu').exec(utterance) : null;
+    if (match && match[0].length > bestLength) {
+      best = index;
+      bestLength = match[0].length;
+    }
+  });
+  return best;
+};
+
+// Maps one utterance onto an intent, or null if it isn't a command. Pure, so
+// it can be checked against any phrase list without a microphone.
+export const parseIntent = (text: string, phrases: CommandPhrases = ENGLISH_COMMAND_PHRASES): VoiceIntent | null => {
+  const utterance = tidy(text);
+  if (!utterance) return null;
+
+  // Navigation carries a free-form destination, so it is matched first and
+  // the rest of the utterance is kept verbatim. A destination that is a
+  // screen's name ("go to settings") opens that screen instead.
+  const navigate = new RegExp(`${phrasePattern(phrases.navigate)}\\s+(.+)$`, 'iu').exec(utterance);
+  if (navigate) {
+    const destination = tidy(navigate[1]);
+    const named = namedScreens(phrases).find(([names]) => isPhrase(destination, names));
+    if (named) return { type: 'openMode', mode: named[1] };
+    if (destination) return { type: 'navigate', destination };
+  }
+
+  // Most specific first: "repeat" before "stop", and the modes after the
+  // short control words so "stop navigation" stops rather than opens Maps.
+  if (containsPhrase(utterance, phrases.repeat)) return { type: 'repeat' };
+  if (containsPhrase(utterance, phrases.stop)) return { type: 'stop' };
+  if (containsPhrase(utterance, phrases.home)) return { type: 'openMode', mode: AppMode.HOME };
+  const screen = namedScreens(phrases).find(([names]) => containsPhrase(utterance, names));
+  if (screen) return { type: 'openMode', mode: screen[1] };
+  // Last, as the shortest and vaguest
+  const choice = chooseOption(utterance, phrases.choices);
+  return choice >= 0 ? { type: 'choose', index: choice } : null;
+};
+
+
+export type VoiceCommandState = 'idle' | 'listening' | 'awaitingCommand' | 'error';
+
+export interface VoiceCommandControllerOptions {
+  recognizer: SpeechRecognizer;
+  // Read on every utterance so a language change applies immediately.
+  getPhrases: () => CommandPhrases;
+  getLang: () => string;
+  onIntent: (intent: VoiceIntent, utterance: string) => void;
+  // A command was expected but nothing matched.
+  onUnrecognized?: (utterance: string) => void;
+  onStateChange?: (state: VoiceCommandState) => void;
+  onError?: (error: unknown) => void;
+  // How long to wait for the command after the wake phrase is said alone.
+  commandTimeoutMs?: number;
+}
+
+// Runs a recognizer in one of two ways: one command per long-press, or
+// always-on listening where only utterances starting with the wake phrase
+// count.
+export class VoiceCommandController {
+  private state: VoiceCommandState = 'idle';
+  private wakeListening = false;
+  private pushToTalk = false;
+  // Identifies the current recognition run; callbacks from older runs, which
+  // can arrive after stop(), are ignored.
+  private runId = 0;
+  private commandTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly commandTimeoutMs: number;
+
+  constructor(private readonly options: VoiceCommandControllerOptions) {
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 5000;
+  }
+
+  getState(): VoiceCommandState {
+    return this.state;
+  }
+
+  get isSupported(): boolean {
+    return this.options.recognizer.isSupported;
+  }
+
+  // Push-to-talk: the next utterance is taken as a command, no wake phrase needed.
+  listenOnce(): void {
+    if (!this.isSupported) return;
+    this.halt();
+    this.pushToTalk = true;
+    this.begin(false);
+    this.setState('awaitingCommand');
+  }
+
+  setWakeListening(enabled: boolean): void {
+    if (enabled === this.wakeListening) return;
+    this.wakeListening = enabled;
+    if (this.pushToTalk) return; // Picked up once the current command is done.
+    if (enabled) {
+      this.resume();
+    } else {
+      this.halt();
+      this.setState('idle');
+    }
+  }
+
+  stop(): void {
+    this.wakeListening = false;
+    this.pushToTalk = false;
+    this.halt();
+    this.setState('idle');
+  }
+
+  private begin(continuous: boolean): void {
+    if (!this.isSupported) return;
+    const id = ++this.runId;
+    this.options.recognizer.start({ lang: this.options.getLang(), continuous }, {
+      onResult: (text) => {
+        if (id === this.runId) this.handleUtterance(text);
+      },
+      onError: (error) => {
+        if (id !== this.runId) return;
+        this.options.onError?.(error);
+        this.wakeListening = false;
+        this.pushToTalk = false;
+        this.halt();
+        this.setState('error');
+      },
+      onEnd: () => {
+        if (id === this.runId) this.handleEnd();
+      },
+    });
+  }
+
+  private halt(): void {
+    this.runId++;
+    this.clearCommandTimer();
+    this.options.recognizer.stop();
+  }
+
+  // Back to always-on listening if enabled, otherwise idle.
+  private resume(): void {
+    if (this.wakeListening && this.isSupported) {
+      this.begin(true);
+      this.setState('listening');
+    } else {
+      this.setState('idle');
+    }
+  }
+
+  private handleUtterance(text: string): void {
+    const phrases = this.options.getPhrases();
+    let command: string | null = text;
+    if (this.state === 'listening') {
+      command = stripWakePhrase(text, phrases);
+      if (command === null) return; // Ordinary speech, not meant for us.
+      if (command === '') {
+        this.awaitCommand();
+        return;
+      }
+    }
+    this.clearCommandTimer();
+    if (this.pushToTalk) {
+      this.pushToTalk = false;
+      this.halt();
+      this.resume();
+    } else {
+      this.setState('listening');
+    }
+
+    const intent = parseIntent(command, phrases);
+    if (intent) {
+      this.options.onIntent(intent, command);
+    } else {
+      this.options.onUnrecognized?.(command);
+    }
+  }
+
+  // The wake phrase was said on its own; take the next utterance as the command.
+  private awaitCommand(): void {
+    this.setState('awaitingCommand');
+    this.clearCommandTimer();
+    this.commandTimer = setTimeout(() => {
+      this.commandTimer = null;
+      if (this.state === 'awaitingCommand') this.setState('listening');
+    }, this.commandTimeoutMs);
+  }
+
+  private handleEnd(): void {
+    if (this.pushToTalk) {
+      // Ended without hearing a command.
+      this.pushToTalk = false;
+      this.clearCommandTimer();
+      this.resume();
+    } else if (this.wakeListening) {
+      // Continuous recognition still stops now and then (silence, network);
+      // keep listening for as long as it's enabled.
+      this.begin(true);
+    } else {
+      this.setState('idle');
+    }
+  }
+
+  private clearCommandTimer(): void {
+    if (this.commandTimer !== null) {
+      clearTimeout(this.commandTimer);
+      this.commandTimer = null;
+    }
+  }
+
+  private setState(state: VoiceCommandState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
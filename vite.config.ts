@@ -1,18 +1,33 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import autoprefixer from 'autoprefixer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The AI proxy (npm run proxy) holds the Gemini key; the app only ever
+    // talks to it, through these routes when served by Vite. The client's
+    // address goes along in X-Forwarded-For for the per-IP limits, read when
+    // the proxy runs with AI_PROXY_TRUST_FORWARDED_FOR=1.
+    const aiProxy = `http://localhost:${env.AI_PROXY_PORT || 8787}`;
+    const proxy = {
+      '/ai': { target: aiProxy, ws: true, xfwd: true },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      css: {
+        postcss: {
+          plugins: [tailwindcss(), autoprefixer()],
+        },
       },
       resolve: {
         alias: {